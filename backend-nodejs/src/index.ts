@@ -10,7 +10,14 @@ import { Neo4jService } from "./services/Neo4jService.js";
 import { ArangoService } from "./services/ArangoService.js";
 import { MemgraphService } from "./services/MemgraphService.js";
 import { MssqlService } from "./services/MssqlService.js";
+import { MemoryService } from "./services/MemoryService.js";
+import { SqliteService } from "./services/SqliteService.js";
 import { GraphDatabaseService } from "./services/GraphDatabaseService.js";
+import { GraphVersionService } from "./services/GraphVersionService.js";
+import { RawQueryParser } from "./services/RawQueryParser.js";
+import { QUERY_CANCELLED, QueryRegistry } from "./services/QueryRegistry.js";
+import { GraphImportService } from "./services/GraphImportService.js";
+import { EngineMetrics } from "./services/EngineMetrics.js";
 import { graphRoutes } from "./routes/graphRoutes.js";
 import { createDatabaseRoutes } from "./routes/databaseRoutes.js";
 import { cmdbRoutes } from "./routes/cmdbRoutes.js";
@@ -23,7 +30,7 @@ const app = express();
 
 // Middleware
 app.use(cors({
-  exposedHeaders: ['X-Cache', 'X-Response-Time', 'X-Parallel-Queries', 'X-Content-Length-Raw', 'Content-Length', 'X-Engine'],
+  exposedHeaders: ['X-Cache', 'X-Response-Time', 'X-Parallel-Queries', 'X-Content-Length-Raw', 'Content-Length', 'X-Engine', 'ETag', 'X-Total-Count', 'X-Next-Cursor', 'Content-Disposition'],
 }));
 // Gzip compression — skipped if client sends ?nocompress=true (for benchmarking)
 app.use(compression({
@@ -36,6 +43,21 @@ app.use(compression({
 app.use(express.json({ limit: "50mb" }));
 app.use(pinoHttp({ logger }));
 
+// Latence par route déclarée et moteur (histogramme de GET /metrics)
+const metrics = new EngineMetrics();
+app.use((req, res, next) => {
+  const t0 = process.hrtime.bigint();
+  res.on("finish", () => {
+    metrics.observeRequest({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      engine: (req as any).dbService?.engineName ?? "none",
+      status: String(res.statusCode),
+    }, Number(process.hrtime.bigint() - t0) / 1e9);
+  });
+  next();
+});
+
 // ===== Initialize database engines =====
 
 const engines: Record<string, GraphDatabaseService> = {};
@@ -46,6 +68,7 @@ if (process.env.NEO4J_URI) {
     process.env.NEO4J_URI,
     process.env.NEO4J_USER!,
     process.env.NEO4J_PASSWORD!,
+    process.env.NEO4J_NATIVE_TYPES === "true",
   );
   await neo4jService.initialize();
   engines.neo4j = neo4jService;
@@ -54,7 +77,10 @@ if (process.env.NEO4J_URI) {
 
 // Initialize Memgraph (if configured)
 if (process.env.MEMGRAPH_URI) {
-  const memgraphService = new MemgraphService(process.env.MEMGRAPH_URI);
+  const memgraphService = new MemgraphService(
+    process.env.MEMGRAPH_URI,
+    process.env.MEMGRAPH_NATIVE_TYPES === "true",
+  );
   await memgraphService.initialize();
   engines.memgraph = memgraphService;
 
@@ -82,6 +108,7 @@ if (process.env.ARANGO_URL) {
     process.env.ARANGO_USER || "root",
     process.env.ARANGO_PASSWORD || "",
     process.env.ARANGO_DATABASE || "_system",
+    process.env.ARANGO_TYPED_EDGES === "true",
   );
   await arangoService.initialize();
   engines.arangodb = arangoService;
@@ -96,21 +123,52 @@ if (process.env.MSSQL_HOST) {
     process.env.MSSQL_USER || "sa",
     process.env.MSSQL_PASSWORD || "",
     process.env.MSSQL_DATABASE || "graph_db",
+    process.env.MSSQL_READONLY_USER
+      ? { user: process.env.MSSQL_READONLY_USER, password: process.env.MSSQL_READONLY_PASSWORD || "" }
+      : undefined,
   );
   await mssqlService.initialize();
   engines.mssql = mssqlService;
   logger.info("MSSQL engine initialized");
 }
 
+// Initialize SQLite (if configured) — un fichier .sqlite par database
+if (process.env.SQLITE_DATA_DIR) {
+  const sqliteService = new SqliteService(
+    process.env.SQLITE_DATA_DIR,
+    process.env.SQLITE_DATABASE || "graph_db",
+  );
+  await sqliteService.initialize();
+  engines.sqlite = sqliteService;
+  logger.info("SQLite engine initialized");
+}
+
+// Initialize in-memory engine (if enabled) — aucun serveur requis (dev local / CI)
+if (process.env.MEMORY_ENGINE === "true") {
+  const memoryService = new MemoryService(
+    process.env.MEMORY_DATABASE || "memory",
+    process.env.MEMORY_SNAPSHOT_PATH || undefined,
+  );
+  await memoryService.initialize();
+  engines.memory = memoryService;
+  logger.info("In-memory engine initialized");
+}
+
 // Determine default engine
 const defaultEngine = process.env.DEFAULT_ENGINE ||
-  (engines.neo4j ? "neo4j" : engines.memgraph ? "memgraph" : engines.mssql ? "mssql" : "arangodb");
+  (engines.neo4j ? "neo4j" : engines.memgraph ? "memgraph" : engines.mssql ? "mssql" : engines.arangodb ? "arangodb" : engines.sqlite ? "sqlite" : "memory");
 
 if (Object.keys(engines).length === 0) {
-  logger.error("No database engine configured! Set NEO4J_URI and/or ARANGO_URL in .env");
+  logger.error("No database engine configured! Set NEO4J_URI, ARANGO_URL, MSSQL_HOST, MEMGRAPH_URI, SQLITE_DATA_DIR or MEMORY_ENGINE=true in .env");
   process.exit(1);
 }
 
+/** Requêtes brutes, algorithmes et benchmarks en cours (GET /api/queries/running) */
+const queryRegistry = new QueryRegistry();
+
+/** Imports en flux (POST /api/graphs/import), conservés pour la reprise */
+const graphImports = new GraphImportService();
+
 /** Middleware : résoudre le service selon ?engine=neo4j|arangodb */
 function resolveEngine(req: express.Request, _res: express.Response, next: express.NextFunction) {
   const engineParam = (req.query.engine as string) || defaultEngine;
@@ -128,7 +186,7 @@ function resolveEngine(req: express.Request, _res: express.Response, next: expre
 // Les routes utilisent ?engine=neo4j ou ?engine=arangodb
 app.use("/api", resolveEngine, (req, res, next) => {
   const service: GraphDatabaseService = (req as any).dbService;
-  graphRoutes(service, broadcast)(req, res, next);
+  graphRoutes(service, broadcast, engines, queryRegistry, graphImports)(req, res, next);
 });
 
 app.use("/api/databases", resolveEngine, (req, res, next) => {
@@ -139,7 +197,7 @@ app.use("/api/databases", resolveEngine, (req, res, next) => {
 // ===== Algorithm routes =====
 app.use("/api", resolveEngine, (req, res, next) => {
   const service: GraphDatabaseService = (req as any).dbService;
-  algorithmRoutes(service)(req, res, next);
+  algorithmRoutes(service, queryRegistry)(req, res, next);
 });
 
 // ===== CMDB Import route =====
@@ -152,41 +210,68 @@ if (process.env.MSSQL_HOST && engines.mssql) {
       user: process.env.MSSQL_USER || "sa",
       password: process.env.MSSQL_PASSWORD || "",
     },
-    mssqlService.createGraph.bind(mssqlService),
+    // createGraph + version 1, comme POST /graphs : chaque import CMDB a son historique
+    async (graphId, title, description, graphType, nodes, edges, database) => {
+      const graph = await mssqlService.createGraph(graphId, title, description, graphType, nodes, edges, database);
+      await new GraphVersionService(mssqlService)
+        .record(graphId, "created", database)
+        .catch((err) => logger.error({ err, graphId }, "Failed to record CMDB graph version"));
+      return graph;
+    },
     broadcast,
   ));
   logger.info("CMDB import route registered at POST /api/cmdb/import");
 }
 
 // ===== Raw query execution endpoint =====
-// POST /api/query — execute raw SQL (MSSQL), Cypher (Neo4j/Memgraph), or AQL (ArangoDB)
+// POST /api/query — execute raw SQL (MSSQL/SQLite), Cypher (Neo4j/Memgraph), or AQL (ArangoDB)
+// Body : { query, params?, readOnly? (true par défaut), timeoutMs?, maxRows? } — voir RawQueryParser
+// En-tête X-Query-Id (optionnel) : identifiant pour DELETE /api/queries/:id pendant l'exécution
 app.post("/api/query", resolveEngine, async (req, res, next) => {
   try {
     const service: GraphDatabaseService = (req as any).dbService;
-    const { query } = req.body as { query?: string };
     const database = req.query.database as string | undefined;
-
-    if (!query || typeof query !== "string" || query.trim().length === 0) {
-      return res.status(400).json({ error: "Missing 'query' in request body" });
-    }
+    const { query, options } = RawQueryParser.parse(req.body);
 
     if (!service.executeRawQuery) {
       return res.status(501).json({ error: `Engine '${service.engineName}' does not support raw queries` });
     }
 
-    const result = await service.executeRawQuery(query.trim(), database);
+    const result = await queryRegistry.run(
+      { kind: "query", engine: service.engineName, database, description: query, caller: req.ip ?? "unknown" },
+      (signal) => service.executeRawQuery!(query, { ...options, signal }, database),
+      req.get("X-Query-Id"),
+    );
     res.setHeader("X-Response-Time", `${result.elapsed_ms}ms`);
     res.setHeader("X-Engine", service.engineName);
     res.json(result);
   } catch (error: any) {
     // Return the DB error message for debugging
-    res.status(400).json({
-      error: error.message || "Query execution failed",
+    const message: string = error.message || "Query execution failed";
+    const status = message.startsWith("Read-only query") ? 403
+      : message.startsWith("Query timed out") ? 408
+      : message === QUERY_CANCELLED ? 409
+      : 400;
+    res.status(status).json({
+      error: message,
       engine: ((req as any).dbService as GraphDatabaseService)?.engineName,
     });
   }
 });
 
+// GET /api/queries/running — requêtes brutes, algorithmes et benchmarks en cours (tous moteurs)
+app.get("/api/queries/running", (_req, res) => {
+  res.json({ queries: queryRegistry.list() });
+});
+
+// DELETE /api/queries/:id — annule une exécution en cours (la requête annulée répond 409)
+app.delete("/api/queries/:id", (req, res) => {
+  if (!queryRegistry.cancel(req.params.id)) {
+    return res.status(404).json({ error: `Query '${req.params.id}' not found` });
+  }
+  res.status(202).json({ id: req.params.id, cancelled: true });
+});
+
 // Health check — liste les moteurs disponibles
 app.get("/api/health", (req, res) => {
   res.json({
@@ -205,6 +290,29 @@ app.get("/api/engines", (req, res) => {
   });
 });
 
+// GET /api/engines/status — sonde de chaque moteur : latence, version, pool de connexions
+app.get("/api/engines/status", async (_req, res, next) => {
+  try {
+    res.json({
+      default: defaultEngine,
+      checked_at: new Date().toISOString(),
+      engines: await EngineMetrics.probeAll(engines),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /metrics — format texte Prometheus (latences HTTP, cache, sondes des moteurs)
+app.get("/metrics", async (_req, res, next) => {
+  try {
+    const statuses = await EngineMetrics.probeAll(engines);
+    res.type("text/plain; version=0.0.4").send(metrics.render(engines, statuses));
+  } catch (error) {
+    next(error);
+  }
+});
+
 logger.info("Skipping example graphs creation for faster startup");
 
 // Error handler
@@ -14,6 +14,12 @@ export interface GraphEdge {
   properties: Record<string, any>;
 }
 
+/** Champs modifiables d'un nœud (PATCH). `properties` remplace l'objet entier. */
+export type GraphNodeUpdate = Partial<Pick<GraphNode, "label" | "node_type" | "properties">>;
+
+/** Champs modifiables d'une arête (PATCH). `properties` remplace l'objet entier. */
+export type GraphEdgeUpdate = Partial<Pick<GraphEdge, "label" | "edge_type" | "properties">>;
+
 export interface Graph {
   id: string;
   title: string;
@@ -22,6 +28,43 @@ export interface Graph {
   node_count: number;
   edge_count: number;
   created_at: string;
+  /** Tags libres (filtre ?tag=) */
+  tags: string[];
+  /** Dossier "a/b/c" (filtre ?folder=), null = racine */
+  folder: string | null;
+}
+
+/** Corps de PATCH /graphs/:id : champs absents conservés, folder null → racine */
+export interface GraphMetadataUpdate {
+  title?: string;
+  description?: string;
+  graph_type?: string;
+  tags?: string[];
+  folder?: string | null;
+}
+
+/** Filtres de GET /graphs */
+export interface GraphListFilter {
+  /** Graphes portant ce tag */
+  tag?: string;
+  /** Dossier et ses sous-dossiers ; null = graphes à la racine uniquement */
+  folder?: string | null;
+  graph_type?: string;
+  /** Bornes incluses sur node_count */
+  min_nodes?: number;
+  max_nodes?: number;
+}
+
+export type GraphListSort = "created_at" | "node_count" | "title";
+
+/** Tri et page de GET /graphs (pagination par curseur : clé de tri puis id) */
+export interface GraphListPage {
+  sort: GraphListSort;
+  order: "asc" | "desc";
+  /** Absent = tous les graphes */
+  limit?: number;
+  /** Graphes situés après celui-ci dans l'ordre du tri (value null : title absent, MSSQL) */
+  after?: { value: string | number | null; id: string };
 }
 
 export interface GraphData {
@@ -29,6 +72,61 @@ export interface GraphData {
   edges: GraphEdge[];
 }
 
+/**
+ * Métadonnées d'une version (snapshot numéroté) d'un graphe.
+ * Stockées à côté du Graph : table/collection `graph_versions` ou nœuds `:GraphVersion`.
+ */
+export interface GraphVersion {
+  graph_id: string;
+  /** Numéro croissant, 1 = création */
+  version: number;
+  created_at: string;
+  /** Écriture ayant produit la version : "created", "nodes:added", "rollback:v3"… */
+  change: string;
+  node_count: number;
+  edge_count: number;
+}
+
+/** Version complète : métadonnées + contenu du graphe à cet instant */
+export interface GraphVersionData extends GraphVersion {
+  data: GraphData;
+}
+
+/** Nœud présent des deux côtés mais dont label, node_type ou properties diffèrent */
+export interface GraphNodeChange {
+  id: string;
+  fields: Array<"label" | "node_type" | "properties">;
+  before: GraphNode;
+  after: GraphNode;
+}
+
+/**
+ * Différence structurelle `against` → graphe courant.
+ * Nœuds appariés par `id` ; arêtes par (source, target, edge_type), leurs ids
+ * n'étant pas stables d'un import ou d'un moteur à l'autre.
+ */
+export interface GraphDiff {
+  graph_id: string;
+  against: { graph_id: string; version?: number };
+  nodes: {
+    added: GraphNode[];
+    removed: GraphNode[];
+    changed: GraphNodeChange[];
+  };
+  edges: {
+    added: GraphEdge[];
+    removed: GraphEdge[];
+  };
+  summary: {
+    nodes_added: number;
+    nodes_removed: number;
+    nodes_changed: number;
+    nodes_unchanged: number;
+    edges_added: number;
+    edges_removed: number;
+  };
+}
+
 export interface GraphStats {
   node_count: number;
   edge_count: number;
@@ -43,17 +141,198 @@ export interface GraphSummary {
   graph_type: string;
   node_count: number;
   edge_count: number;
+  created_at: string;
+  tags: string[];
+  folder: string | null;
+}
+
+/** Formats texte acceptés par POST /graphs (champ format + content) */
+export type GraphImportFormat = "mermaid" | "graphml" | "gexf" | "dot";
+
+/** Formats de GET /graphs/:id/export?format= */
+export type GraphExportFormat = "graphml" | "gexf" | "mermaid" | "dot";
+
+/** Positions de mise en page par id de nœud (nodePositionCache du frontend) */
+export type NodePositions = Record<string, { x: number; y: number }>;
+
+/** Options de lecture de POST /graphs { format, content } */
+export interface GraphImportOptions {
+  /** Attributs DOT donnant node_type / edge_type, dans l'ordre */
+  typeAttributes?: string[];
+}
+
+/** Graphe lu depuis un fichier d'échange (GraphML, GEXF, DOT) */
+export interface ParsedGraphDocument extends GraphData {
+  /** Positions présentes dans le fichier (vide si aucune) */
+  positions: NodePositions;
+  title?: string;
+  description?: string;
+  graph_type?: string;
+}
+
+/** Graphe à écrire dans un fichier d'échange */
+export interface GraphExportDocument {
+  graph: Pick<Graph, "id" | "title" | "description" | "graph_type">;
+  data: GraphData;
+  /** Positions connues du client ; nœuds sans position écrits sans coordonnées */
+  positions?: NodePositions;
 }
 
 export interface CreateGraphRequest {
   title: string;
   description: string;
   graph_type: string;
+  tags?: string[];
+  folder?: string | null;
   // Option A — parsing Mermaid
   mermaid_code?: string;
   // Option B — nœuds/arêtes fournis directement (grands graphes)
   nodes?: Array<{ id: string; label: string; node_type: string; properties?: Record<string, any> }>;
   edges?: Array<{ source: string; target: string; label?: string; edge_type: string; properties?: Record<string, any> }>;
+  // Option C — fichier d'échange ; title / description du fichier utilisés si absents
+  format?: GraphImportFormat;
+  content?: string;
+  // DOT : attribut(s) lu(s) pour node_type / edge_type (défaut : class, puis shape)
+  type_attribute?: string;
+}
+
+/** Opérateurs des prédicats de propriétés (POST /graphs/:id/subgraph) */
+export type PropertyOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "contains";
+
+/** Prédicat sur une propriété scalaire : `properties.cout > 1000` */
+export interface PropertyPredicate {
+  property: string;
+  op: PropertyOperator;
+  value: string | number | boolean;
+}
+
+/**
+ * Filtre d'extraction de sous-graphe induit : nœuds retenus par node_types + where,
+ * arêtes entre deux nœuds retenus, filtrées par edge_types + edge_where. Conditions en ET.
+ */
+export interface SubgraphFilter {
+  node_types?: string[];
+  edge_types?: string[];
+  where?: PropertyPredicate[];
+  edge_where?: PropertyPredicate[];
+}
+
+/**
+ * Résultat de recherche (GET /graphs/:id/search, GET /search).
+ * Le score dépend du moteur (BM25, RANK plein texte ou paliers de repli) :
+ * il ne sert qu'à ordonner les résultats d'une même réponse.
+ */
+export interface SearchHit {
+  graph_id: string;
+  node: GraphNode;
+  score: number;
+}
+
+/**
+ * Options d'exécution de POST /api/query, validées par RawQueryParser.
+ */
+export interface RawQueryOptions {
+  /** Paramètres liés ($nom en Cypher, @nom en SQL Server / AQL, @nom ou :nom en SQLite) */
+  params: Record<string, any>;
+  /** Délai maximal : au-delà, la requête est annulée côté moteur */
+  timeoutMs: number;
+  /** Nombre maximal de lignes retournées (truncated = true au-delà) */
+  maxRows: number;
+  /** Lecture seule (défaut) : toute écriture est refusée par le moteur */
+  readOnly: boolean;
+  /** Annulation (DELETE /api/queries/:id) : le moteur interrompt la requête */
+  signal?: AbortSignal;
+}
+
+/**
+ * Résultat de POST /api/query.
+ */
+export interface RawQueryResult {
+  rows: Record<string, any>[];
+  elapsed_ms: number;
+  /** Lignes retournées (≤ maxRows) */
+  rowCount: number;
+  engine: string;
+  /** Résultat coupé à maxRows lignes */
+  truncated: boolean;
+  /** Nombre total de lignes, quand le moteur le connaît (Neo4j/Memgraph, ArangoDB) */
+  totalRows?: number;
+  readOnly: boolean;
+}
+
+/**
+ * Exécution en cours, listée par GET /api/queries/running (QueryRegistry).
+ */
+export interface RunningQuery {
+  id: string;
+  kind: "query" | "algorithm" | "benchmark";
+  engine: string;
+  database?: string;
+  /** Texte de la requête (tronqué), algorithme ou graphe mesuré */
+  description: string;
+  /** Adresse IP de l'appelant */
+  caller: string;
+  started_at: string;
+  elapsed_ms: number;
+  /** Annulation demandée, en attente de l'arrêt effectif */
+  cancelled: boolean;
+}
+
+/**
+ * Import en flux (POST /graphs/import), suivi par GET /graphs/import/:importId.
+ * nodes / edges = enregistrements du flux déjà écrits, dans l'ordre du flux :
+ * une reprise (?resume=<id>) saute ces enregistrements.
+ */
+export interface GraphImport {
+  id: string;
+  engine: string;
+  database?: string;
+  graphId: string;
+  status: "running" | "failed" | "done";
+  nodes: number;
+  /** Arêtes lues et traitées, ignorées comprises */
+  edges: number;
+  /** Arêtes ignorées (extrémité absente) */
+  skippedEdges: number;
+  error?: string;
+  started_at: string;
+  updated_at: string;
+}
+
+/** Migration de schéma enregistrée dans la database (table / collection schema_migrations) */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+  duration_ms: number;
+}
+
+/** Résultat de migrate() : version du schéma et migrations appliquées par cet appel */
+export interface MigrationReport {
+  engine: string;
+  database: string;
+  /** Version avant l'appel (0 : database jamais migrée) */
+  from: number;
+  /** Version après l'appel = dernière migration connue du serveur */
+  version: number;
+  applied: AppliedMigration[];
+}
+
+/**
+ * Sonde d'un moteur (GET /api/engines/status, gauges de /metrics).
+ */
+export interface EngineStatus {
+  engine: string;
+  reachable: boolean;
+  /** Aller-retour d'une requête triviale (RETURN 1, SELECT 1…), null si injoignable */
+  latency_ms: number | null;
+  version: string | null;
+  /**
+   * Connexions du driver : open = en cours + libres, pending = demandes en attente d'une connexion.
+   * null si le moteur n'a pas de pool (mémoire).
+   */
+  pool: { open: number; idle: number; pending: number; max: number | null } | null;
+  error?: string;
 }
 
 /**
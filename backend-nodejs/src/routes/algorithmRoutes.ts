@@ -1,14 +1,29 @@
 import { Router } from "express";
 import { GraphDatabaseService } from "../services/GraphDatabaseService.js";
 import { AlgorithmService, AlgorithmResult } from "../services/AlgorithmService.js";
+import { QUERY_CANCELLED, QueryRegistry } from "../services/QueryRegistry.js";
+
+/**
+ * Attend `work`, mais rejette dès l'annulation : la réponse 409 part aussitôt,
+ * la lecture en cours se termine en arrière-plan et son résultat est ignoré.
+ */
+function untilAborted<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
 
 /**
  * Routes pour exécuter des algorithmes de graphe côté serveur.
  * Le graphe est chargé via le service DB, puis traité en mémoire par AlgorithmService.
  *
  * POST /graphs/:id/algorithms  { algorithm, sourceNode?, targetNode?, depth?, iterations?, damping?, threshold?, sampleSize? }
+ * Chaque exécution est listée dans GET /api/queries/running (QueryRegistry).
  */
-export function algorithmRoutes(service: GraphDatabaseService) {
+export function algorithmRoutes(service: GraphDatabaseService, queries: QueryRegistry) {
   const router = Router();
 
   const ALGORITHMS = [
@@ -65,85 +80,94 @@ export function algorithmRoutes(service: GraphDatabaseService) {
         });
       }
 
-      // Charger le graphe depuis la BDD
-      const graphData = await service.getGraph(graphId, database, true); // bypass cache pour avoir les données fraîches
-
-      if (!graphData || graphData.nodes.length === 0) {
-        return res.status(404).json({ error: `Graph '${graphId}' not found or empty` });
-      }
-
-      let result: AlgorithmResult;
-
-      switch (algorithm) {
-        case "bfs":
-          if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for BFS" });
-          result = AlgorithmService.bfs(graphData, sourceNode, depth);
-          break;
-
-        case "dfs":
-          if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for DFS" });
-          result = AlgorithmService.dfs(graphData, sourceNode, depth);
-          break;
-
-        case "bidirectional-bfs":
-          if (!sourceNode || !targetNode) return res.status(400).json({ error: "sourceNode and targetNode are required for bidirectional BFS" });
-          result = AlgorithmService.bidirectionalBfs(graphData, sourceNode, targetNode);
-          break;
-
-        case "dijkstra":
-          if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for Dijkstra" });
-          result = AlgorithmService.dijkstra(graphData, sourceNode, targetNode);
-          break;
-
-        case "degree-centrality":
-          result = AlgorithmService.degreeCentrality(graphData);
-          break;
-
-        case "betweenness-centrality":
-          result = AlgorithmService.betweennessCentrality(graphData, sampleSize);
-          break;
-
-        case "closeness-centrality":
-          result = AlgorithmService.closenessCentrality(graphData);
-          break;
-
-        case "pagerank":
-          result = AlgorithmService.pageRank(graphData, iterations, damping);
-          break;
-
-        case "louvain":
-          result = AlgorithmService.louvain(graphData);
-          break;
-
-        case "label-propagation":
-          result = AlgorithmService.labelPropagation(graphData, iterations);
-          break;
-
-        case "connected-components":
-          result = AlgorithmService.connectedComponents(graphData);
-          break;
-
-        case "strongly-connected-components":
-          result = AlgorithmService.stronglyConnectedComponents(graphData);
-          break;
-
-        case "topological-sort":
-          result = AlgorithmService.topologicalSort(graphData);
-          break;
-
-        case "cascading-failure":
-          if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for cascading failure" });
-          result = AlgorithmService.cascadingFailure(graphData, sourceNode, threshold);
-          break;
-
-        default:
-          return res.status(400).json({ error: `Algorithm '${algorithm}' not implemented` });
-      }
-
-      res.setHeader("X-Response-Time", `${result.elapsed_ms}ms`);
-      res.setHeader("X-Engine", service.engineName);
-      res.json(result);
+      await queries.run(
+        { kind: "algorithm", engine: service.engineName, database, description: `${algorithm} on ${graphId}`, caller: req.ip ?? "unknown" },
+        async (signal) => {
+          // Charger le graphe depuis la BDD (bypass cache pour avoir les données fraîches).
+          // Seul le chargement est annulable : le calcul, synchrone, bloque la boucle d'événements
+          // et un DELETE /api/queries/:id n'est traité qu'une fois l'exécution terminée (→ 404)
+          const graphData = await untilAborted(service.getGraph(graphId, database, true), signal);
+
+          if (!graphData || graphData.nodes.length === 0) {
+            return res.status(404).json({ error: `Graph '${graphId}' not found or empty` });
+          }
+
+          let result: AlgorithmResult;
+
+          switch (algorithm) {
+            case "bfs":
+              if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for BFS" });
+              result = AlgorithmService.bfs(graphData, sourceNode, depth);
+              break;
+
+            case "dfs":
+              if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for DFS" });
+              result = AlgorithmService.dfs(graphData, sourceNode, depth);
+              break;
+
+            case "bidirectional-bfs":
+              if (!sourceNode || !targetNode) return res.status(400).json({ error: "sourceNode and targetNode are required for bidirectional BFS" });
+              result = AlgorithmService.bidirectionalBfs(graphData, sourceNode, targetNode);
+              break;
+
+            case "dijkstra":
+              if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for Dijkstra" });
+              result = AlgorithmService.dijkstra(graphData, sourceNode, targetNode);
+              break;
+
+            case "degree-centrality":
+              result = AlgorithmService.degreeCentrality(graphData);
+              break;
+
+            case "betweenness-centrality":
+              result = AlgorithmService.betweennessCentrality(graphData, sampleSize);
+              break;
+
+            case "closeness-centrality":
+              result = AlgorithmService.closenessCentrality(graphData);
+              break;
+
+            case "pagerank":
+              result = AlgorithmService.pageRank(graphData, iterations, damping);
+              break;
+
+            case "louvain":
+              result = AlgorithmService.louvain(graphData);
+              break;
+
+            case "label-propagation":
+              result = AlgorithmService.labelPropagation(graphData, iterations);
+              break;
+
+            case "connected-components":
+              result = AlgorithmService.connectedComponents(graphData);
+              break;
+
+            case "strongly-connected-components":
+              result = AlgorithmService.stronglyConnectedComponents(graphData);
+              break;
+
+            case "topological-sort":
+              result = AlgorithmService.topologicalSort(graphData);
+              break;
+
+            case "cascading-failure":
+              if (!sourceNode) return res.status(400).json({ error: "sourceNode is required for cascading failure" });
+              result = AlgorithmService.cascadingFailure(graphData, sourceNode, threshold);
+              break;
+
+            default:
+              return res.status(400).json({ error: `Algorithm '${algorithm}' not implemented` });
+          }
+
+          res.setHeader("X-Response-Time", `${result.elapsed_ms}ms`);
+          res.setHeader("X-Engine", service.engineName);
+          res.json(result);
+        },
+        req.get("X-Query-Id"),
+      );
     } catch (error) {
+      if ((error as Error).message === QUERY_CANCELLED) return res.status(409).json({ error: QUERY_CANCELLED });
       next(error);
     }
   });
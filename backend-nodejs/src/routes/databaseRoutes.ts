@@ -64,5 +64,19 @@ export function createDatabaseRoutes(service: GraphDatabaseService) {
     }
   });
 
+  // Appliquer les migrations de schéma en attente (idempotent : rien à faire → applied: [])
+  router.post("/:name/migrate", async (req: Request, res: Response) => {
+    try {
+      if (!service.migrate) {
+        return res.status(501).json({ error: `Engine '${service.engineName}' has no schema migrations` });
+      }
+      const report = await service.migrate(req.params.name);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error migrating database:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   return router;
 }
@@ -1,45 +1,327 @@
-import { Router } from "express";
+import { createHash } from "crypto";
+import { once } from "events";
+import { Request, Response, Router } from "express";
 import { GraphDatabaseService } from "../services/GraphDatabaseService.js";
 import { MermaidParser } from "../services/MermaidParser.js";
-import { CreateGraphRequest } from "../models/graph.js";
+import { GraphVersionService } from "../services/GraphVersionService.js";
+import { GraphDiffService } from "../services/GraphDiffService.js";
+import { GraphCopyService } from "../services/GraphCopyService.js";
+import { GraphStreamService } from "../services/GraphStreamService.js";
+import { GRAPH_BINARY_MIME, GraphBinaryCodec } from "../services/GraphBinaryCodec.js";
+import { SubgraphFilterParser } from "../services/SubgraphFilterParser.js";
+import { SEARCH_LIMIT_DEFAULT, SEARCH_LIMIT_MAX } from "../services/NodeSearch.js";
+import { QUERY_CANCELLED, QueryRegistry } from "../services/QueryRegistry.js";
+import { GraphImportService } from "../services/GraphImportService.js";
+import { GraphMetadata } from "../services/GraphMetadata.js";
+import { GraphListQuery } from "../services/GraphListQuery.js";
+import { GRAPH_EXPORT_FORMATS, GRAPH_IMPORT_FORMATS } from "../services/GraphFormats.js";
+import {
+  CreateGraphRequest,
+  GraphData,
+  GraphDiff,
+  GraphEdge,
+  GraphEdgeUpdate,
+  GraphExportFormat,
+  GraphImport,
+  GraphImportFormat,
+  GraphNode,
+  GraphNodeUpdate,
+  NodePositions,
+  ParsedGraphDocument,
+  SubgraphFilter,
+} from "../models/graph.js";
 
-export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Record<string, any>) => void) {
+/** Statut HTTP des erreurs "métier" levées par les services (null → 500 via next()) */
+function writeErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null;
+  if (error.message.includes("not found")) return 404;
+  if (error.message.includes("already exist")) return 409;
+  return null;
+}
+
+/** Pagination ?offset/?limit des nœuds et arêtes */
+const PAGE_LIMIT_DEFAULT = 1000;
+const PAGE_LIMIT_MAX = 10000;
+
+/** Lit ?offset / ?limit ; null si une valeur n'est pas un entier positif */
+function parsePage(query: Record<string, any>): { offset: number; limit: number } | null {
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  const limit = query.limit === undefined ? PAGE_LIMIT_DEFAULT : Number(query.limit);
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) return null;
+  return { offset, limit: Math.min(limit, PAGE_LIMIT_MAX) };
+}
+
+/** Lit ?q / ?limit de la recherche ; null si q est vide ou limit n'est pas un entier >= 1 */
+function parseSearch(query: Record<string, any>): { q: string; limit: number } | null {
+  const q = typeof query.q === "string" ? query.q.trim() : "";
+  const limit = query.limit === undefined ? SEARCH_LIMIT_DEFAULT : Number(query.limit);
+  if (!q || !Number.isInteger(limit) || limit < 1) return null;
+  return { q, limit: Math.min(limit, SEARCH_LIMIT_MAX) };
+}
+
+export function graphRoutes(
+  service: GraphDatabaseService,
+  broadcast?: (msg: Record<string, any>) => void,
+  /** Tous les moteurs actifs (copie inter-moteurs) */
+  engines: Record<string, GraphDatabaseService> = {},
+  /** Exécutions en cours (benchmarks), partagées avec /api/query et les algorithmes */
+  queries: QueryRegistry = new QueryRegistry(),
+  /** Imports en flux, partagés entre requêtes (reprise via ?resume=<importId>) */
+  imports: GraphImportService = new GraphImportService(),
+) {
   const router = Router();
+  const versions = new GraphVersionService(service);
+
+  /**
+   * Snapshot de version après une écriture. L'écriture est déjà appliquée :
+   * un échec du snapshot est journalisé sans faire échouer la requête.
+   */
+  const recordVersion = async (graphId: string, database: string | undefined, change: string) => {
+    try {
+      return (await versions.record(graphId, change, database)).version;
+    } catch (err) {
+      console.error(`Failed to record version of graph '${graphId}' (${change}):`, err);
+      return undefined;
+    }
+  };
+
+  /** Version + broadcast WebSocket après une écriture incrémentale sur un graphe */
+  const notifyUpdated = async (graphId: string, database: string | undefined, change: string, count = 1) => {
+    const version = await recordVersion(graphId, database, change);
+    broadcast?.({
+      type: "graph:updated",
+      graphId,
+      change,
+      count,
+      version,
+      engine: service.engineName,
+      database,
+    });
+  };
 
-  // List all graphs
+  /** Recherche de nœuds (graphId absent : toute la database) → { query, hits, elapsed_ms, engine } */
+  const searchNodes = async (req: Request, res: Response, graphId?: string) => {
+    const database = req.query.database as string | undefined;
+    const search = parseSearch(req.query);
+    if (!search) {
+      return res.status(400).json({ error: "Missing 'q' query parameter (and 'limit' must be an integer >= 1)" });
+    }
+    if (graphId && !(await service.getGraphMetadata(graphId, database))) {
+      return res.status(404).json({ error: `Graph '${graphId}' not found` });
+    }
+    const t0 = Date.now();
+    const hits = await service.searchNodes(search.q, graphId, search.limit, database);
+    const elapsed = Date.now() - t0;
+    res.setHeader("X-Response-Time", `${elapsed}ms`);
+    res.setHeader("X-Engine", service.engineName);
+    res.json({ query: search.q, hits, elapsed_ms: elapsed, engine: service.engineName });
+  };
+
+  // List graphs — ?tag=prod (tag exact), ?folder=infra/reseau (dossier et sous-dossiers), ?folder=/ (racine),
+  // ?graph_type=, ?min_nodes=&max_nodes=, ?sort=created_at|node_count|title&order=asc|desc, ?limit=&cursor=
+  // En-têtes : X-Total-Count (graphes du filtre), X-Next-Cursor (absent sur la dernière page)
   router.get("/graphs", async (req, res, next) => {
     try {
       const database = req.query.database as string | undefined;
-      const graphs = await service.listGraphs(database);
+      const { filter, page } = GraphListQuery.parse(req.query);
+
+      // Un graphe de plus que la page : indique s'il reste une page suivante
+      const [graphs, total] = await Promise.all([
+        service.listGraphs(database, filter, page.limit === undefined ? page : { ...page, limit: page.limit + 1 }),
+        service.countGraphs(database, filter),
+      ]);
+      if (page.limit !== undefined && graphs.length > page.limit) {
+        graphs.length = page.limit;
+        res.setHeader("X-Next-Cursor", GraphListQuery.cursor(graphs[graphs.length - 1], page));
+      }
+      res.setHeader("X-Total-Count", total.toString());
       res.json(graphs);
+    } catch (error) {
+      if (error instanceof Error && /^Invalid (metadata|list query)/.test(error.message)) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // GET /search?q=srv&limit=20 — recherche dans tous les graphes de la database
+  // Correspondances sur node_id, label et properties.nom / nDeCI / categorie, triées par score
+  router.get("/search", async (req, res, next) => {
+    try {
+      await searchNodes(req, res);
     } catch (error) {
       next(error);
     }
   });
 
+  // POST /graphs/import — import en flux, body NDJSON (application/x-ndjson) ou multipart/form-data
+  // (parties fichier NDJSON, dans l'ordre). Lignes : {"type":"graph",...}, {"type":"nodes",...}, {"type":"edges",...}
+  // ?resume=<importId> : reprend un import échoué en sautant les enregistrements déjà écrits
+  // Progression : événements WebSocket graph:import après chaque lot
+  router.post("/graphs/import", async (req, res) => {
+    const database = req.query.database as string | undefined;
+    const resumeId = req.query.resume as string | undefined;
+    const contentType = req.get("Content-Type") ?? "";
+    let lines: AsyncIterable<string>;
+    if (contentType.startsWith("multipart/form-data")) {
+      lines = GraphImportService.multipartLines(req.headers, req);
+    } else if (contentType.startsWith("application/x-ndjson")) {
+      lines = GraphImportService.ndjsonLines(req);
+    } else {
+      return res.status(415).json({ error: "Expected application/x-ndjson or multipart/form-data body" });
+    }
+
+    const t0 = Date.now();
+    let entry: GraphImport | undefined;
+    try {
+      entry = imports.begin(service.engineName, database, resumeId);
+      const resumed = entry.graphId !== "";
+      const result = await imports.run(entry, service, lines, (progress) => {
+        broadcast?.({ type: "graph:import", ...progress, engine: service.engineName, database });
+      });
+      await recordVersion(result.graphId, database, resumed ? "import resumed" : "imported");
+
+      const graph = await service.getGraphMetadata(result.graphId, database);
+      broadcast?.({
+        type: "graph:created",
+        graphId: result.graphId,
+        title: graph?.title,
+        engine: service.engineName,
+        database,
+      });
+      res.status(201).json({ import: result, graph, resumed, elapsed_ms: Date.now() - t0 });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      let status = writeErrorStatus(error);
+      if (message.startsWith("Invalid import")) status = 400;
+      else if (/is still running|already completed/.test(message)) status = 409;
+      if (!status) console.error("Graph import failed:", error);
+      // L'état de l'import (importId, enregistrements écrits) permet la reprise
+      res.status(status ?? 500).json({ error: message, import: entry && imports.get(entry.id) });
+    }
+  });
+
+  // GET /graphs/import/:importId — état d'un import (running | failed | done)
+  router.get("/graphs/import/:importId", (req, res) => {
+    const entry = imports.get(req.params.importId);
+    if (!entry) {
+      return res.status(404).json({ error: `Import '${req.params.importId}' not found` });
+    }
+    res.json(entry);
+  });
+
   // Get a specific graph
+  // ?stream=ndjson (ou Accept: application/x-ndjson) : flux NDJSON lu par pages dans le moteur
+  // Accept: application/vnd.graph.columnar : encodage binaire (GraphBinaryCodec)
+  // ETag = hash du contenu encodé ; If-None-Match identique → 304 sans corps
   router.get("/graphs/:id", async (req, res, next) => {
     try {
       const database = req.query.database as string | undefined;
+      if (req.query.stream === "ndjson" || req.get("Accept")?.includes("application/x-ndjson")) {
+        return await streamGraph(req.params.id, database, req, res);
+      }
       const bypassCache = req.query.nocache === "true";
       const t0 = Date.now();
 
       // Vérifier le cache avant la requête pour savoir si c'est un HIT
-      const cacheKey = `graph:${database || "neo4j"}:${req.params.id}`;
-      const isHit = !bypassCache && (service as any).graphCache?.has(cacheKey);
+      const isHit = !bypassCache && service.isGraphCached(req.params.id, database);
 
       const graphData = await service.getGraph(req.params.id, database, bypassCache);
 
       const elapsed = Date.now() - t0;
-      const jsonStr = JSON.stringify(graphData);
-      const rawBytes = Buffer.byteLength(jsonStr, 'utf8');
+      // Négociation : JSON par défaut, binaire colonnaire si Accept le préfère
+      const binary = req.accepts(["application/json", GRAPH_BINARY_MIME]) === GRAPH_BINARY_MIME;
+      const body = binary ? GraphBinaryCodec.encode(graphData) : JSON.stringify(graphData);
+      const rawBytes = Buffer.byteLength(body);
       res.setHeader("X-Cache", bypassCache ? "BYPASS" : isHit ? "HIT" : "MISS");
       res.setHeader("X-Response-Time", `${elapsed}ms`);
       res.setHeader("X-Parallel-Queries", "true");
       res.setHeader("X-Content-Length-Raw", rawBytes.toString());
       res.setHeader("X-Engine", service.engineName);
-      res.setHeader("Content-Type", "application/json");
-      res.send(jsonStr);
+      res.setHeader("Content-Type", binary ? GRAPH_BINARY_MIME : "application/json");
+      res.vary("Accept");
+      // Faible : la même représentation peut être transférée gzippée ou non
+      res.setHeader("ETag", `W/"${createHash("sha1").update(body).digest("base64url")}"`);
+      res.setHeader("Cache-Control", "no-cache");
+      if (req.fresh) return res.status(304).end();
+      res.send(body);
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  /**
+   * Écrit le graphe en NDJSON, une page par ligne (voir GraphStreamChunk).
+   * Respecte la contre-pression de la socket et s'arrête si le client se déconnecte.
+   * Une erreur après l'envoi des en-têtes est signalée par une ligne {"type":"error"}.
+   */
+  const streamGraph = async (graphId: string, database: string | undefined, req: Request, res: Response) => {
+    const chunks = GraphStreamService.chunks(service, graphId, database);
+    // Premier chunk (métadonnées) avant les en-têtes : un graphe absent reste un 404
+    const first = await chunks.next();
+
+    let closed = false;
+    req.on("close", () => { closed = true; });
+
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("X-Cache", "BYPASS");
+    res.setHeader("X-Engine", service.engineName);
+    try {
+      for (let chunk = first; !chunk.done && !closed; chunk = await chunks.next()) {
+        if (!res.write(JSON.stringify(chunk.value) + "\n")) {
+          // Le listener perdant est retiré (abort), sinon ils s'accumulent à chaque attente
+          const waiting = new AbortController();
+          await Promise.race([
+            once(res, "drain", { signal: waiting.signal }),
+            once(res, "close", { signal: waiting.signal }),
+          ]).finally(() => waiting.abort());
+        }
+        (res as any).flush?.(); // compression : envoyer le chunk sans attendre la fin
+      }
+    } catch (err) {
+      console.error(`Graph stream '${graphId}' failed:`, err);
+      res.write(JSON.stringify({ type: "error", error: (err as Error).message }) + "\n");
+    } finally {
+      await chunks.return(undefined);
+      res.end();
+    }
+  };
+
+  // GET /graphs/:id/nodes?offset=0&limit=1000 — nœuds paginés (ordre stable)
+  router.get("/graphs/:id/nodes", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const page = parsePage(req.query);
+      if (!page) {
+        return res.status(400).json({ error: "'offset' and 'limit' must be non-negative integers (limit >= 1)" });
+      }
+      const graph = await service.getGraphMetadata(req.params.id, database);
+      if (!graph) {
+        return res.status(404).json({ error: `Graph '${req.params.id}' not found` });
+      }
+      const nodes = await service.getGraphNodesPage(req.params.id, page.offset, page.limit, database);
+      res.json({ ...page, total: graph.node_count, nodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /graphs/:id/edges?offset=0&limit=1000 — arêtes paginées (ordre stable)
+  router.get("/graphs/:id/edges", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const page = parsePage(req.query);
+      if (!page) {
+        return res.status(400).json({ error: "'offset' and 'limit' must be non-negative integers (limit >= 1)" });
+      }
+      const graph = await service.getGraphMetadata(req.params.id, database);
+      if (!graph) {
+        return res.status(404).json({ error: `Graph '${req.params.id}' not found` });
+      }
+      const edges = await service.getGraphEdgesPage(req.params.id, page.offset, page.limit, database);
+      res.json({ ...page, total: graph.edge_count, edges });
     } catch (error) {
       next(error);
     }
@@ -113,6 +395,43 @@ export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Rec
     }
   });
 
+  // Sous-graphe induit — POST /graphs/:id/subgraph
+  // Body: { node_types?, edge_types?, where?, edge_where? }
+  // where / edge_where : ["properties.statutDuCI = 'En production'", "properties.cout > 1000"]
+  //                      ou [{ property, op, value }] — conditions en ET, traduites par chaque moteur.
+  router.post("/graphs/:id/subgraph", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      let filter: SubgraphFilter;
+      try {
+        filter = SubgraphFilterParser.parse(req.body);
+      } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+      }
+      if (!(await service.getGraphMetadata(req.params.id, database))) {
+        return res.status(404).json({ error: `Graph '${req.params.id}' not found` });
+      }
+
+      const t0 = Date.now();
+      const subgraph = await service.getSubgraph(req.params.id, filter, database);
+      const elapsed = Date.now() - t0;
+      res.setHeader("X-Response-Time", `${elapsed}ms`);
+      res.setHeader("X-Engine", service.engineName);
+      res.json({ ...subgraph, filter, elapsed_ms: elapsed, engine: service.engineName });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /graphs/:id/search?q=srv&limit=20 — recherche dans un graphe
+  router.get("/graphs/:id/search", async (req, res, next) => {
+    try {
+      await searchNodes(req, res, req.params.id);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Benchmark: compare SQL vs Cache vs JSON timing
   // GET /graphs/:id/benchmark — runs SQL + cache queries and returns timings
   router.get("/graphs/:id/benchmark", async (req, res, next) => {
@@ -120,77 +439,87 @@ export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Rec
       const database = req.query.database as string | undefined;
       const iterations = Math.min(parseInt(req.query.iterations as string) || 3, 10);
 
-      // 1. Warm up the cache first
-      await service.getGraph(req.params.id, database, false);
+      // Listé dans GET /api/queries/running ; annulation vérifiée entre deux itérations
+      await queries.run(
+        { kind: "benchmark", engine: service.engineName, database, description: `benchmark ${req.params.id}`, caller: req.ip ?? "unknown" },
+        async (signal) => {
+          // 1. Warm up the cache first
+          await service.getGraph(req.params.id, database, false);
 
-      // 2. Measure SQL direct (bypass cache) — multiple iterations
-      const sqlTimes: number[] = [];
-      let graphData: any = null;
-      for (let i = 0; i < iterations; i++) {
-        const t0 = performance.now();
-        graphData = await service.getGraph(req.params.id, database, true); // nocache
-        sqlTimes.push(Math.round((performance.now() - t0) * 100) / 100);
-      }
+          // 2. Measure SQL direct (bypass cache) — multiple iterations
+          const sqlTimes: number[] = [];
+          let graphData: any = null;
+          for (let i = 0; i < iterations; i++) {
+            signal.throwIfAborted();
+            const t0 = performance.now();
+            graphData = await service.getGraph(req.params.id, database, true); // nocache
+            sqlTimes.push(Math.round((performance.now() - t0) * 100) / 100);
+          }
 
-      // 3. Measure Cache HIT — multiple iterations
-      const cacheTimes: number[] = [];
-      for (let i = 0; i < iterations; i++) {
-        const t0 = performance.now();
-        await service.getGraph(req.params.id, database, false); // with cache
-        cacheTimes.push(Math.round((performance.now() - t0) * 100) / 100);
-      }
+          // 3. Measure Cache HIT — multiple iterations
+          const cacheTimes: number[] = [];
+          for (let i = 0; i < iterations; i++) {
+            signal.throwIfAborted();
+            const t0 = performance.now();
+            await service.getGraph(req.params.id, database, false); // with cache
+            cacheTimes.push(Math.round((performance.now() - t0) * 100) / 100);
+          }
 
-      // 4. Measure JSON serialization/deserialization
-      const jsonStr = JSON.stringify(graphData);
-      const jsonTimes: number[] = [];
-      for (let i = 0; i < iterations; i++) {
-        const t0 = performance.now();
-        JSON.parse(jsonStr);
-        jsonTimes.push(Math.round((performance.now() - t0) * 100) / 100);
-      }
+          // 4. Measure JSON serialization/deserialization
+          const jsonStr = JSON.stringify(graphData);
+          const jsonTimes: number[] = [];
+          for (let i = 0; i < iterations; i++) {
+            const t0 = performance.now();
+            JSON.parse(jsonStr);
+            jsonTimes.push(Math.round((performance.now() - t0) * 100) / 100);
+          }
 
-      const avg = (arr: number[]) => Math.round(arr.reduce((a, b) => a + b, 0) / arr.length * 100) / 100;
-      const min = (arr: number[]) => Math.min(...arr);
-      const max = (arr: number[]) => Math.max(...arr);
+          const avg = (arr: number[]) => Math.round(arr.reduce((a, b) => a + b, 0) / arr.length * 100) / 100;
+          const min = (arr: number[]) => Math.min(...arr);
+          const max = (arr: number[]) => Math.max(...arr);
 
-      const jsonSizeBytes = Buffer.byteLength(jsonStr, 'utf8');
+          const jsonSizeBytes = Buffer.byteLength(jsonStr, 'utf8');
 
-      res.json({
-        graphId: req.params.id,
-        engine: service.engineName,
-        database: database || 'default',
-        iterations,
-        nodeCount: graphData.nodes?.length || 0,
-        edgeCount: graphData.edges?.length || 0,
-        jsonSizeBytes,
-        jsonSizeKB: Math.round(jsonSizeBytes / 1024 * 10) / 10,
-        sql: {
-          times: sqlTimes,
-          avg: avg(sqlTimes),
-          min: min(sqlTimes),
-          max: max(sqlTimes),
-          label: 'Requête SQL directe (bypass cache)',
-        },
-        cache: {
-          times: cacheTimes,
-          avg: avg(cacheTimes),
-          min: min(cacheTimes),
-          max: max(cacheTimes),
-          label: 'Cache NodeCache (mémoire serveur)',
-        },
-        json: {
-          times: jsonTimes,
-          avg: avg(jsonTimes),
-          min: min(jsonTimes),
-          max: max(jsonTimes),
-          label: 'JSON parse (désérialisation)',
+          res.json({
+            graphId: req.params.id,
+            engine: service.engineName,
+            database: database || 'default',
+            iterations,
+            nodeCount: graphData.nodes?.length || 0,
+            edgeCount: graphData.edges?.length || 0,
+            jsonSizeBytes,
+            jsonSizeKB: Math.round(jsonSizeBytes / 1024 * 10) / 10,
+            sql: {
+              times: sqlTimes,
+              avg: avg(sqlTimes),
+              min: min(sqlTimes),
+              max: max(sqlTimes),
+              label: 'Requête SQL directe (bypass cache)',
+            },
+            cache: {
+              times: cacheTimes,
+              avg: avg(cacheTimes),
+              min: min(cacheTimes),
+              max: max(cacheTimes),
+              label: 'Cache serveur (GraphCache)',
+            },
+            json: {
+              times: jsonTimes,
+              avg: avg(jsonTimes),
+              min: min(jsonTimes),
+              max: max(jsonTimes),
+              label: 'JSON parse (désérialisation)',
+            },
+            speedup: {
+              cacheVsSql: Math.round(avg(sqlTimes) / Math.max(avg(cacheTimes), 0.01) * 10) / 10,
+              jsonVsSql: Math.round(avg(sqlTimes) / Math.max(avg(jsonTimes), 0.01) * 10) / 10,
+            },
+          });
         },
-        speedup: {
-          cacheVsSql: Math.round(avg(sqlTimes) / Math.max(avg(cacheTimes), 0.01) * 10) / 10,
-          jsonVsSql: Math.round(avg(sqlTimes) / Math.max(avg(jsonTimes), 0.01) * 10) / 10,
-        },
-      });
+        req.get("X-Query-Id"),
+      );
     } catch (error) {
+      if ((error as Error).message === QUERY_CANCELLED) return res.status(409).json({ error: QUERY_CANCELLED });
       next(error);
     }
   });
@@ -201,22 +530,54 @@ export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Rec
       const body = req.body as CreateGraphRequest;
       const database = req.query.database as string | undefined;
 
+      // Fichier d'échange (format + content) : lu avant la validation, il peut fournir title / description
+      let parsed: ParsedGraphDocument | undefined;
+      if (body.format !== undefined || body.content !== undefined) {
+        const read = GRAPH_IMPORT_FORMATS[body.format as GraphImportFormat];
+        if (!Object.hasOwn(GRAPH_IMPORT_FORMATS, body.format ?? "")) {
+          return res.status(400).json({
+            error: `Unsupported format '${body.format}' (expected ${Object.keys(GRAPH_IMPORT_FORMATS).join(", ")})`,
+          });
+        }
+        if (typeof body.content !== "string" || !body.content.trim()) {
+          return res.status(400).json({ error: `Missing content for format '${body.format}'` });
+        }
+        // type_attribute : "shape" ou liste ordonnée "class,shape"
+        const typeAttributes = typeof body.type_attribute === "string"
+          ? body.type_attribute.split(",").map((a) => a.trim()).filter(Boolean)
+          : undefined;
+        if (body.type_attribute !== undefined && !typeAttributes?.length) {
+          return res.status(400).json({ error: "'type_attribute' must be a non-empty attribute name or comma-separated list" });
+        }
+        try {
+          parsed = read(body.content, { typeAttributes });
+        } catch (err) {
+          return res.status(400).json({ error: (err as Error).message });
+        }
+      }
+      const title = body.title || parsed?.title;
+      const description = body.description || parsed?.description;
+
       // Validate input
-      if (!body.title || !body.description) {
+      if (!title || !description) {
         return res.status(400).json({
           error: "Missing required fields: title, description",
         });
       }
-      if (!body.mermaid_code && (!body.nodes || body.nodes.length === 0)) {
+      const tags = body.tags === undefined ? [] : GraphMetadata.tags(body.tags);
+      const folder = GraphMetadata.folder(body.folder);
+      if (!parsed && !body.mermaid_code && (!body.nodes || body.nodes.length === 0)) {
         return res.status(400).json({
-          error: "Provide either mermaid_code or a non-empty nodes array",
+          error: "Provide mermaid_code, a non-empty nodes array, or format and content",
         });
       }
 
-      // Parse Mermaid code OR utiliser les nœuds/arêtes fournis directement
+      // Fichier d'échange, code Mermaid OU nœuds/arêtes fournis directement
       let nodes: import('../models/graph.js').GraphNode[];
       let edges: import('../models/graph.js').GraphEdge[];
-      if (body.nodes) {
+      if (parsed) {
+        ({ nodes, edges } = parsed);
+      } else if (body.nodes) {
         nodes = body.nodes.map(n => ({
           id: n.id,
           label: n.label,
@@ -238,34 +599,117 @@ export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Rec
       const graphId = `graph_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       // Create graph in database
-      const graph = await service.createGraph(
+      let graph = await service.createGraph(
         graphId,
-        body.title,
-        body.description,
-        body.graph_type || "flowchart",
+        title,
+        description,
+        body.graph_type || parsed?.graph_type || "flowchart",
         nodes,
         edges,
         database,
       );
+      if (tags.length > 0 || folder) {
+        graph = (await service.updateGraphMetadata(graphId, { tags, folder }, database)) ?? graph;
+      }
+      await recordVersion(graphId, database, "created");
 
       // Broadcast WebSocket event
       broadcast?.({
         type: "graph:created",
         graphId,
-        title: body.title,
+        title,
         engine: service.engineName,
         database,
       });
 
-      res.status(201).json(graph);
+      // Positions lues dans le fichier : le client les reprend comme mise en page initiale
+      const positions = parsed && Object.keys(parsed.positions).length > 0 ? parsed.positions : undefined;
+      res.status(201).json(positions ? { ...graph, positions } : graph);
+    } catch (error) {
+      if (error instanceof Error && /^Invalid (mermaid|metadata)/.test(error.message)) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // PATCH /graphs/:id — Body: { title?, description?, graph_type?, tags?, folder? }
+  // Métadonnées seules : pas de snapshot de version (nœuds et arêtes inchangés)
+  router.patch("/graphs/:id", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const update = GraphMetadata.parseUpdate(req.body);
+
+      const graph = await service.updateGraphMetadata(req.params.id, update, database);
+      if (!graph) {
+        return res.status(404).json({ error: `Graph '${req.params.id}' not found` });
+      }
+
+      broadcast?.({
+        type: "graph:updated",
+        graphId: req.params.id,
+        change: "metadata",
+        engine: service.engineName,
+        database,
+      });
+      res.json(graph);
     } catch (error) {
-      if (error instanceof Error && error.message.includes("No nodes found")) {
+      if (error instanceof Error && error.message.startsWith("Invalid metadata")) {
         return res.status(400).json({ error: error.message });
       }
       next(error);
     }
   });
 
+  /**
+   * Fichier d'échange d'un graphe (attachement). Les positions, connues du seul client
+   * (nodePositionCache), sont facultatives : nœuds sans position écrits sans coordonnées.
+   */
+  const exportGraph = async (req: Request, res: Response, positions: NodePositions) => {
+    const database = req.query.database as string | undefined;
+    const formatName = (req.query.format as string | undefined) ?? "graphml";
+    if (!Object.hasOwn(GRAPH_EXPORT_FORMATS, formatName)) {
+      return res.status(400).json({
+        error: `Unsupported format '${formatName}' (expected ${Object.keys(GRAPH_EXPORT_FORMATS).join(", ")})`,
+      });
+    }
+    const format = GRAPH_EXPORT_FORMATS[formatName as GraphExportFormat];
+
+    const graph = await service.getGraphMetadata(req.params.id, database);
+    if (!graph) {
+      return res.status(404).json({ error: `Graph '${req.params.id}' not found` });
+    }
+    const data = await service.getGraph(req.params.id, database);
+    const body = format.encode({ graph, data, positions });
+
+    res.setHeader("X-Engine", service.engineName);
+    res.attachment(`${graph.title.replace(/[^\w.-]+/g, "_") || graph.id}.${format.extension}`);
+    res.type(format.mime);
+    res.send(body);
+  };
+
+  // GET /graphs/:id/export?format=graphml|gexf|mermaid — fichier pour Gephi / yEd, flowchart pour les docs
+  router.get("/graphs/:id/export", async (req, res, next) => {
+    try {
+      await exportGraph(req, res, {});
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /graphs/:id/export?format=graphml|gexf|mermaid — Body: { positions: { [nodeId]: { x, y } } }
+  router.post("/graphs/:id/export", async (req, res, next) => {
+    try {
+      const positions: NodePositions = {};
+      for (const [nodeId, p] of Object.entries((req.body?.positions ?? {}) as Record<string, any>)) {
+        if (Number.isFinite(p?.x) && Number.isFinite(p?.y)) positions[nodeId] = { x: p.x, y: p.y };
+      }
+      await exportGraph(req, res, positions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Delete a graph (+ invalider le cache)
   router.delete("/graphs/:id", async (req, res, next) => {
     try {
@@ -287,6 +731,317 @@ export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Rec
     }
   });
 
+  // --- Nœuds / arêtes (écritures incrémentales) ---
+
+  // POST /graphs/:id/nodes — Body: { nodes: [{ id, label, node_type, properties? }] }
+  router.post("/graphs/:id/nodes", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const { nodes } = req.body as { nodes?: Array<Partial<GraphNode>> };
+      if (!Array.isArray(nodes) || nodes.length === 0) {
+        return res.status(400).json({ error: "Provide a non-empty nodes array" });
+      }
+      if (nodes.some(n => !n.id || !n.label || !n.node_type)) {
+        return res.status(400).json({ error: "Each node requires id, label and node_type" });
+      }
+
+      const added = await service.addNodes(
+        req.params.id,
+        nodes.map(n => ({
+          id: n.id!,
+          label: n.label!,
+          node_type: n.node_type!,
+          properties: n.properties ?? {},
+        })),
+        database,
+      );
+
+      await notifyUpdated(req.params.id, database, "nodes:added", added.length);
+      res.status(201).json({ nodes: added });
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // PATCH /graphs/:id/nodes/:nodeId — Body: { label?, node_type?, properties? }
+  router.patch("/graphs/:id/nodes/:nodeId", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const { label, node_type, properties } = req.body as GraphNodeUpdate;
+      if (label === undefined && node_type === undefined && properties === undefined) {
+        return res.status(400).json({ error: "Provide at least one of label, node_type, properties" });
+      }
+
+      const node = await service.updateNode(req.params.id, req.params.nodeId, { label, node_type, properties }, database);
+      if (!node) {
+        return res.status(404).json({ error: `Node '${req.params.nodeId}' not found` });
+      }
+
+      await notifyUpdated(req.params.id, database, "node:updated");
+      res.json(node);
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // DELETE /graphs/:id/nodes/:nodeId — supprime aussi les arêtes du nœud
+  router.delete("/graphs/:id/nodes/:nodeId", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const deleted = await service.deleteNode(req.params.id, req.params.nodeId, database);
+      if (!deleted) {
+        return res.status(404).json({ error: `Node '${req.params.nodeId}' not found` });
+      }
+
+      await notifyUpdated(req.params.id, database, "node:deleted");
+      res.status(204).send();
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // POST /graphs/:id/edges — Body: { edges: [{ source, target, edge_type, label?, properties? }] }
+  // Les arêtes dont la source ou la cible n'existe pas sont ignorées (compteur `skipped`).
+  router.post("/graphs/:id/edges", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const { edges } = req.body as { edges?: Array<Partial<GraphEdge>> };
+      if (!Array.isArray(edges) || edges.length === 0) {
+        return res.status(400).json({ error: "Provide a non-empty edges array" });
+      }
+      if (edges.some(e => !e.source || !e.target || !e.edge_type)) {
+        return res.status(400).json({ error: "Each edge requires source, target and edge_type" });
+      }
+
+      const added = await service.addEdges(
+        req.params.id,
+        edges.map(e => ({
+          source: e.source!,
+          target: e.target!,
+          label: e.label ?? e.edge_type,
+          edge_type: e.edge_type!,
+          properties: e.properties ?? {},
+        })),
+        database,
+      );
+
+      await notifyUpdated(req.params.id, database, "edges:added", added.length);
+      res.status(201).json({ edges: added, skipped: edges.length - added.length });
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // PATCH /graphs/:id/edges/:edgeId — Body: { label?, edge_type?, properties? }
+  router.patch("/graphs/:id/edges/:edgeId", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const { label, edge_type, properties } = req.body as GraphEdgeUpdate;
+      if (label === undefined && edge_type === undefined && properties === undefined) {
+        return res.status(400).json({ error: "Provide at least one of label, edge_type, properties" });
+      }
+
+      const edge = await service.updateEdge(req.params.id, req.params.edgeId, { label, edge_type, properties }, database);
+      if (!edge) {
+        return res.status(404).json({ error: `Edge '${req.params.edgeId}' not found` });
+      }
+
+      await notifyUpdated(req.params.id, database, "edge:updated");
+      res.json(edge);
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // DELETE /graphs/:id/edges/:edgeId
+  router.delete("/graphs/:id/edges/:edgeId", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const deleted = await service.deleteEdge(req.params.id, req.params.edgeId, database);
+      if (!deleted) {
+        return res.status(404).json({ error: `Edge '${req.params.edgeId}' not found` });
+      }
+
+      await notifyUpdated(req.params.id, database, "edge:deleted");
+      res.status(204).send();
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // --- Versions (snapshots numérotés à chaque écriture) ---
+
+  // GET /graphs/:id/versions — métadonnées, de la plus récente à la plus ancienne
+  router.get("/graphs/:id/versions", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      res.json(await versions.list(req.params.id, database));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /graphs/:id/versions/:version — contenu complet d'une version
+  router.get("/graphs/:id/versions/:version", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const version = parseInt(req.params.version, 10);
+      if (Number.isNaN(version)) {
+        return res.status(400).json({ error: "version must be an integer" });
+      }
+
+      const found = await versions.get(req.params.id, version, database);
+      if (!found) {
+        return res.status(404).json({ error: `Version ${version} of graph '${req.params.id}' not found` });
+      }
+      res.json(found);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /graphs/:id/versions/:version/rollback — restaure la version (crée une nouvelle version)
+  router.post("/graphs/:id/versions/:version/rollback", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const version = parseInt(req.params.version, 10);
+      if (Number.isNaN(version)) {
+        return res.status(400).json({ error: "version must be an integer" });
+      }
+
+      const created = await versions.rollback(req.params.id, version, database);
+      broadcast?.({
+        type: "graph:updated",
+        graphId: req.params.id,
+        change: created.change,
+        count: created.node_count,
+        version: created.version,
+        engine: service.engineName,
+        database,
+      });
+      res.json(created);
+    } catch (error) {
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
+  // --- Diff ---
+
+  // GET /graphs/:id/diff?against=<otherGraphId|version>
+  // `against` numérique (ou "v3") → version du même graphe, sinon id d'un autre graphe de la même database.
+  router.get("/graphs/:id/diff", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const against = (req.query.against as string | undefined)?.trim();
+      if (!against) {
+        return res.status(400).json({ error: "Missing required query parameter: against" });
+      }
+
+      if (!(await service.getGraphMetadata(req.params.id, database))) {
+        return res.status(404).json({ error: `Graph '${req.params.id}' not found` });
+      }
+
+      let base: GraphData;
+      let reference: GraphDiff["against"];
+      const versionMatch = /^v?(\d+)$/.exec(against);
+      if (versionMatch) {
+        const version = parseInt(versionMatch[1], 10);
+        const found = await versions.get(req.params.id, version, database);
+        if (!found) {
+          return res.status(404).json({ error: `Version ${version} of graph '${req.params.id}' not found` });
+        }
+        base = found.data;
+        reference = { graph_id: req.params.id, version };
+      } else {
+        if (!(await service.getGraphMetadata(against, database))) {
+          return res.status(404).json({ error: `Graph '${against}' not found` });
+        }
+        base = await service.getGraph(against, database);
+        reference = { graph_id: against };
+      }
+
+      const current = await service.getGraph(req.params.id, database);
+      const diff: GraphDiff = {
+        graph_id: req.params.id,
+        against: reference,
+        ...GraphDiffService.compare(base, current),
+      };
+      res.json(diff);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // --- Copie inter-moteurs ---
+
+  // POST /graphs/:id/copy — Body: { targetEngine?, targetDatabase? }
+  // Source = ?engine / ?database. Progression diffusée en "graph:copy" sur /ws.
+  router.post("/graphs/:id/copy", async (req, res, next) => {
+    try {
+      const database = req.query.database as string | undefined;
+      const { targetEngine, targetDatabase } = req.body as { targetEngine?: string; targetDatabase?: string };
+      const target = targetEngine ? engines[targetEngine] : service;
+      if (!target) {
+        return res.status(400).json({
+          error: `Unknown target engine '${targetEngine}'. Available: ${Object.keys(engines).join(", ")}`,
+        });
+      }
+      if (target === service && (targetDatabase || undefined) === database) {
+        return res.status(400).json({ error: "Target engine/database must differ from the source" });
+      }
+
+      const graphId = req.params.id;
+      const progress = {
+        graphId,
+        sourceEngine: service.engineName,
+        sourceDatabase: database,
+        targetEngine: target.engineName,
+        targetDatabase,
+      };
+      const result = await GraphCopyService.copy(
+        service,
+        target,
+        graphId,
+        { sourceDatabase: database, targetDatabase },
+        (p) => broadcast?.({ type: "graph:copy", ...progress, ...p }),
+      );
+
+      try {
+        await new GraphVersionService(target).record(graphId, "copied", targetDatabase);
+      } catch (err) {
+        console.error(`Failed to record version of graph '${graphId}' (copied):`, err);
+      }
+      broadcast?.({
+        type: "graph:created",
+        graphId,
+        title: result.graph.title,
+        engine: target.engineName,
+        database: targetDatabase,
+      });
+
+      res.status(201).json({ ...progress, ...result });
+    } catch (error) {
+      broadcast?.({ type: "graph:copy", graphId: req.params.id, phase: "error", error: (error as Error).message });
+      const status = writeErrorStatus(error);
+      if (status) return res.status(status).json({ error: (error as Error).message });
+      next(error);
+    }
+  });
+
   // --- Cache management ---
 
   // GET /optim/cache/stats
@@ -302,11 +1057,14 @@ export function graphRoutes(service: GraphDatabaseService, broadcast?: (msg: Rec
 
   // GET /optim/status  — indique quelles optimisations sont actives
   router.get("/optim/status", (_req, res) => {
+    const { cache } = service.getCacheStats();
     res.json({
       gzip: true,          // toujours actif (middleware global)
       parallelQueries: true, // toujours actif dans getGraph
       inMemoryCache: true, // toujours actif sauf ?nocache=true
-      cacheTtlSeconds: 300,
+      cacheBackend: cache.backend,
+      cacheTtlSeconds: cache.ttlSeconds,
+      cacheMaxBytes: cache.maxBytes,
       bypassFlags: {
         cache: "?nocache=true",
         gzip: "Accept-Encoding: identity header",
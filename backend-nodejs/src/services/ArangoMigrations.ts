@@ -0,0 +1,111 @@
+import { Database, aql } from "arangojs";
+import { AppliedMigration } from "../models/graph.js";
+import { Migration, MigrationStore } from "./MigrationRunner.js";
+
+/** Collection de documents ou d'arêtes, sans erreur si elle existe déjà */
+async function ensureCollection(db: Database, name: string, edges = false): Promise<void> {
+  try {
+    if (edges) await db.createEdgeCollection(name);
+    else await db.createCollection(name);
+  } catch (err: any) {
+    // 1207 : nom déjà utilisé
+    if (err.errorNum !== 1207) throw err;
+  }
+}
+
+/** graph_edges et les collections typées graph_edges_<type> (ARANGO_TYPED_EDGES) */
+async function edgeCollectionNames(db: Database): Promise<string[]> {
+  return (await db.listCollections())
+    .filter((c) => c.type === 3 && (c.name === "graph_edges" || c.name.startsWith("graph_edges_")))
+    .map((c) => c.name);
+}
+
+/**
+ * Migrations du schéma ArangoDB (collections, index, données).
+ *
+ * ArangoDB n'a pas de DDL transactionnel : la version est enregistrée après up(),
+ * qui doit donc pouvoir être rejoué après un échec (ensureIndex et ensureCollection le sont).
+ */
+export const ARANGO_MIGRATIONS: Migration<Database>[] = [
+  {
+    version: 1,
+    name: "initial_collections",
+    async up(db) {
+      await ensureCollection(db, "graphs");
+      await ensureCollection(db, "graph_nodes");
+      await ensureCollection(db, "graph_edges", true);
+    },
+  },
+  {
+    // L'ancien createDatabase() ne créait pas les index
+    version: 2,
+    name: "graph_indexes",
+    async up(db) {
+      await db.collection("graphs").ensureIndex({ type: "persistent", fields: ["graph_id"], unique: true });
+      await db.collection("graph_nodes").ensureIndex({ type: "persistent", fields: ["graph_id", "node_id"], unique: true });
+      await db.collection("graph_nodes").ensureIndex({ type: "persistent", fields: ["graph_id"] });
+      for (const name of await edgeCollectionNames(db)) {
+        await db.collection(name).ensureIndex({ type: "persistent", fields: ["graph_id"] });
+      }
+    },
+  },
+  {
+    version: 3,
+    name: "graph_versions",
+    async up(db) {
+      await ensureCollection(db, "graph_versions");
+      await db.collection("graph_versions").ensureIndex({ type: "persistent", fields: ["graph_id", "version"], unique: true });
+    },
+  },
+  {
+    // Compteurs faussés par les imports antérieurs au recalcul incrémental (cf. fix-metadata.mjs)
+    version: 4,
+    name: "recount_graph_metadata",
+    async up(db) {
+      const edgeCounts: Record<string, number> = {};
+      for (const name of await edgeCollectionNames(db)) {
+        const cursor = await db.query(aql`
+          FOR e IN ${db.collection(name)}
+            COLLECT graphId = e.graph_id WITH COUNT INTO n
+            RETURN { graphId, n }
+        `);
+        for await (const { graphId, n } of cursor) {
+          edgeCounts[graphId] = (edgeCounts[graphId] ?? 0) + n;
+        }
+      }
+      await db.query(aql`
+        FOR g IN graphs
+          LET nodeCount = LENGTH(FOR n IN graph_nodes FILTER n.graph_id == g.graph_id RETURN 1)
+          UPDATE g WITH { node_count: nodeCount, edge_count: ${edgeCounts}[g.graph_id] || 0 } IN graphs
+      `);
+    },
+  },
+];
+
+/** Collection schema_migrations de la database (_key = version) */
+export class ArangoMigrationStore implements MigrationStore<Database> {
+  constructor(private db: Database) {}
+
+  async applied(): Promise<AppliedMigration[]> {
+    await ensureCollection(this.db, "schema_migrations");
+    const cursor = await this.db.query(aql`
+      FOR m IN schema_migrations
+        SORT m.version
+        RETURN { version: m.version, name: m.name, applied_at: m.applied_at, duration_ms: m.duration_ms }
+    `);
+    return cursor.all();
+  }
+
+  async apply(migration: Migration<Database>, startedAt: number): Promise<AppliedMigration> {
+    await migration.up(this.db);
+    const record: AppliedMigration = {
+      version: migration.version,
+      name: migration.name,
+      applied_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+    };
+    // _key unique : un second serveur qui appliquerait la même migration échoue ici
+    await this.db.collection("schema_migrations").save({ _key: String(record.version), ...record });
+    return record;
+  }
+}
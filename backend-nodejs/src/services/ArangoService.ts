@@ -1,15 +1,36 @@
+import { randomUUID } from "crypto";
 import { Database, aql } from "arangojs";
-import NodeCache from "node-cache";
+import { AqlLiteral, AqlQuery, join, literal } from "arangojs/aql";
 import {
   GraphNode,
   GraphEdge,
+  GraphNodeUpdate,
+  GraphEdgeUpdate,
+  GraphListFilter,
+  GraphListPage,
+  GraphMetadataUpdate,
+  EngineStatus,
   Graph,
   GraphData,
   GraphStats,
   GraphSummary,
+  GraphVersion,
+  GraphVersionData,
   ImpactResult,
+  MigrationReport,
+  PropertyPredicate,
+  RawQueryOptions,
+  RawQueryResult,
+  SearchHit,
+  SubgraphFilter,
 } from "../models/graph.js";
 import { GraphDatabaseService } from "./GraphDatabaseService.js";
+import { EngineGraphCache } from "./GraphCache.js";
+import { DEFAULT_GRAPH_LIST_PAGE } from "./GraphListQuery.js";
+import { NodeSearch, SEARCH_PROPERTIES } from "./NodeSearch.js";
+import { NUMERIC } from "./SubgraphFilterParser.js";
+import { MigrationRunner } from "./MigrationRunner.js";
+import { ARANGO_MIGRATIONS, ArangoMigrationStore } from "./ArangoMigrations.js";
 
 /**
  * Service ArangoDB — même API que Neo4jService pour comparaison.
@@ -18,6 +39,13 @@ import { GraphDatabaseService } from "./GraphDatabaseService.js";
  * - Collection de documents "graphs" (métadonnées des graphes)
  * - Collection de documents "graph_nodes" (nœuds)
  * - Collection d'arêtes "graph_edges" (relations)
+ *   ou, en mode typedEdges (ARANGO_TYPED_EDGES=true), une collection d'arêtes par edge_type :
+ *   "graph_edges_<type>" (créée à la première arête du type). edge_type reste dans le document ;
+ *   les lectures couvrent toutes les collections, graph_edges comprise (graphes antérieurs).
+ *   Les _key générées par le serveur servent d'id d'arête, uniques entre collections en mono-serveur.
+ * - Collection de documents "graph_versions" (snapshots numérotés)
+ * - Vue ArangoSearch "graph_nodes_search" (recherche plein texte sur les nœuds)
+ * - Collection "schema_migrations" (versions de schéma appliquées, ArangoMigrations.ts)
  *
  * ArangoDB utilise AQL (ArangoDB Query Language) au lieu de Cypher.
  */
@@ -30,11 +58,21 @@ export class ArangoService implements GraphDatabaseService {
   private username: string;
   private password: string;
 
-  // In-memory cache (TTL 5 minutes par défaut)
-  private graphCache = new NodeCache({ stdTTL: 300, checkperiod: 60 });
-  private cacheStats = { hits: 0, misses: 0, bypasses: 0 };
+  // Cache partagé des payloads getGraph (GRAPH_CACHE_*), clés graph:<engine>:<database>:<id>
+  private graphCache = new EngineGraphCache(() => this.engineName);
 
-  constructor(url: string, username: string, password: string, database: string = "_system") {
+  private migrations = new MigrationRunner(this.engineName, ARANGO_MIGRATIONS);
+
+  /** database → collections d'arêtes existantes (mode typedEdges) */
+  private edgeCollectionNames = new Map<string, string[]>();
+
+  constructor(
+    url: string,
+    username: string,
+    password: string,
+    database: string = "_system",
+    private typedEdges = false,
+  ) {
     this.url = url;
     this.username = username;
     this.password = password;
@@ -63,28 +101,18 @@ export class ArangoService implements GraphDatabaseService {
   // ===== Cache =====
 
   getCacheStats() {
-    const keys = this.graphCache.keys();
-    const nodeCache = this.graphCache.getStats();
-    return {
-      hits: this.cacheStats.hits,
-      misses: this.cacheStats.misses,
-      bypasses: this.cacheStats.bypasses,
-      cachedGraphs: keys.length,
-      keys,
-      nodeCache,
-    };
+    return this.graphCache.stats();
   }
 
   clearCache(graphId?: string, database?: string) {
     if (graphId) {
-      const key = `graph:${database || this.defaultDatabase}:${graphId}`;
-      this.graphCache.del(key);
-      return { cleared: [key] };
+      return { cleared: [this.graphCache.delete(database || this.defaultDatabase, graphId)] };
     }
-    const keys = this.graphCache.keys();
-    this.graphCache.flushAll();
-    this.cacheStats = { hits: 0, misses: 0, bypasses: 0 };
-    return { cleared: keys };
+    return { cleared: this.graphCache.clear() };
+  }
+
+  isGraphCached(graphId: string, database?: string): boolean {
+    return this.graphCache.has(database || this.defaultDatabase, graphId);
   }
 
   // ===== Initialisation =====
@@ -92,57 +120,9 @@ export class ArangoService implements GraphDatabaseService {
   async initialize(): Promise<void> {
     console.log("Initializing ArangoDB database...");
 
-    const db = this.getDb();
-
-    // Créer les collections si elles n'existent pas
-    const collections = await db.listCollections();
-    const collectionNames = collections.map((c: any) => c.name);
-
-    if (!collectionNames.includes("graphs")) {
-      await db.createCollection("graphs");
-      console.log("Created 'graphs' collection");
-    }
-
-    if (!collectionNames.includes("graph_nodes")) {
-      await db.createCollection("graph_nodes");
-      console.log("Created 'graph_nodes' collection");
-    }
-
-    if (!collectionNames.includes("graph_edges")) {
-      await db.createEdgeCollection("graph_edges");
-      console.log("Created 'graph_edges' edge collection");
-    }
-
-    // Créer les index
-    const nodesCol = db.collection("graph_nodes");
-    const edgesCol = db.collection("graph_edges");
-    const graphsCol = db.collection("graphs");
-
-    // Index unique sur graph_id dans graphs
-    await graphsCol.ensureIndex({
-      type: "persistent",
-      fields: ["graph_id"],
-      unique: true,
-    });
-
-    // Index composé sur graph_nodes (graph_id, node_id)
-    await nodesCol.ensureIndex({
-      type: "persistent",
-      fields: ["graph_id", "node_id"],
-      unique: true,
-    });
-
-    // Index sur graph_id pour graph_nodes (lookups rapides)
-    await nodesCol.ensureIndex({
-      type: "persistent",
-      fields: ["graph_id"],
-    });
-
-    // Index sur graph_id pour graph_edges
-    await edgesCol.ensureIndex({
-      type: "persistent",
-      fields: ["graph_id"],
-    });
+    // Collections et index : migrations versionnées (schema_migrations)
+    await this.migrate();
+    await this.ensureSearchView(this.getDb());
 
     console.log("ArangoDB collections and indexes created");
   }
@@ -157,16 +137,12 @@ export class ArangoService implements GraphDatabaseService {
     nodes: GraphNode[],
     edges: GraphEdge[],
     database?: string,
+    createdAt: string = new Date().toISOString(),
   ): Promise<Graph> {
-    const createdAt = new Date().toISOString();
     const db = this.getDb(database);
 
-    const graphsCol = db.collection("graphs");
-    const nodesCol = db.collection("graph_nodes");
-    const edgesCol = db.collection("graph_edges");
-
     // Créer le document graphe principal
-    await graphsCol.save({
+    await db.collection("graphs").save({
       graph_id: graphId,
       title,
       description,
@@ -174,55 +150,11 @@ export class ArangoService implements GraphDatabaseService {
       node_count: nodes.length,
       edge_count: edges.length,
       created_at: createdAt,
+      tags: [],
+      folder: null,
     });
 
-    // Insertion batch des nœuds
-    const nodeDocs = nodes.map((node) => ({
-      graph_id: graphId,
-      node_id: node.id,
-      label: node.label,
-      node_type: node.node_type,
-      properties: node.properties,
-    }));
-
-    if (nodeDocs.length > 0) {
-      // Insérer par lots de 5000
-      for (let i = 0; i < nodeDocs.length; i += 5000) {
-        const batch = nodeDocs.slice(i, i + 5000);
-        await nodesCol.import(batch);
-      }
-    }
-
-    // Construire un map _id pour les arêtes (source/target doivent être des _id ArangoDB)
-    // On récupère les _id des nœuds insérés
-    const cursor = await db.query(aql`
-      FOR n IN graph_nodes
-        FILTER n.graph_id == ${graphId}
-        RETURN { node_id: n.node_id, _id: n._id }
-    `);
-    const nodeIdMap = new Map<string, string>();
-    for await (const doc of cursor) {
-      nodeIdMap.set(doc.node_id, doc._id);
-    }
-
-    // Insertion batch des arêtes
-    const edgeDocs = edges
-      .filter((edge) => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target))
-      .map((edge) => ({
-        _from: nodeIdMap.get(edge.source)!,
-        _to: nodeIdMap.get(edge.target)!,
-        graph_id: graphId,
-        label: edge.label || "",
-        edge_type: edge.edge_type,
-        properties: edge.properties,
-      }));
-
-    if (edgeDocs.length > 0) {
-      for (let i = 0; i < edgeDocs.length; i += 5000) {
-        const batch = edgeDocs.slice(i, i + 5000);
-        await edgesCol.import(batch);
-      }
-    }
+    await this.importGraphData(db, graphId, nodes, edges);
 
     return {
       id: graphId,
@@ -232,24 +164,42 @@ export class ArangoService implements GraphDatabaseService {
       node_count: nodes.length,
       edge_count: edges.length,
       created_at: createdAt,
+      tags: [],
+      folder: null,
     };
   }
 
-  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
-    const cacheKey = `graph:${database || this.defaultDatabase}:${graphId}`;
+  async getGraphMetadata(graphId: string, database?: string): Promise<Graph | null> {
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR g IN graphs
+        FILTER g.graph_id == ${graphId}
+        LIMIT 1
+        RETURN ${this.graphFields()}
+    `);
+    const [graph] = await cursor.all();
+    return graph ?? null;
+  }
 
-    if (!bypassCache) {
-      const cached = this.graphCache.get<GraphData>(cacheKey);
-      if (cached) {
-        this.cacheStats.hits++;
-        return cached;
-      }
-      this.cacheStats.misses++;
-    } else {
-      this.cacheStats.bypasses++;
-    }
+  async updateGraphMetadata(graphId: string, update: GraphMetadataUpdate, database?: string): Promise<Graph | null> {
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR g IN graphs
+        FILTER g.graph_id == ${graphId}
+        UPDATE g WITH ${this.patchOf(update)} IN graphs
+        LET n = NEW
+        RETURN ${this.graphFields("n")}
+    `);
+    const [graph] = await cursor.all();
+    return graph ?? null;
+  }
+
+  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
+    const cached = await this.graphCache.lookup(database || this.defaultDatabase, graphId, bypassCache);
+    if (cached) return cached;
 
     const db = this.getDb(database);
+    const edgeSource = this.edgeSource(db, await this.edgeCollections(db), graphId);
 
     // Requêtes en parallèle (comme Neo4jService)
     const [nodesCursor, edgesCursor] = await Promise.all([
@@ -259,7 +209,7 @@ export class ArangoService implements GraphDatabaseService {
           RETURN { id: n.node_id, label: n.label, node_type: n.node_type, properties: n.properties }
       `),
       db.query(aql`
-        FOR e IN graph_edges
+        FOR e IN ${edgeSource}
           FILTER e.graph_id == ${graphId}
           LET sourceNode = FIRST(FOR n IN graph_nodes FILTER n._id == e._from RETURN n.node_id)
           LET targetNode = FIRST(FOR n IN graph_nodes FILTER n._id == e._to RETURN n.node_id)
@@ -273,12 +223,63 @@ export class ArangoService implements GraphDatabaseService {
     const result: GraphData = { nodes, edges };
 
     if (!bypassCache) {
-      this.graphCache.set(cacheKey, result);
+      this.graphCache.set(database || this.defaultDatabase, graphId, result);
     }
 
     return result;
   }
 
+  async getGraphNodesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphNode[]> {
+    const cursor = await this.getDb(database).query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId}
+        SORT n.node_id
+        LIMIT ${offset}, ${limit}
+        RETURN { id: n.node_id, label: n.label, node_type: n.node_type, properties: n.properties }
+    `);
+    return cursor.all();
+  }
+
+  async getGraphEdgesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphEdge[]> {
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR e IN ${this.edgeSource(db, await this.edgeCollections(db), graphId)}
+        FILTER e.graph_id == ${graphId}
+        SORT e._key
+        LIMIT ${offset}, ${limit}
+        LET sourceNode = FIRST(FOR n IN graph_nodes FILTER n._id == e._from RETURN n.node_id)
+        LET targetNode = FIRST(FOR n IN graph_nodes FILTER n._id == e._to RETURN n.node_id)
+        RETURN { id: e._key, source: sourceNode, target: targetNode, label: e.label, edge_type: e.edge_type, properties: e.properties }
+    `);
+    return cursor.all();
+  }
+
+  // null < toute chaîne en AQL : afterId absent = depuis le début
+  async getGraphNodesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphNode[]> {
+    const cursor = await this.getDb(database).query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId} AND n.node_id > ${afterId ?? null}
+        SORT n.node_id
+        LIMIT ${limit}
+        RETURN { id: n.node_id, label: n.label, node_type: n.node_type, properties: n.properties }
+    `);
+    return cursor.all();
+  }
+
+  async getGraphEdgesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphEdge[]> {
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR e IN ${this.edgeSource(db, await this.edgeCollections(db), graphId)}
+        FILTER e.graph_id == ${graphId} AND e._key > ${afterId ?? null}
+        SORT e._key
+        LIMIT ${limit}
+        LET sourceNode = FIRST(FOR n IN graph_nodes FILTER n._id == e._from RETURN n.node_id)
+        LET targetNode = FIRST(FOR n IN graph_nodes FILTER n._id == e._to RETURN n.node_id)
+        RETURN { id: e._key, source: sourceNode, target: targetNode, label: e.label, edge_type: e.edge_type, properties: e.properties }
+    `);
+    return cursor.all();
+  }
+
   async getStartingNode(graphId: string, database?: string): Promise<GraphNode | null> {
     const db = this.getDb(database);
 
@@ -310,7 +311,7 @@ export class ArangoService implements GraphDatabaseService {
       )
       
       LET traversal = (
-        FOR v, e, p IN 1..${depth} ANY startNode graph_edges
+        FOR v, e, p IN 1..${depth} ANY startNode ${this.edgeCollectionList(db, await this.edgeCollections(db))}
           FILTER v.graph_id == ${graphId}
           RETURN DISTINCT { vertex: v, edge: e }
       )
@@ -344,6 +345,76 @@ export class ArangoService implements GraphDatabaseService {
     };
   }
 
+  /**
+   * Sous-graphe induit en une requête : sélection des nœuds, table _id → node_id (ZIP),
+   * puis arêtes sortantes de la sélection (traversée 1..1, index edge) dont la cible y figure aussi.
+   */
+  async getSubgraph(graphId: string, filter: SubgraphFilter, database?: string): Promise<GraphData> {
+    const db = this.getDb(database);
+    const nodeFilter = this.subgraphFilterAql("n", filter.node_types, "node_type", filter.where);
+    const edgeFilter = this.subgraphFilterAql("e", filter.edge_types, "edge_type", filter.edge_where);
+
+    const cursor = await db.query(aql`
+      LET sel = (
+        FOR n IN graph_nodes
+          FILTER n.graph_id == ${graphId}
+          ${nodeFilter}
+          RETURN n
+      )
+      LET nodeIds = ZIP(sel[*]._id, sel[*].node_id)
+      LET edges = (
+        FOR n IN sel
+          FOR v, e IN 1..1 OUTBOUND n ${this.edgeCollectionList(db, await this.edgeCollections(db))}
+            FILTER HAS(nodeIds, e._to)
+            ${edgeFilter}
+            RETURN { id: e._key, source: n.node_id, target: nodeIds[e._to], label: e.label, edge_type: e.edge_type, properties: e.properties }
+      )
+      RETURN {
+        nodes: (FOR n IN sel RETURN { id: n.node_id, label: n.label, node_type: n.node_type, properties: n.properties }),
+        edges
+      }
+    `);
+    const [result] = await cursor.all();
+    return { nodes: result.nodes, edges: result.edges };
+  }
+
+  /**
+   * Recherche sur la vue ArangoSearch : égalité exacte sur node_id / label (analyzer identity,
+   * boostée), ou tous les termes en préfixe de mots (analyzer graph_search_text). Tri BM25.
+   */
+  async searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]> {
+    // Même normalisation que l'analyzer : minuscules, sans accents, découpage en mots
+    const words = NodeSearch.terms(query)
+      .flatMap((t) => NodeSearch.fold(t).split(/[^\p{L}\p{N}]+/u))
+      .filter((w) => w.length > 0);
+    if (words.length === 0) return [];
+
+    const fields = ["node_id", "label", ...SEARCH_PROPERTIES.map((key) => `properties.${key}`)];
+    const prefixed = words.map((w) =>
+      aql`(${join(fields.map((f) => aql`STARTS_WITH(n.${literal(f)}, ${w})`), " OR ")})`,
+    );
+    const exact = query.trim();
+
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR n IN graph_nodes_search
+        SEARCH ${graphId ? aql`n.graph_id == ${graphId} AND` : aql``} (
+          BOOST(ANALYZER(n.node_id == ${exact} OR n.label == ${exact}, "identity"), 10)
+          OR ANALYZER(${join(prefixed, " AND ")}, "graph_search_text")
+        )
+        LET score = BM25(n)
+        SORT score DESC
+        LIMIT ${limit}
+        RETURN {
+          graph_id: n.graph_id,
+          node: { id: n.node_id, label: n.label, node_type: n.node_type, properties: n.properties },
+          score
+        }
+    `);
+    const hits = await cursor.all();
+    return hits.map((h: SearchHit) => ({ ...h, score: Math.round(h.score * 1000) / 1000 }));
+  }
+
   /**
    * Analyse d'impact côté serveur — propagation BFS sortante via AQL traversal.
    */
@@ -359,7 +430,7 @@ export class ArangoService implements GraphDatabaseService {
           RETURN n
       )
 
-      FOR v, e, p IN 1..${maxDepth} OUTBOUND startNode graph_edges
+      FOR v, e, p IN 1..${maxDepth} OUTBOUND startNode ${this.edgeCollectionList(db, await this.edgeCollections(db))}
         FILTER v.graph_id == ${graphId}
         COLLECT vid = v.node_id
         AGGREGATE minLevel = MIN(LENGTH(p.edges))
@@ -377,31 +448,75 @@ export class ArangoService implements GraphDatabaseService {
     };
   }
 
-  async listGraphs(database?: string): Promise<GraphSummary[]> {
+  async listGraphs(
+    database?: string,
+    filter: GraphListFilter = {},
+    page: GraphListPage = DEFAULT_GRAPH_LIST_PAGE,
+  ): Promise<GraphSummary[]> {
     const db = this.getDb(database);
 
+    const filters = this.graphListFilters(filter);
+    const dir = literal(page.order === "asc" ? "ASC" : "DESC");
+    if (page.after) {
+      const op = literal(page.order === "asc" ? ">" : "<");
+      const { value, id } = page.after;
+      // AQL compare null comme la plus petite valeur (null < "…") : un title null suit l'ordre du tri
+      filters.push(aql`FILTER g[${page.sort}] ${op} ${value} OR (g[${page.sort}] == ${value} AND g.graph_id ${op} ${id})`);
+    }
+
     const cursor = await db.query(aql`
       FOR g IN graphs
-        SORT g.created_at DESC
+        ${join(filters, "\n")}
+        SORT g[${page.sort}] ${dir}, g.graph_id ${dir}
+        ${page.limit !== undefined ? aql`LIMIT ${page.limit}` : aql``}
         RETURN {
           id: g.graph_id,
           title: g.title,
           description: g.description,
           graph_type: g.graph_type,
           node_count: g.node_count,
-          edge_count: g.edge_count
+          edge_count: g.edge_count,
+          created_at: g.created_at,
+          tags: g.tags || [],
+          folder: g.folder
         }
     `);
 
     return await cursor.all();
   }
 
+  async countGraphs(database?: string, filter: GraphListFilter = {}): Promise<number> {
+    const cursor = await this.getDb(database).query(aql`
+      RETURN LENGTH(
+        FOR g IN graphs
+          ${join(this.graphListFilters(filter), "\n")}
+          RETURN 1
+      )
+    `);
+    return (await cursor.all())[0];
+  }
+
+  /** Clauses FILTER d'un filtre de listGraphs (variable de boucle g) */
+  private graphListFilters(filter: GraphListFilter): AqlQuery[] {
+    const filters: AqlQuery[] = [];
+    if (filter.tag !== undefined) filters.push(aql`FILTER ${filter.tag} IN (g.tags || [])`);
+    if (filter.folder === null) filters.push(aql`FILTER g.folder == null`);
+    else if (filter.folder !== undefined) {
+      filters.push(aql`FILTER g.folder == ${filter.folder} OR STARTS_WITH(g.folder, ${`${filter.folder}/`})`);
+    }
+    if (filter.graph_type !== undefined) filters.push(aql`FILTER g.graph_type == ${filter.graph_type}`);
+    if (filter.min_nodes !== undefined) filters.push(aql`FILTER g.node_count >= ${filter.min_nodes}`);
+    if (filter.max_nodes !== undefined) filters.push(aql`FILTER g.node_count <= ${filter.max_nodes}`);
+    return filters;
+  }
+
   async getGraphStats(graphId: string, database?: string): Promise<GraphStats> {
     const db = this.getDb(database);
+    const edgeSource = this.edgeSource(db, await this.edgeCollections(db), graphId);
 
     const cursor = await db.query(aql`
       LET nodeCount = LENGTH(FOR n IN graph_nodes FILTER n.graph_id == ${graphId} RETURN 1)
-      LET edgeCount = LENGTH(FOR e IN graph_edges FILTER e.graph_id == ${graphId} RETURN 1)
+      LET edgeCount = LENGTH(FOR e IN ${edgeSource} FILTER e.graph_id == ${graphId} RETURN 1)
       LET typeCounts = (
         FOR n IN graph_nodes
           FILTER n.graph_id == ${graphId}
@@ -435,11 +550,7 @@ export class ArangoService implements GraphDatabaseService {
     const db = this.getDb(database);
 
     // Supprimer les arêtes
-    await db.query(aql`
-      FOR e IN graph_edges
-        FILTER e.graph_id == ${graphId}
-        REMOVE e IN graph_edges
-    `);
+    await this.removeGraphEdges(db, graphId);
 
     // Supprimer les nœuds
     await db.query(aql`
@@ -454,6 +565,663 @@ export class ArangoService implements GraphDatabaseService {
         FILTER g.graph_id == ${graphId}
         REMOVE g IN graphs
     `);
+
+    // Supprimer les versions
+    await db.query(aql`
+      FOR v IN graph_versions
+        FILTER v.graph_id == ${graphId}
+        REMOVE v IN graph_versions
+    `);
+  }
+
+  async replaceGraphData(graphId: string, nodes: GraphNode[], edges: GraphEdge[], database?: string): Promise<void> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    // Les collections d'une stream transaction sont déclarées à son ouverture :
+    // celles des nouveaux edge_type sont créées avant
+    const groups = this.groupByEdgeCollection(edges);
+    for (const name of groups.keys()) await this.ensureEdgeCollection(db, name);
+    const edgeNames = await this.edgeCollections(db);
+
+    // Une seule transaction à verrous exclusifs : un échec en cours de route laisse le graphe
+    // intact, et aucune autre écriture ne s'intercale entre la suppression et la réinsertion.
+    // Chaque step est une seule requête AQL (import HTTP hors transaction)
+    const trx = await db.beginTransaction({ exclusive: ["graphs", "graph_nodes", ...edgeNames] });
+    try {
+      for (const name of edgeNames) {
+        const col = db.collection(name);
+        await trx.step(() => db.query(aql`FOR e IN ${col} FILTER e.graph_id == ${graphId} REMOVE e IN ${col}`));
+      }
+      await trx.step(() => db.query(aql`FOR n IN graph_nodes FILTER n.graph_id == ${graphId} REMOVE n IN graph_nodes`));
+
+      for (let i = 0; i < nodes.length; i += 5000) {
+        const docs = nodes.slice(i, i + 5000).map((node) => ({
+          graph_id: graphId,
+          node_id: node.id,
+          label: node.label,
+          node_type: node.node_type,
+          properties: node.properties,
+        }));
+        await trx.step(() => db.query(aql`FOR d IN ${docs} INSERT d INTO graph_nodes`));
+      }
+
+      // _from / _to résolus sur les nœuds insérés dans la transaction ; arêtes pendantes ignorées
+      for (const [name, group] of groups) {
+        const col = db.collection(name);
+        for (let i = 0; i < group.length; i += 5000) {
+          const docs = group.slice(i, i + 5000).map((edge) => ({
+            source: edge.source,
+            target: edge.target,
+            label: edge.label || "",
+            edge_type: edge.edge_type,
+            properties: edge.properties,
+          }));
+          await trx.step(() => db.query(aql`
+            FOR d IN ${docs}
+              LET from = FIRST(FOR n IN graph_nodes FILTER n.graph_id == ${graphId} AND n.node_id == d.source RETURN n._id)
+              LET to = FIRST(FOR n IN graph_nodes FILTER n.graph_id == ${graphId} AND n.node_id == d.target RETURN n._id)
+              FILTER from != null AND to != null
+              INSERT MERGE(UNSET(d, "source", "target"), { _from: from, _to: to, graph_id: ${graphId} }) INTO ${col}
+          `));
+        }
+      }
+
+      const edgeSource = this.edgeSource(db, edgeNames, graphId);
+      await trx.step(() => db.query(aql`
+        LET nodeCount = LENGTH(FOR n IN graph_nodes FILTER n.graph_id == ${graphId} RETURN 1)
+        LET edgeCount = LENGTH(FOR e IN ${edgeSource} FILTER e.graph_id == ${graphId} RETURN 1)
+        FOR g IN graphs
+          FILTER g.graph_id == ${graphId}
+          UPDATE g WITH { node_count: nodeCount, edge_count: edgeCount } IN graphs
+      `));
+      await trx.commit();
+    } catch (error) {
+      await trx.abort();
+      throw error;
+    }
+    this.clearCache(graphId, database);
+  }
+
+  // ===== Import en flux =====
+
+  async importNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<number> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    // Import HTTP en masse ; complete: true → le lot est rejeté entier si un document échoue
+    await db.collection("graph_nodes").import(
+      nodes.map((node) => ({
+        graph_id: graphId,
+        node_id: node.id,
+        label: node.label,
+        node_type: node.node_type,
+        properties: node.properties,
+      })),
+      { complete: true },
+    );
+
+    await this.refreshCounts(db, graphId);
+    this.clearCache(graphId, database);
+    return nodes.length;
+  }
+
+  /**
+   * Un import par collection d'arêtes. Avec les collections typées (ARANGO_EDGE_COLLECTIONS),
+   * un lot qui couvre plusieurs collections n'est atomique que collection par collection.
+   */
+  async importEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<number> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    const endpointIds = Array.from(new Set(edges.flatMap((e) => [e.source, e.target])));
+    const cursor = await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId} AND n.node_id IN ${endpointIds}
+        RETURN { node_id: n.node_id, _id: n._id }
+    `);
+    const nodeIdMap = new Map<string, string>();
+    for await (const doc of cursor) {
+      nodeIdMap.set(doc.node_id, doc._id);
+    }
+
+    const valid = edges.filter((edge) => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target));
+    for (const [name, group] of this.groupByEdgeCollection(valid)) {
+      await this.ensureEdgeCollection(db, name);
+      await db.collection(name).import(
+        group.map((edge) => ({
+          _from: nodeIdMap.get(edge.source)!,
+          _to: nodeIdMap.get(edge.target)!,
+          graph_id: graphId,
+          label: edge.label || "",
+          edge_type: edge.edge_type,
+          properties: edge.properties,
+        })),
+        { complete: true },
+      );
+    }
+
+    await this.refreshCounts(db, graphId);
+    this.clearCache(graphId, database);
+    return valid.length;
+  }
+
+  // ===== CRUD Nœuds / Arêtes =====
+
+  async addNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<GraphNode[]> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    // Ids répétés dans le lot lui-même
+    const seen = new Set<string>();
+    const duplicates: string[] = [];
+    for (const n of nodes) {
+      if (seen.has(n.id)) duplicates.push(n.id);
+      seen.add(n.id);
+    }
+
+    // L'index unique (graph_id, node_id) ferait échouer l'import en cours de lot : vérification préalable
+    const dupCursor = await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId} AND n.node_id IN ${[...seen]}
+        RETURN n.node_id
+    `);
+    duplicates.push(...(await dupCursor.all()));
+    if (duplicates.length > 0) {
+      throw new Error(`Node(s) already exist in graph '${graphId}': ${duplicates.join(", ")}`);
+    }
+
+    const nodeDocs = nodes.map((node) => ({
+      graph_id: graphId,
+      node_id: node.id,
+      label: node.label,
+      node_type: node.node_type,
+      properties: node.properties,
+    }));
+    const nodesCol = db.collection("graph_nodes");
+    // complete: true → un conflit d'index (écriture concurrente) annule tout le lot importé
+    for (let i = 0; i < nodeDocs.length; i += 5000) {
+      await nodesCol.import(nodeDocs.slice(i, i + 5000), { complete: true });
+    }
+
+    await this.refreshCounts(db, graphId);
+    this.clearCache(graphId, database);
+    return nodes;
+  }
+
+  async updateNode(graphId: string, nodeId: string, update: GraphNodeUpdate, database?: string): Promise<GraphNode | null> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    // mergeObjects: false → `properties` est remplacé, pas fusionné
+    const cursor = await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId} AND n.node_id == ${nodeId}
+        UPDATE n WITH ${this.patchOf(update)} IN graph_nodes OPTIONS { mergeObjects: false }
+        RETURN { id: NEW.node_id, label: NEW.label, node_type: NEW.node_type, properties: NEW.properties }
+    `);
+    const results = await cursor.all();
+    if (results.length === 0) return null;
+
+    this.clearCache(graphId, database);
+    return results[0];
+  }
+
+  async deleteNode(graphId: string, nodeId: string, database?: string): Promise<boolean> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    const nodeCursor = await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId} AND n.node_id == ${nodeId}
+        RETURN n._id
+    `);
+    const docIds: string[] = await nodeCursor.all();
+    if (docIds.length === 0) return false;
+
+    // Supprimer les arêtes du nœud, puis le nœud
+    for (const name of await this.edgeCollections(db)) {
+      const edges = db.collection(name);
+      await db.query(aql`
+        FOR e IN ${edges}
+          FILTER e.graph_id == ${graphId} AND (e._from IN ${docIds} OR e._to IN ${docIds})
+          REMOVE e IN ${edges}
+      `);
+    }
+    await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n._id IN ${docIds}
+        REMOVE n IN graph_nodes
+    `);
+
+    await this.refreshCounts(db, graphId);
+    this.clearCache(graphId, database);
+    return true;
+  }
+
+  async addEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<GraphEdge[]> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    // Résoudre les _id ArangoDB des extrémités (arêtes sans extrémité connue ignorées)
+    const endpointIds = Array.from(new Set(edges.flatMap((e) => [e.source, e.target])));
+    const cursor = await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId} AND n.node_id IN ${endpointIds}
+        RETURN { node_id: n.node_id, _id: n._id }
+    `);
+    const nodeIdMap = new Map<string, string>();
+    for await (const doc of cursor) {
+      nodeIdMap.set(doc.node_id, doc._id);
+    }
+
+    const valid = edges.filter((edge) => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target));
+    const added: GraphEdge[] = [];
+    for (const [name, group] of this.groupByEdgeCollection(valid)) {
+      await this.ensureEdgeCollection(db, name);
+      for (let i = 0; i < group.length; i += 5000) {
+        const batch = group.slice(i, i + 5000);
+        const edgeDocs = batch.map((edge) => ({
+          _from: nodeIdMap.get(edge.source)!,
+          _to: nodeIdMap.get(edge.target)!,
+          graph_id: graphId,
+          label: edge.label || "",
+          edge_type: edge.edge_type,
+          properties: edge.properties,
+        }));
+        // INSERT AQL plutôt que import() pour récupérer les _key générées (ordre préservé)
+        const keysCursor = await db.query(aql`
+          FOR d IN ${edgeDocs}
+            INSERT d INTO ${db.collection(name)}
+            RETURN NEW._key
+        `);
+        const keys: string[] = await keysCursor.all();
+        batch.forEach((edge, idx) => {
+          added.push({ ...edge, id: keys[idx], label: edge.label || undefined });
+        });
+      }
+    }
+
+    await this.refreshCounts(db, graphId);
+    this.clearCache(graphId, database);
+    return added;
+  }
+
+  async updateEdge(graphId: string, edgeId: string, update: GraphEdgeUpdate, database?: string): Promise<GraphEdge | null> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    const found = await this.findEdge(db, graphId, edgeId);
+    if (!found) return null;
+
+    // Mode typedEdges : un changement d'edge_type déplace le document (même _key)
+    const target = update.edge_type !== undefined ? this.edgeCollectionFor(update.edge_type) : found.collection;
+    let cursor;
+    if (target !== found.collection) {
+      await this.ensureEdgeCollection(db, target);
+      const { _id, _rev, ...doc } = found.doc;
+      cursor = await db.query(aql`
+        LET moved = MERGE(${doc}, ${this.patchOf(update)})
+        REMOVE ${edgeId} IN ${db.collection(found.collection)}
+        INSERT moved INTO ${db.collection(target)}
+        RETURN {
+          id: NEW._key,
+          source: DOCUMENT(NEW._from).node_id,
+          target: DOCUMENT(NEW._to).node_id,
+          label: NEW.label,
+          edge_type: NEW.edge_type,
+          properties: NEW.properties
+        }
+      `);
+    } else {
+      const edges = db.collection(found.collection);
+      cursor = await db.query(aql`
+        FOR e IN ${edges}
+          FILTER e.graph_id == ${graphId} AND e._key == ${edgeId}
+          UPDATE e WITH ${this.patchOf(update)} IN ${edges} OPTIONS { mergeObjects: false }
+          RETURN {
+            id: NEW._key,
+            source: DOCUMENT(NEW._from).node_id,
+            target: DOCUMENT(NEW._to).node_id,
+            label: NEW.label,
+            edge_type: NEW.edge_type,
+            properties: NEW.properties
+          }
+      `);
+    }
+    const results = await cursor.all();
+    if (results.length === 0) return null;
+
+    this.clearCache(graphId, database);
+    return { ...results[0], label: results[0].label || undefined };
+  }
+
+  async deleteEdge(graphId: string, edgeId: string, database?: string): Promise<boolean> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    const found = await this.findEdge(db, graphId, edgeId);
+    if (found) {
+      await db.collection(found.collection).remove(edgeId);
+      await this.refreshCounts(db, graphId);
+    }
+
+    this.clearCache(graphId, database);
+    return found !== null;
+  }
+
+  /** Import par lots de 5000 des nœuds puis des arêtes (les arêtes orphelines sont ignorées) */
+  private async importGraphData(db: Database, graphId: string, nodes: GraphNode[], edges: GraphEdge[]): Promise<void> {
+    const nodesCol = db.collection("graph_nodes");
+
+    // Insertion batch des nœuds
+    const nodeDocs = nodes.map((node) => ({
+      graph_id: graphId,
+      node_id: node.id,
+      label: node.label,
+      node_type: node.node_type,
+      properties: node.properties,
+    }));
+
+    if (nodeDocs.length > 0) {
+      // Insérer par lots de 5000
+      for (let i = 0; i < nodeDocs.length; i += 5000) {
+        const batch = nodeDocs.slice(i, i + 5000);
+        await nodesCol.import(batch);
+      }
+    }
+
+    // Construire un map _id pour les arêtes (source/target doivent être des _id ArangoDB)
+    // On récupère les _id des nœuds insérés
+    const cursor = await db.query(aql`
+      FOR n IN graph_nodes
+        FILTER n.graph_id == ${graphId}
+        RETURN { node_id: n.node_id, _id: n._id }
+    `);
+    const nodeIdMap = new Map<string, string>();
+    for await (const doc of cursor) {
+      nodeIdMap.set(doc.node_id, doc._id);
+    }
+
+    // Insertion batch des arêtes (une collection par edge_type en mode typedEdges)
+    const valid = edges.filter((edge) => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target));
+    for (const [name, group] of this.groupByEdgeCollection(valid)) {
+      await this.ensureEdgeCollection(db, name);
+      const edgesCol = db.collection(name);
+      const edgeDocs = group.map((edge) => ({
+        _from: nodeIdMap.get(edge.source)!,
+        _to: nodeIdMap.get(edge.target)!,
+        graph_id: graphId,
+        label: edge.label || "",
+        edge_type: edge.edge_type,
+        properties: edge.properties,
+      }));
+      for (let i = 0; i < edgeDocs.length; i += 5000) {
+        const batch = edgeDocs.slice(i, i + 5000);
+        await edgesCol.import(batch);
+      }
+    }
+  }
+
+  // ===== Collections d'arêtes (mode typedEdges) =====
+
+  /** Collection d'arêtes d'un edge_type : graph_edges hors mode typedEdges ou pour un type vide */
+  private edgeCollectionFor(edgeType: string | undefined): string {
+    const suffix = (edgeType ?? "").replace(/[^A-Za-z0-9_-]/g, "_").slice(0, 200);
+    return this.typedEdges && suffix ? `graph_edges_${suffix}` : "graph_edges";
+  }
+
+  /** Collections d'arêtes existantes (graph_edges + graph_edges_*), mises en cache par database */
+  private async edgeCollections(db: Database): Promise<string[]> {
+    if (!this.typedEdges) return ["graph_edges"];
+    let names = this.edgeCollectionNames.get(db.name);
+    if (!names) {
+      const collections = await db.listCollections();
+      names = collections
+        .filter((c) => c.type === 3 && (c.name === "graph_edges" || c.name.startsWith("graph_edges_")))
+        .map((c) => c.name)
+        .sort();
+      this.edgeCollectionNames.set(db.name, names);
+    }
+    return names;
+  }
+
+  private async ensureEdgeCollection(db: Database, name: string): Promise<void> {
+    const names = await this.edgeCollections(db);
+    if (names.includes(name)) return;
+    try {
+      await db.createEdgeCollection(name);
+      console.log(`Created '${name}' edge collection`);
+    } catch (err: any) {
+      // 1207 : créée entre-temps par une autre requête
+      if (err.errorNum !== 1207) throw err;
+    }
+    await db.collection(name).ensureIndex({ type: "persistent", fields: ["graph_id"] });
+    this.edgeCollectionNames.set(db.name, [...names, name].sort());
+  }
+
+  /**
+   * Source des arêtes d'un graphe pour `FOR e IN ...` : la collection elle-même,
+   * ou l'UNION des collections filtrées sur graph_id (index) en mode typedEdges.
+   */
+  private edgeSource(db: Database, names: string[], graphId: string): AqlQuery {
+    if (names.length === 1) return aql`${db.collection(names[0])}`;
+    return aql`UNION(${join(
+      names.map((name) => aql`(FOR x IN ${db.collection(name)} FILTER x.graph_id == ${graphId} RETURN x)`),
+      ", ",
+    )})`;
+  }
+
+  /** Liste des collections d'arêtes d'une traversée (`OUTBOUND start c1, c2`) */
+  private edgeCollectionList(db: Database, names: string[]): AqlQuery {
+    return join(names.map((name) => aql`${db.collection(name)}`), ", ");
+  }
+
+  private groupByEdgeCollection(edges: GraphEdge[]): Map<string, GraphEdge[]> {
+    const groups = new Map<string, GraphEdge[]>();
+    for (const edge of edges) {
+      const name = this.edgeCollectionFor(edge.edge_type);
+      const group = groups.get(name);
+      if (group) group.push(edge);
+      else groups.set(name, [edge]);
+    }
+    return groups;
+  }
+
+  /** Arête d'un graphe par _key, quelle que soit sa collection */
+  private async findEdge(db: Database, graphId: string, edgeId: string): Promise<{ collection: string; doc: any } | null> {
+    for (const name of await this.edgeCollections(db)) {
+      const cursor = await db.query(aql`
+        FOR e IN ${db.collection(name)}
+          FILTER e._key == ${edgeId} AND e.graph_id == ${graphId}
+          RETURN e
+      `);
+      const [doc] = await cursor.all();
+      if (doc) return { collection: name, doc };
+    }
+    return null;
+  }
+
+  private async removeGraphEdges(db: Database, graphId: string): Promise<void> {
+    for (const name of await this.edgeCollections(db)) {
+      const edges = db.collection(name);
+      await db.query(aql`
+        FOR e IN ${edges}
+          FILTER e.graph_id == ${graphId}
+          REMOVE e IN ${edges}
+      `);
+    }
+  }
+
+  /**
+   * Analyzer graph_search_text (mots en minuscules sans accents, sans racinisation ni mots vides,
+   * pour que STARTS_WITH fonctionne sur les préfixes saisis) et vue graph_nodes_search
+   * sur graph_nodes : graph_id, node_id, label et SEARCH_PROPERTIES.
+   */
+  private async ensureSearchView(db: Database): Promise<void> {
+    const analyzer = db.analyzer("graph_search_text");
+    if (!(await analyzer.exists())) {
+      await analyzer.create({
+        type: "text",
+        properties: { locale: "fr", case: "lower", accent: false, stemming: false, stopwords: [] },
+        features: ["frequency", "norm", "position"],
+      });
+      console.log("Created 'graph_search_text' analyzer");
+    }
+
+    const view = db.view("graph_nodes_search");
+    if (!(await view.exists())) {
+      const searchable = { analyzers: ["identity", "graph_search_text"] };
+      await db.createView("graph_nodes_search", {
+        type: "arangosearch",
+        links: {
+          graph_nodes: {
+            analyzers: ["identity"],
+            fields: {
+              graph_id: {},
+              node_id: searchable,
+              label: searchable,
+              properties: {
+                fields: Object.fromEntries(SEARCH_PROPERTIES.map((key) => [key, searchable])),
+              },
+            },
+          },
+        },
+      });
+      console.log("Created 'graph_nodes_search' view");
+    }
+  }
+
+  /** FILTER AQL d'un SubgraphFilter sur le document `doc` (valeurs en bind parameters) */
+  private subgraphFilterAql(
+    doc: string,
+    types: string[] | undefined,
+    typeAttribute: string,
+    predicates: PropertyPredicate[] | undefined,
+  ): AqlQuery {
+    const ref = literal(doc);
+    const conditions: AqlQuery[] = [];
+    if (types) conditions.push(aql`${ref}.${literal(typeAttribute)} IN ${types}`);
+    for (const p of predicates ?? []) {
+      const value = aql`${ref}.properties[${p.property}]`;
+      const op = literal(p.op === "=" ? "==" : p.op);
+      if (p.op === "contains") {
+        conditions.push(aql`(IS_STRING(${value}) OR IS_NUMBER(${value}) OR IS_BOOL(${value})) AND CONTAINS(TO_STRING(${value}), ${String(p.value)})`);
+      } else if (typeof p.value === "number") {
+        conditions.push(aql`(IS_NUMBER(${value}) OR (IS_STRING(${value}) AND REGEX_TEST(${value}, ${NUMERIC.source}))) AND TO_NUMBER(${value}) ${op} ${p.value}`);
+      } else if (typeof p.value === "boolean") {
+        conditions.push(aql`IS_BOOL(${value}) AND ${value} ${op} ${p.value}`);
+      } else {
+        conditions.push(aql`(IS_STRING(${value}) OR IS_NUMBER(${value})) AND TO_STRING(${value}) ${op} ${p.value}`);
+      }
+    }
+    return conditions.length ? aql`FILTER ${join(conditions, " AND ")}` : aql``;
+  }
+
+  private async assertGraph(db: Database, graphId: string): Promise<void> {
+    const cursor = await db.query(aql`
+      FOR g IN graphs
+        FILTER g.graph_id == ${graphId}
+        LIMIT 1
+        RETURN g.graph_id
+    `);
+    if ((await cursor.all()).length === 0) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+  }
+
+  /** Recalcule node_count / edge_count du graphe après une écriture incrémentale */
+  private async refreshCounts(db: Database, graphId: string): Promise<void> {
+    const edgeSource = this.edgeSource(db, await this.edgeCollections(db), graphId);
+    await db.query(aql`
+      LET nodeCount = LENGTH(FOR n IN graph_nodes FILTER n.graph_id == ${graphId} RETURN 1)
+      LET edgeCount = LENGTH(FOR e IN ${edgeSource} FILTER e.graph_id == ${graphId} RETURN 1)
+      FOR g IN graphs
+        FILTER g.graph_id == ${graphId}
+        UPDATE g WITH { node_count: nodeCount, edge_count: edgeCount } IN graphs
+    `);
+  }
+
+  /** Objet Graph AQL d'un document de graphs (tags et folder absents des graphes antérieurs) */
+  private graphFields(doc = "g"): AqlLiteral {
+    return literal(`{
+      id: ${doc}.graph_id, title: ${doc}.title, description: ${doc}.description, graph_type: ${doc}.graph_type,
+      node_count: ${doc}.node_count, edge_count: ${doc}.edge_count, created_at: ${doc}.created_at,
+      tags: ${doc}.tags || [], folder: ${doc}.folder
+    }`);
+  }
+
+  /** Document de mise à jour AQL : uniquement les champs fournis */
+  private patchOf(update: GraphNodeUpdate | GraphEdgeUpdate | GraphMetadataUpdate): Record<string, any> {
+    return Object.fromEntries(Object.entries(update).filter(([, v]) => v !== undefined));
+  }
+
+  // ===== Versions =====
+
+  async saveGraphVersion(
+    graphId: string,
+    change: string,
+    data: GraphData,
+    keep: number,
+    database?: string,
+  ): Promise<GraphVersion> {
+    const db = this.getDb(database);
+    await this.assertGraph(db, graphId);
+
+    const doc = {
+      graph_id: graphId,
+      created_at: new Date().toISOString(),
+      change,
+      node_count: data.nodes.length,
+      edge_count: data.edges.length,
+    };
+    // Verrou exclusif sur graph_versions : deux enregistrements simultanés ne lisent plus
+    // le même MAX(version) (l'index unique rejetait le second, et la version était perdue)
+    const trx = await db.beginTransaction({ exclusive: ["graph_versions"] });
+    let version: number;
+    try {
+      const cursor = await trx.step(() => db.query(aql`
+        LET next = (MAX(FOR v IN graph_versions FILTER v.graph_id == ${graphId} RETURN v.version) || 0) + 1
+        INSERT MERGE(${doc}, { version: next, data: ${data} }) INTO graph_versions
+        RETURN NEW.version
+      `));
+      [version] = await cursor.all();
+
+      await trx.step(() => db.query(aql`
+        FOR v IN graph_versions
+          FILTER v.graph_id == ${graphId} AND v.version <= ${version - keep}
+          REMOVE v IN graph_versions
+      `));
+      await trx.commit();
+    } catch (error) {
+      await trx.abort();
+      throw error;
+    }
+
+    return { ...doc, version };
+  }
+
+  async listGraphVersions(graphId: string, database?: string): Promise<GraphVersion[]> {
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR v IN graph_versions
+        FILTER v.graph_id == ${graphId}
+        SORT v.version DESC
+        RETURN KEEP(v, "graph_id", "version", "created_at", "change", "node_count", "edge_count")
+    `);
+    return await cursor.all();
+  }
+
+  async getGraphVersion(graphId: string, version: number, database?: string): Promise<GraphVersionData | null> {
+    const db = this.getDb(database);
+    const cursor = await db.query(aql`
+      FOR v IN graph_versions
+        FILTER v.graph_id == ${graphId} AND v.version == ${version}
+        LIMIT 1
+        RETURN UNSET(v, "_key", "_id", "_rev")
+    `);
+    const [found] = await cursor.all();
+    return found ?? null;
   }
 
   // ===== Gestion des Databases =====
@@ -491,12 +1259,15 @@ export class ArangoService implements GraphDatabaseService {
       auth: { username: this.username, password: this.password },
     });
 
-    await newDb.createCollection("graphs");
-    await newDb.createCollection("graph_nodes");
-    await newDb.createEdgeCollection("graph_edges");
+    await this.migrate(databaseName);
+    await this.ensureSearchView(newDb);
     console.log(`Collections created in database ${databaseName}`);
   }
 
+  async migrate(database?: string): Promise<MigrationReport> {
+    return this.migrations.run(database || this.defaultDatabase, new ArangoMigrationStore(this.getDb(database)));
+  }
+
   async deleteDatabase(databaseName: string): Promise<void> {
     if (databaseName === "_system") {
       throw new Error("Cannot delete the _system database");
@@ -509,6 +1280,8 @@ export class ArangoService implements GraphDatabaseService {
     });
 
     await systemDb.dropDatabase(databaseName);
+    this.edgeCollectionNames.delete(databaseName);
+    this.graphCache.clearDatabase(databaseName);
     console.log(`ArangoDB database ${databaseName} deleted successfully`);
   }
 
@@ -518,11 +1291,12 @@ export class ArangoService implements GraphDatabaseService {
     graphCount: number;
   }> {
     const db = this.getDb(databaseName);
+    const edgeCounts = (await this.edgeCollections(db)).map((name) => aql`LENGTH(${db.collection(name)})`);
 
     const cursor = await db.query(aql`
       RETURN {
         nodeCount: LENGTH(graph_nodes),
-        relationshipCount: LENGTH(graph_edges),
+        relationshipCount: SUM([${join(edgeCounts, ", ")}]),
         graphCount: LENGTH(graphs)
       }
     `);
@@ -535,9 +1309,100 @@ export class ArangoService implements GraphDatabaseService {
     return results[0];
   }
 
+  // ===== Raw Query Execution =====
+
+  /**
+   * Lecture seule : la requête est d'abord expliquée (plan sans exécution) et refusée
+   * si le plan ouvre une collection en écriture (INSERT/UPDATE/REPLACE/REMOVE/UPSERT).
+   * Délai : maxRuntime, le serveur tue la requête au-delà (erreur 1500).
+   * Le curseur est fermé (kill) après maxRows ; count donne le total.
+   * Annulation (options.signal) : la requête, marquée d'un commentaire unique, est
+   * retrouvée dans listRunningQueries() et tuée (killQuery).
+   */
+  async executeRawQuery(query: string, options: RawQueryOptions, database?: string): Promise<RawQueryResult> {
+    const db = this.getDb(database);
+    const t0 = Date.now();
+    if (options.readOnly) {
+      const { plan } = await db.explain(query, options.params);
+      const written = plan.collections.filter((c) => c.type === "write").map((c) => c.name);
+      if (written.length > 0) {
+        throw new Error(`Read-only query: writes to ${written.join(", ")}`);
+      }
+    }
+    const tagged = `${query}\n/* ${randomUUID()} */`;
+    const onAbort = () => {
+      db.listRunningQueries()
+        .then((running) => Promise.all(running.filter((q) => q.query === tagged).map((q) => db.killQuery(q.id))))
+        .catch((err) => console.warn(`  [ArangoDB] Query kill failed: ${err.message}`));
+    };
+    options.signal?.throwIfAborted();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      const cursor = await db.query(tagged, options.params, {
+        count: true,
+        batchSize: Math.min(options.maxRows + 1, 1000),
+        maxRuntime: options.timeoutMs / 1000,
+        timeout: options.timeoutMs + 1000,
+      });
+      const rows: Record<string, any>[] = [];
+      while (rows.length < options.maxRows && cursor.hasNext) {
+        rows.push(await cursor.next());
+      }
+      const truncated = cursor.hasNext;
+      if (truncated) await cursor.kill();
+      const elapsed_ms = Date.now() - t0;
+      return {
+        rows,
+        elapsed_ms,
+        rowCount: rows.length,
+        engine: this.engineName,
+        truncated,
+        totalRows: cursor.count,
+        readOnly: options.readOnly,
+      };
+    } catch (err: any) {
+      // 1500 : requête tuée (annulation ou maxRuntime)
+      if (options.signal?.aborted) throw options.signal.reason;
+      if (err.errorNum === 1500) throw new Error(`Query timed out after ${options.timeoutMs} ms`);
+      throw err;
+    } finally {
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  // ===== Sonde =====
+
+  /**
+   * Pool : file de requêtes HTTP d'arangojs, lue dans les champs internes de la connexion
+   * (requêtes en cours, en attente, maximum simultané) — pas d'API publique.
+   */
+  async probe(): Promise<EngineStatus> {
+    const connection = (this.db as any)._connection;
+    const active = Number(connection?._activeTasks) || 0;
+    const max = Number(connection?._taskPoolSize) || null;
+    const pool = {
+      open: active,
+      idle: max === null ? 0 : Math.max(max - active, 0),
+      pending: Number(connection?._queue?.length) || 0,
+      max,
+    };
+    const t0 = Date.now();
+    try {
+      const info = await this.db.version();
+      return {
+        engine: this.engineName,
+        reachable: true,
+        latency_ms: Date.now() - t0,
+        version: `${info.server} ${info.version}`,
+        pool,
+      };
+    } catch (err: any) {
+      return { engine: this.engineName, reachable: false, latency_ms: null, version: null, pool, error: err.message };
+    }
+  }
+
   async close(): Promise<void> {
-    // arangojs n'a pas besoin de fermer explicitement la connexion
-    // mais on vide le cache
-    this.graphCache.flushAll();
+    // arangojs n'a pas besoin de fermer explicitement la connexion ;
+    // le cache partagé est conservé (backend disque : réutilisé au redémarrage)
   }
 }
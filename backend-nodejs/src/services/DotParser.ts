@@ -0,0 +1,457 @@
+import { GraphEdge, GraphNode, NodePositions, ParsedGraphDocument } from "../models/graph.js";
+import { propertyKey } from "./XmlGraphFormat.js";
+
+/** Attributs lus pour node_type / edge_type, dans l'ordre, quand type_attribute n'est pas fourni */
+export const DEFAULT_DOT_TYPE_ATTRIBUTES = ["class", "shape"];
+
+/** node_type / edge_type quand aucun attribut de type n'est présent */
+const DEFAULT_DOT_TYPE = "default";
+
+/** Mots-clés DOT (insensibles à la casse, sauf entre guillemets) */
+const KEYWORDS = new Set(["strict", "graph", "digraph", "subgraph", "node", "edge"]);
+
+const IDENTIFIER = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*/y;
+const NUMERAL = /-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)/y;
+const NUMERAL_VALUE = /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/;
+const POSITION = /^\s*(-?[0-9.eE+-]+)\s*,\s*(-?[0-9.eE+-]+)(\s*,\s*-?[0-9.eE+-]+)?\s*!?\s*$/;
+
+interface Token {
+  /** id : identifiant, nombre, chaîne ou HTML ; op : { } [ ] = ; , : -> -- */
+  kind: "id" | "op" | "eof";
+  value: string;
+  /** Écrit entre guillemets ou en HTML (<…>) : jamais un mot-clé, toujours une chaîne */
+  quoted: boolean;
+  html?: boolean;
+  /** Chaîne entre guillemets telle qu'écrite, échappements compris (décodés pour les labels) */
+  escaped?: string;
+  pos: number;
+}
+
+type Attributes = Map<string, Token>;
+
+interface Cluster {
+  id: string;
+  label?: string;
+}
+
+/** Portée d'un graphe ou sous-graphe : attributs par défaut hérités, cluster englobant */
+interface Scope {
+  nodeDefaults: Attributes;
+  edgeDefaults: Attributes;
+  cluster?: Cluster;
+  /** Nœuds cités dans ce sous-graphe (extrémités quand il sert dans une arête) */
+  members: Set<string>;
+}
+
+/**
+ * DotParser — graphe Graphviz DOT (Terraform `graph`, Bazel, gestionnaires de paquets) → nœuds et arêtes.
+ *
+ * Grammaire DOT complète : `strict`, graph / digraph, instructions `node` / `edge` / `graph [ … ]`
+ * (défauts hérités par les sous-graphes), `a = b`, chaînes `a -> b -> c`, sous-graphes comme
+ * extrémités (`a -> {b c}` : toutes les paires), ports (`a:p:n`, ignorés), chaînes concaténées
+ * par `+`, labels HTML, commentaires // et /* *\/ et lignes `#`.
+ * label → label (échappements \n \l \r \N \G) ; node_type / edge_type lus dans le premier attribut
+ * de typeAttributes présent ; pos ("x,y" ou "x,y!") → positions ; id d'arête → id ; autres
+ * attributs → properties (nombres et true / false non quotés typés). Les nœuds d'un sous-graphe
+ * `cluster…` reçoivent la propriété group = label du cluster (sinon son id), cluster le plus
+ * interne de la première mention. Titre : label du graphe, sinon son nom ; description : comment.
+ * Erreurs : "Invalid dot: line L, column C: ..." (→ 400).
+ */
+export class DotParser {
+  static parse(content: string, typeAttributes: string[] = DEFAULT_DOT_TYPE_ATTRIBUTES): ParsedGraphDocument {
+    return new DotReader(content.replace(/\r\n?/g, "\n"), typeAttributes).read();
+  }
+}
+
+class DotReader {
+  private pos = 0;
+  private token!: Token;
+  private directed = true;
+  private strict = false;
+  private graphName?: string;
+  private readonly graphAttributes: Attributes = new Map();
+  private readonly nodes = new Map<string, { attributes: Attributes; cluster?: Cluster }>();
+  private readonly edges: Array<{ source: string; target: string; attributes: Attributes }> = [];
+  private readonly edgeKeys = new Map<string, number>();
+  private readonly clusters = new Map<string, Cluster>();
+
+  constructor(
+    private readonly text: string,
+    private readonly typeAttributes: string[],
+  ) {}
+
+  read(): ParsedGraphDocument {
+    this.next();
+    if (this.isKeyword("strict")) {
+      this.strict = true;
+      this.next();
+    }
+    if (this.isKeyword("digraph")) this.directed = true;
+    else if (this.isKeyword("graph")) this.directed = false;
+    else this.fail("expected 'graph' or 'digraph'");
+    this.next();
+    if (this.token.kind === "id") {
+      this.graphName = this.token.value;
+      this.next();
+    }
+
+    const root: Scope = { nodeDefaults: new Map(), edgeDefaults: new Map(), members: new Set() };
+    this.expect("{");
+    this.statements(root, this.graphAttributes);
+    this.expect("}");
+    if (this.token.kind !== "eof") this.fail(`unexpected '${this.token.value}' after the graph`);
+
+    return this.document();
+  }
+
+  // ===== Instructions =====
+
+  /** stmt_list jusqu'à l'accolade fermante ; graphAttributes reçoit les attributs de graphe de la portée */
+  private statements(scope: Scope, graphAttributes: Attributes): void {
+    while (!this.isOp("}")) {
+      if (this.token.kind === "eof") this.fail("missing '}'");
+      this.statement(scope, graphAttributes);
+      if (this.isOp(";")) this.next();
+    }
+  }
+
+  private statement(scope: Scope, graphAttributes: Attributes): void {
+    if (this.isKeyword("graph") || this.isKeyword("node") || this.isKeyword("edge")) {
+      const kind = this.token.value.toLowerCase();
+      this.next();
+      if (!this.isOp("[")) this.fail(`expected '[' after '${kind}'`);
+      const target = kind === "graph" ? graphAttributes : kind === "node" ? scope.nodeDefaults : scope.edgeDefaults;
+      for (const [key, value] of this.attributeList()) target.set(key, value);
+      return;
+    }
+
+    // a = b : attribut de graphe
+    if (this.token.kind === "id" && !this.isKeyword("subgraph")) {
+      const save = { pos: this.pos, token: this.token };
+      const key = this.token;
+      this.next();
+      if (this.isOp("=")) {
+        this.next();
+        graphAttributes.set(key.value, this.identifier("attribute value"));
+        return;
+      }
+      this.pos = save.pos;
+      this.token = save.token;
+    }
+
+    let endpoints = this.endpoint(scope);
+    const edgeOp = this.directed ? "->" : "--";
+    if (!this.isOp("->") && !this.isOp("--")) {
+      // node_stmt : attributs propres au nœud ; sous-graphe seul : rien d'autre à lire
+      if (endpoints.node !== undefined && this.isOp("[")) {
+        const node = this.nodes.get(endpoints.node)!;
+        for (const [key, value] of this.attributeList()) node.attributes.set(key, value);
+      }
+      return;
+    }
+
+    const chain: string[][] = [endpoints.ids];
+    while (this.isOp("->") || this.isOp("--")) {
+      if (this.token.value !== edgeOp) {
+        this.fail(`'${this.token.value}' in ${this.directed ? "a directed" : "an undirected"} graph (expected '${edgeOp}')`);
+      }
+      this.next();
+      endpoints = this.endpoint(scope);
+      chain.push(endpoints.ids);
+    }
+    const attributes = new Map(scope.edgeDefaults);
+    if (this.isOp("[")) for (const [key, value] of this.attributeList()) attributes.set(key, value);
+
+    for (let i = 1; i < chain.length; i++) {
+      for (const source of chain[i - 1]) {
+        for (const target of chain[i]) this.addEdge(source, target, attributes);
+      }
+    }
+  }
+
+  /** Extrémité d'arête : nœud (port ignoré) ou sous-graphe (tous ses nœuds) */
+  private endpoint(scope: Scope): { ids: string[]; node?: string } {
+    if (this.isKeyword("subgraph") || this.isOp("{")) return { ids: this.subgraph(scope) };
+    const id = this.identifier("a node id").value;
+    // Port et point cardinal : a:p, a:p:n
+    for (let i = 0; i < 2 && this.isOp(":"); i++) {
+      this.next();
+      this.identifier("a port");
+    }
+    this.declareNode(id, scope);
+    return { ids: [id], node: id };
+  }
+
+  /** `subgraph [id] { … }` ou `{ … }` ; retourne les nœuds cités à l'intérieur */
+  private subgraph(parent: Scope): string[] {
+    let id: string | undefined;
+    if (this.isKeyword("subgraph")) {
+      this.next();
+      if (this.token.kind === "id") id = this.identifier("a subgraph id").value;
+    }
+    let cluster = parent.cluster;
+    if (id?.startsWith("cluster")) {
+      cluster = this.clusters.get(id) ?? { id };
+      this.clusters.set(id, cluster);
+    }
+    const scope: Scope = {
+      nodeDefaults: new Map(parent.nodeDefaults),
+      edgeDefaults: new Map(parent.edgeDefaults),
+      cluster,
+      members: new Set(),
+    };
+    const attributes: Attributes = new Map();
+    this.expect("{");
+    this.statements(scope, attributes);
+    this.expect("}");
+
+    if (cluster && cluster !== parent.cluster && attributes.has("label")) {
+      cluster.label = decodeLabel(attributes.get("label")!, { G: id! });
+    }
+    for (const member of scope.members) parent.members.add(member);
+    return [...scope.members];
+  }
+
+  /** Première mention : nœud créé avec les défauts de la portée et rattaché à son cluster */
+  private declareNode(id: string, scope: Scope): void {
+    if (!this.nodes.has(id)) this.nodes.set(id, { attributes: new Map(scope.nodeDefaults), cluster: scope.cluster });
+    else if (scope.cluster) this.nodes.get(id)!.cluster ??= scope.cluster;
+    scope.members.add(id);
+  }
+
+  private addEdge(source: string, target: string, attributes: Attributes): void {
+    // strict : une seule arête par paire, attributs fusionnés
+    if (this.strict) {
+      const key = this.directed || source <= target ? `${source}\u0000${target}` : `${target}\u0000${source}`;
+      const existing = this.edgeKeys.get(key);
+      if (existing !== undefined) {
+        for (const [k, v] of attributes) this.edges[existing].attributes.set(k, v);
+        return;
+      }
+      this.edgeKeys.set(key, this.edges.length);
+    }
+    this.edges.push({ source, target, attributes: new Map(attributes) });
+  }
+
+  /** `[a=b, c=d; e=f] [g=h]` */
+  private attributeList(): Attributes {
+    const attributes: Attributes = new Map();
+    while (this.isOp("[")) {
+      this.next();
+      while (!this.isOp("]")) {
+        const key = this.identifier("an attribute name");
+        if (!this.isOp("=")) this.fail(`expected '=' after attribute '${key.value}'`);
+        this.next();
+        attributes.set(key.value, this.identifier("attribute value"));
+        if (this.isOp(",") || this.isOp(";")) this.next();
+      }
+      this.next();
+    }
+    return attributes;
+  }
+
+  // ===== Résultat =====
+
+  private document(): ParsedGraphDocument {
+    const positions: NodePositions = {};
+    const nodes: GraphNode[] = [];
+    for (const [id, { attributes, cluster }] of this.nodes) {
+      const node: GraphNode = { id, label: id, node_type: DEFAULT_DOT_TYPE, properties: {} };
+      const typeAttribute = this.typeAttributes.find((a) => attributes.get(a)?.value);
+      for (const [key, token] of attributes) {
+        if (key === "label") node.label = decodeLabel(token, { N: id, G: this.graphName ?? "" }) || id;
+        else if (key === typeAttribute) node.node_type = token.value;
+        else if (key === "pos" && POSITION.test(token.value)) {
+          const [, x, y] = POSITION.exec(token.value)!;
+          positions[id] = { x: Number(x), y: Number(y) };
+        } else node.properties[propertyKey(key)] = attributeValue(token);
+      }
+      if (cluster && node.properties.group === undefined) node.properties.group = cluster.label || cluster.id;
+      nodes.push(node);
+    }
+
+    const edges: GraphEdge[] = this.edges.map(({ source, target, attributes }) => {
+      const edge: GraphEdge = { source, target, edge_type: DEFAULT_DOT_TYPE, properties: {} };
+      const typeAttribute = this.typeAttributes.find((a) => attributes.get(a)?.value);
+      const names = { T: source, H: target, E: `${source}${this.directed ? "->" : "--"}${target}`, G: this.graphName ?? "" };
+      for (const [key, token] of attributes) {
+        if (key === "label") edge.label = decodeLabel(token, names) || undefined;
+        else if (key === typeAttribute) edge.edge_type = token.value;
+        else if (key === "id") edge.id = token.value;
+        else edge.properties[propertyKey(key)] = attributeValue(token);
+      }
+      return edge;
+    });
+
+    if (nodes.length === 0) throw new Error("Invalid dot: no nodes found");
+    const label = this.graphAttributes.get("label");
+    const comment = this.graphAttributes.get("comment")?.value;
+    return {
+      nodes,
+      edges,
+      positions,
+      title: (label && decodeLabel(label, { G: this.graphName ?? "" })) || this.graphName,
+      description: comment || undefined,
+    };
+  }
+
+  // ===== Lexique =====
+
+  private next(): void {
+    this.skipBlank();
+    const start = this.pos;
+    const c = this.text[this.pos];
+    if (c === undefined) {
+      this.token = { kind: "eof", value: "end of input", quoted: false, pos: start };
+    } else if (c === '"') {
+      let escaped = this.quotedString();
+      // "a" + "b" : concaténation
+      for (;;) {
+        const save = this.pos;
+        this.skipBlank();
+        if (this.text[this.pos] !== "+") {
+          this.pos = save;
+          break;
+        }
+        this.pos++;
+        this.skipBlank();
+        if (this.text[this.pos] !== '"') this.fail("expected a quoted string after '+'", this.pos);
+        escaped += this.quotedString();
+      }
+      this.token = { kind: "id", value: escaped.replace(/\\(["\\])/g, "$1"), quoted: true, escaped, pos: start };
+    } else if (c === "<") {
+      this.token = { kind: "id", value: this.htmlString(), quoted: true, html: true, pos: start };
+    } else if (this.text.startsWith("->", this.pos) || this.text.startsWith("--", this.pos)) {
+      this.pos += 2;
+      this.token = { kind: "op", value: this.text.slice(start, this.pos), quoted: false, pos: start };
+    } else if ("{}[]=;,:".includes(c)) {
+      this.pos++;
+      this.token = { kind: "op", value: c, quoted: false, pos: start };
+    } else {
+      const value = this.match(NUMERAL) ?? this.match(IDENTIFIER);
+      if (value === undefined) this.fail(`unexpected character '${c}'`, start);
+      this.token = { kind: "id", value, quoted: false, pos: start };
+    }
+  }
+
+  /**
+   * Contenu d'une chaîne entre guillemets, échappements gardés (\" et \\ lus comme une paire,
+   * décodés par next()) ; \ + fin de ligne continue la ligne
+   */
+  private quotedString(): string {
+    const start = this.pos;
+    let value = "";
+    for (this.pos++; ; this.pos++) {
+      const c = this.text[this.pos];
+      if (c === undefined) this.fail("unterminated string", start);
+      if (c === '"') break;
+      if (c === "\\" && this.text[this.pos + 1] === "\n") {
+        this.pos++;
+      } else if (c === "\\" && this.pos + 1 < this.text.length) {
+        value += c + this.text[++this.pos];
+      } else {
+        value += c;
+      }
+    }
+    this.pos++;
+    return value;
+  }
+
+  /** Chaîne HTML `<…>` aux chevrons équilibrés ; contenu gardé tel quel */
+  private htmlString(): string {
+    const start = this.pos;
+    let depth = 0;
+    for (; ; this.pos++) {
+      const c = this.text[this.pos];
+      if (c === undefined) this.fail("unterminated HTML string", start);
+      if (c === "<") depth++;
+      else if (c === ">" && --depth === 0) break;
+    }
+    this.pos++;
+    return this.text.slice(start + 1, this.pos - 1);
+  }
+
+  /** Blancs, commentaires // et /* *\/, lignes # (sortie du préprocesseur C) */
+  private skipBlank(): void {
+    for (;;) {
+      const c = this.text[this.pos];
+      if (c === " " || c === "\t" || c === "\n" || c === "\f" || c === "\v") {
+        this.pos++;
+      } else if (this.text.startsWith("//", this.pos) || (c === "#" && this.atLineStart())) {
+        const end = this.text.indexOf("\n", this.pos);
+        this.pos = end < 0 ? this.text.length : end;
+      } else if (this.text.startsWith("/*", this.pos)) {
+        const end = this.text.indexOf("*/", this.pos + 2);
+        if (end < 0) this.fail("unterminated comment", this.pos);
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private atLineStart(): boolean {
+    const lineStart = this.text.lastIndexOf("\n", this.pos - 1) + 1;
+    return this.text.slice(lineStart, this.pos).trim() === "";
+  }
+
+  private match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.pos;
+    const m = pattern.exec(this.text);
+    if (!m) return undefined;
+    this.pos = pattern.lastIndex;
+    return m[0];
+  }
+
+  // ===== Jetons =====
+
+  private isKeyword(word: string): boolean {
+    return this.token.kind === "id" && !this.token.quoted && this.token.value.toLowerCase() === word;
+  }
+
+  private isOp(op: string): boolean {
+    return this.token.kind === "op" && this.token.value === op;
+  }
+
+  private expect(op: string): void {
+    if (!this.isOp(op)) this.fail(`expected '${op}'`);
+    this.next();
+  }
+
+  /** Identifiant (non mot-clé), nombre ou chaîne */
+  private identifier(what: string): Token {
+    const token = this.token;
+    if (token.kind !== "id" || (!token.quoted && KEYWORDS.has(token.value.toLowerCase()))) {
+      this.fail(`expected ${what}`);
+    }
+    this.next();
+    return token;
+  }
+
+  private fail(message: string, at = this.token?.pos ?? this.pos): never {
+    const found = message.startsWith("expected") && at === this.token?.pos ? `, found '${this.token.value}'` : "";
+    const before = this.text.slice(0, at);
+    const line = before.split("\n").length;
+    const column = at - before.lastIndexOf("\n");
+    throw new Error(`Invalid dot: line ${line}, column ${column}: ${message}${found}`);
+  }
+}
+
+/** Valeur de properties : nombres et true / false non quotés typés, le reste en chaîne */
+function attributeValue(token: Token): unknown {
+  if (!token.quoted && NUMERAL_VALUE.test(token.value)) return Number(token.value);
+  if (!token.quoted && (token.value === "true" || token.value === "false")) return token.value === "true";
+  return token.value;
+}
+
+/** Label DOT (escString) : \n \l \r → fin de ligne, \N \G \E \T \H → noms ; HTML gardé tel quel */
+function decodeLabel(token: Token, names: Record<string, string>): string {
+  if (token.html) return token.value.trim();
+  return (token.escaped ?? token.value)
+    .replace(/\\(.)/g, (escape, c: string) => {
+      if (c === "n" || c === "l" || c === "r") return "\n";
+      if (c === "\\" || c === '"') return c;
+      return names[c] ?? escape;
+    })
+    .replace(/\n+$/, "");
+}
@@ -0,0 +1,106 @@
+import { GraphExportDocument } from "../models/graph.js";
+
+export const DOT_MIME = "text/vnd.graphviz";
+
+/** Attributs écrits depuis les champs du nœud / de l'arête : une propriété du même nom devient "properties.<nom>" */
+const NODE_FIELDS = ["label", "class", "pos"];
+const EDGE_FIELDS = ["label", "class", "id"];
+
+const BARE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NUMERAL = /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/;
+const KEYWORDS = new Set(["strict", "graph", "digraph", "subgraph", "node", "edge"]);
+
+/**
+ * DotSerializer — inverse de DotParser (GET /graphs/:id/export?format=dot), pour un rendu hors
+ * ligne avec dot / neato.
+ *
+ * Écrit un digraph nommé par le titre (description en comment) : chaque nœud avec son label,
+ * node_type en class, la position connue en pos="x,y!" (fixe pour `neato -n`) et ses properties
+ * en attributs (nombres et booléens non quotés, objets en JSON) ; les nœuds d'un même group dans
+ * un `subgraph cluster_N` de label = group. Arêtes : label, edge_type en class, id. Relu par
+ * DotParser (type lu dans class), le fichier redonne les mêmes nœuds, types, groupes et properties.
+ */
+export class DotSerializer {
+  static serialize(doc: GraphExportDocument): string {
+    const { graph, data, positions = {} } = doc;
+    const out: string[] = [`digraph ${this.quote(graph.title)} {`];
+    if (graph.description) out.push(`  comment=${this.quote(graph.description)};`);
+
+    // group → cluster, dans l'ordre de première apparition
+    const clusters = new Map<string, string[]>();
+    const free: string[] = [];
+    for (const node of data.nodes) {
+      const group = node.properties?.group;
+      const attributes: Array<[string, unknown]> = [
+        ["label", node.label ?? node.id],
+        ["class", node.node_type],
+      ];
+      const position = positions[node.id];
+      if (position) attributes.push(["pos", `${position.x},${position.y}!`]);
+      const line = `${this.quote(node.id)} ${this.attributeList(attributes, node.properties, NODE_FIELDS, ["group"])};`;
+
+      if (group === undefined || group === null || group === "") {
+        free.push(`  ${line}`);
+      } else {
+        const key = String(group);
+        clusters.set(key, [...(clusters.get(key) ?? []), line]);
+      }
+    }
+
+    out.push(...free);
+    [...clusters].forEach(([group, lines], i) => {
+      out.push(`  subgraph cluster_${i} {`, `    label=${this.quote(group)};`);
+      out.push(...lines.map((line) => `    ${line}`));
+      out.push(`  }`);
+    });
+
+    for (const edge of data.edges) {
+      const attributes: Array<[string, unknown]> = [];
+      if (edge.label) attributes.push(["label", edge.label]);
+      attributes.push(["class", edge.edge_type]);
+      if (edge.id) attributes.push(["id", edge.id]);
+      out.push(`  ${this.quote(edge.source)} -> ${this.quote(edge.target)} ${this.attributeList(attributes, edge.properties, EDGE_FIELDS, [])};`);
+    }
+
+    out.push(`}`, ``);
+    return out.join("\n");
+  }
+
+  /** `[label="…", class="…", clé=valeur…]` ; les properties de nom réservé sont préfixées */
+  private static attributeList(
+    fields: Array<[string, unknown]>,
+    properties: Record<string, any> | undefined,
+    reserved: string[],
+    skipped: string[],
+  ): string {
+    const attributes = fields.map(([name, value]) =>
+      `${name}=${name === "label" ? this.quoteLabel(String(value)) : this.value(value)}`);
+    for (const [key, value] of Object.entries(properties ?? {})) {
+      if (value === undefined || value === null || skipped.includes(key)) continue;
+      const name = reserved.includes(key) || key.startsWith("properties.") ? `properties.${key}` : key;
+      attributes.push(`${this.name(name)}=${this.value(value)}`);
+    }
+    return `[${attributes.join(", ")}]`;
+  }
+
+  private static name(name: string): string {
+    return BARE_NAME.test(name) && !KEYWORDS.has(name.toLowerCase()) ? name : this.quote(name);
+  }
+
+  /** Nombres (sans exposant) et booléens non quotés, relus typés ; objets en JSON */
+  private static value(value: unknown): string {
+    if (typeof value === "number" && NUMERAL.test(String(value))) return String(value);
+    if (typeof value === "boolean") return String(value);
+    return this.quote(typeof value === "object" ? JSON.stringify(value) : String(value));
+  }
+
+  /** Chaîne entre guillemets : \ et " échappés (relus par DotParser) */
+  private static quote(text: string): string {
+    return `"${text.replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+  }
+
+  /** Label (escString) : comme quote(), fins de ligne en \n */
+  private static quoteLabel(text: string): string {
+    return this.quote(text).replace(/\r?\n/g, "\\n");
+  }
+}
@@ -0,0 +1,145 @@
+import { EngineStatus } from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+
+/** Bornes des buckets de latence HTTP (secondes) */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/** Délai maximal d'une sonde : un moteur qui ne répond pas est marqué injoignable */
+const PROBE_TIMEOUT_MS = 5000;
+
+type RequestLabels = {
+  method: string;
+  route: string;
+  engine: string;
+  status: string;
+};
+
+interface Histogram {
+  labels: RequestLabels;
+  /** Compteurs non cumulés, un par borne de LATENCY_BUCKETS (+Inf = count) */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * EngineMetrics — sondes des moteurs et métriques au format texte Prometheus (GET /metrics).
+ *
+ *   graph_http_request_duration_seconds{method,route,engine,status}  histogramme
+ *   graph_cache_{hits,misses,bypasses}_total{engine}                  compteurs (getCacheStats)
+ *   graph_cache_entries{engine}                                       graphes en cache
+ *   graph_cache_bytes{engine}                                         octets en cache
+ *   graph_engine_up / graph_engine_probe_seconds{engine}              sonde (probe)
+ *   graph_engine_pool_connections{engine,state=open|idle|pending}     pool du driver
+ *
+ * route = chemin Express déclaré (/api/graphs/:id), jamais l'URL brute : cardinalité bornée.
+ */
+export class EngineMetrics {
+  private histograms = new Map<string, Histogram>();
+
+  observeRequest(labels: RequestLabels, seconds: number) {
+    const key = JSON.stringify(labels);
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = { labels, buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      this.histograms.set(key, histogram);
+    }
+    const index = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+    if (index >= 0) histogram.buckets[index]++;
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /** Sondes en parallèle, chacune bornée à PROBE_TIMEOUT_MS */
+  static async probeAll(engines: Record<string, GraphDatabaseService>): Promise<EngineStatus[]> {
+    return Promise.all(
+      Object.entries(engines).map(async ([name, service]) => {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<EngineStatus>((resolve) => {
+          timer = setTimeout(() => resolve({
+            engine: name,
+            reachable: false,
+            latency_ms: null,
+            version: null,
+            pool: null,
+            error: `Probe timed out after ${PROBE_TIMEOUT_MS} ms`,
+          }), PROBE_TIMEOUT_MS);
+        });
+        try {
+          return { ...(await Promise.race([service.probe(), timeout])), engine: name };
+        } finally {
+          clearTimeout(timer);
+        }
+      }),
+    );
+  }
+
+  render(engines: Record<string, GraphDatabaseService>, statuses: EngineStatus[]): string {
+    const lines: string[] = [];
+
+    lines.push(
+      "# HELP graph_http_request_duration_seconds HTTP request latency by route and engine",
+      "# TYPE graph_http_request_duration_seconds histogram",
+    );
+    for (const { labels, buckets, sum, count } of this.histograms.values()) {
+      let cumulative = 0;
+      LATENCY_BUCKETS.forEach((bound, i) => {
+        cumulative += buckets[i];
+        lines.push(`graph_http_request_duration_seconds_bucket${this.labels({ ...labels, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(
+        `graph_http_request_duration_seconds_bucket${this.labels({ ...labels, le: "+Inf" })} ${count}`,
+        `graph_http_request_duration_seconds_sum${this.labels(labels)} ${sum}`,
+        `graph_http_request_duration_seconds_count${this.labels(labels)} ${count}`,
+      );
+    }
+
+    const cache = Object.entries(engines).map(([engine, service]) => ({ engine, stats: service.getCacheStats() }));
+    for (const [metric, field, help] of [
+      ["graph_cache_hits_total", "hits", "Graph cache hits"],
+      ["graph_cache_misses_total", "misses", "Graph cache misses"],
+      ["graph_cache_bypasses_total", "bypasses", "Graph cache bypasses (nocache)"],
+    ] as const) {
+      lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} counter`);
+      for (const { engine, stats } of cache) {
+        lines.push(`${metric}${this.labels({ engine })} ${stats[field]}`);
+      }
+    }
+    lines.push("# HELP graph_cache_entries Graphs currently cached", "# TYPE graph_cache_entries gauge");
+    for (const { engine, stats } of cache) {
+      lines.push(`graph_cache_entries${this.labels({ engine })} ${stats.cachedGraphs}`);
+    }
+    lines.push("# HELP graph_cache_bytes Bytes of cached graph payloads", "# TYPE graph_cache_bytes gauge");
+    for (const { engine, stats } of cache) {
+      lines.push(`graph_cache_bytes${this.labels({ engine })} ${stats.bytes}`);
+    }
+
+    lines.push("# HELP graph_engine_up Engine reachable by its probe (1) or not (0)", "# TYPE graph_engine_up gauge");
+    for (const status of statuses) {
+      lines.push(`graph_engine_up${this.labels({ engine: status.engine })} ${status.reachable ? 1 : 0}`);
+    }
+    lines.push("# HELP graph_engine_probe_seconds Probe round-trip time", "# TYPE graph_engine_probe_seconds gauge");
+    for (const status of statuses) {
+      if (status.latency_ms !== null) {
+        lines.push(`graph_engine_probe_seconds${this.labels({ engine: status.engine })} ${status.latency_ms / 1000}`);
+      }
+    }
+    lines.push("# HELP graph_engine_pool_connections Driver connections by state", "# TYPE graph_engine_pool_connections gauge");
+    for (const { engine, pool } of statuses) {
+      if (!pool) continue;
+      for (const state of ["open", "idle", "pending"] as const) {
+        lines.push(`graph_engine_pool_connections${this.labels({ engine, state })} ${pool[state]}`);
+      }
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  /** {a="x",b="y"} avec échappement Prometheus (\, ", saut de ligne) */
+  private labels(labels: Record<string, string>): string {
+    const pairs = Object.entries(labels).map(
+      ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+    );
+    return `{${pairs.join(",")}}`;
+  }
+}
@@ -0,0 +1,190 @@
+import { GraphEdge, GraphExportDocument, GraphNode, NodePositions, ParsedGraphDocument } from "../models/graph.js";
+import {
+  DEFAULT_XML_TYPE,
+  XmlPropertyAttribute,
+  checkReferences,
+  formatValue,
+  parseValue,
+  parseXml,
+  propertyAttributes,
+  propertyKey,
+  textOf,
+  xmlEscape,
+} from "./XmlGraphFormat.js";
+
+export const GEXF_MIME = "application/gexf+xml";
+
+/** Champs portés par les éléments <node> / <edge> ou déclarés en attribut fixe */
+const NODE_FIELDS = ["label", "node_type"];
+const EDGE_FIELDS = ["label", "edge_type"];
+
+interface GexfAttribute {
+  title: string;
+  type?: string;
+  default?: string;
+}
+
+/**
+ * GexfCodec — échange avec Gephi (GEXF 1.3 en écriture ; 1.1 à 1.3 en lecture).
+ *
+ * Écriture : node_type / edge_type et chaque clé de properties deviennent des <attribute>
+ * typés (boolean / long / double / string), label reste l'attribut XML du nœud ou de l'arête,
+ * les positions connues sont écrites en <viz:position>. Le titre n'a pas d'élément GEXF :
+ * il est redemandé à l'import.
+ * Lecture : attributs déclarés (et leurs <default>), viz:position, <meta><title> s'il existe,
+ * et kind d'une arête comme edge_type à défaut d'attribut edge_type.
+ */
+export class GexfCodec {
+  static encode(doc: GraphExportDocument): string {
+    const { graph, data, positions = {} } = doc;
+    const nodeAttributes = propertyAttributes(data.nodes, NODE_FIELDS, "n");
+    const edgeAttributes = propertyAttributes(data.edges, EDGE_FIELDS, "e");
+
+    const out: string[] = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz"`,
+      `  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+      `  xsi:schemaLocation="http://gexf.net/1.3 http://gexf.net/1.3/gexf.xsd" version="1.3">`,
+      `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+      `    <creator>graph-backend-nodejs</creator>`,
+      `    <keywords>${xmlEscape(graph.graph_type)}</keywords>`,
+      `    <description>${xmlEscape(graph.description ?? "")}</description>`,
+      `  </meta>`,
+      `  <graph defaultedgetype="directed" mode="static">`,
+      `    <attributes class="node" mode="static">`,
+      `      <attribute id="node_type" title="node_type" type="string"/>`,
+      ...nodeAttributes.map((a) => this.attributeElement(a)),
+      `    </attributes>`,
+      `    <attributes class="edge" mode="static">`,
+      `      <attribute id="edge_type" title="edge_type" type="string"/>`,
+      ...edgeAttributes.map((a) => this.attributeElement(a)),
+      `    </attributes>`,
+      `    <nodes count="${data.nodes.length}">`,
+    ];
+
+    for (const node of data.nodes) {
+      const position = positions[node.id];
+      out.push(`      <node id="${xmlEscape(node.id)}" label="${xmlEscape(node.label ?? node.id)}">`);
+      out.push(`        <attvalues>`);
+      out.push(`          <attvalue for="node_type" value="${xmlEscape(node.node_type)}"/>`);
+      out.push(...this.attvalueElements(node.properties, nodeAttributes));
+      out.push(`        </attvalues>`);
+      if (position) out.push(`        <viz:position x="${position.x}" y="${position.y}" z="0.0"/>`);
+      out.push(`      </node>`);
+    }
+    out.push(`    </nodes>`, `    <edges count="${data.edges.length}">`);
+
+    data.edges.forEach((edge, i) => {
+      const id = edge.id ?? `e${i}`;
+      const label = edge.label ? ` label="${xmlEscape(edge.label)}"` : "";
+      out.push(`      <edge id="${xmlEscape(id)}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}"${label}>`);
+      out.push(`        <attvalues>`);
+      out.push(`          <attvalue for="edge_type" value="${xmlEscape(edge.edge_type)}"/>`);
+      out.push(...this.attvalueElements(edge.properties, edgeAttributes));
+      out.push(`        </attvalues>`);
+      out.push(`      </edge>`);
+    });
+
+    out.push(`    </edges>`, `  </graph>`, `</gexf>`, ``);
+    return out.join("\n");
+  }
+
+  static decode(content: string): ParsedGraphDocument {
+    const root = parseXml(content, "gexf").gexf;
+    const graph = root?.graph?.[0];
+    if (!graph) throw new Error("Invalid gexf: missing <gexf><graph> element");
+
+    const attributes: Record<"node" | "edge", Map<string, GexfAttribute>> = { node: new Map(), edge: new Map() };
+    for (const group of graph.attributes ?? []) {
+      const target = group.class === "edge" ? attributes.edge : group.class === "node" ? attributes.node : null;
+      for (const a of group.attribute ?? []) {
+        target?.set(String(a.id), {
+          title: a.title ?? String(a.id),
+          type: a.type,
+          default: a.default !== undefined ? textOf(a.default) : undefined,
+        });
+      }
+    }
+
+    const doc: ParsedGraphDocument = { nodes: [], edges: [], positions: {} };
+    const title = textOf(root.meta?.title).trim();
+    const description = textOf(root.meta?.description).trim();
+    if (title) doc.title = title;
+    if (description) doc.description = description;
+
+    for (const element of graph.nodes?.node ?? []) {
+      if (element.id === undefined) throw new Error("Invalid gexf: <node> without id");
+      doc.nodes.push(this.readNode(element, attributes.node, doc.positions));
+    }
+    for (const element of graph.edges?.edge ?? []) {
+      if (element.source === undefined || element.target === undefined) {
+        throw new Error("Invalid gexf: <edge> without source or target");
+      }
+      doc.edges.push(this.readEdge(element, attributes.edge));
+    }
+
+    checkReferences("gexf", doc.nodes, doc.edges);
+    return doc;
+  }
+
+  private static attributeElement(a: XmlPropertyAttribute): string {
+    return `      <attribute id="${a.id}" title="${xmlEscape(a.name)}" type="${a.type}"/>`;
+  }
+
+  private static attvalueElements(properties: Record<string, any> | undefined, attributes: XmlPropertyAttribute[]): string[] {
+    return attributes
+      .filter((a) => properties?.[a.key] !== undefined && properties[a.key] !== null)
+      .map((a) => `          <attvalue for="${a.id}" value="${xmlEscape(formatValue(properties![a.key], a.type))}"/>`);
+  }
+
+  private static readNode(element: any, attributes: Map<string, GexfAttribute>, positions: NodePositions): GraphNode {
+    const id = String(element.id);
+    const node: GraphNode = { id, label: element.label ?? id, node_type: "", properties: {} };
+    for (const [attribute, value] of this.values(element, attributes)) {
+      if (attribute.title === "node_type") node.node_type = value;
+      else node.properties[propertyKey(attribute.title)] = parseValue(value, attribute.type);
+    }
+    node.node_type ||= DEFAULT_XML_TYPE;
+
+    const position = element.position;
+    if (position?.x !== undefined && position?.y !== undefined) {
+      const x = Number(position.x);
+      const y = Number(position.y);
+      if (Number.isFinite(x) && Number.isFinite(y)) positions[id] = { x, y };
+    }
+    return node;
+  }
+
+  private static readEdge(element: any, attributes: Map<string, GexfAttribute>): GraphEdge {
+    const edge: GraphEdge = {
+      source: String(element.source),
+      target: String(element.target),
+      edge_type: "",
+      properties: {},
+    };
+    if (element.id !== undefined) edge.id = String(element.id);
+    if (element.label) edge.label = element.label;
+    for (const [attribute, value] of this.values(element, attributes)) {
+      if (attribute.title === "edge_type") edge.edge_type = value;
+      else edge.properties[propertyKey(attribute.title)] = parseValue(value, attribute.type);
+    }
+    edge.edge_type ||= element.kind || DEFAULT_XML_TYPE;
+    return edge;
+  }
+
+  /** <attvalue> d'un élément, plus les défauts des attributs absents */
+  private static values(element: any, attributes: Map<string, GexfAttribute>): Array<[GexfAttribute, string]> {
+    const values: Array<[GexfAttribute, string]> = [];
+    const seen = new Set<string>();
+    for (const attvalue of element.attvalues?.attvalue ?? []) {
+      // GEXF 1.1 : attribut "id" au lieu de "for"
+      const ref = String(attvalue.for ?? attvalue.id);
+      values.push([attributes.get(ref) ?? { title: ref }, String(attvalue.value ?? "")]);
+      seen.add(ref);
+    }
+    for (const [ref, attribute] of attributes) {
+      if (!seen.has(ref) && attribute.default !== undefined) values.push([attribute, attribute.default]);
+    }
+    return values;
+  }
+}
@@ -0,0 +1,104 @@
+import { GraphData } from "../models/graph.js";
+
+/** Type MIME négocié via l'en-tête Accept de GET /graphs/:id */
+export const GRAPH_BINARY_MIME = "application/vnd.graph.columnar";
+
+const MAGIC = Buffer.from("GRC1", "ascii");
+
+/**
+ * GraphBinaryCodec — encodage binaire colonnaire d'un GraphData.
+ * Décodé côté frontend par services/graphBinary.ts (même format).
+ *
+ * Format (entiers en varint LEB128 non signés) :
+ *   "GRC1"
+ *   stringCount, puis stringCount × (byteLength, octets UTF-8)   — table des chaînes internées
+ *   nodeCount, edgeCount
+ *   colonnes nœuds  (nodeCount valeurs chacune) : id, label, node_type, properties
+ *   colonnes arêtes (edgeCount valeurs chacune) : source, target, edge_type, label, id, properties
+ *
+ * Chaque valeur est un index dans la table des chaînes (properties = JSON), sauf :
+ *   - source / target : index du nœud dans la colonne id ; une extrémité absente
+ *     des nœuds est codée nodeCount + index de chaîne
+ *   - label d'arête : 0 = absent, sinon index de chaîne + 1
+ */
+export class GraphBinaryCodec {
+  static encode(data: GraphData): Buffer {
+    const strings = new Map<string, number>();
+    const intern = (value: string) => {
+      let index = strings.get(value);
+      if (index === undefined) {
+        index = strings.size;
+        strings.set(value, index);
+      }
+      return index;
+    };
+
+    const { nodes, edges } = data;
+    const nodeIndex = new Map<string, number>();
+    nodes.forEach((n, i) => nodeIndex.set(n.id, i));
+    const endpoint = (id: string) => nodeIndex.get(id) ?? nodes.length + intern(id);
+
+    // Colonnes construites avant la table : toutes les chaînes sont internées
+    const columns: number[][] = [
+      nodes.map((n) => intern(n.id)),
+      nodes.map((n) => intern(n.label ?? "")),
+      nodes.map((n) => intern(n.node_type ?? "")),
+      nodes.map((n) => intern(JSON.stringify(n.properties ?? {}))),
+      edges.map((e) => endpoint(e.source)),
+      edges.map((e) => endpoint(e.target)),
+      edges.map((e) => intern(e.edge_type ?? "")),
+      edges.map((e) => (e.label ? intern(e.label) + 1 : 0)),
+      edges.map((e) => intern(e.id ?? "")),
+      edges.map((e) => intern(JSON.stringify(e.properties ?? {}))),
+    ];
+
+    const writer = new ByteWriter();
+    writer.bytes(MAGIC);
+    writer.varint(strings.size);
+    for (const value of strings.keys()) {
+      const bytes = Buffer.from(value, "utf8");
+      writer.varint(bytes.length);
+      writer.bytes(bytes);
+    }
+    writer.varint(nodes.length);
+    writer.varint(edges.length);
+    for (const column of columns) {
+      for (const v of column) writer.varint(v);
+    }
+    return writer.result();
+  }
+}
+
+/** Buffer extensible (doublement de capacité) */
+class ByteWriter {
+  private buf = Buffer.allocUnsafe(64 * 1024);
+  private length = 0;
+
+  varint(value: number) {
+    this.ensure(5);
+    while (value >= 0x80) {
+      this.buf[this.length++] = (value & 0x7f) | 0x80;
+      value = Math.floor(value / 128);
+    }
+    this.buf[this.length++] = value;
+  }
+
+  bytes(bytes: Buffer) {
+    this.ensure(bytes.length);
+    bytes.copy(this.buf, this.length);
+    this.length += bytes.length;
+  }
+
+  result(): Buffer {
+    return this.buf.subarray(0, this.length);
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = Buffer.allocUnsafe(size);
+    this.buf.copy(next, 0, 0, this.length);
+    this.buf = next;
+  }
+}
@@ -0,0 +1,327 @@
+import fs from "fs";
+import path from "path";
+import { GraphData } from "../models/graph.js";
+
+export type GraphCacheBackend = "memory" | "disk";
+
+export interface GraphCacheStats {
+  backend: GraphCacheBackend;
+  /** Entrées de tous les moteurs */
+  entries: number;
+  /** Octets occupés (JSON UTF-8 sérialisé, taille des fichiers pour le disque) */
+  bytes: number;
+  maxBytes: number;
+  ttlSeconds: number;
+  /** Entrées évincées (LRU) pour respecter maxBytes */
+  evictions: number;
+}
+
+interface CacheEntry {
+  bytes: number;
+  expiresAt: number;
+}
+
+/**
+ * GraphCache — cache des payloads de getGraph, partagé par tous les moteurs.
+ *
+ * Clés : graph:<engine>:<database>:<graphId> (voir EngineGraphCache).
+ * Les valeurs sont stockées sérialisées : la taille comptée est la taille réelle,
+ * et chaque lecture retourne une copie que l'appelant peut modifier.
+ *
+ * L'index (taille, expiration) est en mémoire et dans l'ordre LRU : une lecture
+ * replace l'entrée en fin de Map, l'éviction part du début jusqu'à repasser sous maxBytes.
+ * Une entrée plus grosse que maxBytes n'est pas mise en cache.
+ */
+export abstract class GraphCache {
+  abstract readonly backend: GraphCacheBackend;
+  protected index = new Map<string, CacheEntry>();
+  private evictions = 0;
+
+  constructor(readonly ttlSeconds: number, readonly maxBytes: number) {}
+
+  protected abstract read(key: string): Promise<string | undefined>;
+  protected abstract write(key: string, json: string): Promise<void>;
+  protected abstract remove(key: string): void;
+
+  async get(key: string): Promise<GraphData | undefined> {
+    const entry = this.live(key);
+    if (!entry) return undefined;
+    this.index.delete(key);
+    this.index.set(key, entry);
+    const json = await this.read(key);
+    if (json === undefined) {
+      if (this.index.get(key) === entry) this.index.delete(key);
+      return undefined;
+    }
+    return JSON.parse(json) as GraphData;
+  }
+
+  async set(key: string, value: GraphData): Promise<void> {
+    const json = JSON.stringify(value);
+    const bytes = Buffer.byteLength(json);
+    this.delete(key);
+    if (bytes > this.maxBytes) return;
+    this.index.set(key, { bytes, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+    this.evict();
+    if (!this.index.has(key)) return;
+    try {
+      await this.write(key, json);
+    } catch (err: any) {
+      // Un cache en échec ne fait pas échouer la lecture du graphe
+      this.delete(key);
+      console.warn(`Graph cache write failed for ${key}: ${err.message}`);
+    }
+  }
+
+  has(key: string): boolean {
+    return this.live(key) !== undefined;
+  }
+
+  delete(key: string): boolean {
+    if (!this.index.delete(key)) return false;
+    this.remove(key);
+    return true;
+  }
+
+  /** Clés non expirées commençant par prefix */
+  keys(prefix = ""): string[] {
+    this.purgeExpired();
+    return [...this.index.keys()].filter((key) => key.startsWith(prefix));
+  }
+
+  /** Octets des entrées commençant par prefix */
+  bytes(prefix = ""): number {
+    this.purgeExpired();
+    let total = 0;
+    for (const [key, entry] of this.index) {
+      if (key.startsWith(prefix)) total += entry.bytes;
+    }
+    return total;
+  }
+
+  stats(): GraphCacheStats {
+    return {
+      backend: this.backend,
+      entries: this.keys().length,
+      bytes: this.bytes(),
+      maxBytes: this.maxBytes,
+      ttlSeconds: this.ttlSeconds,
+      evictions: this.evictions,
+    };
+  }
+
+  private live(key: string): CacheEntry | undefined {
+    const entry = this.index.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private purgeExpired() {
+    const now = Date.now();
+    for (const [key, entry] of this.index) {
+      if (entry.expiresAt <= now) this.delete(key);
+    }
+  }
+
+  protected evict() {
+    this.purgeExpired();
+    let total = 0;
+    for (const entry of this.index.values()) total += entry.bytes;
+    for (const [key, entry] of this.index) {
+      if (total <= this.maxBytes) break;
+      this.delete(key);
+      total -= entry.bytes;
+      this.evictions++;
+    }
+  }
+}
+
+/** Cache dans le processus : perdu au redémarrage */
+export class MemoryGraphCache extends GraphCache {
+  readonly backend = "memory";
+  private values = new Map<string, string>();
+
+  protected async read(key: string) {
+    return this.values.get(key);
+  }
+
+  protected async write(key: string, json: string) {
+    this.values.set(key, json);
+  }
+
+  protected remove(key: string) {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Cache sur disque : un fichier JSON par clé (nom = clé encodée), conservé entre redémarrages.
+ * Au démarrage, l'index est reconstruit depuis le répertoire : taille = taille du fichier,
+ * expiration = mtime + TTL, ordre LRU = mtime. Les opérations sur une même clé sont
+ * sérialisées pour qu'une invalidation ne soit jamais écrasée par une écriture en retard.
+ */
+export class DiskGraphCache extends GraphCache {
+  readonly backend = "disk";
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(private directory: string, ttlSeconds: number, maxBytes: number) {
+    super(ttlSeconds, maxBytes);
+    fs.mkdirSync(directory, { recursive: true });
+
+    const files = fs.readdirSync(directory)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => ({ name, stat: fs.statSync(path.join(directory, name)) }))
+      .sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs);
+    for (const { name, stat } of files) {
+      const expiresAt = stat.mtimeMs + ttlSeconds * 1000;
+      if (expiresAt <= Date.now()) {
+        fs.rmSync(path.join(directory, name), { force: true });
+        continue;
+      }
+      this.index.set(decodeURIComponent(name.slice(0, -".json".length)), { bytes: stat.size, expiresAt });
+    }
+    this.evict();
+  }
+
+  protected read(key: string) {
+    return this.serial(key, async () => {
+      try {
+        return await fs.promises.readFile(this.file(key), "utf8");
+      } catch (err: any) {
+        if (err.code === "ENOENT") return undefined;
+        throw err;
+      }
+    });
+  }
+
+  protected write(key: string, json: string) {
+    return this.serial(key, async () => {
+      // Écriture atomique : un redémarrage ne voit jamais un fichier tronqué
+      const tmp = `${this.file(key)}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, json);
+      await fs.promises.rename(tmp, this.file(key));
+    });
+  }
+
+  protected remove(key: string) {
+    this.serial(key, () => fs.promises.rm(this.file(key), { force: true })).catch(() => {});
+  }
+
+  private file(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  private serial<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const run = (this.pending.get(key) ?? Promise.resolve()).catch(() => {}).then(operation);
+    this.pending.set(key, run);
+    run.finally(() => {
+      if (this.pending.get(key) === run) this.pending.delete(key);
+    }).catch(() => {});
+    return run;
+  }
+}
+
+let shared: GraphCache | undefined;
+
+/**
+ * Instance partagée par les moteurs, créée au premier appel (après le chargement de .env) :
+ *   GRAPH_CACHE_BACKEND=memory|disk, GRAPH_CACHE_TTL_SECONDS (300),
+ *   GRAPH_CACHE_MAX_BYTES (256 Mo), GRAPH_CACHE_DIR (./data/graph-cache, disque uniquement)
+ */
+export function sharedGraphCache(): GraphCache {
+  if (!shared) {
+    const backend = process.env.GRAPH_CACHE_BACKEND || "memory";
+    const ttlSeconds = parseInt(process.env.GRAPH_CACHE_TTL_SECONDS || "300", 10);
+    const maxBytes = parseInt(process.env.GRAPH_CACHE_MAX_BYTES || String(256 * 1024 * 1024), 10);
+    if (backend === "disk") {
+      shared = new DiskGraphCache(process.env.GRAPH_CACHE_DIR || "./data/graph-cache", ttlSeconds, maxBytes);
+    } else if (backend === "memory") {
+      shared = new MemoryGraphCache(ttlSeconds, maxBytes);
+    } else {
+      throw new Error(`Invalid GRAPH_CACHE_BACKEND '${backend}' (memory | disk)`);
+    }
+  }
+  return shared;
+}
+
+/**
+ * EngineGraphCache — vue d'un moteur sur le cache partagé : préfixe graph:<engine>:,
+ * compteurs hits/misses/bypasses propres au moteur.
+ * Le moteur est lu à chaque appel (MemgraphService redéfinit engineName après super()).
+ */
+export class EngineGraphCache {
+  hits = 0;
+  misses = 0;
+  bypasses = 0;
+
+  constructor(private engine: () => string, private cache: GraphCache = sharedGraphCache()) {}
+
+  key(database: string, graphId: string): string {
+    return `${this.prefix()}${database}:${graphId}`;
+  }
+
+  /** Lecture comptée : hit, miss, ou bypass (?nocache=true) sans lecture */
+  async lookup(database: string, graphId: string, bypassCache: boolean): Promise<GraphData | undefined> {
+    if (bypassCache) {
+      this.bypasses++;
+      return undefined;
+    }
+    const cached = await this.cache.get(this.key(database, graphId));
+    if (cached) this.hits++;
+    else this.misses++;
+    return cached;
+  }
+
+  set(database: string, graphId: string, data: GraphData): Promise<void> {
+    return this.cache.set(this.key(database, graphId), data);
+  }
+
+  has(database: string, graphId: string): boolean {
+    return this.cache.has(this.key(database, graphId));
+  }
+
+  delete(database: string, graphId: string): string {
+    const key = this.key(database, graphId);
+    this.cache.delete(key);
+    return key;
+  }
+
+  /** Invalide tous les graphes d'une database (suppression de la database) */
+  clearDatabase(database: string): string[] {
+    return this.deleteAll(`${this.prefix()}${database}:`);
+  }
+
+  /** Invalide tout le moteur et remet les compteurs à zéro */
+  clear(): string[] {
+    this.hits = 0;
+    this.misses = 0;
+    this.bypasses = 0;
+    return this.deleteAll(this.prefix());
+  }
+
+  stats() {
+    const keys = this.cache.keys(this.prefix());
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      bypasses: this.bypasses,
+      cachedGraphs: keys.length,
+      keys,
+      bytes: this.cache.bytes(this.prefix()),
+      cache: this.cache.stats(),
+    };
+  }
+
+  private deleteAll(prefix: string): string[] {
+    const keys = this.cache.keys(prefix);
+    for (const key of keys) this.cache.delete(key);
+    return keys;
+  }
+
+  private prefix(): string {
+    return `graph:${this.engine()}:`;
+  }
+}
@@ -0,0 +1,108 @@
+import { Graph } from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+
+/** Taille des pages lues dans la source et des lots écrits dans la cible (addNodes / addEdges) */
+const COPY_BATCH_SIZE = 2000;
+
+export interface GraphCopyProgress {
+  phase: "nodes" | "edges" | "done";
+  copied: number;
+  total: number;
+}
+
+export interface GraphCopyResult {
+  graph: Graph;
+  nodes: number;
+  edges: number;
+  /** Arêtes ignorées par le moteur cible (extrémité absente) */
+  skippedEdges: number;
+  elapsed_ms: number;
+}
+
+/**
+ * GraphCopyService — copie d'un graphe d'un moteur (ou d'une database) vers un autre.
+ *
+ * Le graphe est créé vide dans la cible avec le même id et les mêmes métadonnées
+ * (titre, description, type, date de création), puis rempli page par page :
+ * getGraphNodesAfter / getGraphEdgesAfter côté source (parcours par clé, le graphe
+ * n'est jamais chargé entier en mémoire), addNodes / addEdges côté cible — chaque lot est une requête
+ * bornée quel que soit le moteur (limite de 2100 paramètres MSSQL, UNWIND Neo4j,
+ * import ArangoDB). Le total de progression vient de node_count / edge_count.
+ */
+export class GraphCopyService {
+  static async copy(
+    source: GraphDatabaseService,
+    target: GraphDatabaseService,
+    graphId: string,
+    options: { sourceDatabase?: string; targetDatabase?: string },
+    onProgress?: (progress: GraphCopyProgress) => void,
+  ): Promise<GraphCopyResult> {
+    const t0 = Date.now();
+    const { sourceDatabase, targetDatabase } = options;
+
+    const metadata = await source.getGraphMetadata(graphId, sourceDatabase);
+    if (!metadata) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+    if (await target.getGraphMetadata(graphId, targetDatabase)) {
+      throw new Error(`Graph '${graphId}' already exists in ${target.engineName}`);
+    }
+
+    await target.createGraph(
+      graphId,
+      metadata.title,
+      metadata.description,
+      metadata.graph_type,
+      [],
+      [],
+      targetDatabase,
+      metadata.created_at,
+    );
+
+    try {
+      if (metadata.tags.length > 0 || metadata.folder) {
+        await target.updateGraphMetadata(graphId, { tags: metadata.tags, folder: metadata.folder }, targetDatabase);
+      }
+      let nodeCount = 0;
+      let lastNode: string | undefined;
+      for (;;) {
+        const page = await source.getGraphNodesAfter(graphId, lastNode, COPY_BATCH_SIZE, sourceDatabase);
+        if (page.length === 0) break;
+        await target.addNodes(graphId, page, targetDatabase);
+        nodeCount += page.length;
+        onProgress?.({ phase: "nodes", copied: nodeCount, total: metadata.node_count });
+        if (page.length < COPY_BATCH_SIZE) break;
+        lastNode = page[page.length - 1].id;
+      }
+
+      let edgeCount = 0;
+      let copiedEdges = 0;
+      let lastEdge: string | undefined;
+      for (;;) {
+        const page = await source.getGraphEdgesAfter(graphId, lastEdge, COPY_BATCH_SIZE, sourceDatabase);
+        if (page.length === 0) break;
+        const added = await target.addEdges(graphId, page, targetDatabase);
+        edgeCount += page.length;
+        copiedEdges += added.length;
+        onProgress?.({ phase: "edges", copied: edgeCount, total: metadata.edge_count });
+        if (page.length < COPY_BATCH_SIZE) break;
+        lastEdge = page[page.length - 1].id;
+      }
+
+      const graph = (await target.getGraphMetadata(graphId, targetDatabase))!;
+      onProgress?.({ phase: "done", copied: nodeCount + edgeCount, total: metadata.node_count + metadata.edge_count });
+
+      return {
+        graph,
+        nodes: nodeCount,
+        edges: copiedEdges,
+        skippedEdges: edgeCount - copiedEdges,
+        elapsed_ms: Date.now() - t0,
+      };
+    } catch (err) {
+      // Pas de copie partielle : le graphe cible est supprimé en cas d'échec
+      await target.deleteGraph(graphId, targetDatabase).catch(() => undefined);
+      throw err;
+    }
+  }
+}
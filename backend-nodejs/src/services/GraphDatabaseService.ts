@@ -3,10 +3,24 @@ import {
   GraphData,
   GraphNode,
   GraphEdge,
+  GraphNodeUpdate,
+  GraphEdgeUpdate,
+  GraphListFilter,
+  GraphListPage,
+  GraphMetadataUpdate,
+  EngineStatus,
   GraphStats,
   GraphSummary,
+  GraphVersion,
+  GraphVersionData,
   ImpactResult,
+  MigrationReport,
+  RawQueryOptions,
+  RawQueryResult,
+  SearchHit,
+  SubgraphFilter,
 } from "../models/graph.js";
+import { GraphCacheStats } from "./GraphCache.js";
 
 /**
  * Interface commune pour les services de base de données graphe.
@@ -22,6 +36,12 @@ export interface GraphDatabaseService {
   /** Fermer la connexion */
   close(): Promise<void>;
 
+  /**
+   * Sonde : requête triviale chronométrée, version du serveur, état du pool de connexions.
+   * Ne lève pas d'erreur — un moteur injoignable retourne reachable: false et error.
+   */
+  probe(): Promise<EngineStatus>;
+
   // ===== CRUD Graphes =====
 
   createGraph(
@@ -32,16 +52,120 @@ export interface GraphDatabaseService {
     nodes: GraphNode[],
     edges: GraphEdge[],
     database?: string,
+    /** Date de création à conserver (copie entre moteurs) — maintenant par défaut */
+    createdAt?: string,
   ): Promise<Graph>;
 
+  /** Métadonnées d'un graphe (compteurs inclus), ou null s'il n'existe pas. */
+  getGraphMetadata(graphId: string, database?: string): Promise<Graph | null>;
+
   getGraph(graphId: string, database?: string, bypassCache?: boolean): Promise<GraphData>;
 
-  listGraphs(database?: string): Promise<GraphSummary[]>;
+  /**
+   * Page de nœuds dans un ordre stable (node_id pour les moteurs serveur), sans passer par le cache.
+   * Réservé à la pagination explicite ?offset/?limit (GET /graphs/:id/nodes).
+   */
+  getGraphNodesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphNode[]>;
+
+  /** Page d'arêtes (ordre stable par id moteur), sans passer par le cache. */
+  getGraphEdgesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphEdge[]>;
+
+  /**
+   * Parcours par clé : au plus limit nœuds d'id strictement supérieur à afterId
+   * (undefined = début), triés par id. Chaque page coûte le même prix quelle que soit
+   * sa position — streaming NDJSON et copie entre moteurs.
+   */
+  getGraphNodesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphNode[]>;
+
+  /** Parcours par clé des arêtes, sur l'id moteur (même ordre que getGraphEdgesPage). */
+  getGraphEdgesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphEdge[]>;
+
+  /**
+   * Graphes de la database filtrés (tag, dossier, type, bornes de node_count), triés puis
+   * départagés par id ; page absente = created_at décroissant, sans limite (voir GraphListQuery).
+   */
+  listGraphs(database?: string, filter?: GraphListFilter, page?: GraphListPage): Promise<GraphSummary[]>;
+
+  /** Nombre de graphes correspondant au filtre (en-tête X-Total-Count) */
+  countGraphs(database?: string, filter?: GraphListFilter): Promise<number>;
+
+  /**
+   * Modifie les métadonnées (title, description, graph_type, tags, folder) ; champs absents conservés.
+   * Le contenu (nœuds, arêtes) et son cache ne changent pas. Retourne null si le graphe n'existe pas.
+   */
+  updateGraphMetadata(graphId: string, update: GraphMetadataUpdate, database?: string): Promise<Graph | null>;
 
   getGraphStats(graphId: string, database?: string): Promise<GraphStats>;
 
   deleteGraph(graphId: string, database?: string): Promise<void>;
 
+  // ===== CRUD Nœuds / Arêtes =====
+  // Chaque écriture met à jour node_count/edge_count du Graph et invalide le cache.
+  // Erreurs : "Graph '<id>' not found" si le graphe n'existe pas,
+  //           "... already exist ..." si un node_id est déjà présent ou répété dans le lot
+  //           (le lot est alors refusé en entier).
+
+  /** Ajoute des nœuds à un graphe existant. */
+  addNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<GraphNode[]>;
+
+  /** Modifie un nœud. Retourne null si le nœud n'existe pas. */
+  updateNode(graphId: string, nodeId: string, update: GraphNodeUpdate, database?: string): Promise<GraphNode | null>;
+
+  /** Supprime un nœud et ses arêtes. Retourne false si le nœud n'existe pas. */
+  deleteNode(graphId: string, nodeId: string, database?: string): Promise<boolean>;
+
+  /**
+   * Ajoute des arêtes. Les arêtes dont la source ou la cible n'existe pas sont ignorées.
+   * Retourne les arêtes créées, avec leur id moteur.
+   */
+  addEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<GraphEdge[]>;
+
+  /** Modifie une arête (id moteur). Retourne null si l'arête n'existe pas. */
+  updateEdge(graphId: string, edgeId: string, update: GraphEdgeUpdate, database?: string): Promise<GraphEdge | null>;
+
+  /** Supprime une arête (id moteur). Retourne false si l'arête n'existe pas. */
+  deleteEdge(graphId: string, edgeId: string, database?: string): Promise<boolean>;
+
+  /**
+   * Remplace tout le contenu (nœuds + arêtes) d'un graphe existant, en conservant
+   * ses métadonnées. Utilisé pour le rollback de version. Les arêtes reçoivent de nouveaux ids.
+   */
+  replaceGraphData(graphId: string, nodes: GraphNode[], edges: GraphEdge[], database?: string): Promise<void>;
+
+  // ===== Import en flux =====
+  // Un lot de GraphImportService, écrit avec l'API d'écriture en masse du moteur.
+  // Chaque appel est atomique : tout le lot est écrit, ou rien (reprise possible).
+
+  /** Écrit un lot de nœuds. Retourne le nombre de nœuds écrits. */
+  importNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<number>;
+
+  /**
+   * Écrit un lot d'arêtes ; celles dont la source ou la cible n'existe pas sont ignorées.
+   * Retourne le nombre d'arêtes écrites.
+   */
+  importEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<number>;
+
+  // ===== Versions =====
+  // Snapshots numérotés, supprimés avec le graphe (deleteGraph).
+
+  /**
+   * Enregistre un snapshot avec le numéro suivant (max + 1) et ne conserve
+   * que les `keep` versions les plus récentes.
+   */
+  saveGraphVersion(
+    graphId: string,
+    change: string,
+    data: GraphData,
+    keep: number,
+    database?: string,
+  ): Promise<GraphVersion>;
+
+  /** Versions d'un graphe, de la plus récente à la plus ancienne (sans contenu). */
+  listGraphVersions(graphId: string, database?: string): Promise<GraphVersion[]>;
+
+  /** Version complète, ou null si elle n'existe pas (ou a été purgée). */
+  getGraphVersion(graphId: string, version: number, database?: string): Promise<GraphVersionData | null>;
+
   // ===== Navigation =====
 
   getStartingNode(graphId: string, database?: string): Promise<GraphNode | null>;
@@ -53,6 +177,19 @@ export interface GraphDatabaseService {
     database?: string,
   ): Promise<GraphData>;
 
+  /**
+   * Sous-graphe induit : nœuds retenus par le filtre et arêtes entre ces nœuds.
+   * Le filtre est traduit dans le langage du moteur (Cypher, AQL, SQL).
+   */
+  getSubgraph(graphId: string, filter: SubgraphFilter, database?: string): Promise<GraphData>;
+
+  /**
+   * Recherche de nœuds sur node_id, label et SEARCH_PROPERTIES (nom, nDeCI, categorie),
+   * dans un graphe (graphId) ou dans toute la database. Résultats triés par score décroissant.
+   * Index plein texte natif créé par initialize() quand le moteur en a un, repli LIKE/CONTAINS sinon.
+   */
+  searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]>;
+
   /**
    * Analyse d'impact côté serveur : BFS depuis nodeId sur les arêtes sortantes.
    * Retourne les nœuds impactés avec leur niveau (distance depuis la source).
@@ -68,25 +205,32 @@ export interface GraphDatabaseService {
   // ===== Cache =====
 
   /**
-   * Exécuter une requête brute (SQL pour MSSQL, Cypher pour Neo4j/Memgraph, AQL pour ArangoDB).
-   * Retourne les résultats + le temps d'exécution.
+   * Exécuter une requête brute (SQL pour MSSQL/SQLite, Cypher pour Neo4j/Memgraph, AQL pour ArangoDB).
+   * Paramètres liés par le driver, résultat coupé à options.maxRows (truncated).
+   * Erreurs : "Query timed out after <n> ms" (requête annulée côté moteur),
+   *           "Read-only query: ..." si options.readOnly et que la requête écrit.
    */
-  executeRawQuery?(
-    query: string,
-    database?: string,
-  ): Promise<{ rows: Record<string, any>[]; elapsed_ms: number; rowCount: number; engine: string }>;
+  executeRawQuery?(query: string, options: RawQueryOptions, database?: string): Promise<RawQueryResult>;
 
+  /**
+   * Compteurs du moteur et entrées du cache partagé (GraphCache) sous graph:<engine>:.
+   * bytes = octets réels des entrées du moteur, cache = totaux du backend (tous moteurs).
+   */
   getCacheStats(): {
     hits: number;
     misses: number;
     bypasses: number;
     cachedGraphs: number;
     keys: string[];
-    nodeCache?: any;
+    bytes: number;
+    cache: GraphCacheStats;
   };
 
   clearCache(graphId?: string, database?: string): { cleared: string[] };
 
+  /** Le graphe est-il en cache (en-tête X-Cache) ? */
+  isGraphCached(graphId: string, database?: string): boolean;
+
   // ===== Databases =====
 
   listDatabases(): Promise<Array<{ name: string; default: boolean; status: string }>>;
@@ -97,4 +241,11 @@ export interface GraphDatabaseService {
     relationshipCount: number;
     graphCount: number;
   }>;
+
+  /**
+   * Applique les migrations de schéma en attente sur une database (défaut : celle du service).
+   * Appelé au démarrage (initialize), à la création d'une database et par POST /api/databases/:name/migrate.
+   * Absent pour les moteurs sans schéma versionné.
+   */
+  migrate?(database?: string): Promise<MigrationReport>;
 }
@@ -0,0 +1,80 @@
+/**
+ * GraphDiffService — différence structurelle entre deux GraphData.
+ * Pur TypeScript, indépendant du moteur (comme AlgorithmService).
+ */
+
+import { GraphData, GraphDiff, GraphEdge, GraphNode, GraphNodeChange } from "../models/graph.js";
+
+export class GraphDiffService {
+  /**
+   * Compare `base` (graphe ou version de référence) à `target` (état courant).
+   * added = présent dans target uniquement, removed = présent dans base uniquement.
+   */
+  static compare(base: GraphData, target: GraphData): Pick<GraphDiff, "nodes" | "edges" | "summary"> {
+    const baseNodes = new Map(base.nodes.map((n) => [n.id, n]));
+    const targetNodes = new Map(target.nodes.map((n) => [n.id, n]));
+
+    const added: GraphNode[] = [];
+    const changed: GraphNodeChange[] = [];
+    let unchanged = 0;
+    for (const after of target.nodes) {
+      const before = baseNodes.get(after.id);
+      if (!before) {
+        added.push(after);
+        continue;
+      }
+      const fields: GraphNodeChange["fields"] = [];
+      if (before.label !== after.label) fields.push("label");
+      if (before.node_type !== after.node_type) fields.push("node_type");
+      if (this.stableStringify(before.properties ?? {}) !== this.stableStringify(after.properties ?? {})) {
+        fields.push("properties");
+      }
+      if (fields.length > 0) changed.push({ id: after.id, fields, before, after });
+      else unchanged++;
+    }
+    const removed = base.nodes.filter((n) => !targetNodes.has(n.id));
+
+    // Arêtes : multiensemble par clé (deux arêtes identiques comptent deux fois)
+    const remaining = new Map<string, GraphEdge[]>();
+    for (const e of base.edges) {
+      const key = this.edgeKey(e);
+      if (!remaining.has(key)) remaining.set(key, []);
+      remaining.get(key)!.push(e);
+    }
+    const edgesAdded: GraphEdge[] = [];
+    for (const e of target.edges) {
+      const matches = remaining.get(this.edgeKey(e));
+      if (matches && matches.length > 0) matches.pop();
+      else edgesAdded.push(e);
+    }
+    const edgesRemoved: GraphEdge[] = [];
+    for (const matches of remaining.values()) {
+      for (const e of matches) edgesRemoved.push(e);
+    }
+
+    return {
+      nodes: { added, removed, changed },
+      edges: { added: edgesAdded, removed: edgesRemoved },
+      summary: {
+        nodes_added: added.length,
+        nodes_removed: removed.length,
+        nodes_changed: changed.length,
+        nodes_unchanged: unchanged,
+        edges_added: edgesAdded.length,
+        edges_removed: edgesRemoved.length,
+      },
+    };
+  }
+
+  private static edgeKey(e: GraphEdge): string {
+    return `${e.source}\u0000${e.target}\u0000${e.edge_type}`;
+  }
+
+  /** JSON à clés triées : l'ordre des propriétés varie selon le moteur de stockage */
+  private static stableStringify(value: any): string {
+    if (value === null || typeof value !== "object") return JSON.stringify(value);
+    if (Array.isArray(value)) return `[${value.map((v) => this.stableStringify(v)).join(",")}]`;
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${this.stableStringify(value[k])}`).join(",")}}`;
+  }
+}
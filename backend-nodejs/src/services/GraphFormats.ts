@@ -0,0 +1,27 @@
+import { GraphExportDocument, GraphExportFormat, GraphImportFormat, GraphImportOptions, ParsedGraphDocument } from "../models/graph.js";
+import { DotParser } from "./DotParser.js";
+import { DOT_MIME, DotSerializer } from "./DotSerializer.js";
+import { GexfCodec, GEXF_MIME } from "./GexfCodec.js";
+import { GraphMLCodec, GRAPHML_MIME } from "./GraphMLCodec.js";
+import { MermaidParser } from "./MermaidParser.js";
+import { MERMAID_MIME, MermaidSerializer } from "./MermaidSerializer.js";
+
+/** Sérialisation de GET /graphs/:id/export?format= */
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, {
+  mime: string;
+  extension: string;
+  encode(doc: GraphExportDocument): string;
+}> = {
+  graphml: { mime: GRAPHML_MIME, extension: "graphml", encode: (doc) => GraphMLCodec.encode(doc) },
+  gexf: { mime: GEXF_MIME, extension: "gexf", encode: (doc) => GexfCodec.encode(doc) },
+  mermaid: { mime: MERMAID_MIME, extension: "mmd", encode: (doc) => MermaidSerializer.serialize(doc.data, doc.graph.title) },
+  dot: { mime: DOT_MIME, extension: "gv", encode: (doc) => DotSerializer.serialize(doc) },
+};
+
+/** Lecture du champ content de POST /graphs selon format ; les erreurs de syntaxe → 400 */
+export const GRAPH_IMPORT_FORMATS: Record<GraphImportFormat, (content: string, options: GraphImportOptions) => ParsedGraphDocument> = {
+  mermaid: (content) => ({ ...MermaidParser.parse(content), positions: {} }),
+  graphml: (content) => GraphMLCodec.decode(content),
+  gexf: (content) => GexfCodec.decode(content),
+  dot: (content, options) => DotParser.parse(content, options.typeAttributes),
+};
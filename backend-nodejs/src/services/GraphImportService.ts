@@ -0,0 +1,345 @@
+import { randomUUID } from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import busboy from "busboy";
+import { GraphEdge, GraphImport, GraphNode } from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+import { GraphMetadata } from "./GraphMetadata.js";
+
+/** Nœuds ou arêtes écrits par lot (importNodes / importEdges) */
+export const IMPORT_BATCH_SIZE = parseInt(process.env.GRAPH_IMPORT_BATCH_SIZE || "5000", 10);
+
+/** Conservation de l'état d'un import terminé (GET /graphs/import/:importId), en secondes */
+export const IMPORT_DONE_TTL_SECONDS = parseInt(process.env.GRAPH_IMPORT_DONE_TTL_SECONDS || "3600", 10);
+/** Conservation d'un import échoué, reprenable jusque-là, en secondes */
+export const IMPORT_FAILED_TTL_SECONDS = parseInt(process.env.GRAPH_IMPORT_FAILED_TTL_SECONDS || "86400", 10);
+
+/**
+ * Une ligne du flux d'import — le format de GET /graphs/:id?stream=ndjson :
+ * graph (métadonnées, en premier), nodes…, edges…, end (facultatif).
+ */
+export type GraphImportChunk =
+  | { type: "graph"; graph: { id?: string; title: string; description?: string; graph_type?: string; tags?: string[]; folder?: string | null } }
+  | { type: "nodes"; nodes: GraphNode[] }
+  | { type: "edges"; edges: GraphEdge[] }
+  | { type: "end" };
+
+export interface GraphImportProgress {
+  importId: string;
+  graphId: string;
+  phase: "nodes" | "edges" | "done" | "error";
+  nodes: number;
+  edges: number;
+  skippedEdges: number;
+  error?: string;
+}
+
+/**
+ * GraphImportService — import en flux de très gros graphes (POST /graphs/import).
+ *
+ * Le flux est lu ligne par ligne (une seule ligne et un lot en mémoire), les nœuds et
+ * arêtes sont écrits par lots de IMPORT_BATCH_SIZE avec l'écriture native du moteur
+ * (importNodes / importEdges). Chaque lot est atomique : après un échec, l'import
+ * conserve le nombre d'enregistrements écrits et une reprise (?resume=<importId>, même
+ * flux renvoyé) saute ces enregistrements. L'état des imports est gardé en mémoire du processus :
+ * un import terminé est oublié doneTtlSeconds après sa fin, un import échoué failedTtlSeconds
+ * après sa dernière tentative (purge à chaque accès, un import en cours n'expire pas).
+ */
+export class GraphImportService {
+  private imports = new Map<string, GraphImport>();
+
+  constructor(
+    private doneTtlSeconds = IMPORT_DONE_TTL_SECONDS,
+    private failedTtlSeconds = IMPORT_FAILED_TTL_SECONDS,
+  ) {}
+
+  get(importId: string): GraphImport | undefined {
+    this.purgeExpired();
+    return this.imports.get(importId);
+  }
+
+  /**
+   * Nouvel import, ou reprise d'un import échoué sur le même moteur / la même database.
+   * Erreurs : "Import '<id>' not found" (404), "... is still running" / "... already completed" (409).
+   */
+  begin(engine: string, database: string | undefined, resumeId?: string): GraphImport {
+    this.purgeExpired();
+    const now = new Date().toISOString();
+    if (!resumeId) {
+      const entry: GraphImport = {
+        id: randomUUID(),
+        engine,
+        database,
+        graphId: "",
+        status: "running",
+        nodes: 0,
+        edges: 0,
+        skippedEdges: 0,
+        started_at: now,
+        updated_at: now,
+      };
+      this.imports.set(entry.id, entry);
+      return entry;
+    }
+
+    const entry = this.imports.get(resumeId);
+    if (!entry) {
+      throw new Error(`Import '${resumeId}' not found`);
+    }
+    if (entry.engine !== engine || (entry.database || undefined) !== (database || undefined)) {
+      throw new Error(`Invalid import: '${resumeId}' targets ${entry.engine}${entry.database ? `/${entry.database}` : ""}`);
+    }
+    if (entry.status !== "failed") {
+      throw new Error(`Import '${resumeId}' ${entry.status === "running" ? "is still running" : "already completed"}`);
+    }
+    entry.status = "running";
+    entry.error = undefined;
+    entry.updated_at = now;
+    return entry;
+  }
+
+  async run(
+    entry: GraphImport,
+    service: GraphDatabaseService,
+    lines: AsyncIterable<string>,
+    onProgress?: (progress: GraphImportProgress) => void,
+  ): Promise<GraphImport> {
+    const resumed = entry.graphId !== "";
+    // Enregistrements déjà écrits lors d'une tentative précédente
+    const skip = { nodes: entry.nodes, edges: entry.edges };
+    const seen = { nodes: 0, edges: 0 };
+    let pendingNodes: GraphNode[] = [];
+    let pendingEdges: GraphEdge[] = [];
+
+    const progress = (phase: GraphImportProgress["phase"]) => {
+      entry.updated_at = new Date().toISOString();
+      onProgress?.({
+        importId: entry.id,
+        graphId: entry.graphId,
+        phase,
+        nodes: entry.nodes,
+        edges: entry.edges,
+        skippedEdges: entry.skippedEdges,
+        error: entry.error,
+      });
+    };
+    const flushNodes = async () => {
+      if (pendingNodes.length === 0) return;
+      await service.importNodes(entry.graphId, pendingNodes, entry.database);
+      entry.nodes += pendingNodes.length;
+      pendingNodes = [];
+      progress("nodes");
+    };
+    const flushEdges = async () => {
+      if (pendingEdges.length === 0) return;
+      const written = await service.importEdges(entry.graphId, pendingEdges, entry.database);
+      entry.edges += pendingEdges.length;
+      entry.skippedEdges += pendingEdges.length - written;
+      pendingEdges = [];
+      progress("edges");
+    };
+
+    try {
+      let lineNumber = 0;
+      for await (const line of lines) {
+        lineNumber++;
+        const chunk = this.parseLine(line, lineNumber);
+
+        if (chunk.type === "graph") {
+          if (!resumed && !entry.graphId) await this.createGraph(entry, service, chunk.graph);
+          continue;
+        }
+        if (!entry.graphId) {
+          throw new Error("Invalid import: the first line must be the graph metadata ({\"type\":\"graph\",...})");
+        }
+        if (chunk.type === "end") break;
+
+        if (chunk.type === "nodes") {
+          for (const node of chunk.nodes) {
+            if (seen.nodes++ < skip.nodes) continue;
+            pendingNodes.push(this.node(node, lineNumber));
+            if (pendingNodes.length >= IMPORT_BATCH_SIZE) await flushNodes();
+          }
+        } else {
+          // Les arêtes référencent des nœuds déjà écrits
+          await flushNodes();
+          for (const edge of chunk.edges) {
+            if (seen.edges++ < skip.edges) continue;
+            pendingEdges.push(this.edge(edge, lineNumber));
+            if (pendingEdges.length >= IMPORT_BATCH_SIZE) await flushEdges();
+          }
+        }
+      }
+      if (!entry.graphId) {
+        throw new Error("Invalid import: empty stream (expected a graph line)");
+      }
+      await flushNodes();
+      await flushEdges();
+
+      entry.status = "done";
+      progress("done");
+      return entry;
+    } catch (err) {
+      entry.status = "failed";
+      entry.error = (err as Error).message;
+      // Un échec avant la création du graphe ne laisse rien à reprendre
+      if (!entry.graphId) this.imports.delete(entry.id);
+      progress("error");
+      throw err;
+    }
+  }
+
+  /** Lignes d'un flux NDJSON (\n ou \r\n), lignes vides ignorées */
+  static async *ndjsonLines(source: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    const decoder = new StringDecoder("utf8");
+    let pending: string[] = [];
+    for await (const chunk of source) {
+      const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+      let start = 0;
+      for (let newline = text.indexOf("\n"); newline >= 0; newline = text.indexOf("\n", start)) {
+        pending.push(text.slice(start, newline));
+        const line = pending.join("").trim();
+        pending = [];
+        start = newline + 1;
+        if (line) yield line;
+      }
+      if (start < text.length) pending.push(text.slice(start));
+    }
+    pending.push(decoder.end());
+    const last = pending.join("").trim();
+    if (last) yield last;
+  }
+
+  /**
+   * Lignes NDJSON des parties fichier d'un multipart/form-data, partie après partie
+   * (un gros export découpé en plusieurs fichiers). Les champs texte sont ignorés.
+   */
+  static async *multipartLines(headers: IncomingHttpHeaders, body: Readable): AsyncGenerator<string> {
+    const parser = busboy({ headers });
+    const parts: Readable[] = [];
+    let finished = false;
+    let failure: Error | undefined;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+
+    parser.on("file", (_name, stream) => {
+      parts.push(stream);
+      notify();
+    });
+    parser.on("close", () => {
+      finished = true;
+      notify();
+    });
+    parser.on("error", (err: Error) => {
+      failure = err;
+      notify();
+    });
+    body.pipe(parser);
+
+    try {
+      for (;;) {
+        if (failure) throw new Error(`Invalid import: ${failure.message}`);
+        const part = parts.shift();
+        if (part) {
+          yield* this.ndjsonLines(part);
+          continue;
+        }
+        if (finished) return;
+        await new Promise<void>((resolve) => { wake = resolve; });
+      }
+    } finally {
+      body.unpipe(parser);
+    }
+  }
+
+  private purgeExpired() {
+    const now = Date.now();
+    for (const [id, entry] of this.imports) {
+      if (entry.status === "running") continue;
+      const ttl = entry.status === "done" ? this.doneTtlSeconds : this.failedTtlSeconds;
+      if (Date.parse(entry.updated_at) + ttl * 1000 <= now) this.imports.delete(id);
+    }
+  }
+
+  private async createGraph(
+    entry: GraphImport,
+    service: GraphDatabaseService,
+    graph: { id?: string; title: string; description?: string; graph_type?: string; tags?: string[]; folder?: string | null },
+  ) {
+    if (!graph || typeof graph.title !== "string" || !graph.title) {
+      throw new Error("Invalid import: graph line requires a title");
+    }
+    let tags: string[];
+    let folder: string | null;
+    try {
+      tags = graph.tags === undefined ? [] : GraphMetadata.tags(graph.tags);
+      folder = GraphMetadata.folder(graph.folder);
+    } catch (err) {
+      throw new Error(`Invalid import: graph line ${(err as Error).message.replace("Invalid metadata: ", "")}`);
+    }
+    const graphId = graph.id || `graph_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (await service.getGraphMetadata(graphId, entry.database)) {
+      throw new Error(`Graph '${graphId}' already exists`);
+    }
+    await service.createGraph(
+      graphId,
+      graph.title,
+      graph.description ?? "",
+      graph.graph_type || "flowchart",
+      [],
+      [],
+      entry.database,
+    );
+    entry.graphId = graphId;
+    if (tags.length > 0 || folder) {
+      await service.updateGraphMetadata(graphId, { tags, folder }, entry.database);
+    }
+  }
+
+  private parseLine(line: string, lineNumber: number): GraphImportChunk {
+    let chunk: any;
+    try {
+      chunk = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid import: line ${lineNumber} is not valid JSON`);
+    }
+    const valid =
+      (chunk?.type === "graph" && chunk.graph && typeof chunk.graph === "object") ||
+      (chunk?.type === "nodes" && Array.isArray(chunk.nodes)) ||
+      (chunk?.type === "edges" && Array.isArray(chunk.edges)) ||
+      chunk?.type === "end";
+    if (!valid) {
+      throw new Error(`Invalid import: line ${lineNumber} must be a graph, nodes, edges or end chunk`);
+    }
+    return chunk;
+  }
+
+  private node(node: any, lineNumber: number): GraphNode {
+    if (!node || typeof node.id !== "string" || !node.id) {
+      throw new Error(`Invalid import: node without id on line ${lineNumber}`);
+    }
+    return {
+      id: node.id,
+      label: node.label ?? node.id,
+      node_type: node.node_type ?? "default",
+      properties: node.properties ?? {},
+    };
+  }
+
+  private edge(edge: any, lineNumber: number): GraphEdge {
+    if (!edge || typeof edge.source !== "string" || typeof edge.target !== "string") {
+      throw new Error(`Invalid import: edge without source/target on line ${lineNumber}`);
+    }
+    return {
+      source: edge.source,
+      target: edge.target,
+      label: edge.label ?? edge.edge_type,
+      edge_type: edge.edge_type ?? "default",
+      properties: edge.properties ?? {},
+    };
+  }
+}
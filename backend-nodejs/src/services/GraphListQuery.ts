@@ -0,0 +1,129 @@
+import { GraphListFilter, GraphListPage, GraphListSort, GraphSummary } from "../models/graph.js";
+import { GraphMetadata } from "./GraphMetadata.js";
+
+export const GRAPH_LIST_SORTS: GraphListSort[] = ["created_at", "node_count", "title"];
+/** Taille maximale d'une page de GET /graphs?limit= */
+export const GRAPH_LIST_LIMIT_MAX = 500;
+
+/** Page par défaut : plus récents d'abord, tous les graphes */
+export const DEFAULT_GRAPH_LIST_PAGE: GraphListPage = { sort: "created_at", order: "desc" };
+
+/**
+ * GraphListQuery — paramètres de GET /graphs et curseurs de pagination.
+ *
+ * ?sort=created_at|node_count|title (défaut created_at), ?order=asc|desc (défaut : desc, asc pour title),
+ * ?graph_type=, ?min_nodes= / ?max_nodes= (inclus), ?tag= / ?folder= (GraphMetadata),
+ * ?limit= (1..500, absent = tout) et ?cursor= (X-Next-Cursor de la page précédente).
+ * Le curseur encode le tri et la clé du dernier graphe (valeur triée + id) : les moteurs
+ * reprennent strictement après, sans OFFSET, et l'ordre reste stable si des graphes sont créés.
+ * Erreurs : "Invalid list query: ..." (→ 400).
+ */
+export class GraphListQuery {
+  static parse(query: Record<string, any>): { filter: GraphListFilter; page: GraphListPage } {
+    const filter = GraphMetadata.parseListFilter(query);
+    if (typeof query.graph_type === "string" && query.graph_type.trim()) {
+      filter.graph_type = query.graph_type.trim();
+    }
+    for (const bound of ["min_nodes", "max_nodes"] as const) {
+      if (query[bound] === undefined || query[bound] === "") continue;
+      const value = Number(query[bound]);
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid list query: ${bound} must be an integer >= 0`);
+      }
+      filter[bound] = value;
+    }
+
+    const sort = (query.sort ?? "created_at") as GraphListSort;
+    if (!GRAPH_LIST_SORTS.includes(sort)) {
+      throw new Error(`Invalid list query: sort must be one of ${GRAPH_LIST_SORTS.join(", ")}`);
+    }
+    const order = query.order ?? (sort === "title" ? "asc" : "desc");
+    if (order !== "asc" && order !== "desc") {
+      throw new Error("Invalid list query: order must be asc or desc");
+    }
+    const page: GraphListPage = { sort, order };
+
+    if (query.limit !== undefined) {
+      const limit = Number(query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error("Invalid list query: limit must be an integer >= 1");
+      }
+      page.limit = Math.min(limit, GRAPH_LIST_LIMIT_MAX);
+    }
+    if (typeof query.cursor === "string" && query.cursor) {
+      page.after = this.decodeCursor(query.cursor, page);
+    }
+    return { filter, page };
+  }
+
+  /** Curseur opaque (base64url) reprenant après ce graphe ; un title NULL est encodé `value: null` */
+  static cursor(graph: GraphSummary, page: GraphListPage): string {
+    const payload = { sort: page.sort, order: page.order, value: graph[page.sort] ?? null, id: graph.id };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+  }
+
+  private static decodeCursor(raw: string, page: GraphListPage): GraphListPage["after"] {
+    let payload: any;
+    try {
+      payload = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    } catch {
+      throw new Error("Invalid list query: malformed cursor");
+    }
+    const valueType = page.sort === "node_count" ? "number" : "string";
+    const nullable = page.sort === "title" && payload?.value === null;
+    if (!payload || typeof payload.id !== "string" || (typeof payload.value !== valueType && !nullable)) {
+      throw new Error("Invalid list query: malformed cursor");
+    }
+    if (payload.sort !== page.sort || payload.order !== page.order) {
+      throw new Error("Invalid list query: cursor was issued for another sort order");
+    }
+    return { value: payload.value, id: payload.id };
+  }
+
+  /**
+   * Condition SQL / Cypher « strictement après le curseur » (`value` et `id` : paramètres nommés).
+   * La colonne triée peut être NULL (title sur MSSQL) : `nullsFirst` indique si le moteur trie
+   * NULL avant toute valeur en ASC (SQL Server, SQLite) ou après (Neo4j) ; DESC inverse l'ordre.
+   */
+  static afterCondition(
+    column: string,
+    idColumn: string,
+    page: GraphListPage,
+    value: string,
+    id: string,
+    nullsFirst: boolean,
+  ): string {
+    const op = page.order === "asc" ? ">" : "<";
+    const nullsBefore = nullsFirst === (page.order === "asc");
+    if (page.after?.value === null) {
+      const sameKey = `(${column} IS NULL AND ${idColumn} ${op} ${id})`;
+      return nullsBefore ? `(${sameKey} OR ${column} IS NOT NULL)` : sameKey;
+    }
+    const after = `${column} ${op} ${value} OR (${column} = ${value} AND ${idColumn} ${op} ${id})`;
+    return nullsBefore ? `(${after})` : `(${after} OR ${column} IS NULL)`;
+  }
+
+  /** Filtre, tri et page en JavaScript (moteur en mémoire) — même sémantique que les requêtes des moteurs, NULL en premier */
+  static apply<T extends GraphSummary>(graphs: T[], filter: GraphListFilter, page: GraphListPage): T[] {
+    type Key = { value: string | number | null; id: string };
+    const direction = page.order === "asc" ? 1 : -1;
+    const order = (a: Key["value"], b: Key["value"]) =>
+      a === b ? 0 : a === null ? -1 : b === null ? 1 : a < b ? -1 : a > b ? 1 : 0;
+    const compare = (a: Key, b: Key) =>
+      (order(a.value, b.value) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)) * direction;
+    const key = (g: T): Key => ({ value: g[page.sort] ?? null, id: g.id });
+
+    const sorted = graphs
+      .filter((g) => this.matches(g, filter))
+      .filter((g) => !page.after || compare(key(g), page.after) > 0)
+      .sort((a, b) => compare(key(a), key(b)));
+    return page.limit === undefined ? sorted : sorted.slice(0, page.limit);
+  }
+
+  static matches(graph: GraphSummary, filter: GraphListFilter): boolean {
+    if (filter.graph_type !== undefined && graph.graph_type !== filter.graph_type) return false;
+    if (filter.min_nodes !== undefined && graph.node_count < filter.min_nodes) return false;
+    if (filter.max_nodes !== undefined && graph.node_count > filter.max_nodes) return false;
+    return GraphMetadata.matches(graph, filter);
+  }
+}
@@ -0,0 +1,247 @@
+import { GraphEdge, GraphExportDocument, GraphNode, NodePositions, ParsedGraphDocument } from "../models/graph.js";
+import {
+  DEFAULT_XML_TYPE,
+  XmlPropertyAttribute,
+  checkReferences,
+  formatValue,
+  parseValue,
+  parseXml,
+  propertyAttributes,
+  propertyKey,
+  textOf,
+  xmlEscape,
+} from "./XmlGraphFormat.js";
+
+export const GRAPHML_MIME = "application/graphml+xml";
+
+/** Taille des nœuds dessinés par yEd (ShapeNode) */
+const YED_NODE_SIZE = 30;
+
+/** Attributs des nœuds / arêtes qui ne viennent pas de properties */
+const NODE_FIELDS = ["label", "node_type", "x", "y"];
+const EDGE_FIELDS = ["label", "edge_type"];
+
+interface GraphMLKey {
+  /** node, edge, graph ou all */
+  for?: string;
+  name?: string;
+  type?: string;
+  /** nodegraphics / edgegraphics (yEd) */
+  yfiles?: string;
+  default?: string;
+}
+
+/**
+ * GraphMLCodec — échange avec yEd, Gephi, Cytoscape (GraphML 1.0).
+ *
+ * Écriture : label, node_type / edge_type et chaque clé de properties deviennent des <key>
+ * typées (attr.type boolean / long / double / string) ; les positions connues sont écrites
+ * en attributs x / y (Gephi) et dans un y:ShapeNode (yEd, qui affiche aussi le label).
+ * Lecture : les clés ci-dessus, les y:ShapeNode / y:PolyLineEdge de yEd (label, position)
+ * et les attributs inconnus dans properties, typés selon attr.type. Les nœuds des graphes
+ * imbriqués (groupes yEd) sont aplatis avec la propriété group = id du nœud parent.
+ */
+export class GraphMLCodec {
+  static encode(doc: GraphExportDocument): string {
+    const { graph, data, positions = {} } = doc;
+    const nodeAttributes = propertyAttributes(data.nodes, NODE_FIELDS, "n");
+    const edgeAttributes = propertyAttributes(data.edges, EDGE_FIELDS, "e");
+    const hasPositions = data.nodes.some((n) => positions[n.id]);
+
+    const out: string[] = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<graphml xmlns="http://graphml.graphdrawing.org/xmlns"`,
+      `  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+      `  xmlns:y="http://www.yworks.com/xml/graphml"`,
+      `  xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd">`,
+      `  <key id="g_title" for="graph" attr.name="title" attr.type="string"/>`,
+      `  <key id="g_description" for="graph" attr.name="description" attr.type="string"/>`,
+      `  <key id="g_type" for="graph" attr.name="graph_type" attr.type="string"/>`,
+      `  <key id="n_label" for="node" attr.name="label" attr.type="string"/>`,
+      `  <key id="n_type" for="node" attr.name="node_type" attr.type="string"/>`,
+    ];
+    if (hasPositions) {
+      out.push(`  <key id="n_x" for="node" attr.name="x" attr.type="double"/>`);
+      out.push(`  <key id="n_y" for="node" attr.name="y" attr.type="double"/>`);
+    }
+    for (const a of nodeAttributes) out.push(this.keyElement(a, "node"));
+    out.push(`  <key id="n_graphics" for="node" yfiles.type="nodegraphics"/>`);
+    out.push(`  <key id="e_label" for="edge" attr.name="label" attr.type="string"/>`);
+    out.push(`  <key id="e_type" for="edge" attr.name="edge_type" attr.type="string"/>`);
+    for (const a of edgeAttributes) out.push(this.keyElement(a, "edge"));
+    out.push(`  <key id="e_graphics" for="edge" yfiles.type="edgegraphics"/>`);
+
+    out.push(`  <graph id="${xmlEscape(graph.id)}" edgedefault="directed">`);
+    out.push(`    <data key="g_title">${xmlEscape(graph.title)}</data>`);
+    out.push(`    <data key="g_description">${xmlEscape(graph.description ?? "")}</data>`);
+    out.push(`    <data key="g_type">${xmlEscape(graph.graph_type)}</data>`);
+
+    for (const node of data.nodes) {
+      const label = xmlEscape(node.label ?? node.id);
+      const position = positions[node.id];
+      out.push(`    <node id="${xmlEscape(node.id)}">`);
+      out.push(`      <data key="n_label">${label}</data>`);
+      out.push(`      <data key="n_type">${xmlEscape(node.node_type)}</data>`);
+      if (position) {
+        out.push(`      <data key="n_x">${position.x}</data>`);
+        out.push(`      <data key="n_y">${position.y}</data>`);
+      }
+      out.push(...this.dataElements(node.properties, nodeAttributes));
+      // yEd : Geometry = coin supérieur gauche ; sans position, yEd place le nœud à la mise en page
+      const geometry = position
+        ? `<y:Geometry x="${position.x - YED_NODE_SIZE / 2}" y="${position.y - YED_NODE_SIZE / 2}" width="${YED_NODE_SIZE}" height="${YED_NODE_SIZE}"/>`
+        : "";
+      out.push(`      <data key="n_graphics"><y:ShapeNode>${geometry}<y:NodeLabel>${label}</y:NodeLabel></y:ShapeNode></data>`);
+      out.push(`    </node>`);
+    }
+
+    data.edges.forEach((edge, i) => {
+      const id = edge.id ?? `e${i}`;
+      out.push(`    <edge id="${xmlEscape(id)}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}">`);
+      if (edge.label) out.push(`      <data key="e_label">${xmlEscape(edge.label)}</data>`);
+      out.push(`      <data key="e_type">${xmlEscape(edge.edge_type)}</data>`);
+      out.push(...this.dataElements(edge.properties, edgeAttributes));
+      if (edge.label) {
+        out.push(
+          `      <data key="e_graphics"><y:PolyLineEdge><y:Arrows source="none" target="standard"/>` +
+            `<y:EdgeLabel>${xmlEscape(edge.label)}</y:EdgeLabel></y:PolyLineEdge></data>`,
+        );
+      }
+      out.push(`    </edge>`);
+    });
+
+    out.push(`  </graph>`, `</graphml>`, ``);
+    return out.join("\n");
+  }
+
+  static decode(content: string): ParsedGraphDocument {
+    const root = parseXml(content, "graphml").graphml;
+    const graph = root?.graph?.[0];
+    if (!graph) throw new Error("Invalid graphml: missing <graphml><graph> element");
+
+    const keys = new Map<string, GraphMLKey>();
+    for (const key of root.key ?? []) {
+      keys.set(key.id, {
+        for: key.for,
+        name: key["attr.name"] ?? key.id,
+        type: key["attr.type"],
+        yfiles: key["yfiles.type"],
+        default: key.default !== undefined ? textOf(key.default) : undefined,
+      });
+    }
+
+    const doc: ParsedGraphDocument = { nodes: [], edges: [], positions: {} };
+    for (const data of graph.data ?? []) {
+      const name = keys.get(data.key)?.name ?? data.key;
+      if (name === "title") doc.title = textOf(data);
+      else if (name === "description") doc.description = textOf(data);
+      else if (name === "graph_type") doc.graph_type = textOf(data);
+    }
+    this.readGraph(graph, keys, doc, undefined);
+
+    checkReferences("graphml", doc.nodes, doc.edges);
+    return doc;
+  }
+
+  private static keyElement(a: XmlPropertyAttribute, target: "node" | "edge"): string {
+    return `  <key id="${a.id}" for="${target}" attr.name="${xmlEscape(a.name)}" attr.type="${a.type}"/>`;
+  }
+
+  private static dataElements(properties: Record<string, any> | undefined, attributes: XmlPropertyAttribute[]): string[] {
+    return attributes
+      .filter((a) => properties?.[a.key] !== undefined && properties[a.key] !== null)
+      .map((a) => `      <data key="${a.id}">${xmlEscape(formatValue(properties![a.key], a.type))}</data>`);
+  }
+
+  /** Nœuds et arêtes d'un <graph>, récursivement pour les graphes imbriqués dans un nœud */
+  private static readGraph(graph: any, keys: Map<string, GraphMLKey>, doc: ParsedGraphDocument, group: string | undefined) {
+    for (const element of graph.node ?? []) {
+      if (element.id === undefined) throw new Error("Invalid graphml: <node> without id");
+      const node = this.readNode(element, keys, doc.positions);
+      if (group !== undefined && node.properties.group === undefined) node.properties.group = group;
+      doc.nodes.push(node);
+      for (const nested of element.graph ?? []) this.readGraph(nested, keys, doc, node.id);
+    }
+    for (const element of graph.edge ?? []) {
+      if (element.source === undefined || element.target === undefined) {
+        throw new Error("Invalid graphml: <edge> without source or target");
+      }
+      doc.edges.push(this.readEdge(element, keys));
+    }
+  }
+
+  private static readNode(element: any, keys: Map<string, GraphMLKey>, positions: NodePositions): GraphNode {
+    const id = String(element.id);
+    const node: GraphNode = { id, label: "", node_type: "", properties: {} };
+    let x: number | undefined;
+    let y: number | undefined;
+    let graphicsLabel = "";
+
+    for (const [key, value] of this.values(element, keys, "node")) {
+      if (key.yfiles === "nodegraphics") {
+        // Premier élément de forme yEd (ShapeNode, GenericNode, ImageNode…)
+        const shape: any = Object.values(value ?? {}).find((v) => typeof v === "object");
+        const geometry = shape?.Geometry;
+        if (geometry?.x !== undefined && geometry?.y !== undefined) {
+          x ??= Number(geometry.x) + Number(geometry.width ?? 0) / 2;
+          y ??= Number(geometry.y) + Number(geometry.height ?? 0) / 2;
+        }
+        graphicsLabel = textOf(shape?.NodeLabel?.[0]).trim();
+        continue;
+      }
+      const text = textOf(value);
+      if (key.name === "label") node.label = text;
+      else if (key.name === "node_type") node.node_type = text;
+      else if (key.name === "x") x = Number(text);
+      else if (key.name === "y") y = Number(text);
+      else node.properties[propertyKey(key.name!)] = parseValue(text, key.type);
+    }
+
+    node.label ||= graphicsLabel || id;
+    node.node_type ||= DEFAULT_XML_TYPE;
+    if (x !== undefined && y !== undefined && Number.isFinite(x) && Number.isFinite(y)) positions[id] = { x, y };
+    return node;
+  }
+
+  private static readEdge(element: any, keys: Map<string, GraphMLKey>): GraphEdge {
+    const edge: GraphEdge = {
+      source: String(element.source),
+      target: String(element.target),
+      edge_type: "",
+      properties: {},
+    };
+    if (element.id !== undefined) edge.id = String(element.id);
+
+    for (const [key, value] of this.values(element, keys, "edge")) {
+      if (key.yfiles === "edgegraphics") {
+        const line: any = Object.values(value ?? {}).find((v) => typeof v === "object");
+        const label = textOf(line?.EdgeLabel?.[0]).trim();
+        if (label) edge.label ??= label;
+        continue;
+      }
+      const text = textOf(value);
+      if (key.name === "label") edge.label = text || undefined;
+      else if (key.name === "edge_type") edge.edge_type = text;
+      else edge.properties[propertyKey(key.name!)] = parseValue(text, key.type);
+    }
+
+    edge.edge_type ||= DEFAULT_XML_TYPE;
+    return edge;
+  }
+
+  /** Valeurs <data> d'un élément, plus les défauts des clés absentes */
+  private static values(element: any, keys: Map<string, GraphMLKey>, target: "node" | "edge"): Array<[GraphMLKey, any]> {
+    const values: Array<[GraphMLKey, any]> = [];
+    const seen = new Set<string>();
+    for (const data of element.data ?? []) {
+      const key = keys.get(data.key) ?? { name: data.key };
+      values.push([key, data]);
+      seen.add(data.key);
+    }
+    for (const [id, key] of keys) {
+      if (seen.has(id) || key.default === undefined) continue;
+      if (key.for === target || key.for === "all") values.push([key, key.default]);
+    }
+    return values;
+  }
+}
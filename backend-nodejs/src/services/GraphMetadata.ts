@@ -0,0 +1,86 @@
+import { GraphListFilter, GraphMetadataUpdate } from "../models/graph.js";
+
+export const TAGS_MAX = 50;
+export const TAG_LENGTH_MAX = 100;
+/** Longueur maximale d'un chemin de dossier (colonne NVARCHAR(400) MSSQL) */
+export const FOLDER_LENGTH_MAX = 400;
+
+/**
+ * GraphMetadata — tags et dossiers des graphes (PATCH /graphs/:id, GET /graphs?tag=&folder=).
+ *
+ * Dossier : chemin "a/b/c" — segments sans espaces de bord, sans / initial, final ni double ;
+ * null = racine. Le filtre ?folder=a/b retient le dossier et ses sous-dossiers, ?folder=/ la racine.
+ * Tags : chaînes libres sans espaces de bord, dédoublonnées dans l'ordre, comparées exactement.
+ * Erreurs de validation : "Invalid metadata: ..." (→ 400).
+ */
+export class GraphMetadata {
+  /** Chemin normalisé, null pour la racine ("", "/", null) */
+  static folder(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== "string") {
+      throw new Error("Invalid metadata: folder must be a string or null");
+    }
+    const path = value.split("/").map((segment) => segment.trim()).filter(Boolean).join("/");
+    if (path.length > FOLDER_LENGTH_MAX) {
+      throw new Error(`Invalid metadata: folder longer than ${FOLDER_LENGTH_MAX} characters`);
+    }
+    return path || null;
+  }
+
+  static tags(value: unknown): string[] {
+    if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
+      throw new Error("Invalid metadata: tags must be an array of strings");
+    }
+    const tags = [...new Set(value.map((tag: string) => tag.trim()).filter(Boolean))];
+    if (tags.length > TAGS_MAX) {
+      throw new Error(`Invalid metadata: at most ${TAGS_MAX} tags`);
+    }
+    if (tags.some((tag) => tag.length > TAG_LENGTH_MAX)) {
+      throw new Error(`Invalid metadata: tags longer than ${TAG_LENGTH_MAX} characters`);
+    }
+    return tags;
+  }
+
+  /** Corps de PATCH /graphs/:id ; au moins un champ connu */
+  static parseUpdate(body: any): GraphMetadataUpdate {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new Error("Invalid metadata: expected a JSON object");
+    }
+    const update: GraphMetadataUpdate = {};
+    for (const field of ["title", "description", "graph_type"] as const) {
+      if (body[field] === undefined) continue;
+      if (typeof body[field] !== "string" || (field !== "description" && !body[field].trim())) {
+        throw new Error(`Invalid metadata: ${field} must be a non-empty string`);
+      }
+      update[field] = field === "description" ? body[field] : body[field].trim();
+    }
+    if (body.tags !== undefined) update.tags = this.tags(body.tags);
+    if (body.folder !== undefined) update.folder = this.folder(body.folder);
+    if (Object.keys(update).length === 0) {
+      throw new Error("Invalid metadata: provide title, description, graph_type, tags or folder");
+    }
+    return update;
+  }
+
+  /** ?tag= / ?folder= de GET /graphs */
+  static parseListFilter(query: Record<string, any>): GraphListFilter {
+    const filter: GraphListFilter = {};
+    if (typeof query.tag === "string" && query.tag.trim()) {
+      filter.tag = query.tag.trim();
+    }
+    if (typeof query.folder === "string" && query.folder !== "") {
+      filter.folder = this.folder(query.folder);
+    }
+    return filter;
+  }
+
+  /** Filtre en JavaScript (moteur en mémoire) — même sémantique que les requêtes des autres moteurs */
+  static matches(graph: { tags: string[]; folder: string | null }, filter: GraphListFilter): boolean {
+    if (filter.tag !== undefined && !graph.tags.includes(filter.tag)) return false;
+    if (filter.folder === null) return graph.folder === null;
+    if (filter.folder !== undefined) {
+      return graph.folder === filter.folder || (graph.folder ?? "").startsWith(`${filter.folder}/`);
+    }
+    return true;
+  }
+}
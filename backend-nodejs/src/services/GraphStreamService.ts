@@ -0,0 +1,58 @@
+import { Graph, GraphEdge, GraphNode } from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+
+/** Taille des pages lues dans le moteur (nœuds ou arêtes par chunk) */
+export const STREAM_PAGE_SIZE = parseInt(process.env.GRAPH_STREAM_PAGE_SIZE || "5000", 10);
+
+/** Un chunk du flux NDJSON de GET /graphs/:id?stream=ndjson (une ligne JSON par chunk) */
+export type GraphStreamChunk =
+  | { type: "graph"; graph: Graph }
+  | { type: "nodes"; offset: number; nodes: GraphNode[] }
+  | { type: "edges"; offset: number; edges: GraphEdge[] }
+  | { type: "end"; nodes: number; edges: number; elapsed_ms: number };
+
+/**
+ * GraphStreamService — lecture d'un graphe par pages (getGraphNodesAfter / getGraphEdgesAfter).
+ *
+ * Les nœuds sont émis avant les arêtes : le client peut afficher les nœuds
+ * dès le premier chunk. Seule une page est en mémoire à la fois, au lieu du
+ * GraphData complet sérialisé en une chaîne par JSON.stringify. Parcours par clé
+ * (id > dernier id lu) : pas de SKIP/OFFSET dont le coût croît à chaque page.
+ */
+export class GraphStreamService {
+  static async *chunks(
+    service: GraphDatabaseService,
+    graphId: string,
+    database?: string,
+    pageSize: number = STREAM_PAGE_SIZE,
+  ): AsyncGenerator<GraphStreamChunk> {
+    const t0 = Date.now();
+    const graph = await service.getGraphMetadata(graphId, database);
+    if (!graph) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+    yield { type: "graph", graph };
+
+    let nodeCount = 0;
+    let lastNode: string | undefined;
+    for (;;) {
+      const nodes = await service.getGraphNodesAfter(graphId, lastNode, pageSize, database);
+      if (nodes.length > 0) yield { type: "nodes", offset: nodeCount, nodes };
+      nodeCount += nodes.length;
+      if (nodes.length < pageSize) break;
+      lastNode = nodes[nodes.length - 1].id;
+    }
+
+    let edgeCount = 0;
+    let lastEdge: string | undefined;
+    for (;;) {
+      const edges = await service.getGraphEdgesAfter(graphId, lastEdge, pageSize, database);
+      if (edges.length > 0) yield { type: "edges", offset: edgeCount, edges };
+      edgeCount += edges.length;
+      if (edges.length < pageSize) break;
+      lastEdge = edges[edges.length - 1].id;
+    }
+
+    yield { type: "end", nodes: nodeCount, edges: edgeCount, elapsed_ms: Date.now() - t0 };
+  }
+}
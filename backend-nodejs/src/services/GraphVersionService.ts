@@ -0,0 +1,42 @@
+import { GraphVersion, GraphVersionData } from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+
+/** Nombre de versions conservées par graphe (les plus anciennes sont purgées) */
+const VERSION_LIMIT = parseInt(process.env.GRAPH_VERSION_LIMIT || "20", 10);
+
+/**
+ * GraphVersionService — versionnement des graphes, indépendant du moteur.
+ *
+ * Chaque écriture (création, CRUD nœuds/arêtes, rollback) enregistre un snapshot
+ * complet du graphe via GraphDatabaseService.saveGraphVersion. Le rollback
+ * réécrit le contenu d'une version puis enregistre une nouvelle version
+ * ("rollback:vN") : l'historique n'est jamais réécrit.
+ */
+export class GraphVersionService {
+  constructor(private service: GraphDatabaseService) {}
+
+  /** Snapshot de l'état courant du graphe (lu sans cache) */
+  async record(graphId: string, change: string, database?: string): Promise<GraphVersion> {
+    const data = await this.service.getGraph(graphId, database, true);
+    return this.service.saveGraphVersion(graphId, change, data, VERSION_LIMIT, database);
+  }
+
+  list(graphId: string, database?: string): Promise<GraphVersion[]> {
+    return this.service.listGraphVersions(graphId, database);
+  }
+
+  get(graphId: string, version: number, database?: string): Promise<GraphVersionData | null> {
+    return this.service.getGraphVersion(graphId, version, database);
+  }
+
+  /** Restaure le contenu d'une version ; retourne la nouvelle version créée */
+  async rollback(graphId: string, version: number, database?: string): Promise<GraphVersion> {
+    const target = await this.service.getGraphVersion(graphId, version, database);
+    if (!target) {
+      throw new Error(`Version ${version} of graph '${graphId}' not found`);
+    }
+
+    await this.service.replaceGraphData(graphId, target.data.nodes, target.data.edges, database);
+    return this.record(graphId, `rollback:v${version}`, database);
+  }
+}
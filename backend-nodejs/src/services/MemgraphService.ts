@@ -2,9 +2,13 @@
 // (Bolt 4.x, seul protocole supporté par Memgraph 2.x)
 // neo4j-driver v5 envoie un handshake Bolt 5.x que Memgraph rejette.
 import neo4jV4 from "neo4j-driver-memgraph";
-import type { Driver, Session } from "neo4j-driver";
+import type { Driver, Session, SessionMode } from "neo4j-driver";
 import { Neo4jService } from "./Neo4jService.js";
-import { Graph, GraphNode, GraphEdge, ImpactResult } from "../models/graph.js";
+import { NodeSearch, SEARCH_CANDIDATES_MAX } from "./NodeSearch.js";
+import { Graph, GraphNode, GraphEdge, ImpactResult, RawQueryOptions, RawQueryResult, SearchHit } from "../models/graph.js";
+
+/** Clauses Cypher d'écriture (hors littéraux et commentaires) refusées en lecture seule */
+const WRITE_CLAUSES = /(?<![.$])\b(CREATE|MERGE|DELETE|DETACH|SET|REMOVE|DROP|FOREACH|LOAD\s+CSV|CALL)\b/i;
 
 /**
  * Service Memgraph — hérite de Neo4jService.
@@ -19,9 +23,9 @@ import { Graph, GraphNode, GraphEdge, ImpactResult } from "../models/graph.js";
 export class MemgraphService extends Neo4jService {
   override readonly engineName: string = "memgraph";
 
-  constructor(uri: string) {
+  constructor(uri: string, nativeTypes = false) {
     // Appel parent avec des valeurs factices (on écrase le driver juste après)
-    super(uri, "", "");
+    super(uri, "", "", nativeTypes);
     // Remplacer le driver v5 par un driver v4 sans authentification.
     // On passe par `any` pour contourner l'incompatibilité de types entre v4 et v5.
     // neo4j-driver v4 n'a pas auth.none() — les credentials vides suffisent pour Memgraph sans auth
@@ -31,8 +35,8 @@ export class MemgraphService extends Neo4jService {
   }
 
   /** Session sans paramètre de database — Memgraph ne supporte pas le multi-db */
-  protected override getSession(_database?: string): Session {
-    return this.driver.session();
+  protected override getSession(_database?: string, accessMode: SessionMode = neo4jV4.session.WRITE): Session {
+    return this.driver.session({ defaultAccessMode: accessMode });
   }
 
   /** Initialisation : contraintes et index compatibles Memgraph */
@@ -92,6 +96,22 @@ export class MemgraphService extends Neo4jService {
     // ── 4. Index GraphNode(graph_id, node_id) ────────────────────
     // Note: Memgraph 2.x ne supporte pas les index composites — ignoré.
 
+    // ── 5. Index GraphVersion(graph_id) ──────────────────────────
+    const s3 = this.getSession();
+    try {
+      console.log("  [Memgraph] Creating index :GraphVersion(graph_id)...");
+      await s3.run(`CREATE INDEX ON :GraphVersion(graph_id)`);
+      console.log("  [Memgraph] Index 2 created.");
+    } catch (err: any) {
+      if (err.message?.includes("already exists")) {
+        console.log("  [Memgraph] Index 2 already exists — OK.");
+      } else {
+        console.error("  [Memgraph] ❌ Index 2 error — code:", err.code, "msg:", err.message);
+      }
+    } finally {
+      await s3.close();
+    }
+
     console.log("  [Memgraph] Initialization complete ✓");
   }
 
@@ -122,7 +142,7 @@ export class MemgraphService extends Neo4jService {
     try {
       const result = await session.run(
         `MATCH path = (source:GraphNode {graph_id: $graphId, node_id: $nodeId})
-               -[:CONNECTED_TO*1..${maxDepth}]->
+               -[${this.rel}*1..${maxDepth}]->
                (n:GraphNode {graph_id: $graphId})
          RETURN n.node_id AS nodeId, min(size(relationships(path))) AS level`,
         { graphId, nodeId }
@@ -147,6 +167,57 @@ export class MemgraphService extends Neo4jService {
     }
   }
 
+  /**
+   * Override searchNodes — pas d'index plein texte Lucene dans Memgraph 2.x.
+   * Présélection par CONTAINS insensible à la casse (bornée à SEARCH_CANDIDATES_MAX),
+   * puis classement par paliers en JavaScript (NodeSearch).
+   */
+  override async searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]> {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    const session = this.getSession(database);
+    try {
+      const result = await session.run(
+        `MATCH (n:GraphNode)
+         WHERE ($graphId IS NULL OR n.graph_id = $graphId)
+           AND (toLower(n.node_id) CONTAINS $q OR toLower(n.label) CONTAINS $q OR toLower(n.properties) CONTAINS $q)
+         RETURN n.graph_id AS graph_id, n.node_id AS id, n.label AS label,
+                n.node_type AS node_type, n.properties AS properties
+         LIMIT ${SEARCH_CANDIDATES_MAX}`,
+        { q, graphId: graphId ?? null }
+      );
+      const candidates = result.records.map((r: any) => ({
+        graph_id: r.get("graph_id") as string,
+        node: {
+          id: r.get("id"),
+          label: r.get("label"),
+          node_type: r.get("node_type"),
+          properties: JSON.parse(r.get("properties") || "{}"),
+        } as GraphNode,
+      }));
+      return NodeSearch.rank(candidates, q, limit);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Override executeRawQuery — Memgraph ignore le mode d'accès Bolt READ.
+   * En lecture seule, les clauses d'écriture (et CALL, les procédures pouvant écrire)
+   * sont refusées avant envoi.
+   */
+  override async executeRawQuery(query: string, options: RawQueryOptions, database?: string): Promise<RawQueryResult> {
+    if (options.readOnly) {
+      const code = query
+        .replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`[^`]*`/g, "''")
+        .replace(/\/\/.*$/gm, "")
+        .replace(/\/\*[\s\S]*?\*\//g, "");
+      const clause = WRITE_CLAUSES.exec(code);
+      if (clause) throw new Error(`Read-only query: '${clause[1].toUpperCase()}' is not allowed`);
+    }
+    return super.executeRawQuery(query, options, database);
+  }
+
   // =========================================================
   //  Graphe de démonstration : réseau de villes européennes
   // =========================================================
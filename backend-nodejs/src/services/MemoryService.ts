@@ -0,0 +1,731 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  GraphNode,
+  GraphEdge,
+  GraphNodeUpdate,
+  GraphEdgeUpdate,
+  GraphListFilter,
+  GraphListPage,
+  GraphMetadataUpdate,
+  EngineStatus,
+  Graph,
+  GraphData,
+  GraphStats,
+  GraphSummary,
+  GraphVersion,
+  GraphVersionData,
+  ImpactResult,
+  SearchHit,
+  SubgraphFilter,
+} from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+import { EngineGraphCache } from "./GraphCache.js";
+import { DEFAULT_GRAPH_LIST_PAGE, GraphListQuery } from "./GraphListQuery.js";
+import { NodeSearch } from "./NodeSearch.js";
+import { SubgraphFilterParser } from "./SubgraphFilterParser.js";
+
+/** Contenu d'une "database" en mémoire */
+interface MemoryDatabase {
+  graphs: Map<string, Graph>;
+  nodes: Map<string, GraphNode[]>;
+  edges: Map<string, GraphEdge[]>;
+  /** graphId → versions, de la plus ancienne à la plus récente */
+  versions: Map<string, GraphVersionData[]>;
+  /** Compteur d'identifiants d'arêtes (équivalent IDENTITY MSSQL) */
+  nextEdgeId: number;
+}
+
+/** Format du fichier snapshot JSON */
+interface MemorySnapshot {
+  version: 1;
+  savedAt: string;
+  databases: Record<string, {
+    graphs: Graph[];
+    nodes: Record<string, GraphNode[]>;
+    edges: Record<string, GraphEdge[]>;
+    versions?: Record<string, GraphVersionData[]>;
+    nextEdgeId: number;
+  }>;
+}
+
+/**
+ * MemoryService — moteur en mémoire (aucun serveur de base de données requis).
+ *
+ * Modèle de données (par database) :
+ *   graphs  — Map graphId → métadonnées Graph
+ *   nodes   — Map graphId → nœuds
+ *   edges   — Map graphId → arêtes
+ *   versions — Map graphId → snapshots numérotés
+ *
+ * Traversées BFS en JavaScript sur des listes d'adjacence construites à la volée.
+ * Persistance optionnelle dans un snapshot JSON (rechargé à l'initialisation,
+ * réécrit après chaque écriture). Destiné au développement local et à la CI.
+ */
+export class MemoryService implements GraphDatabaseService {
+  readonly engineName = "memory";
+
+  private databases = new Map<string, MemoryDatabase>();
+
+  /** Dernière écriture du snapshot (chaîne : jamais deux écritures en parallèle) */
+  private persistChain: Promise<void> = Promise.resolve();
+  /** Écriture en attente derrière persistChain, partagée par les mutations suivantes */
+  private pendingPersist?: Promise<void>;
+
+  // Cache partagé des payloads getGraph (GRAPH_CACHE_*), clés graph:<engine>:<database>:<id>
+  private graphCache = new EngineGraphCache(() => this.engineName);
+
+  constructor(
+    private defaultDatabase: string = "memory",
+    private snapshotPath?: string,
+  ) {}
+
+  // ===== Lifecycle =====
+
+  async initialize(): Promise<void> {
+    console.log("Initializing in-memory engine...");
+
+    if (this.snapshotPath) {
+      await this.loadSnapshot();
+    }
+    if (!this.databases.has(this.defaultDatabase)) {
+      this.databases.set(this.defaultDatabase, this.emptyDatabase());
+    }
+    // Entrées laissées par un run précédent (cache disque) : le contenu peut différer du snapshot
+    this.graphCache.clear();
+
+    console.log(
+      `In-memory engine ready — ${this.databases.size} database(s)` +
+      (this.snapshotPath ? `, snapshot: ${this.snapshotPath}` : ", no snapshot"),
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.persist();
+  }
+
+  /** Toujours joignable, sans pool ; la version est celle du runtime Node.js */
+  async probe(): Promise<EngineStatus> {
+    const t0 = Date.now();
+    this.getDb();
+    return { engine: this.engineName, reachable: true, latency_ms: Date.now() - t0, version: `Node.js ${process.version}`, pool: null };
+  }
+
+  // ===== Cache =====
+
+  getCacheStats() {
+    return this.graphCache.stats();
+  }
+
+  clearCache(graphId?: string, database?: string) {
+    if (graphId) {
+      return { cleared: [this.graphCache.delete(database || this.defaultDatabase, graphId)] };
+    }
+    return { cleared: this.graphCache.clear() };
+  }
+
+  isGraphCached(graphId: string, database?: string): boolean {
+    return this.graphCache.has(database || this.defaultDatabase, graphId);
+  }
+
+  // ===== CRUD Graphes =====
+
+  async createGraph(
+    graphId: string,
+    title: string,
+    description: string,
+    graphType: string,
+    nodes: GraphNode[],
+    edges: GraphEdge[],
+    database?: string,
+    createdAt: string = new Date().toISOString(),
+  ): Promise<Graph> {
+    const db = this.getDb(database);
+    if (db.graphs.has(graphId)) {
+      throw new Error(`Graph '${graphId}' already exists`);
+    }
+
+    const graph: Graph = {
+      id: graphId,
+      title,
+      description,
+      graph_type: graphType,
+      node_count: nodes.length,
+      edge_count: edges.length,
+      created_at: createdAt,
+      tags: [],
+      folder: null,
+    };
+
+    db.graphs.set(graphId, graph);
+    db.nodes.set(graphId, nodes.map((n) => ({
+      id: n.id,
+      label: n.label,
+      node_type: n.node_type,
+      properties: { ...n.properties },
+    })));
+    db.edges.set(graphId, edges.map((e) => ({
+      id: String(db.nextEdgeId++),
+      source: e.source,
+      target: e.target,
+      label: e.label || undefined,
+      edge_type: e.edge_type,
+      properties: { ...e.properties },
+    })));
+
+    this.graphCache.delete(database || this.defaultDatabase, graphId);
+    await this.persist();
+
+    return { ...graph };
+  }
+
+  async getGraphMetadata(graphId: string, database?: string): Promise<Graph | null> {
+    const graph = this.getDb(database).graphs.get(graphId);
+    return graph ? { ...graph, tags: [...graph.tags] } : null;
+  }
+
+  async updateGraphMetadata(graphId: string, update: GraphMetadataUpdate, database?: string): Promise<Graph | null> {
+    const graph = this.getDb(database).graphs.get(graphId);
+    if (!graph) return null;
+
+    if (update.title !== undefined) graph.title = update.title;
+    if (update.description !== undefined) graph.description = update.description;
+    if (update.graph_type !== undefined) graph.graph_type = update.graph_type;
+    if (update.tags !== undefined) graph.tags = [...update.tags];
+    if (update.folder !== undefined) graph.folder = update.folder;
+
+    await this.persist();
+    return { ...graph, tags: [...graph.tags] };
+  }
+
+  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
+    const cached = await this.graphCache.lookup(database || this.defaultDatabase, graphId, bypassCache);
+    if (cached) return cached;
+
+    const db = this.getDb(database);
+    const result: GraphData = {
+      nodes: (db.nodes.get(graphId) ?? []).map((n) => ({ ...n, properties: { ...n.properties } })),
+      edges: (db.edges.get(graphId) ?? []).map((e) => ({ ...e, properties: { ...e.properties } })),
+    };
+
+    if (!bypassCache) this.graphCache.set(database || this.defaultDatabase, graphId, result);
+    return result;
+  }
+
+  async getGraphNodesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphNode[]> {
+    // Ordre d'insertion, stable tant que le graphe n'est pas modifié
+    const nodes = this.getDb(database).nodes.get(graphId) ?? [];
+    return nodes.slice(offset, offset + limit).map((n) => ({ ...n, properties: { ...n.properties } }));
+  }
+
+  async getGraphEdgesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphEdge[]> {
+    const edges = this.getDb(database).edges.get(graphId) ?? [];
+    return edges.slice(offset, offset + limit).map((e) => ({ ...e, properties: { ...e.properties } }));
+  }
+
+  // Parcours par clé : tri par id (node_id, id d'arête numérique) à chaque page
+  async getGraphNodesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphNode[]> {
+    const nodes = this.getDb(database).nodes.get(graphId) ?? [];
+    return nodes
+      .filter((n) => afterId === undefined || n.id > afterId)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit)
+      .map((n) => ({ ...n, properties: { ...n.properties } }));
+  }
+
+  async getGraphEdgesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphEdge[]> {
+    const after = afterId === undefined ? 0 : Number(afterId);
+    const edges = this.getDb(database).edges.get(graphId) ?? [];
+    return edges
+      .filter((e) => Number(e.id) > after)
+      .sort((a, b) => Number(a.id) - Number(b.id))
+      .slice(0, limit)
+      .map((e) => ({ ...e, properties: { ...e.properties } }));
+  }
+
+  async listGraphs(
+    database?: string,
+    filter: GraphListFilter = {},
+    page: GraphListPage = DEFAULT_GRAPH_LIST_PAGE,
+  ): Promise<GraphSummary[]> {
+    const db = this.getDb(database);
+    return GraphListQuery.apply(Array.from(db.graphs.values()), filter, page)
+      .map((g) => ({
+        id: g.id,
+        title: g.title,
+        description: g.description,
+        graph_type: g.graph_type,
+        node_count: g.node_count,
+        edge_count: g.edge_count,
+        created_at: g.created_at,
+        tags: [...g.tags],
+        folder: g.folder,
+      }));
+  }
+
+  async countGraphs(database?: string, filter: GraphListFilter = {}): Promise<number> {
+    let count = 0;
+    for (const g of this.getDb(database).graphs.values()) {
+      if (GraphListQuery.matches(g, filter)) count++;
+    }
+    return count;
+  }
+
+  async getGraphStats(graphId: string, database?: string): Promise<GraphStats> {
+    const db = this.getDb(database);
+    const nodes = db.nodes.get(graphId) ?? [];
+    const edges = db.edges.get(graphId) ?? [];
+
+    const nodeTypes: Record<string, number> = {};
+    for (const n of nodes) {
+      nodeTypes[n.node_type] = (nodeTypes[n.node_type] ?? 0) + 1;
+    }
+
+    return {
+      node_count: nodes.length,
+      edge_count: edges.length,
+      node_types: nodeTypes,
+      average_degree: nodes.length > 0 ? edges.length / nodes.length : 0,
+    };
+  }
+
+  async deleteGraph(graphId: string, database?: string): Promise<void> {
+    const db = this.getDb(database);
+    db.graphs.delete(graphId);
+    db.nodes.delete(graphId);
+    db.edges.delete(graphId);
+    db.versions.delete(graphId);
+    this.graphCache.delete(database || this.defaultDatabase, graphId);
+    await this.persist();
+  }
+
+  async replaceGraphData(graphId: string, nodes: GraphNode[], edges: GraphEdge[], database?: string): Promise<void> {
+    const db = this.getDb(database);
+    this.getGraphNodes(db, graphId);
+
+    db.nodes.set(graphId, nodes.map((n) => ({
+      id: n.id,
+      label: n.label,
+      node_type: n.node_type,
+      properties: { ...n.properties },
+    })));
+    db.edges.set(graphId, edges.map((e) => ({
+      id: String(db.nextEdgeId++),
+      source: e.source,
+      target: e.target,
+      label: e.label || undefined,
+      edge_type: e.edge_type,
+      properties: { ...e.properties },
+    })));
+
+    await this.afterWrite(db, graphId, database);
+  }
+
+  // ===== Import en flux =====
+  // En mémoire, addNodes / addEdges sont déjà atomiques (validation avant écriture)
+
+  async importNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<number> {
+    return (await this.addNodes(graphId, nodes, database)).length;
+  }
+
+  async importEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<number> {
+    return (await this.addEdges(graphId, edges, database)).length;
+  }
+
+  // ===== CRUD Nœuds / Arêtes =====
+
+  async addNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<GraphNode[]> {
+    const db = this.getDb(database);
+    const existing = this.getGraphNodes(db, graphId);
+
+    // Ids déjà présents, ou répétés dans le lot lui-même
+    const ids = new Set(existing.map((n) => n.id));
+    const duplicates: string[] = [];
+    for (const n of nodes) {
+      if (ids.has(n.id)) duplicates.push(n.id);
+      ids.add(n.id);
+    }
+    if (duplicates.length > 0) {
+      throw new Error(`Node(s) already exist in graph '${graphId}': ${duplicates.join(", ")}`);
+    }
+
+    const added = nodes.map((n) => ({
+      id: n.id,
+      label: n.label,
+      node_type: n.node_type,
+      properties: { ...n.properties },
+    }));
+    for (const n of added) existing.push(n);
+
+    await this.afterWrite(db, graphId, database);
+    return added.map((n) => ({ ...n, properties: { ...n.properties } }));
+  }
+
+  async updateNode(graphId: string, nodeId: string, update: GraphNodeUpdate, database?: string): Promise<GraphNode | null> {
+    const db = this.getDb(database);
+    const node = this.getGraphNodes(db, graphId).find((n) => n.id === nodeId);
+    if (!node) return null;
+
+    if (update.label !== undefined) node.label = update.label;
+    if (update.node_type !== undefined) node.node_type = update.node_type;
+    if (update.properties !== undefined) node.properties = { ...update.properties };
+
+    await this.afterWrite(db, graphId, database);
+    return { ...node, properties: { ...node.properties } };
+  }
+
+  async deleteNode(graphId: string, nodeId: string, database?: string): Promise<boolean> {
+    const db = this.getDb(database);
+    const nodes = this.getGraphNodes(db, graphId);
+    const index = nodes.findIndex((n) => n.id === nodeId);
+    if (index === -1) return false;
+
+    nodes.splice(index, 1);
+    db.edges.set(
+      graphId,
+      (db.edges.get(graphId) ?? []).filter((e) => e.source !== nodeId && e.target !== nodeId),
+    );
+
+    await this.afterWrite(db, graphId, database);
+    return true;
+  }
+
+  async addEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<GraphEdge[]> {
+    const db = this.getDb(database);
+    const ids = new Set(this.getGraphNodes(db, graphId).map((n) => n.id));
+    const graphEdges = db.edges.get(graphId)!;
+
+    const added = edges
+      .filter((e) => ids.has(e.source) && ids.has(e.target))
+      .map((e) => ({
+        id: String(db.nextEdgeId++),
+        source: e.source,
+        target: e.target,
+        label: e.label || undefined,
+        edge_type: e.edge_type,
+        properties: { ...e.properties },
+      }));
+    for (const e of added) graphEdges.push(e);
+
+    await this.afterWrite(db, graphId, database);
+    return added.map((e) => ({ ...e, properties: { ...e.properties } }));
+  }
+
+  async updateEdge(graphId: string, edgeId: string, update: GraphEdgeUpdate, database?: string): Promise<GraphEdge | null> {
+    const db = this.getDb(database);
+    this.getGraphNodes(db, graphId);
+    const edge = (db.edges.get(graphId) ?? []).find((e) => e.id === edgeId);
+    if (!edge) return null;
+
+    if (update.label !== undefined) edge.label = update.label || undefined;
+    if (update.edge_type !== undefined) edge.edge_type = update.edge_type;
+    if (update.properties !== undefined) edge.properties = { ...update.properties };
+
+    await this.afterWrite(db, graphId, database);
+    return { ...edge, properties: { ...edge.properties } };
+  }
+
+  async deleteEdge(graphId: string, edgeId: string, database?: string): Promise<boolean> {
+    const db = this.getDb(database);
+    this.getGraphNodes(db, graphId);
+    const edges = db.edges.get(graphId) ?? [];
+    const index = edges.findIndex((e) => e.id === edgeId);
+    if (index === -1) return false;
+
+    edges.splice(index, 1);
+
+    await this.afterWrite(db, graphId, database);
+    return true;
+  }
+
+  // ===== Versions =====
+
+  async saveGraphVersion(
+    graphId: string,
+    change: string,
+    data: GraphData,
+    keep: number,
+    database?: string,
+  ): Promise<GraphVersion> {
+    const db = this.getDb(database);
+    this.getGraphNodes(db, graphId);
+
+    if (!db.versions.has(graphId)) db.versions.set(graphId, []);
+    const versions = db.versions.get(graphId)!;
+    const version: GraphVersionData = {
+      graph_id: graphId,
+      version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+      created_at: new Date().toISOString(),
+      change,
+      node_count: data.nodes.length,
+      edge_count: data.edges.length,
+      data: structuredClone(data),
+    };
+    versions.push(version);
+    if (versions.length > keep) versions.splice(0, versions.length - keep);
+
+    await this.persist();
+    const { data: _data, ...summary } = version;
+    return summary;
+  }
+
+  async listGraphVersions(graphId: string, database?: string): Promise<GraphVersion[]> {
+    const versions = this.getDb(database).versions.get(graphId) ?? [];
+    return versions
+      .map(({ data: _data, ...summary }) => summary)
+      .reverse();
+  }
+
+  async getGraphVersion(graphId: string, version: number, database?: string): Promise<GraphVersionData | null> {
+    const found = (this.getDb(database).versions.get(graphId) ?? []).find((v) => v.version === version);
+    return found ? structuredClone(found) : null;
+  }
+
+  // ===== Navigation =====
+
+  async getStartingNode(graphId: string, database?: string): Promise<GraphNode | null> {
+    const nodes = this.getDb(database).nodes.get(graphId) ?? [];
+    return nodes.length > 0 ? { ...nodes[0], properties: { ...nodes[0].properties } } : null;
+  }
+
+  /**
+   * Voisins sortants ET entrants jusqu'à `depth`, puis arêtes induites entre
+   * les nœuds trouvés (même sémantique que la CTE récursive MSSQL).
+   */
+  async getNodeNeighbors(graphId: string, nodeId: string, depth = 1, database?: string): Promise<GraphData> {
+    const maxDepth = Math.min(depth, 15);
+    const db = this.getDb(database);
+    const nodes = db.nodes.get(graphId) ?? [];
+    const edges = db.edges.get(graphId) ?? [];
+
+    if (!nodes.some((n) => n.id === nodeId)) {
+      return { nodes: [], edges: [] };
+    }
+
+    const outgoing = this.buildAdjacency(edges, "out");
+    const incoming = this.buildAdjacency(edges, "in");
+    const found = new Set<string>([
+      ...this.bfs(outgoing, nodeId, maxDepth).keys(),
+      ...this.bfs(incoming, nodeId, maxDepth).keys(),
+    ]);
+
+    return {
+      nodes: nodes
+        .filter((n) => found.has(n.id))
+        .map((n) => ({ ...n, properties: { ...n.properties } })),
+      edges: edges
+        .filter((e) => found.has(e.source) && found.has(e.target))
+        .map((e) => ({ ...e, properties: { ...e.properties } })),
+    };
+  }
+
+  async getSubgraph(graphId: string, filter: SubgraphFilter, database?: string): Promise<GraphData> {
+    const db = this.getDb(database);
+    const nodes = (db.nodes.get(graphId) ?? []).filter((n) =>
+      (!filter.node_types || filter.node_types.includes(n.node_type)) &&
+      (filter.where ?? []).every((p) => SubgraphFilterParser.matches(n.properties, p)),
+    );
+    const selected = new Set(nodes.map((n) => n.id));
+    const edges = (db.edges.get(graphId) ?? []).filter((e) =>
+      selected.has(e.source) && selected.has(e.target) &&
+      (!filter.edge_types || filter.edge_types.includes(e.edge_type)) &&
+      (filter.edge_where ?? []).every((p) => SubgraphFilterParser.matches(e.properties, p)),
+    );
+    return {
+      nodes: nodes.map((n) => ({ ...n, properties: { ...n.properties } })),
+      edges: edges.map((e) => ({ ...e, properties: { ...e.properties } })),
+    };
+  }
+
+  /** Pas d'index : classement par paliers (NodeSearch) sur tous les nœuds */
+  async searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]> {
+    const db = this.getDb(database);
+    const graphIds = graphId ? [graphId] : [...db.nodes.keys()];
+    const candidates = graphIds.flatMap((g) => (db.nodes.get(g) ?? []).map((node) => ({ graph_id: g, node })));
+    return NodeSearch.rank(candidates, query, limit).map((hit) => ({
+      ...hit,
+      node: { ...hit.node, properties: { ...hit.node.properties } },
+    }));
+  }
+
+  /**
+   * Analyse d'impact côté serveur — BFS sortant en mémoire.
+   * Sert de référence "zéro I/O" pour comparer les latences des autres moteurs.
+   */
+  async computeImpact(graphId: string, nodeId: string, depth: number, database?: string): Promise<ImpactResult> {
+    const t0 = Date.now();
+    const maxDepth = Math.min(depth, 15);
+    const edges = this.getDb(database).edges.get(graphId) ?? [];
+
+    const levels = this.bfs(this.buildAdjacency(edges, "out"), nodeId, maxDepth);
+    levels.delete(nodeId);
+
+    return {
+      sourceNodeId: nodeId,
+      impactedNodes: Array.from(levels, ([id, level]) => ({ nodeId: id, level })),
+      depth: maxDepth,
+      elapsed_ms: Date.now() - t0,
+      engine: this.engineName,
+    };
+  }
+
+  // ===== Gestion des bases de données =====
+
+  async listDatabases(): Promise<Array<{ name: string; default: boolean; status: string }>> {
+    return Array.from(this.databases.keys())
+      .sort()
+      .map((name) => ({ name, default: name === this.defaultDatabase, status: "online" }));
+  }
+
+  async createDatabase(databaseName: string): Promise<void> {
+    if (!this.databases.has(databaseName)) {
+      this.databases.set(databaseName, this.emptyDatabase());
+      await this.persist();
+    }
+  }
+
+  async deleteDatabase(databaseName: string): Promise<void> {
+    if (databaseName === this.defaultDatabase) {
+      throw new Error(`Cannot delete protected database '${databaseName}'`);
+    }
+    this.databases.delete(databaseName);
+    this.graphCache.clearDatabase(databaseName);
+    await this.persist();
+  }
+
+  async getDatabaseStats(databaseName: string): Promise<{ nodeCount: number; relationshipCount: number; graphCount: number }> {
+    const db = this.getDb(databaseName);
+    let nodeCount = 0;
+    let relationshipCount = 0;
+    for (const nodes of db.nodes.values()) nodeCount += nodes.length;
+    for (const edges of db.edges.values()) relationshipCount += edges.length;
+    return { nodeCount, relationshipCount, graphCount: db.graphs.size };
+  }
+
+  // ===== Helpers =====
+
+  private emptyDatabase(): MemoryDatabase {
+    return { graphs: new Map(), nodes: new Map(), edges: new Map(), versions: new Map(), nextEdgeId: 1 };
+  }
+
+  private getDb(database?: string): MemoryDatabase {
+    const name = database || this.defaultDatabase;
+    const db = this.databases.get(name);
+    if (!db) {
+      throw new Error(`Database '${name}' does not exist`);
+    }
+    return db;
+  }
+
+  /** Nœuds d'un graphe existant (lève une erreur si le graphe n'existe pas) */
+  private getGraphNodes(db: MemoryDatabase, graphId: string): GraphNode[] {
+    if (!db.graphs.has(graphId)) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+    return db.nodes.get(graphId)!;
+  }
+
+  /** Après une écriture incrémentale : compteurs du Graph, cache, snapshot */
+  private async afterWrite(db: MemoryDatabase, graphId: string, database?: string): Promise<void> {
+    const graph = db.graphs.get(graphId)!;
+    graph.node_count = db.nodes.get(graphId)?.length ?? 0;
+    graph.edge_count = db.edges.get(graphId)?.length ?? 0;
+    this.clearCache(graphId, database);
+    await this.persist();
+  }
+
+  private buildAdjacency(edges: GraphEdge[], direction: "out" | "in"): Map<string, string[]> {
+    const adj = new Map<string, string[]>();
+    for (const e of edges) {
+      const from = direction === "out" ? e.source : e.target;
+      const to = direction === "out" ? e.target : e.source;
+      if (!adj.has(from)) adj.set(from, []);
+      adj.get(from)!.push(to);
+    }
+    return adj;
+  }
+
+  /** BFS borné — retourne nodeId → niveau minimal (source incluse au niveau 0) */
+  private bfs(adj: Map<string, string[]>, start: string, maxDepth: number): Map<string, number> {
+    const levels = new Map<string, number>([[start, 0]]);
+    let frontier = [start];
+    for (let level = 1; level <= maxDepth && frontier.length > 0; level++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const neighbor of adj.get(id) ?? []) {
+          if (!levels.has(neighbor)) {
+            levels.set(neighbor, level);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+    return levels;
+  }
+
+  // ===== Snapshot JSON =====
+
+  private async loadSnapshot(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.snapshotPath!, "utf8");
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        console.log(`No snapshot at ${this.snapshotPath} — starting empty`);
+        return;
+      }
+      throw err;
+    }
+
+    const snapshot = JSON.parse(raw) as MemorySnapshot;
+    for (const [name, content] of Object.entries(snapshot.databases ?? {})) {
+      this.databases.set(name, {
+        // tags / folder absents des snapshots antérieurs
+        graphs: new Map(content.graphs.map((g) => [g.id, { ...g, tags: g.tags ?? [], folder: g.folder ?? null }])),
+        nodes: new Map(Object.entries(content.nodes)),
+        edges: new Map(Object.entries(content.edges)),
+        versions: new Map(Object.entries(content.versions ?? {})),
+        nextEdgeId: content.nextEdgeId,
+      });
+    }
+    console.log(`Loaded snapshot ${this.snapshotPath} (${this.databases.size} database(s))`);
+  }
+
+  /**
+   * Planifie la réécriture du snapshot. Les écritures passent par une seule chaîne de
+   * promesses ; les mutations survenues pendant une écriture partagent la suivante,
+   * qui sérialise l'état courant au moment où elle démarre.
+   */
+  private persist(): Promise<void> {
+    if (!this.snapshotPath) return Promise.resolve();
+    if (!this.pendingPersist) {
+      const write = this.persistChain.then(() => {
+        this.pendingPersist = undefined;
+        return this.writeSnapshot(this.snapshotPath!);
+      });
+      this.pendingPersist = write;
+      this.persistChain = write.catch(() => undefined);
+    }
+    return this.pendingPersist;
+  }
+
+  /** Écrit le snapshot (fichier temporaire + rename pour éviter un JSON tronqué) */
+  private async writeSnapshot(snapshotPath: string): Promise<void> {
+    const snapshot: MemorySnapshot = { version: 1, savedAt: new Date().toISOString(), databases: {} };
+    for (const [name, db] of this.databases) {
+      snapshot.databases[name] = {
+        graphs: Array.from(db.graphs.values()),
+        nodes: Object.fromEntries(db.nodes),
+        edges: Object.fromEntries(db.edges),
+        versions: Object.fromEntries(db.versions),
+        nextEdgeId: db.nextEdgeId,
+      };
+    }
+
+    await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+    const tmpPath = `${snapshotPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tmpPath, snapshotPath);
+  }
+}
@@ -1,208 +1,467 @@
 import { GraphNode, GraphEdge } from "../models/graph.js";
 
+/** Forme d'un nœud : délimiteurs et node_type associé */
+interface NodeShape {
+  open: string;
+  close: string[];
+  nodeType: string;
+}
+
+// Délimiteurs les plus longs d'abord : "(((" avant "((" avant "("
+const NODE_SHAPES: NodeShape[] = [
+  { open: "(((", close: [")))"], nodeType: "end" },
+  { open: "((", close: ["))"], nodeType: "start" },
+  { open: "([", close: ["])"], nodeType: "process" },
+  { open: "(", close: [")"], nodeType: "process" },
+  { open: "[[", close: ["]]"], nodeType: "subroutine" },
+  { open: "[(", close: [")]"], nodeType: "database" },
+  { open: "[/", close: ["/]", "\\]"], nodeType: "data" },
+  { open: "[\\", close: ["\\]", "/]"], nodeType: "data" },
+  { open: "[", close: ["]"], nodeType: "process" },
+  { open: "{{", close: ["}}"], nodeType: "condition" },
+  { open: "{", close: ["}"], nodeType: "decision" },
+  { open: ">", close: ["]"], nodeType: "process" },
+];
+
+const ID_CHAR = /[\p{L}\p{N}_]/u;
+const DIRECTIONS = new Set(["TB", "TD", "BT", "RL", "LR"]);
+
+/** Instructions ignorées (rendu uniquement) : reste de l'instruction sauté */
+const IGNORED_STATEMENTS = new Set(["direction", "style", "linkStyle", "click", "accTitle", "accDescr"]);
+
+/** Autres types de diagrammes Mermaid, refusés explicitement */
+const OTHER_DIAGRAMS = /^(sequenceDiagram|classDiagram|stateDiagram(-v2)?|erDiagram|journey|gantt|pie|gitGraph|mindmap|timeline|quadrantChart|requirementDiagram|C4\w+|\w+-beta)$/;
+
+/** Trait d'un lien : (edge_type avec pointe, edge_type sans pointe) */
+const STROKES = {
+  normal: ["next", "relation"],
+  thick: ["strong", "strong"],
+  dotted: ["optional", "optional"],
+  invisible: ["invisible", "invisible"],
+} as const;
+
+type Stroke = keyof typeof STROKES;
+
+/**
+ * MermaidParser — flowchart Mermaid (graph / flowchart) → nœuds et arêtes.
+ *
+ * Lecture par un tokenizer sur tout le texte (instructions séparées par fin de ligne ou ";") :
+ * chaînes `A --> B --> C`, `A & B --> C & D` (toutes les paires), formes en ligne sur les
+ * arêtes (`A[Début] --> B{Test}`), ids avec tirets (`api-gateway`), labels `-->|texte|`,
+ * `-- texte -->`, `-. texte .->`, `== texte ==>`, textes entre guillemets et codes d'entité
+ * (`#91;`, `#quot;`).
+ * node_type : forme (( )) start, ((( ))) end, { } decision, {{ }} condition, [( )] database,
+ * [[ ]] subroutine, [/ /] data, autres process ; nœud sans forme : déduit de l'id.
+ * edge_type : --> next, --- relation, ==> / === strong, -.-> / -.- optional, ~~~ invisible.
+ * `subgraph id [titre] … end` → propriété group (sous-graphe le plus interne de la dernière
+ * mention) ; `class A,B nom` et `A:::nom` → propriété style (noms de classes) ; classDef,
+ * style, linkStyle, click et direction sont acceptés sans effet sur les données.
+ * Erreurs : "Invalid mermaid: line L, column C: ..." (→ 400).
+ */
 export class MermaidParser {
   static parse(mermaidCode: string): {
     nodes: GraphNode[];
     edges: GraphEdge[];
   } {
-    const nodes = new Map<string, GraphNode>();
-    const edges: GraphEdge[] = [];
-
-    const lines = mermaidCode
-      .split("\n")
-      .map((l) => l.trim())
-      .filter((l) => l && !l.startsWith("%%"));
-
-    for (const line of lines) {
-      // Ignorer la déclaration du graphe
-      if (
-        line.startsWith("graph ") ||
-        line.startsWith("flowchart ") ||
-        line === "graph" ||
-        line === "flowchart"
-      ) {
-        continue;
+    return new FlowchartReader(mermaidCode.replace(/\r\n?/g, "\n")).read();
+  }
+}
+
+class FlowchartReader {
+  private pos = 0;
+  private readonly nodes = new Map<string, GraphNode>();
+  private readonly edges: GraphEdge[] = [];
+  private readonly subgraphs: Array<{ id: string; pos: number }> = [];
+  private readonly classes: Array<{ ids: string[]; name: string; pos: number }> = [];
+  private statements = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(): { nodes: GraphNode[]; edges: GraphEdge[] } {
+    this.skipFrontMatter();
+    for (;;) {
+      this.skipBlank();
+      if (this.pos >= this.text.length) break;
+      this.statement();
+      this.endOfStatement();
+      this.statements++;
+    }
+
+    const open = this.subgraphs.at(-1);
+    if (open) this.fail(`subgraph '${open.id}' is not closed by 'end'`, open.pos);
+    for (const { ids, name, pos } of this.classes) {
+      for (const id of ids) {
+        const node = this.nodes.get(id);
+        if (!node) this.fail(`class '${name}' applied to unknown node '${id}'`, pos);
+        const styles: string[] = node.properties.style ? String(node.properties.style).split(" ") : [];
+        if (!styles.includes(name)) node.properties.style = [...styles, name].join(" ");
       }
+    }
+    if (this.nodes.size === 0) throw new Error("Invalid mermaid: no nodes found");
 
-      // Parser les relations (avec flèches)
-      const edgeResult = this.parseEdge(line);
-      if (edgeResult) {
-        const { source, target, label, edgeType } = edgeResult;
-
-        // Créer les nœuds implicites
-        if (!nodes.has(source)) {
-          nodes.set(source, {
-            id: source,
-            label: source,
-            node_type: this.inferNodeType(source, "default"),
-            properties: {},
-          });
-        }
-        if (!nodes.has(target)) {
-          nodes.set(target, {
-            id: target,
-            label: target,
-            node_type: this.inferNodeType(target, "default"),
-            properties: {},
-          });
-        }
+    return { nodes: Array.from(this.nodes.values()), edges: this.edges };
+  }
+
+  // ===== Instructions =====
+
+  private statement(): void {
+    const start = this.pos;
+    const word = this.peekKeyword();
 
-        edges.push({
-          source,
-          target,
-          label,
-          edge_type: edgeType,
-          properties: {},
-        });
+    if (word === "graph" || word === "flowchart") {
+      if (this.statements > 0) this.fail(`unexpected '${word}' declaration`);
+      this.pos += word.length;
+      this.skipSpaces();
+      const direction = this.match(/[A-Za-z]+/y);
+      if (direction && !DIRECTIONS.has(direction)) this.fail(`unknown direction '${direction}'`, start + word.length + 1);
+      return;
+    }
+    if (word && this.statements === 0 && OTHER_DIAGRAMS.test(word)) {
+      this.fail(`'${word}' diagrams are not supported (flowchart only)`);
+    }
+    if (word === "subgraph") {
+      this.pos += word.length;
+      this.subgraph(start);
+      return;
+    }
+    if (word === "end") {
+      if (this.subgraphs.length === 0) this.fail("'end' without matching 'subgraph'");
+      this.pos += word.length;
+      this.subgraphs.pop();
+      return;
+    }
+    if (word === "classDef") {
+      this.pos += word.length;
+      if (!this.restOfStatement().trim()) this.fail("classDef without class name", start);
+      return;
+    }
+    if (word === "class") {
+      this.pos += word.length;
+      const [ids, name, extra] = this.restOfStatement().trim().split(/\s+/);
+      if (!ids || !name || extra !== undefined) this.fail("expected 'class <id>[,<id>…] <className>'", start);
+      this.classes.push({ ids: ids.split(","), name, pos: start });
+      return;
+    }
+    if (word && IGNORED_STATEMENTS.has(word)) {
+      this.pos += word.length;
+      this.skipSpaces();
+      // accDescr { … } sur plusieurs lignes
+      if (word === "accDescr" && this.text[this.pos] === "{") {
+        const end = this.text.indexOf("}", this.pos);
+        if (end < 0) this.fail("unclosed 'accDescr {'", start);
+        this.pos = end + 1;
       } else {
-        // Parser les définitions de nœuds (avec labels)
-        const nodeResult = this.parseNode(line);
-        if (nodeResult) {
-          nodes.set(nodeResult.id, nodeResult);
+        this.restOfStatement();
+      }
+      return;
+    }
+
+    this.nodeStatement();
+  }
+
+  /** `subgraph id`, `subgraph id [Titre]`, `subgraph "Titre"`, `subgraph Titre avec espaces` */
+  private subgraph(start: number): void {
+    const rest = this.restOfLine().trim();
+    const bracketed = /^([\p{L}\p{N}_-]+)\s*\[.*\]$/u.exec(rest);
+    const quoted = /^"([^"]*)"$/.exec(rest);
+    const id = bracketed ? bracketed[1] : quoted ? quoted[1] : rest;
+    if (!id) this.fail("subgraph without id", start);
+    this.subgraphs.push({ id, pos: start });
+  }
+
+  /** Groupes de nœuds reliés : `A & B --> C -->|x| D` */
+  private nodeStatement(): void {
+    let sources = this.nodeGroup();
+    for (;;) {
+      this.skipSpaces();
+      const link = this.link();
+      if (!link) return;
+      this.skipSpaces();
+      const targets = this.nodeGroup();
+      for (const source of sources) {
+        for (const target of targets) {
+          this.edges.push({ source, target, label: link.label, edge_type: link.edgeType, properties: {} });
         }
       }
+      sources = targets;
+    }
+  }
+
+  private nodeGroup(): string[] {
+    const ids = [this.nodeRef()];
+    for (;;) {
+      const save = this.pos;
+      this.skipSpaces();
+      if (this.text[this.pos] !== "&") {
+        this.pos = save;
+        return ids;
+      }
+      this.pos++;
+      this.skipSpaces();
+      ids.push(this.nodeRef());
+    }
+  }
+
+  /** id, forme facultative, classe facultative (`A[Texte]:::critique`) */
+  private nodeRef(): string {
+    const idStart = this.pos;
+    const id = this.identifier();
+    if (!id) this.fail(this.pos >= this.text.length || this.text[this.pos] === "\n" ? "expected a node id" : `unexpected '${this.text[this.pos]}'`);
+
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, label: id, node_type: inferNodeType(id), properties: {} };
+      this.nodes.set(id, node);
+    }
+    const subgraph = this.subgraphs.at(-1);
+    if (subgraph) node.properties.group = subgraph.id;
+
+    const save = this.pos;
+    this.skipSpaces();
+    const shape = NODE_SHAPES.find((s) => this.text.startsWith(s.open, this.pos));
+    if (shape) {
+      const openAt = this.pos;
+      this.pos += shape.open.length;
+      node.label = this.shapeText(shape, openAt);
+      node.node_type = shape.nodeType;
+    } else {
+      this.pos = save;
+    }
+
+    if (this.text.startsWith(":::", this.pos)) {
+      this.pos += 3;
+      const name = this.match(/[\p{L}\p{N}_-]+/uy);
+      if (!name) this.fail("expected a class name after ':::'");
+      this.classes.push({ ids: [id], name, pos: idStart });
+    }
+    return id;
+  }
+
+  /** Texte d'une forme jusqu'au délimiteur fermant (guillemets facultatifs) */
+  private shapeText(shape: NodeShape, openAt: number): string {
+    this.skipSpaces();
+    let text: string;
+    if (this.text[this.pos] === '"') {
+      text = this.quoted();
+      this.skipSpaces();
+      const close = shape.close.find((c) => this.text.startsWith(c, this.pos));
+      if (!close) this.fail(`expected '${shape.close[0]}' after quoted text`);
+      this.pos += close.length;
+    } else {
+      const end = this.findOnLine(shape.close);
+      if (!end) this.fail(`unclosed '${shape.open}'`, openAt);
+      text = this.text.slice(this.pos, end.index).trim();
+      this.pos = end.index + end.token.length;
+    }
+    return decodeEntities(text);
+  }
+
+  // ===== Liens =====
+
+  /** Lien entre deux groupes de nœuds, avec son label ; null si aucun lien ici */
+  private link(): { edgeType: string; label?: string } | null {
+    const start = this.pos;
+    const token = this.match(/<?(-{2,}|={2,}|-\.+-|~{3,})(>|[ox](?![\p{L}\p{N}_]))?/uy);
+    let stroke: Stroke;
+    let head: boolean;
+    let label: string | undefined;
+
+    if (token) {
+      const body = token.replace(/^</, "").replace(/[>ox]$/, "");
+      stroke = body.startsWith("~") ? "invisible" : body.startsWith("=") ? "thick" : body.includes(".") ? "dotted" : "normal";
+      head = token.length - (token.startsWith("<") ? 1 : 0) > body.length;
+      // "--" / "==" seuls : début d'un label `-- texte -->`
+      if (!head && body.length === 2 && stroke !== "dotted") {
+        ({ label, head } = this.inlineLabel(stroke, start));
+      }
+    } else if (this.match(/<?-\.(?=\s)/y)) {
+      stroke = "dotted";
+      ({ label, head } = this.inlineLabel(stroke, start));
+    } else {
+      return null;
+    }
+
+    // Label `-->|texte|` (prioritaire)
+    const save = this.pos;
+    this.skipSpaces();
+    if (this.text[this.pos] === "|") {
+      this.pos++;
+      label = this.pipeText();
+    } else {
+      this.pos = save;
+    }
+
+    const [withHead, withoutHead] = STROKES[stroke];
+    return { edgeType: head ? withHead : withoutHead, label: label || undefined };
+  }
+
+  /** Texte entre un début de lien et sa fin : `-- texte -->`, `== texte ==>`, `-. texte .->` */
+  private inlineLabel(stroke: Stroke, start: number): { label: string; head: boolean } {
+    const ends: Record<Stroke, RegExp> = {
+      normal: /-{2,}(>|[ox](?![\p{L}\p{N}_]))?/gu,
+      thick: /={2,}(>|[ox](?![\p{L}\p{N}_]))?/gu,
+      dotted: /\.+-(>|[ox](?![\p{L}\p{N}_]))?/gu,
+      invisible: /~{3,}/gu,
+    };
+    const lineEnd = this.lineEnd();
+    const pattern = ends[stroke];
+    pattern.lastIndex = this.pos;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(this.text)) && m.index < lineEnd) {
+      const head = m[1] !== undefined;
+      // Sans pointe, la fin doit être un trait complet (--- / ===)
+      if (head || stroke === "dotted" || m[0].length >= 3) {
+        const raw = this.text.slice(this.pos, m.index).trim();
+        this.pos = m.index + m[0].length;
+        const label = raw.startsWith('"') && raw.endsWith('"') && raw.length >= 2 ? raw.slice(1, -1) : raw;
+        return { label: decodeEntities(label), head };
+      }
+    }
+    this.fail("unterminated link text", start);
+  }
+
+  private pipeText(): string {
+    this.skipSpaces();
+    if (this.text[this.pos] === '"') {
+      const text = this.quoted();
+      this.skipSpaces();
+      if (this.text[this.pos] !== "|") this.fail("expected '|' after link text");
+      this.pos++;
+      return decodeEntities(text);
+    }
+    const end = this.findOnLine(["|"]);
+    if (!end) this.fail("unclosed '|' link text");
+    const text = this.text.slice(this.pos, end.index).trim();
+    this.pos = end.index + 1;
+    return decodeEntities(text);
+  }
+
+  // ===== Lecture bas niveau =====
+
+  /** Id de nœud : lettres, chiffres, _ et tirets internes (`api-gateway`, pas `A--`) */
+  private identifier(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos];
+      if (ID_CHAR.test(c)) this.pos++;
+      else if (c === "-" && this.pos > start && ID_CHAR.test(this.text[this.pos + 1] ?? "")) this.pos++;
+      else break;
     }
+    return this.text.slice(start, this.pos);
+  }
+
+  /** Mot-clé en début d'instruction (suivi d'un blanc ou d'une fin d'instruction) */
+  private peekKeyword(): string | null {
+    const m = /([A-Za-z][\w-]*)(?=[ \t;\n]|%%|$)/y;
+    m.lastIndex = this.pos;
+    return m.exec(this.text)?.[1] ?? null;
+  }
 
-    if (nodes.size === 0) {
-      throw new Error("No nodes found in Mermaid code");
+  private quoted(): string {
+    const start = this.pos;
+    const end = this.text.indexOf('"', this.pos + 1);
+    if (end < 0 || this.text.slice(this.pos, end).includes("\n")) this.fail("unclosed '\"'", start);
+    this.pos = end + 1;
+    const text = this.text.slice(start + 1, end);
+    // Chaîne markdown "`…`"
+    return text.length >= 2 && text.startsWith("`") && text.endsWith("`") ? text.slice(1, -1) : text;
+  }
+
+  /** Premier délimiteur parmi tokens avant la fin de la ligne */
+  private findOnLine(tokens: string[]): { index: number; token: string } | null {
+    const lineEnd = this.lineEnd();
+    let best: { index: number; token: string } | null = null;
+    for (const token of tokens) {
+      const index = this.text.indexOf(token, this.pos);
+      if (index >= 0 && index < lineEnd && (!best || index < best.index)) best = { index, token };
     }
+    return best;
+  }
+
+  private match(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    const m = pattern.exec(this.text);
+    if (!m) return null;
+    this.pos += m[0].length;
+    return m[0];
+  }
+
+  private lineEnd(): number {
+    const end = this.text.indexOf("\n", this.pos);
+    return end < 0 ? this.text.length : end;
+  }
+
+  private restOfLine(): string {
+    const end = this.lineEnd();
+    const rest = this.text.slice(this.pos, end);
+    this.pos = end;
+    return rest;
+  }
+
+  /** Reste de l'instruction (jusqu'à ";" ou la fin de ligne) */
+  private restOfStatement(): string {
+    const end = this.findOnLine([";"])?.index ?? this.lineEnd();
+    const rest = this.text.slice(this.pos, end);
+    this.pos = end;
+    return rest;
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.pos] === " " || this.text[this.pos] === "\t") this.pos++;
+  }
 
-    return { nodes: Array.from(nodes.values()), edges };
-  }
-
-  private static parseNode(line: string): GraphNode | null {
-    // Format: A[Label]
-    let match = /^(\w+)\[(.*?)\]/.exec(line);
-    if (match) {
-      return {
-        id: match[1],
-        label: match[2],
-        node_type: "process",
-        properties: {},
-      };
-    }
-
-    // Format: A((Label)) - Start/End
-    match = /^(\w+)\(\((.*?)\)\)/.exec(line);
-    if (match) {
-      return {
-        id: match[1],
-        label: match[2],
-        node_type: "start",
-        properties: {},
-      };
+  /** Blancs, lignes vides, ";" isolés et commentaires %% (directives %%{…}%% comprises) */
+  private skipBlank(): void {
+    for (;;) {
+      const c = this.text[this.pos];
+      if (c === " " || c === "\t" || c === "\n" || c === ";") this.pos++;
+      else if (this.text.startsWith("%%", this.pos)) this.pos = this.lineEnd();
+      else return;
     }
+  }
+
+  /** Bloc d'en-tête YAML `---` … `---` (title, config) en tête de fichier */
+  private skipFrontMatter(): void {
+    const m = /^\s*---[ \t]*\n[\s\S]*?\n---[ \t]*(\n|$)/.exec(this.text);
+    if (m) this.pos = m[0].length;
+  }
+
+  private endOfStatement(): void {
+    this.skipSpaces();
+    if (this.pos >= this.text.length || this.text[this.pos] === "\n" || this.text[this.pos] === ";") return;
+    if (this.text.startsWith("%%", this.pos)) return;
+    this.fail(`unexpected '${this.text[this.pos]}'`);
+  }
 
-    // Format: A{Label} - Decision
-    match = /^(\w+)\{(.*?)\}/.exec(line);
-    if (match) {
-      return {
-        id: match[1],
-        label: match[2],
-        node_type: "decision",
-        properties: {},
-      };
-    }
-
-    // Format: A(Label) - Rounded
-    match = /^(\w+)\((.*?)\)/.exec(line);
-    if (match) {
-      return {
-        id: match[1],
-        label: match[2],
-        node_type: "process",
-        properties: {},
-      };
-    }
-
-    return null;
-  }
-
-  private static parseEdge(
-    line: string,
-  ): {
-    source: string;
-    target: string;
-    label?: string;
-    edgeType: string;
-  } | null {
-    // Format: A --> B
-    let match = /(\w+)\s*--+>\s*(\w+)/.exec(line);
-    if (match) {
-      return { source: match[1], target: match[2], edgeType: "next" };
-    }
-
-    // Format: A -->|Label| B
-    match = /(\w+)\s*--+>\s*\|([^|]+)\|\s*(\w+)/.exec(line);
-    if (match) {
-      return {
-        source: match[1],
-        target: match[3],
-        label: match[2].trim(),
-        edgeType: "next",
-      };
-    }
-
-    // Format: A ---|Label| B
-    match = /(\w+)\s*---\s*\|([^|]+)\|\s*(\w+)/.exec(line);
-    if (match) {
-      return {
-        source: match[1],
-        target: match[3],
-        label: match[2].trim(),
-        edgeType: "relation",
-      };
-    }
-
-    // Format: A --- B
-    match = /(\w+)\s*---\s*(\w+)/.exec(line);
-    if (match) {
-      return { source: match[1], target: match[2], edgeType: "relation" };
-    }
-
-    // Format: A ==> B (thick arrow)
-    match = /(\w+)\s*==+>\s*(\w+)/.exec(line);
-    if (match) {
-      return { source: match[1], target: match[2], edgeType: "strong" };
-    }
-
-    // Format: A -.->|Label| B (dotted)
-    match = /(\w+)\s*-\.->+\s*\|([^|]+)\|\s*(\w+)/.exec(line);
-    if (match) {
-      return {
-        source: match[1],
-        target: match[3],
-        label: match[2].trim(),
-        edgeType: "optional",
-      };
-    }
-
-    // Format: A -.-> B (dotted)
-    match = /(\w+)\s*-\.->+\s*(\w+)/.exec(line);
-    if (match) {
-      return { source: match[1], target: match[2], edgeType: "optional" };
-    }
-
-    return null;
-  }
-
-  private static inferNodeType(id: string, shape: string): string {
-    const idLower = id.toLowerCase();
-
-    if (idLower.includes("start") || idLower.includes("begin")) return "start";
-    if (idLower.includes("end") || idLower.includes("finish")) return "end";
-    if (idLower.includes("error") || idLower.includes("fail")) return "error";
-    if (
-      idLower.includes("decision") ||
-      idLower.includes("if") ||
-      idLower.includes("choice")
-    )
-      return "decision";
-
-    return shape === "start"
-      ? "start"
-      : shape === "decision"
-        ? "decision"
-        : "process";
+  private fail(message: string, at = this.pos): never {
+    const before = this.text.slice(0, at);
+    const line = before.split("\n").length;
+    const column = at - before.lastIndexOf("\n");
+    throw new Error(`Invalid mermaid: line ${line}, column ${column}: ${message}`);
   }
 }
+
+/** Type d'un nœud sans forme, d'après son id */
+function inferNodeType(id: string): string {
+  const idLower = id.toLowerCase();
+
+  if (idLower.includes("start") || idLower.includes("begin")) return "start";
+  if (idLower.includes("end") || idLower.includes("finish")) return "end";
+  if (idLower.includes("error") || idLower.includes("fail")) return "error";
+  if (
+    idLower.includes("decision") ||
+    idLower.includes("if") ||
+    idLower.includes("choice")
+  )
+    return "decision";
+
+  return "process";
+}
+
+/** Codes d'entité Mermaid des labels : #35; (décimal) et #quot; #amp; #lt; #gt; */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { quot: '"', amp: "&", lt: "<", gt: ">" };
+  return text.replace(/#(\d+|quot|amp|lt|gt);/g, (_, code: string) =>
+    named[code] ?? String.fromCodePoint(Number(code)),
+  );
+}
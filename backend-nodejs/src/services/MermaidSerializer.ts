@@ -0,0 +1,99 @@
+import { GraphData } from "../models/graph.js";
+
+export const MERMAID_MIME = "text/plain";
+
+/** node_type → forme (ouverture, fermeture), comme lues par MermaidParser ; les autres types sont écrits en rectangle */
+const NODE_SHAPES: Record<string, [string, string]> = {
+  start: ["((", "))"],
+  end: ["(((", ")))"],
+  decision: ["{", "}"],
+  condition: ["{{", "}}"],
+  database: ["[(", ")]"],
+  subroutine: ["[[", "]]"],
+  data: ["[/", "/]"],
+  process: ["[", "]"],
+};
+
+/** edge_type → flèche ; les autres types sont écrits en --> */
+const EDGE_ARROWS: Record<string, string> = {
+  next: "-->",
+  strong: "==>",
+  optional: "-.->",
+  relation: "---",
+  invisible: "~~~",
+};
+
+/** Mots-clés Mermaid qui ne peuvent pas servir d'identifiant de nœud */
+const RESERVED_IDS = new Set([
+  "end", "graph", "flowchart", "subgraph", "direction", "style", "classDef", "class", "click", "linkStyle", "accTitle", "accDescr",
+]);
+
+/** Id accepté tel quel par MermaidParser : lettres, chiffres, _ et tirets internes */
+const MERMAID_ID = /^[\p{L}\p{N}_]+(-[\p{L}\p{N}_]+)*$/u;
+
+/**
+ * MermaidSerializer — inverse de MermaidParser (GET /graphs/:id/export?format=mermaid).
+ *
+ * Écrit un `flowchart TD` : chaque nœud déclaré avec la forme de son node_type, puis les
+ * arêtes avec la flèche de leur edge_type et leur label (`A -->|label| B`). Les caractères
+ * qui casseraient la syntaxe sont écrits en codes d'entité Mermaid (`#91;`), décodés par le
+ * parser : relire la sortie redonne les mêmes nœuds, labels, types et arêtes, tant que les
+ * types font partie des formes / flèches ci-dessus et que les ids sont des mots (tirets internes admis).
+ * Un id invalide ou réservé (end…) est remplacé par un id dérivé unique ; properties n'a
+ * pas d'équivalent Mermaid et n'est pas écrit.
+ */
+export class MermaidSerializer {
+  static serialize(data: GraphData, title?: string): string {
+    const ids = this.mermaidIds(data.nodes.map((n) => n.id));
+    const out: string[] = [];
+    if (title) out.push(`%% ${title.replace(/\s+/g, " ").trim()}`);
+    out.push("flowchart TD");
+
+    for (const node of data.nodes) {
+      const [open, close] = NODE_SHAPES[node.node_type] ?? NODE_SHAPES.process;
+      out.push(`    ${ids.get(node.id)}${open}${this.escape(node.label ?? node.id)}${close}`);
+    }
+    for (const edge of data.edges) {
+      const source = ids.get(edge.source);
+      const target = ids.get(edge.target);
+      if (source === undefined || target === undefined) continue;
+      const arrow = EDGE_ARROWS[edge.edge_type] ?? EDGE_ARROWS.next;
+      const label = edge.label?.trim() ? `|${this.escape(edge.label.trim())}|` : "";
+      out.push(`    ${source} ${arrow}${label} ${target}`);
+    }
+
+    return out.join("\n") + "\n";
+  }
+
+  /** Id Mermaid de chaque nœud : l'id d'origine si possible, sinon dérivé (non-mots → _) et dédoublonné */
+  private static mermaidIds(nodeIds: string[]): Map<string, string> {
+    const valid = (id: string) => MERMAID_ID.test(id) && !RESERVED_IDS.has(id);
+    const ids = new Map<string, string>();
+    const used = new Set(nodeIds.filter(valid));
+    for (const id of nodeIds) {
+      if (valid(id)) {
+        ids.set(id, id);
+        continue;
+      }
+      const base = id.replace(/[^\p{L}\p{N}_]+/gu, "_").replace(/^_+|_+$/g, "") || "node";
+      let candidate = valid(base) ? base : `${base}_`;
+      for (let i = 2; used.has(candidate); i++) candidate = `${base}_${i}`;
+      used.add(candidate);
+      ids.set(id, candidate);
+    }
+    return ids;
+  }
+
+  /**
+   * Caractères de syntaxe (crochets, |, ", #, <, >, tirets répétés), fins de ligne, / ou \ initial
+   * (formes [/ et [\) et blancs de début / fin (retirés par le parser) en codes d'entité
+   */
+  private static escape(text: string): string {
+    return text
+      .replace(/["#;[\](){}|<>\r\n]/g, (c) => `#${c.charCodeAt(0)};`)
+      .replace(/^[/\\]/, (c) => `#${c.charCodeAt(0)};`)
+      .replace(/^\s+|\s+$/g, (blank) => [...blank].map((c) => `#${c.charCodeAt(0)};`).join(""))
+      .replace(/-(?=-)|(?<=-)-/g, "#45;")
+      .replace(/=(?==)|(?<==)=/g, "#61;");
+  }
+}
@@ -0,0 +1,81 @@
+import { AppliedMigration, MigrationReport } from "../models/graph.js";
+
+/**
+ * Une migration de schéma. Les versions sont strictement croissantes et une migration
+ * publiée n'est plus modifiée : un changement de schéma = une nouvelle version.
+ * up() doit tolérer un schéma déjà conforme (databases créées avant le runner).
+ */
+export interface Migration<Target> {
+  version: number;
+  name: string;
+  up(target: Target): Promise<void>;
+}
+
+/** Suivi des versions appliquées dans la database, propre au moteur */
+export interface MigrationStore<Target> {
+  /** Crée la table / collection de suivi si besoin et retourne les versions appliquées */
+  applied(): Promise<AppliedMigration[]>;
+  /** Exécute up() et enregistre la version — dans la même transaction quand le moteur le permet */
+  apply(migration: Migration<Target>, startedAt: number): Promise<AppliedMigration>;
+}
+
+/**
+ * MigrationRunner — applique dans l'ordre les migrations d'un moteur non encore
+ * enregistrées dans une database. Les exécutions sur une même database sont
+ * sérialisées dans le processus : un second appel attend le premier et ne trouve
+ * plus rien à appliquer. Une database migrée par un serveur plus récent (version
+ * inconnue) est refusée plutôt que modifiée.
+ */
+export class MigrationRunner<Target> {
+  private running = new Map<string, Promise<MigrationReport>>();
+
+  constructor(private engine: string, private migrations: Migration<Target>[]) {
+    migrations.forEach((migration, i) => {
+      if (i > 0 && migration.version <= migrations[i - 1].version) {
+        throw new Error(`${engine} migrations must have strictly increasing versions (${migration.version} after ${migrations[i - 1].version})`);
+      }
+    });
+  }
+
+  /** Dernière version connue du serveur */
+  get latest(): number {
+    return this.migrations.at(-1)?.version ?? 0;
+  }
+
+  run(database: string, store: MigrationStore<Target>): Promise<MigrationReport> {
+    const run = (this.running.get(database) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.apply(database, store));
+    this.running.set(database, run);
+    run.finally(() => {
+      if (this.running.get(database) === run) this.running.delete(database);
+    }).catch(() => {});
+    return run;
+  }
+
+  private async apply(database: string, store: MigrationStore<Target>): Promise<MigrationReport> {
+    const done = await store.applied();
+    const from = Math.max(0, ...done.map((m) => m.version));
+    if (from > this.latest) {
+      throw new Error(
+        `Database '${database}' is at ${this.engine} schema version ${from}, newer than this server (${this.latest})`,
+      );
+    }
+
+    const versions = new Set(done.map((m) => m.version));
+    const applied: AppliedMigration[] = [];
+    for (const migration of this.migrations) {
+      if (versions.has(migration.version)) continue;
+      try {
+        applied.push(await store.apply(migration, Date.now()));
+      } catch (err) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed on ${this.engine} database '${database}': ${(err as Error).message}`,
+        );
+      }
+      console.log(`[${this.engine}/${database}] migration ${migration.version} ${migration.name} applied`);
+    }
+
+    return { engine: this.engine, database, from, version: this.latest, applied };
+  }
+}
@@ -0,0 +1,181 @@
+import sql from "mssql";
+import { AppliedMigration } from "../models/graph.js";
+import { Migration, MigrationStore } from "./MigrationRunner.js";
+
+/**
+ * Migrations du schéma MSSQL (graphs, graph_nodes, graph_edges, graph_versions).
+ *
+ * Chaque migration s'exécute dans une transaction avec son enregistrement dans
+ * schema_migrations (le DDL SQL Server est transactionnel). Un batch est compilé
+ * d'un bloc : une colonne ajoutée par ALTER TABLE doit être utilisée dans une requête suivante.
+ * Les premières versions reprennent le DDL historique avec IF NOT EXISTS : sur une database
+ * antérieure au runner, elles n'écrivent que ce qui manque.
+ */
+export const MSSQL_MIGRATIONS: Migration<sql.Transaction>[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    async up(tx) {
+      await tx.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graphs')
+        CREATE TABLE graphs (
+          id           NVARCHAR(255) NOT NULL PRIMARY KEY,
+          title        NVARCHAR(255),
+          description  NVARCHAR(MAX),
+          graph_type   NVARCHAR(50),
+          node_count   INT DEFAULT 0,
+          edge_count   INT DEFAULT 0,
+          created_at   DATETIME2 DEFAULT GETDATE()
+        )
+      `);
+      await tx.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_nodes')
+        BEGIN
+          CREATE TABLE graph_nodes (
+            id          INT IDENTITY(1,1) PRIMARY KEY,
+            graph_id    NVARCHAR(255) NOT NULL,
+            node_id     NVARCHAR(255) NOT NULL,
+            label       NVARCHAR(255),
+            node_type   NVARCHAR(100),
+            properties  NVARCHAR(MAX) DEFAULT '{}',
+            CONSTRAINT UQ_graph_nodes UNIQUE (graph_id, node_id),
+            CONSTRAINT FK_graph_nodes_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
+          )
+          CREATE INDEX IX_graph_nodes_graph_id ON graph_nodes (graph_id)
+        END
+      `);
+      await tx.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_edges')
+        BEGIN
+          CREATE TABLE graph_edges (
+            id          INT IDENTITY(1,1) PRIMARY KEY,
+            graph_id    NVARCHAR(255) NOT NULL,
+            source_id   NVARCHAR(255) NOT NULL,
+            target_id   NVARCHAR(255) NOT NULL,
+            label       NVARCHAR(255),
+            edge_type   NVARCHAR(100),
+            properties  NVARCHAR(MAX) DEFAULT '{}',
+            CONSTRAINT FK_graph_edges_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
+          )
+          CREATE INDEX IX_graph_edges_graph_id ON graph_edges (graph_id)
+        END
+      `);
+    },
+  },
+  {
+    // Les databases créées par l'ancien createDatabase() n'avaient que l'index graph_id
+    version: 2,
+    name: "graph_edges_endpoint_indexes",
+    async up(tx) {
+      await tx.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE object_id = OBJECT_ID('graph_edges') AND name = 'IX_graph_edges_source')
+          CREATE INDEX IX_graph_edges_source ON graph_edges (graph_id, source_id)
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE object_id = OBJECT_ID('graph_edges') AND name = 'IX_graph_edges_target')
+          CREATE INDEX IX_graph_edges_target ON graph_edges (graph_id, target_id)
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "graph_versions",
+    async up(tx) {
+      await tx.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_versions')
+        CREATE TABLE graph_versions (
+          graph_id    NVARCHAR(255) NOT NULL,
+          version     INT NOT NULL,
+          created_at  DATETIME2 NOT NULL,
+          change      NVARCHAR(100),
+          node_count  INT DEFAULT 0,
+          edge_count  INT DEFAULT 0,
+          snapshot    NVARCHAR(MAX) NOT NULL,
+          CONSTRAINT PK_graph_versions PRIMARY KEY (graph_id, version),
+          CONSTRAINT FK_graph_versions_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
+        )
+      `);
+    },
+  },
+  {
+    // Compteurs faussés par les imports antérieurs au recalcul incrémental (cf. fix-metadata.mjs)
+    version: 4,
+    name: "recount_graph_metadata",
+    async up(tx) {
+      await tx.request().query(`
+        UPDATE g
+        SET node_count = (SELECT COUNT(*) FROM graph_nodes n WHERE n.graph_id = g.id),
+            edge_count = (SELECT COUNT(*) FROM graph_edges e WHERE e.graph_id = g.id)
+        FROM graphs g
+      `);
+    },
+  },
+  {
+    // Tags (JSON) et dossier des graphes — PATCH /graphs/:id, GET /graphs?tag=&folder=
+    version: 5,
+    name: "graph_tags_folder",
+    async up(tx) {
+      await tx.request().query(`
+        IF COL_LENGTH('graphs', 'tags') IS NULL ALTER TABLE graphs ADD tags NVARCHAR(MAX) NULL
+        IF COL_LENGTH('graphs', 'folder') IS NULL ALTER TABLE graphs ADD folder NVARCHAR(400) NULL
+      `);
+      await tx.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE object_id = OBJECT_ID('graphs') AND name = 'IX_graphs_folder')
+          CREATE INDEX IX_graphs_folder ON graphs (folder)
+      `);
+    },
+  },
+];
+
+/** Table schema_migrations de la database du pool */
+export class MssqlMigrationStore implements MigrationStore<sql.Transaction> {
+  constructor(private pool: sql.ConnectionPool) {}
+
+  async applied(): Promise<AppliedMigration[]> {
+    await this.pool.request().query(`
+      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'schema_migrations')
+      CREATE TABLE schema_migrations (
+        version      INT NOT NULL PRIMARY KEY,
+        name         NVARCHAR(255) NOT NULL,
+        applied_at   DATETIME2 NOT NULL,
+        duration_ms  INT NOT NULL
+      )
+    `);
+    const res = await this.pool.request().query(
+      `SELECT version, name, applied_at, duration_ms FROM schema_migrations ORDER BY version`,
+    );
+    return res.recordset.map((r: any) => ({
+      version: r.version,
+      name: r.name,
+      applied_at: new Date(r.applied_at).toISOString(),
+      duration_ms: r.duration_ms,
+    }));
+  }
+
+  async apply(migration: Migration<sql.Transaction>, startedAt: number): Promise<AppliedMigration> {
+    const tx = new sql.Transaction(this.pool);
+    await tx.begin();
+    try {
+      await migration.up(tx);
+      const record: AppliedMigration = {
+        version: migration.version,
+        name: migration.name,
+        applied_at: new Date().toISOString(),
+        duration_ms: Date.now() - startedAt,
+      };
+      // La clé primaire sur version fait échouer un second serveur qui appliquerait la même migration
+      await tx.request()
+        .input("version", sql.Int, record.version)
+        .input("name", sql.NVarChar(255), record.name)
+        .input("appliedAt", sql.DateTime2, new Date(record.applied_at))
+        .input("durationMs", sql.Int, record.duration_ms)
+        .query(`
+          INSERT INTO schema_migrations (version, name, applied_at, duration_ms)
+          VALUES (@version, @name, @appliedAt, @durationMs)
+        `);
+      await tx.commit();
+      return record;
+    } catch (error) {
+      await tx.rollback().catch(() => {});
+      throw error;
+    }
+  }
+}
@@ -1,15 +1,33 @@
 import sql from "mssql";
-import NodeCache from "node-cache";
 import {
   GraphNode,
   GraphEdge,
+  GraphNodeUpdate,
+  GraphEdgeUpdate,
+  GraphListFilter,
+  GraphListPage,
+  GraphMetadataUpdate,
+  EngineStatus,
   Graph,
   GraphData,
   GraphStats,
   GraphSummary,
+  GraphVersion,
+  GraphVersionData,
   ImpactResult,
+  MigrationReport,
+  PropertyPredicate,
+  RawQueryOptions,
+  RawQueryResult,
+  SearchHit,
+  SubgraphFilter,
 } from "../models/graph.js";
 import { GraphDatabaseService } from "./GraphDatabaseService.js";
+import { EngineGraphCache } from "./GraphCache.js";
+import { DEFAULT_GRAPH_LIST_PAGE, GraphListQuery } from "./GraphListQuery.js";
+import { NodeSearch, SEARCH_PROPERTIES } from "./NodeSearch.js";
+import { MigrationRunner } from "./MigrationRunner.js";
+import { MSSQL_MIGRATIONS, MssqlMigrationStore } from "./MssqlMigrations.js";
 
 /**
  * MssqlService — Microsoft SQL Server implementation of GraphDatabaseService.
@@ -18,19 +36,28 @@ import { GraphDatabaseService } from "./GraphDatabaseService.js";
  *   graphs          — métadonnées du graphe
  *   graph_nodes     — nœuds avec node_id + graph_id
  *   graph_edges     — arêtes avec source_id/target_id
+ *   graph_versions  — snapshots JSON numérotés par graphe
+ *   schema_migrations — versions de schéma appliquées (MssqlMigrations.ts)
  *
+ * Recherche : index Full-Text sur graph_nodes si le composant est installé, LIKE sinon.
  * Traversée via CTE récursive SQL Server (WITH RECURSIVE).
- * Cache NodeCache 5 min, requêtes nœuds/arêtes en Promise.all().
+ * Cache partagé (GraphCache), requêtes nœuds/arêtes en Promise.all().
  */
 export class MssqlService implements GraphDatabaseService {
   readonly engineName = "mssql";
 
   private baseConfig: sql.config;
   private pools = new Map<string, sql.ConnectionPool>();
+  /** Pools du login restreint (requêtes brutes en lecture seule), par database */
+  private readOnlyPools = new Map<string, sql.ConnectionPool>();
 
-  // Cache en mémoire (TTL 5 min)
-  private graphCache = new NodeCache({ stdTTL: 300, checkperiod: 60 });
-  private cacheStats = { hits: 0, misses: 0, bypasses: 0 };
+  /** database → index Full-Text présent sur graph_nodes (vérifié une fois par base) */
+  private fullText = new Map<string, boolean>();
+
+  // Cache partagé des payloads getGraph (GRAPH_CACHE_*), clés graph:<engine>:<database>:<id>
+  private graphCache = new EngineGraphCache(() => this.engineName);
+
+  private migrations = new MigrationRunner(this.engineName, MSSQL_MIGRATIONS);
 
   constructor(
     host: string,
@@ -38,6 +65,8 @@ export class MssqlService implements GraphDatabaseService {
     user: string,
     password: string,
     private defaultDatabase: string = "graph_db",
+    /** Login sans droit d'écriture (db_datareader) pour POST /api/query en lecture seule */
+    private readOnlyLogin?: { user: string; password: string },
   ) {
     this.baseConfig = {
       server: host,
@@ -70,6 +99,17 @@ export class MssqlService implements GraphDatabaseService {
     return this.pools.get(db)!;
   }
 
+  /** Pool du login restreint — appelé seulement si readOnlyLogin est configuré */
+  private async getReadOnlyPool(database?: string): Promise<sql.ConnectionPool> {
+    const db = database || this.defaultDatabase;
+    if (!this.readOnlyPools.has(db)) {
+      const pool = new sql.ConnectionPool({ ...this.baseConfig, ...this.readOnlyLogin, database: db });
+      await pool.connect();
+      this.readOnlyPools.set(db, pool);
+    }
+    return this.readOnlyPools.get(db)!;
+  }
+
   /** Pool sur la base master (pour créer/supprimer des bases) */
   private async getMasterPool(): Promise<sql.ConnectionPool> {
     return this.getPool("master");
@@ -89,107 +129,142 @@ export class MssqlService implements GraphDatabaseService {
       END
     `);
 
-    const pool = await this.getPool();
-
-    // Table graphs
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graphs')
-      CREATE TABLE graphs (
-        id           NVARCHAR(255) NOT NULL PRIMARY KEY,
-        title        NVARCHAR(255),
-        description  NVARCHAR(MAX),
-        graph_type   NVARCHAR(50),
-        node_count   INT DEFAULT 0,
-        edge_count   INT DEFAULT 0,
-        created_at   DATETIME2 DEFAULT GETDATE()
-      )
-    `);
-
-    // Table graph_nodes
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_nodes')
-      BEGIN
-        CREATE TABLE graph_nodes (
-          id          INT IDENTITY(1,1) PRIMARY KEY,
-          graph_id    NVARCHAR(255) NOT NULL,
-          node_id     NVARCHAR(255) NOT NULL,
-          label       NVARCHAR(255),
-          node_type   NVARCHAR(100),
-          properties  NVARCHAR(MAX) DEFAULT '{}',
-          CONSTRAINT UQ_graph_nodes UNIQUE (graph_id, node_id),
-          CONSTRAINT FK_graph_nodes_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
-        )
-        CREATE INDEX IX_graph_nodes_graph_id ON graph_nodes (graph_id)
-      END
-    `);
-
-    // Table graph_edges
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_edges')
-      BEGIN
-        CREATE TABLE graph_edges (
-          id          INT IDENTITY(1,1) PRIMARY KEY,
-          graph_id    NVARCHAR(255) NOT NULL,
-          source_id   NVARCHAR(255) NOT NULL,
-          target_id   NVARCHAR(255) NOT NULL,
-          label       NVARCHAR(255),
-          edge_type   NVARCHAR(100),
-          properties  NVARCHAR(MAX) DEFAULT '{}',
-          CONSTRAINT FK_graph_edges_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
-        )
-        CREATE INDEX IX_graph_edges_graph_id ON graph_edges (graph_id)
-        CREATE INDEX IX_graph_edges_source   ON graph_edges (graph_id, source_id)
-        CREATE INDEX IX_graph_edges_target   ON graph_edges (graph_id, target_id)
-      END
-    `);
+    // Tables et index : migrations versionnées (schema_migrations)
+    await this.migrate();
+    await this.ensureSearchIndex(await this.getPool(), this.defaultDatabase);
 
     console.log("MSSQL initialization complete ✓");
   }
 
   // ===== Raw Query Execution =====
 
-  async executeRawQuery(
+  /**
+   * Lecture seule : connexion avec le login restreint (MSSQL_READONLY_USER), seul garde-fou
+   * fiable côté SQL Server. Sans ce login, une requête readOnly est refusée.
+   * Délai, plafond de lignes et annulation (options.signal) : lecture en flux,
+   * request.cancel() (ATTENTION TDS) interrompt la requête côté serveur.
+   * Seul le premier jeu de résultats est retourné.
+   */
+  async executeRawQuery(query: string, options: RawQueryOptions, database?: string): Promise<RawQueryResult> {
+    if (options.readOnly && this.readOnlyLogin === undefined) {
+      throw new Error(
+        "Read-only query: MSSQL_READONLY_USER is not configured (set a db_datareader login, or send readOnly: false)",
+      );
+    }
+    const pool = options.readOnly ? await this.getReadOnlyPool(database) : await this.getPool(database);
+    try {
+      const request = pool.request();
+      for (const [name, value] of Object.entries(options.params)) {
+        request.input(name, value);
+      }
+      options.signal?.throwIfAborted();
+      const t0 = Date.now();
+      const { rows, truncated } = await this.streamRows(request, query, options);
+      const elapsed_ms = Date.now() - t0;
+      return { rows, elapsed_ms, rowCount: rows.length, engine: this.engineName, truncated, readOnly: options.readOnly };
+    } catch (err: any) {
+      // 229 : permission refusée au login restreint
+      if (options.readOnly && err.number === 229) throw new Error(`Read-only query: ${err.message}`);
+      throw err;
+    }
+  }
+
+  /** Lecture en flux du premier jeu de résultats, annulée au-delà de maxRows, de timeoutMs ou sur signal */
+  private streamRows(
+    request: sql.Request,
     query: string,
-    database?: string,
-  ): Promise<{ rows: Record<string, any>[]; elapsed_ms: number; rowCount: number; engine: string }> {
-    const pool = await this.getPool(database);
+    options: RawQueryOptions,
+  ): Promise<{ rows: Record<string, any>[]; truncated: boolean }> {
+    return new Promise((resolve, reject) => {
+      const rows: Record<string, any>[] = [];
+      let recordsets = 0;
+      let truncated = false;
+      let timedOut = false;
+      let failure: Error | undefined;
+
+      request.stream = true;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        request.cancel();
+      }, options.timeoutMs);
+      const onAbort = () => request.cancel();
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      request.on("recordset", () => recordsets++);
+      request.on("row", (row: Record<string, any>) => {
+        if (recordsets > 1 || truncated) return;
+        if (rows.length < options.maxRows) {
+          rows.push(row);
+        } else {
+          truncated = true;
+          request.cancel();
+        }
+      });
+      // Annulation volontaire (plafond ou délai) : ECANCEL attendu, pas une erreur
+      request.on("error", (err: any) => {
+        if (err.code !== "ECANCEL" || !(truncated || timedOut || options.signal?.aborted)) failure = err;
+      });
+      // "done" est émis après "error" en mode flux
+      request.on("done", () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+        if (options.signal?.aborted && !truncated) reject(options.signal.reason);
+        else if (timedOut && !truncated) reject(new Error(`Query timed out after ${options.timeoutMs} ms`));
+        else if (failure) reject(failure);
+        else resolve({ rows, truncated });
+      });
+      request.query(query);
+    });
+  }
+
+  /** Pool : somme des pools par database (login principal et login restreint) */
+  async probe(): Promise<EngineStatus> {
+    const pools = [...this.pools.values(), ...this.readOnlyPools.values()];
+    const pool = {
+      open: pools.reduce((n, p) => n + p.size, 0),
+      idle: pools.reduce((n, p) => n + p.available, 0),
+      pending: pools.reduce((n, p) => n + p.pending, 0),
+      max: pools.length * (this.baseConfig.pool?.max ?? 10),
+    };
     const t0 = Date.now();
-    const result = await pool.request().query(query);
-    const elapsed_ms = Date.now() - t0;
-    const rows = result.recordset || [];
-    return { rows, elapsed_ms, rowCount: rows.length, engine: this.engineName };
+    try {
+      const result = await (await this.getPool()).request()
+        .query(`SELECT CAST(SERVERPROPERTY('ProductVersion') AS NVARCHAR(128)) AS version`);
+      return {
+        engine: this.engineName,
+        reachable: true,
+        latency_ms: Date.now() - t0,
+        version: `SQL Server ${result.recordset[0]?.version}`,
+        pool,
+      };
+    } catch (err: any) {
+      return { engine: this.engineName, reachable: false, latency_ms: null, version: null, pool, error: err.message };
+    }
   }
 
   async close(): Promise<void> {
-    for (const pool of this.pools.values()) {
+    for (const pool of [...this.pools.values(), ...this.readOnlyPools.values()]) {
       await pool.close();
     }
     this.pools.clear();
+    this.readOnlyPools.clear();
   }
 
   // ===== Cache =====
 
   getCacheStats() {
-    const keys = this.graphCache.keys();
-    return {
-      hits: this.cacheStats.hits,
-      misses: this.cacheStats.misses,
-      bypasses: this.cacheStats.bypasses,
-      cachedGraphs: keys.length,
-      keys,
-    };
+    return this.graphCache.stats();
   }
 
   clearCache(graphId?: string, database?: string) {
     if (graphId) {
-      const key = `graph:${database || this.defaultDatabase}:${graphId}`;
-      this.graphCache.del(key);
-      return { cleared: [key] };
+      return { cleared: [this.graphCache.delete(database || this.defaultDatabase, graphId)] };
     }
-    const keys = this.graphCache.keys();
-    this.graphCache.flushAll();
-    this.cacheStats = { hits: 0, misses: 0, bypasses: 0 };
-    return { cleared: keys };
+    return { cleared: this.graphCache.clear() };
+  }
+
+  isGraphCached(graphId: string, database?: string): boolean {
+    return this.graphCache.has(database || this.defaultDatabase, graphId);
   }
 
   // ===== CRUD Graphes =====
@@ -202,9 +277,9 @@ export class MssqlService implements GraphDatabaseService {
     nodes: GraphNode[],
     edges: GraphEdge[],
     database?: string,
+    createdAt: string = new Date().toISOString(),
   ): Promise<Graph> {
     const pool = await this.getPool(database);
-    const createdAt = new Date().toISOString();
 
     // Insérer le graphe
     await pool.request()
@@ -220,61 +295,65 @@ export class MssqlService implements GraphDatabaseService {
         VALUES (@id, @title, @description, @graphType, @nodeCount, @edgeCount, @createdAt)
       `);
 
-    // Insérer les nœuds par batch
-    // Limite SQL Server : 2100 paramètres max par requête
-    // Nœuds : 4 colonnes + 1 graphId partagé → max = floor((2100-1)/4) = 524 lignes
-    const BATCH_NODES = 500;
-    for (let i = 0; i < nodes.length; i += BATCH_NODES) {
-      const batch = nodes.slice(i, i + BATCH_NODES);
-      const req = pool.request().input("graphId", sql.NVarChar(255), graphId);
-      const rows = batch.map((n, idx) => {
-        req.input(`nid${idx}`,   sql.NVarChar(255), n.id);
-        req.input(`nlbl${idx}`,  sql.NVarChar(255), n.label);
-        req.input(`ntyp${idx}`,  sql.NVarChar(100), n.node_type);
-        req.input(`nprop${idx}`, sql.NVarChar(sql.MAX), JSON.stringify(n.properties));
-        return `(@graphId, @nid${idx}, @nlbl${idx}, @ntyp${idx}, @nprop${idx})`;
-      });
-      await req.query(
-        `INSERT INTO graph_nodes (graph_id, node_id, label, node_type, properties) VALUES ${rows.join(",")}`,
-      );
-    }
-
-    // Insérer les arêtes par batch
-    // Arêtes : 5 colonnes + 1 graphId partagé → max = floor((2100-1)/5) = 419 lignes
-    const BATCH_EDGES = 400;
-    for (let i = 0; i < edges.length; i += BATCH_EDGES) {
-      const batch = edges.slice(i, i + BATCH_EDGES);
-      const req = pool.request().input("graphId", sql.NVarChar(255), graphId);
-      const rows = batch.map((e, idx) => {
-        req.input(`esrc${idx}`,  sql.NVarChar(255), e.source);
-        req.input(`etgt${idx}`,  sql.NVarChar(255), e.target);
-        req.input(`elbl${idx}`,  sql.NVarChar(255), e.label ?? "");
-        req.input(`etyp${idx}`,  sql.NVarChar(100), e.edge_type);
-        req.input(`eprop${idx}`, sql.NVarChar(sql.MAX), JSON.stringify(e.properties));
-        return `(@graphId, @esrc${idx}, @etgt${idx}, @elbl${idx}, @etyp${idx}, @eprop${idx})`;
-      });
-      await req.query(
-        `INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties) VALUES ${rows.join(",")}`,
-      );
-    }
+    await this.insertNodeBatches(pool, graphId, nodes);
+    await this.insertEdgeBatches(pool, graphId, edges);
 
     // Invalider le cache
-    const cacheKey = `graph:${database || this.defaultDatabase}:${graphId}`;
-    this.graphCache.del(cacheKey);
+    this.graphCache.delete(database || this.defaultDatabase, graphId);
 
-    return { id: graphId, title, description, graph_type: graphType, node_count: nodes.length, edge_count: edges.length, created_at: createdAt };
+    return {
+      id: graphId,
+      title,
+      description,
+      graph_type: graphType,
+      node_count: nodes.length,
+      edge_count: edges.length,
+      created_at: createdAt,
+      tags: [],
+      folder: null,
+    };
   }
 
-  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
-    const cacheKey = `graph:${database || this.defaultDatabase}:${graphId}`;
+  async getGraphMetadata(graphId: string, database?: string): Promise<Graph | null> {
+    const pool = await this.getPool(database);
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .query(`
+        SELECT id, title, description, graph_type, node_count, edge_count, created_at, tags, folder
+        FROM graphs
+        WHERE id = @graphId
+      `);
+    return res.recordset.length ? this.toGraph(res.recordset[0]) : null;
+  }
 
-    if (!bypassCache) {
-      const cached = this.graphCache.get<GraphData>(cacheKey);
-      if (cached) { this.cacheStats.hits++; return cached; }
-      this.cacheStats.misses++;
-    } else {
-      this.cacheStats.bypasses++;
-    }
+  async updateGraphMetadata(graphId: string, update: GraphMetadataUpdate, database?: string): Promise<Graph | null> {
+    const pool = await this.getPool(database);
+    // COALESCE : un champ absent (NULL) conserve la valeur actuelle ; folder seulement s'il est fourni (null = racine)
+    const res = await pool.request()
+      .input("graphId",     sql.NVarChar(255),     graphId)
+      .input("title",       sql.NVarChar(255),     update.title ?? null)
+      .input("description", sql.NVarChar(sql.MAX), update.description ?? null)
+      .input("graphType",   sql.NVarChar(50),      update.graph_type ?? null)
+      .input("tags",        sql.NVarChar(sql.MAX), update.tags !== undefined ? JSON.stringify(update.tags) : null)
+      .input("setFolder",   sql.Bit,               update.folder !== undefined)
+      .input("folder",      sql.NVarChar(400),     update.folder ?? null)
+      .query(`
+        UPDATE graphs
+        SET title       = COALESCE(@title, title),
+            description = COALESCE(@description, description),
+            graph_type  = COALESCE(@graphType, graph_type),
+            tags        = COALESCE(@tags, tags),
+            folder      = CASE WHEN @setFolder = 1 THEN @folder ELSE folder END
+        OUTPUT INSERTED.id, INSERTED.title, INSERTED.description, INSERTED.graph_type, INSERTED.node_count,
+               INSERTED.edge_count, INSERTED.created_at, INSERTED.tags, INSERTED.folder
+        WHERE id = @graphId
+      `);
+    return res.recordset.length ? this.toGraph(res.recordset[0]) : null;
+  }
+
+  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
+    const cached = await this.graphCache.lookup(database || this.defaultDatabase, graphId, bypassCache);
+    if (cached) return cached;
 
     const pool = await this.getPool(database);
 
@@ -305,16 +384,119 @@ export class MssqlService implements GraphDatabaseService {
     }));
 
     const result: GraphData = { nodes, edges };
-    if (!bypassCache) this.graphCache.set(cacheKey, result);
+    if (!bypassCache) this.graphCache.set(database || this.defaultDatabase, graphId, result);
     return result;
   }
 
-  async listGraphs(database?: string): Promise<GraphSummary[]> {
+  async getGraphNodesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphNode[]> {
     const pool = await this.getPool(database);
-    const res = await pool.request().query(`
-      SELECT id, title, description, graph_type, node_count, edge_count
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("offset", sql.Int, offset)
+      .input("limit", sql.Int, limit)
+      .query(`
+        SELECT node_id, label, node_type, properties FROM graph_nodes
+        WHERE graph_id = @graphId
+        ORDER BY node_id
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+    return res.recordset.map((r: any) => ({
+      id: r.node_id,
+      label: r.label,
+      node_type: r.node_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async getGraphEdgesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphEdge[]> {
+    const pool = await this.getPool(database);
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("offset", sql.Int, offset)
+      .input("limit", sql.Int, limit)
+      .query(`
+        SELECT id, source_id, target_id, label, edge_type, properties FROM graph_edges
+        WHERE graph_id = @graphId
+        ORDER BY id
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+    return res.recordset.map((r: any) => ({
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async getGraphNodesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphNode[]> {
+    const pool = await this.getPool(database);
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("afterId", sql.NVarChar(255), afterId ?? null)
+      .input("limit", sql.Int, limit)
+      .query(`
+        SELECT TOP (@limit) node_id, label, node_type, properties FROM graph_nodes
+        WHERE graph_id = @graphId ${afterId === undefined ? "" : "AND node_id > @afterId"}
+        ORDER BY node_id
+      `);
+    return res.recordset.map((r: any) => ({
+      id: r.node_id,
+      label: r.label,
+      node_type: r.node_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async getGraphEdgesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphEdge[]> {
+    const pool = await this.getPool(database);
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("afterId", sql.BigInt, afterId === undefined ? 0 : Number(afterId))
+      .input("limit", sql.Int, limit)
+      .query(`
+        SELECT TOP (@limit) id, source_id, target_id, label, edge_type, properties FROM graph_edges
+        WHERE graph_id = @graphId AND id > @afterId
+        ORDER BY id
+      `);
+    return res.recordset.map((r: any) => ({
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async listGraphs(
+    database?: string,
+    filter: GraphListFilter = {},
+    page: GraphListPage = DEFAULT_GRAPH_LIST_PAGE,
+  ): Promise<GraphSummary[]> {
+    const pool = await this.getPool(database);
+    const req = pool.request();
+    const where = this.graphListWhere(req, filter);
+    // page.sort est validé (GRAPH_LIST_SORTS) : interpolable comme nom de colonne
+    const dir = page.order === "asc" ? "ASC" : "DESC";
+    if (page.after) {
+      const { value, id } = page.after;
+      if (page.sort === "created_at") req.input("afterValue", sql.DateTime2, new Date(value!));
+      else if (page.sort === "node_count") req.input("afterValue", sql.Int, value);
+      else req.input("afterValue", sql.NVarChar(255), value);
+      req.input("afterId", sql.NVarChar(255), id);
+      // title est nullable : NULL trié en premier en ASC
+      where.push(GraphListQuery.afterCondition(page.sort, "id", page, "@afterValue", "@afterId", true));
+    }
+    if (page.limit !== undefined) req.input("limit", sql.Int, page.limit);
+
+    const res = await req.query(`
+      SELECT ${page.limit !== undefined ? "TOP (@limit)" : ""}
+             id, title, description, graph_type, node_count, edge_count, created_at, tags, folder
       FROM graphs
-      ORDER BY created_at DESC
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY ${page.sort} ${dir}, id ${dir}
     `);
     return res.recordset.map((r: any) => ({
       id: r.id,
@@ -323,9 +505,53 @@ export class MssqlService implements GraphDatabaseService {
       graph_type: r.graph_type,
       node_count: r.node_count,
       edge_count: r.edge_count,
+      created_at: new Date(r.created_at).toISOString(),
+      tags: JSON.parse(r.tags || "[]"),
+      folder: r.folder ?? null,
     }));
   }
 
+  async countGraphs(database?: string, filter: GraphListFilter = {}): Promise<number> {
+    const pool = await this.getPool(database);
+    const req = pool.request();
+    const where = this.graphListWhere(req, filter);
+    const res = await req.query(`
+      SELECT COUNT(*) AS total FROM graphs
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    `);
+    return res.recordset[0].total;
+  }
+
+  /** Conditions SQL d'un filtre de listGraphs ; les paramètres sont ajoutés à la requête */
+  private graphListWhere(req: sql.Request, filter: GraphListFilter): string[] {
+    const where: string[] = [];
+    if (filter.tag !== undefined) {
+      req.input("tag", sql.NVarChar(100), filter.tag);
+      where.push("EXISTS (SELECT 1 FROM OPENJSON(tags) WHERE value = @tag)");
+    }
+    if (filter.folder === null) {
+      where.push("folder IS NULL");
+    } else if (filter.folder !== undefined) {
+      // LEFT plutôt que LIKE : pas d'échappement des % et _ du chemin
+      req.input("folder", sql.NVarChar(400), filter.folder);
+      req.input("folderPrefix", sql.NVarChar(401), `${filter.folder}/`);
+      where.push("(folder = @folder OR LEFT(folder, LEN(@folderPrefix)) = @folderPrefix)");
+    }
+    if (filter.graph_type !== undefined) {
+      req.input("graphType", sql.NVarChar(50), filter.graph_type);
+      where.push("graph_type = @graphType");
+    }
+    if (filter.min_nodes !== undefined) {
+      req.input("minNodes", sql.Int, filter.min_nodes);
+      where.push("node_count >= @minNodes");
+    }
+    if (filter.max_nodes !== undefined) {
+      req.input("maxNodes", sql.Int, filter.max_nodes);
+      where.push("node_count <= @maxNodes");
+    }
+    return where;
+  }
+
   async getGraphStats(graphId: string, database?: string): Promise<GraphStats> {
     const pool = await this.getPool(database);
 
@@ -362,12 +588,266 @@ export class MssqlService implements GraphDatabaseService {
 
   async deleteGraph(graphId: string, database?: string): Promise<void> {
     const pool = await this.getPool(database);
-    // ON DELETE CASCADE supprime graph_nodes et graph_edges automatiquement
+    // ON DELETE CASCADE supprime graph_nodes, graph_edges et graph_versions automatiquement
     await pool.request()
       .input("graphId", sql.NVarChar(255), graphId)
       .query(`DELETE FROM graphs WHERE id = @graphId`);
-    const cacheKey = `graph:${database || this.defaultDatabase}:${graphId}`;
-    this.graphCache.del(cacheKey);
+    this.graphCache.delete(database || this.defaultDatabase, graphId);
+  }
+
+  async replaceGraphData(graphId: string, nodes: GraphNode[], edges: GraphEdge[], database?: string): Promise<void> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    // Une seule transaction : un échec en cours de route laisse le graphe intact
+    const tx = new sql.Transaction(pool);
+    await tx.begin();
+    try {
+      await tx.request()
+        .input("graphId", sql.NVarChar(255), graphId)
+        .query(`
+          DELETE FROM graph_edges WHERE graph_id = @graphId;
+          DELETE FROM graph_nodes WHERE graph_id = @graphId;
+        `);
+      await this.insertNodeBatches(tx, graphId, nodes);
+      await this.insertEdgeBatches(tx, graphId, edges);
+      await this.refreshCounts(tx, graphId);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    this.clearCache(graphId, database);
+  }
+
+  // ===== Import en flux =====
+
+  async importNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<number> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    // Bulk insert (TDS) dans une transaction : le lot est écrit entier ou pas du tout
+    const table = new sql.Table("graph_nodes");
+    table.create = false;
+    table.columns.add("graph_id", sql.NVarChar(255), { nullable: false });
+    table.columns.add("node_id", sql.NVarChar(255), { nullable: false });
+    table.columns.add("label", sql.NVarChar(255), { nullable: true });
+    table.columns.add("node_type", sql.NVarChar(100), { nullable: true });
+    table.columns.add("properties", sql.NVarChar(sql.MAX), { nullable: true });
+    for (const node of nodes) {
+      table.rows.add(graphId, node.id, node.label, node.node_type, JSON.stringify(node.properties));
+    }
+
+    const tx = new sql.Transaction(pool);
+    await tx.begin();
+    try {
+      await tx.request().bulk(table);
+      await this.refreshCounts(tx, graphId);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    this.clearCache(graphId, database);
+    return nodes.length;
+  }
+
+  async importEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<number> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    // Bulk insert dans une table temporaire, puis copie des seules arêtes dont les deux extrémités existent
+    const table = new sql.Table("#import_edges");
+    table.create = true;
+    table.columns.add("source_id", sql.NVarChar(255), { nullable: false });
+    table.columns.add("target_id", sql.NVarChar(255), { nullable: false });
+    table.columns.add("label", sql.NVarChar(255), { nullable: true });
+    table.columns.add("edge_type", sql.NVarChar(100), { nullable: true });
+    table.columns.add("properties", sql.NVarChar(sql.MAX), { nullable: true });
+    for (const edge of edges) {
+      table.rows.add(edge.source, edge.target, edge.label || "", edge.edge_type, JSON.stringify(edge.properties));
+    }
+
+    const tx = new sql.Transaction(pool);
+    await tx.begin();
+    try {
+      await tx.request().bulk(table);
+      const res = await tx.request()
+        .input("graphId", sql.NVarChar(255), graphId)
+        .query(`
+          INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties)
+          SELECT @graphId, i.source_id, i.target_id, i.label, i.edge_type, i.properties
+          FROM #import_edges i
+          WHERE EXISTS (SELECT 1 FROM graph_nodes s WHERE s.graph_id = @graphId AND s.node_id = i.source_id)
+            AND EXISTS (SELECT 1 FROM graph_nodes t WHERE t.graph_id = @graphId AND t.node_id = i.target_id);
+          SELECT @@ROWCOUNT AS written;
+          DROP TABLE #import_edges;
+        `);
+      await this.refreshCounts(tx, graphId);
+      await tx.commit();
+      this.clearCache(graphId, database);
+      return res.recordset[0]?.written ?? 0;
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+
+  // ===== CRUD Nœuds / Arêtes =====
+
+  async addNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<GraphNode[]> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    // Ids répétés dans le lot lui-même
+    const seen = new Set<string>();
+    const duplicates: string[] = [];
+    for (const n of nodes) {
+      if (seen.has(n.id)) duplicates.push(n.id);
+      seen.add(n.id);
+    }
+    if (duplicates.length > 0) {
+      throw new Error(`Node(s) already exist in graph '${graphId}': ${duplicates.join(", ")}`);
+    }
+
+    // Vérification et insertion dans une seule transaction : UPDLOCK/HOLDLOCK verrouille les ids
+    // jusqu'au commit, et un échec en cours de batch n'écrit rien
+    const tx = new sql.Transaction(pool);
+    await tx.begin();
+    try {
+      for (let i = 0; i < nodes.length; i += 2000) {
+        const batch = nodes.slice(i, i + 2000);
+        const req = tx.request().input("graphId", sql.NVarChar(255), graphId);
+        const params = batch.map((n, idx) => {
+          req.input(`nid${idx}`, sql.NVarChar(255), n.id);
+          return `@nid${idx}`;
+        });
+        const res = await req.query(
+          `SELECT node_id FROM graph_nodes WITH (UPDLOCK, HOLDLOCK)
+           WHERE graph_id = @graphId AND node_id IN (${params.join(",")})`,
+        );
+        duplicates.push(...res.recordset.map((r: any) => r.node_id));
+      }
+      if (duplicates.length > 0) {
+        throw new Error(`Node(s) already exist in graph '${graphId}': ${duplicates.join(", ")}`);
+      }
+
+      await this.insertNodeBatches(tx, graphId, nodes);
+      await this.refreshCounts(tx, graphId);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    this.clearCache(graphId, database);
+    return nodes;
+  }
+
+  async updateNode(graphId: string, nodeId: string, update: GraphNodeUpdate, database?: string): Promise<GraphNode | null> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    // COALESCE : un champ absent (NULL) conserve la valeur actuelle
+    const res = await pool.request()
+      .input("graphId",    sql.NVarChar(255),     graphId)
+      .input("nodeId",     sql.NVarChar(255),     nodeId)
+      .input("label",      sql.NVarChar(255),     update.label ?? null)
+      .input("nodeType",   sql.NVarChar(100),     update.node_type ?? null)
+      .input("properties", sql.NVarChar(sql.MAX), update.properties !== undefined ? JSON.stringify(update.properties) : null)
+      .query(`
+        UPDATE graph_nodes
+        SET label      = COALESCE(@label, label),
+            node_type  = COALESCE(@nodeType, node_type),
+            properties = COALESCE(@properties, properties)
+        OUTPUT INSERTED.node_id, INSERTED.label, INSERTED.node_type, INSERTED.properties
+        WHERE graph_id = @graphId AND node_id = @nodeId
+      `);
+    if (!res.recordset.length) return null;
+
+    this.clearCache(graphId, database);
+    const r = res.recordset[0];
+    return { id: r.node_id, label: r.label, node_type: r.node_type, properties: JSON.parse(r.properties || "{}") };
+  }
+
+  async deleteNode(graphId: string, nodeId: string, database?: string): Promise<boolean> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("nodeId",  sql.NVarChar(255), nodeId)
+      .query(`
+        SET XACT_ABORT ON;
+        BEGIN TRANSACTION;
+          DELETE FROM graph_edges WHERE graph_id = @graphId AND (source_id = @nodeId OR target_id = @nodeId);
+          DELETE FROM graph_nodes WHERE graph_id = @graphId AND node_id = @nodeId;
+          SELECT @@ROWCOUNT AS deleted;
+        COMMIT;
+      `);
+    await this.refreshCounts(pool, graphId);
+
+    this.clearCache(graphId, database);
+    return (res.recordset[0]?.deleted ?? 0) > 0;
+  }
+
+  async addEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<GraphEdge[]> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+
+    const added = await this.insertEdgeBatches(pool, graphId, edges, true);
+    await this.refreshCounts(pool, graphId);
+    this.clearCache(graphId, database);
+    return added;
+  }
+
+  async updateEdge(graphId: string, edgeId: string, update: GraphEdgeUpdate, database?: string): Promise<GraphEdge | null> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+    const id = parseInt(edgeId, 10);
+    if (Number.isNaN(id)) return null;
+
+    const res = await pool.request()
+      .input("graphId",    sql.NVarChar(255),     graphId)
+      .input("edgeId",     sql.Int,               id)
+      .input("label",      sql.NVarChar(255),     update.label ?? null)
+      .input("edgeType",   sql.NVarChar(100),     update.edge_type ?? null)
+      .input("properties", sql.NVarChar(sql.MAX), update.properties !== undefined ? JSON.stringify(update.properties) : null)
+      .query(`
+        UPDATE graph_edges
+        SET label      = COALESCE(@label, label),
+            edge_type  = COALESCE(@edgeType, edge_type),
+            properties = COALESCE(@properties, properties)
+        OUTPUT INSERTED.id, INSERTED.source_id, INSERTED.target_id, INSERTED.label, INSERTED.edge_type, INSERTED.properties
+        WHERE graph_id = @graphId AND id = @edgeId
+      `);
+    if (!res.recordset.length) return null;
+
+    this.clearCache(graphId, database);
+    const r = res.recordset[0];
+    return {
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    };
+  }
+
+  async deleteEdge(graphId: string, edgeId: string, database?: string): Promise<boolean> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+    const id = parseInt(edgeId, 10);
+    if (Number.isNaN(id)) return false;
+
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("edgeId",  sql.Int,           id)
+      .query(`DELETE FROM graph_edges WHERE graph_id = @graphId AND id = @edgeId`);
+    await this.refreshCounts(pool, graphId);
+
+    this.clearCache(graphId, database);
+    return res.rowsAffected[0] > 0;
   }
 
   async getStartingNode(graphId: string, database?: string): Promise<GraphNode | null> {
@@ -481,6 +961,114 @@ export class MssqlService implements GraphDatabaseService {
     return { nodes: Array.from(nodeMap.values()), edges: Array.from(edgeMap.values()) };
   }
 
+  /**
+   * Sous-graphe induit en une seule requête (deux jeux de résultats) : nœuds filtrés,
+   * puis arêtes dont les deux extrémités appartiennent à la même sélection (CTE).
+   * Prédicats sur properties via JSON_VALUE (SQL Server 2016+).
+   */
+  async getSubgraph(graphId: string, filter: SubgraphFilter, database?: string): Promise<GraphData> {
+    const pool = await this.getPool(database);
+    const request = pool.request().input("graphId", sql.NVarChar(255), graphId);
+    const nodeWhere = this.subgraphConditions(request, "", filter.node_types, "node_type", filter.where, "w");
+    const edgeWhere = this.subgraphConditions(request, "e.", filter.edge_types, "edge_type", filter.edge_where, "ew");
+
+    const res = await request.query(`
+      SELECT node_id, label, node_type, properties FROM graph_nodes
+      WHERE graph_id = @graphId${nodeWhere};
+
+      WITH sel AS (SELECT node_id FROM graph_nodes WHERE graph_id = @graphId${nodeWhere})
+      SELECT e.id, e.source_id, e.target_id, e.label, e.edge_type, e.properties
+      FROM graph_edges e
+      WHERE e.graph_id = @graphId
+        AND e.source_id IN (SELECT node_id FROM sel)
+        AND e.target_id IN (SELECT node_id FROM sel)${edgeWhere};
+    `);
+    const [nodeRows, edgeRows] = res.recordsets as any[][];
+
+    return {
+      nodes: nodeRows.map((r: any) => ({
+        id: r.node_id,
+        label: r.label,
+        node_type: r.node_type,
+        properties: JSON.parse(r.properties || "{}"),
+      })),
+      edges: edgeRows.map((r: any) => ({
+        id: String(r.id),
+        source: r.source_id,
+        target: r.target_id,
+        label: r.label || undefined,
+        edge_type: r.edge_type,
+        properties: JSON.parse(r.properties || "{}"),
+      })),
+    };
+  }
+
+  /**
+   * Recherche via CONTAINSTABLE (termes en préfixe "srv*", en ET, classés par RANK)
+   * quand l'index Full-Text existe ; sinon LIKE avec paliers de score (cf. NodeSearch).
+   */
+  async searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]> {
+    const terms = NodeSearch.terms(query);
+    if (terms.length === 0) return [];
+    const pool = await this.getPool(database);
+    const request = pool.request()
+      .input("limit", sql.Int, limit)
+      .input("graphId", sql.NVarChar(255), graphId ?? null);
+
+    let result;
+    if (await this.hasFullText(pool, database || this.defaultDatabase)) {
+      request.input("ftQuery", sql.NVarChar(4000), terms.map((t) => `"${t}*"`).join(" AND "));
+      result = await request.query(`
+        SELECT TOP (@limit) n.graph_id, n.node_id, n.label, n.node_type, n.properties, ft.[RANK] AS score
+        FROM CONTAINSTABLE(graph_nodes, (node_id, label, properties), @ftQuery) ft
+        JOIN graph_nodes n ON n.id = ft.[KEY]
+        WHERE @graphId IS NULL OR n.graph_id = @graphId
+        ORDER BY ft.[RANK] DESC
+      `);
+    } else {
+      const q = query.trim();
+      const like = q.replace(/[[%_]/g, "[$&]");
+      request
+        .input("q", sql.NVarChar(4000), q)
+        .input("prefix", sql.NVarChar(4000), `${like}%`)
+        .input("contains", sql.NVarChar(4000), `%${like}%`);
+      const anyProp = (test: string) =>
+        SEARCH_PROPERTIES.map((key) => `JSON_VALUE(properties, '$.${key}') ${test}`).join(" OR ");
+      result = await request.query(`
+        SELECT TOP (@limit) graph_id, node_id, label, node_type, properties, score FROM (
+          SELECT graph_id, node_id, label, node_type, properties,
+            CASE
+              WHEN node_id = @q THEN 100
+              WHEN label = @q THEN 90
+              WHEN ${anyProp("= @q")} THEN 80
+              WHEN label LIKE @prefix THEN 60
+              WHEN node_id LIKE @prefix THEN 50
+              WHEN ${anyProp("LIKE @prefix")} THEN 40
+              WHEN label LIKE @contains THEN 30
+              WHEN node_id LIKE @contains THEN 20
+              WHEN ${anyProp("LIKE @contains")} THEN 10
+              ELSE 0
+            END AS score
+          FROM graph_nodes
+          WHERE @graphId IS NULL OR graph_id = @graphId
+        ) s
+        WHERE score > 0
+        ORDER BY score DESC
+      `);
+    }
+
+    return result.recordset.map((r: any) => ({
+      graph_id: r.graph_id,
+      node: {
+        id: r.node_id,
+        label: r.label,
+        node_type: r.node_type,
+        properties: JSON.parse(r.properties || "{}"),
+      },
+      score: r.score,
+    }));
+  }
+
   /**
    * Analyse d'impact côté serveur — propagation BFS sortante via CTE récursive.
    * AVERTISSEMENT : contrairement à Neo4j/Memgraph (pointeurs directs),
@@ -527,6 +1115,88 @@ export class MssqlService implements GraphDatabaseService {
     };
   }
 
+  // ===== Versions =====
+
+  async saveGraphVersion(
+    graphId: string,
+    change: string,
+    data: GraphData,
+    keep: number,
+    database?: string,
+  ): Promise<GraphVersion> {
+    const pool = await this.getPool(database);
+    await this.assertGraph(pool, graphId);
+    const createdAt = new Date().toISOString();
+
+    // UPDLOCK/HOLDLOCK : deux écritures concurrentes ne peuvent pas obtenir le même numéro
+    const res = await pool.request()
+      .input("graphId",   sql.NVarChar(255),     graphId)
+      .input("createdAt", sql.DateTime2,         new Date(createdAt))
+      .input("change",    sql.NVarChar(100),     change)
+      .input("nodeCount", sql.Int,               data.nodes.length)
+      .input("edgeCount", sql.Int,               data.edges.length)
+      .input("snapshot",  sql.NVarChar(sql.MAX), JSON.stringify(data))
+      .input("keep",      sql.Int,               keep)
+      .query(`
+        SET XACT_ABORT ON;
+        BEGIN TRANSACTION;
+          DECLARE @version INT = (
+            SELECT ISNULL(MAX(version), 0) + 1 FROM graph_versions WITH (UPDLOCK, HOLDLOCK)
+            WHERE graph_id = @graphId
+          );
+          INSERT INTO graph_versions (graph_id, version, created_at, change, node_count, edge_count, snapshot)
+          VALUES (@graphId, @version, @createdAt, @change, @nodeCount, @edgeCount, @snapshot);
+          DELETE FROM graph_versions WHERE graph_id = @graphId AND version <= @version - @keep;
+          SELECT @version AS version;
+        COMMIT;
+      `);
+
+    return {
+      graph_id: graphId,
+      version: res.recordset[0].version,
+      created_at: createdAt,
+      change,
+      node_count: data.nodes.length,
+      edge_count: data.edges.length,
+    };
+  }
+
+  async listGraphVersions(graphId: string, database?: string): Promise<GraphVersion[]> {
+    const pool = await this.getPool(database);
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .query(`
+        SELECT graph_id, version, created_at, change, node_count, edge_count
+        FROM graph_versions
+        WHERE graph_id = @graphId
+        ORDER BY version DESC
+      `);
+    return res.recordset.map((r: any) => ({
+      ...r,
+      created_at: r.created_at instanceof Date ? r.created_at.toISOString() : String(r.created_at),
+    }));
+  }
+
+  async getGraphVersion(graphId: string, version: number, database?: string): Promise<GraphVersionData | null> {
+    const pool = await this.getPool(database);
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .input("version", sql.Int,           version)
+      .query(`
+        SELECT graph_id, version, created_at, change, node_count, edge_count, snapshot
+        FROM graph_versions
+        WHERE graph_id = @graphId AND version = @version
+      `);
+    if (!res.recordset.length) return null;
+
+    const { snapshot, ...r } = res.recordset[0];
+    return {
+      ...r,
+      created_at: r.created_at instanceof Date ? r.created_at.toISOString() : String(r.created_at),
+      data: JSON.parse(snapshot),
+    };
+  }
+
   // ===== Gestion des bases de données =====
 
   async listDatabases(): Promise<Array<{ name: string; default: boolean; status: string }>> {
@@ -553,8 +1223,13 @@ export class MssqlService implements GraphDatabaseService {
         CREATE DATABASE [${safeName}]
     `);
     // Initialiser les tables dans la nouvelle base
-    const newPool = await this.getPool(safeName);
-    await this.ensureTables(newPool);
+    await this.migrate(safeName);
+    await this.ensureSearchIndex(await this.getPool(safeName), safeName);
+  }
+
+  async migrate(database?: string): Promise<MigrationReport> {
+    const db = database || this.defaultDatabase;
+    return this.migrations.run(db, new MssqlMigrationStore(await this.getPool(db)));
   }
 
   async deleteDatabase(databaseName: string): Promise<void> {
@@ -562,9 +1237,11 @@ export class MssqlService implements GraphDatabaseService {
       throw new Error(`Cannot delete protected database '${databaseName}'`);
     }
     // Fermer le pool existant
-    if (this.pools.has(databaseName)) {
-      await this.pools.get(databaseName)!.close();
-      this.pools.delete(databaseName);
+    for (const pools of [this.pools, this.readOnlyPools]) {
+      if (pools.has(databaseName)) {
+        await pools.get(databaseName)!.close();
+        pools.delete(databaseName);
+      }
     }
     const safeName = databaseName.replace(/[^a-zA-Z0-9_]/g, "");
     const pool = await this.getMasterPool();
@@ -575,6 +1252,7 @@ export class MssqlService implements GraphDatabaseService {
         DROP DATABASE [${safeName}];
       END
     `);
+    this.graphCache.clearDatabase(databaseName);
   }
 
   async getDatabaseStats(databaseName: string): Promise<{ nodeCount: number; relationshipCount: number; graphCount: number }> {
@@ -591,42 +1269,194 @@ export class MssqlService implements GraphDatabaseService {
 
   // ===== Helpers =====
 
-  /** Crée les tables si elles n'existent pas (utilisé lors de createDatabase) */
-  private async ensureTables(pool: sql.ConnectionPool): Promise<void> {
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graphs')
-      CREATE TABLE graphs (
-        id NVARCHAR(255) NOT NULL PRIMARY KEY, title NVARCHAR(255),
-        description NVARCHAR(MAX), graph_type NVARCHAR(50),
-        node_count INT DEFAULT 0, edge_count INT DEFAULT 0,
-        created_at DATETIME2 DEFAULT GETDATE()
-      )
-    `);
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_nodes')
-      BEGIN
-        CREATE TABLE graph_nodes (
-          id INT IDENTITY(1,1) PRIMARY KEY, graph_id NVARCHAR(255) NOT NULL,
-          node_id NVARCHAR(255) NOT NULL, label NVARCHAR(255), node_type NVARCHAR(100),
-          properties NVARCHAR(MAX) DEFAULT '{}',
-          CONSTRAINT UQ_gn_${Date.now()} UNIQUE (graph_id, node_id),
-          FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
-        )
-        CREATE INDEX IX_gn_gid_${Date.now()} ON graph_nodes (graph_id)
-      END
-    `);
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'graph_edges')
-      BEGIN
-        CREATE TABLE graph_edges (
-          id INT IDENTITY(1,1) PRIMARY KEY, graph_id NVARCHAR(255) NOT NULL,
-          source_id NVARCHAR(255) NOT NULL, target_id NVARCHAR(255) NOT NULL,
-          label NVARCHAR(255), edge_type NVARCHAR(100),
-          properties NVARCHAR(MAX) DEFAULT '{}',
-          FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
-        )
-        CREATE INDEX IX_ge_gid_${Date.now()} ON graph_edges (graph_id)
-      END
-    `);
+  /**
+   * Insertion des nœuds par batch.
+   * Limite SQL Server : 2100 paramètres max par requête
+   * Nœuds : 4 colonnes + 1 graphId partagé → max = floor((2100-1)/4) = 524 lignes
+   */
+  private async insertNodeBatches(pool: sql.ConnectionPool | sql.Transaction, graphId: string, nodes: GraphNode[]): Promise<void> {
+    const BATCH_NODES = 500;
+    for (let i = 0; i < nodes.length; i += BATCH_NODES) {
+      const batch = nodes.slice(i, i + BATCH_NODES);
+      const req = pool.request().input("graphId", sql.NVarChar(255), graphId);
+      const rows = batch.map((n, idx) => {
+        req.input(`nid${idx}`,   sql.NVarChar(255), n.id);
+        req.input(`nlbl${idx}`,  sql.NVarChar(255), n.label);
+        req.input(`ntyp${idx}`,  sql.NVarChar(100), n.node_type);
+        req.input(`nprop${idx}`, sql.NVarChar(sql.MAX), JSON.stringify(n.properties));
+        return `(@graphId, @nid${idx}, @nlbl${idx}, @ntyp${idx}, @nprop${idx})`;
+      });
+      await req.query(
+        `INSERT INTO graph_nodes (graph_id, node_id, label, node_type, properties) VALUES ${rows.join(",")}`,
+      );
+    }
+  }
+
+  /**
+   * Insertion des arêtes par batch.
+   * Arêtes : 5 colonnes + 1 graphId partagé → max = floor((2100-1)/5) = 419 lignes
+   * Avec `checkEndpoints`, les arêtes dont une extrémité n'existe pas sont ignorées
+   * et les arêtes créées sont retournées (OUTPUT INSERTED).
+   */
+  private async insertEdgeBatches(
+    pool: sql.ConnectionPool | sql.Transaction,
+    graphId: string,
+    edges: GraphEdge[],
+    checkEndpoints = false,
+  ): Promise<GraphEdge[]> {
+    const BATCH_EDGES = 400;
+    const inserted: GraphEdge[] = [];
+    for (let i = 0; i < edges.length; i += BATCH_EDGES) {
+      const batch = edges.slice(i, i + BATCH_EDGES);
+      const req = pool.request().input("graphId", sql.NVarChar(255), graphId);
+      const rows = batch.map((e, idx) => {
+        req.input(`esrc${idx}`,  sql.NVarChar(255), e.source);
+        req.input(`etgt${idx}`,  sql.NVarChar(255), e.target);
+        req.input(`elbl${idx}`,  sql.NVarChar(255), e.label ?? "");
+        req.input(`etyp${idx}`,  sql.NVarChar(100), e.edge_type);
+        req.input(`eprop${idx}`, sql.NVarChar(sql.MAX), JSON.stringify(e.properties));
+        return checkEndpoints
+          ? `(@esrc${idx}, @etgt${idx}, @elbl${idx}, @etyp${idx}, @eprop${idx})`
+          : `(@graphId, @esrc${idx}, @etgt${idx}, @elbl${idx}, @etyp${idx}, @eprop${idx})`;
+      });
+
+      if (!checkEndpoints) {
+        await req.query(
+          `INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties) VALUES ${rows.join(",")}`,
+        );
+        continue;
+      }
+
+      const res = await req.query(`
+        INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties)
+        OUTPUT INSERTED.id, INSERTED.source_id, INSERTED.target_id, INSERTED.label, INSERTED.edge_type, INSERTED.properties
+        SELECT @graphId, v.source_id, v.target_id, v.label, v.edge_type, v.properties
+        FROM (VALUES ${rows.join(",")}) AS v(source_id, target_id, label, edge_type, properties)
+        WHERE EXISTS (SELECT 1 FROM graph_nodes n WHERE n.graph_id = @graphId AND n.node_id = v.source_id)
+          AND EXISTS (SELECT 1 FROM graph_nodes n WHERE n.graph_id = @graphId AND n.node_id = v.target_id)
+      `);
+      for (const r of res.recordset as any[]) {
+        inserted.push({
+          id: String(r.id),
+          source: r.source_id,
+          target: r.target_id,
+          label: r.label || undefined,
+          edge_type: r.edge_type,
+          properties: JSON.parse(r.properties || "{}"),
+        });
+      }
+    }
+    return inserted;
+  }
+
+  private async assertGraph(pool: sql.ConnectionPool, graphId: string): Promise<void> {
+    const res = await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .query(`SELECT 1 AS found FROM graphs WHERE id = @graphId`);
+    if (!res.recordset.length) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+  }
+
+  /**
+   * Conditions SQL (préfixées par AND) d'un SubgraphFilter : type IN (...) + prédicats
+   * JSON_VALUE sur la colonne properties. Les valeurs sont déclarées sur `request`.
+   * JSON_VALUE renvoie du texte : comparaisons numériques via TRY_CAST ... AS FLOAT.
+   */
+  private subgraphConditions(
+    request: sql.Request,
+    alias: string,
+    types: string[] | undefined,
+    typeColumn: string,
+    predicates: PropertyPredicate[] | undefined,
+    prefix: string,
+  ): string {
+    const conditions: string[] = [];
+    if (types) {
+      const names = types.map((t, i) => {
+        request.input(`${prefix}t${i}`, sql.NVarChar(255), t);
+        return `@${prefix}t${i}`;
+      });
+      conditions.push(`${alias}${typeColumn} IN (${names.join(", ")})`);
+    }
+    (predicates ?? []).forEach((p, i) => {
+      const name = `${prefix}${i}`;
+      const value = `JSON_VALUE(${alias}properties, '$.${p.property}')`;
+      const op = p.op === "!=" ? "<>" : p.op;
+      if (p.op === "contains") {
+        request.input(name, sql.NVarChar(sql.MAX), String(p.value));
+        conditions.push(`CHARINDEX(@${name}, ${value}) > 0`);
+      } else if (typeof p.value === "number") {
+        request.input(name, sql.Float, p.value);
+        conditions.push(`TRY_CAST(${value} AS FLOAT) ${op} @${name}`);
+      } else {
+        request.input(name, sql.NVarChar(sql.MAX), String(p.value));
+        conditions.push(`${value} ${op} @${name}`);
+      }
+    });
+    return conditions.map((c) => `\n        AND ${c}`).join("");
+  }
+
+  /**
+   * Index Full-Text sur graph_nodes (node_id, label, properties), dans le catalogue
+   * graph_search_catalog. Ignoré si le composant Full-Text n'est pas installé
+   * (image Docker SQL Server par défaut) : searchNodes passe alors en LIKE.
+   */
+  private async ensureSearchIndex(pool: sql.ConnectionPool, database: string): Promise<void> {
+    try {
+      await pool.request().query(`
+        IF FULLTEXTSERVICEPROPERTY('IsFullTextInstalled') = 1
+          AND NOT EXISTS (SELECT 1 FROM sys.fulltext_indexes WHERE object_id = OBJECT_ID('graph_nodes'))
+        BEGIN
+          IF NOT EXISTS (SELECT 1 FROM sys.fulltext_catalogs WHERE name = 'graph_search_catalog')
+            CREATE FULLTEXT CATALOG graph_search_catalog;
+          DECLARE @pk SYSNAME = (
+            SELECT name FROM sys.indexes WHERE object_id = OBJECT_ID('graph_nodes') AND is_primary_key = 1
+          );
+          EXEC('CREATE FULLTEXT INDEX ON graph_nodes (node_id, label, properties) KEY INDEX '
+            + QUOTENAME(@pk) + ' ON graph_search_catalog WITH CHANGE_TRACKING AUTO');
+        END
+      `);
+    } catch (err: any) {
+      console.warn(`MSSQL full-text index unavailable on ${database}: ${err.message}`);
+    }
+    this.fullText.delete(database);
+  }
+
+  private async hasFullText(pool: sql.ConnectionPool, database: string): Promise<boolean> {
+    if (!this.fullText.has(database)) {
+      const res = await pool.request().query(
+        "SELECT COUNT(*) AS n FROM sys.fulltext_indexes WHERE object_id = OBJECT_ID('graph_nodes')",
+      );
+      this.fullText.set(database, res.recordset[0].n > 0);
+    }
+    return this.fullText.get(database)!;
+  }
+
+  /** Graph depuis une ligne de graphs (tags JSON, NULL pour les graphes antérieurs) */
+  private toGraph(r: any): Graph {
+    return {
+      id: r.id,
+      title: r.title,
+      description: r.description,
+      graph_type: r.graph_type,
+      node_count: r.node_count,
+      edge_count: r.edge_count,
+      created_at: r.created_at instanceof Date ? r.created_at.toISOString() : String(r.created_at),
+      tags: JSON.parse(r.tags || "[]"),
+      folder: r.folder ?? null,
+    };
+  }
+
+  /** Recalcule node_count / edge_count du graphe après une écriture incrémentale */
+  private async refreshCounts(pool: sql.ConnectionPool | sql.Transaction, graphId: string): Promise<void> {
+    await pool.request()
+      .input("graphId", sql.NVarChar(255), graphId)
+      .query(`
+        UPDATE graphs
+        SET node_count = (SELECT COUNT(*) FROM graph_nodes WHERE graph_id = @graphId),
+            edge_count = (SELECT COUNT(*) FROM graph_edges WHERE graph_id = @graphId)
+        WHERE id = @graphId
+      `);
   }
 }
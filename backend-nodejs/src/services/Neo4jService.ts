@@ -1,27 +1,67 @@
-import neo4j, { Driver, Session, Integer } from "neo4j-driver";
-import NodeCache from "node-cache";
+import neo4j, { Driver, Session, Transaction, Integer, Record as Neo4jRecord, SessionMode } from "neo4j-driver";
 import {
   GraphNode,
   GraphEdge,
+  GraphNodeUpdate,
+  GraphEdgeUpdate,
+  GraphListFilter,
+  GraphListPage,
+  GraphMetadataUpdate,
+  EngineStatus,
   Graph,
   GraphData,
   GraphStats,
   GraphSummary,
+  GraphVersion,
+  GraphVersionData,
   ImpactResult,
+  PropertyPredicate,
+  RawQueryOptions,
+  RawQueryResult,
+  SearchHit,
+  SubgraphFilter,
 } from "../models/graph.js";
 import { GraphDatabaseService } from "./GraphDatabaseService.js";
-
+import { EngineGraphCache } from "./GraphCache.js";
+import { DEFAULT_GRAPH_LIST_PAGE, GraphListQuery } from "./GraphListQuery.js";
+import { NodeSearch } from "./NodeSearch.js";
+import { NUMERIC, SubgraphFilterParser } from "./SubgraphFilterParser.js";
+
+/** Labels internes, jamais produits par nodeLabel() */
+const RESERVED_LABELS = new Set(["Graph", "GraphNode", "GraphVersion"]);
+
+/** Colonnes RETURN des métadonnées d'un Graph (voir toGraph) */
+const GRAPH_FIELDS = `g.id AS id, g.title AS title, g.description AS description, g.graph_type AS graph_type,
+  g.node_count AS node_count, g.edge_count AS edge_count, g.created_at AS created_at,
+  coalesce(g.tags, []) AS tags, g.folder AS folder`;
+
+/**
+ * Service Neo4j — nœuds (:GraphNode) et relations stockés avec leur type en propriété.
+ *
+ * Mode types natifs (nativeTypes, NEO4J_NATIVE_TYPES=true) : chaque nœud porte en plus
+ * un label issu de node_type (`:GraphNode:server`) et chaque relation a pour type
+ * l'edge_type (`-[:DEPENDS_ON]->`) au lieu de CONNECTED_TO. Les chaînes d'origine restent
+ * dans node_type / edge_type : la lecture ne dépend pas des labels. Les relations sont alors
+ * lues sans filtre de type, ce qui couvre aussi les graphes créés avant l'activation du mode.
+ */
 export class Neo4jService implements GraphDatabaseService {
   readonly engineName: string = "neo4j";
   protected driver: Driver;
   protected defaultDatabase: string = 'neo4j';
-  // In-memory cache (TTL 5 minutes par défaut)
-  protected graphCache = new NodeCache({ stdTTL: 300, checkperiod: 60 });
+  // Cache partagé des payloads getGraph (GRAPH_CACHE_*), clés graph:<engine>:<database>:<id>
+  protected graphCache = new EngineGraphCache(() => this.engineName);
+
+  /** Databases où l'index plein texte graph_node_search a été créé */
+  protected searchIndexed = new Set<string>();
 
-  // Statistiques de cache pour le monitoring
-  protected cacheStats = { hits: 0, misses: 0, bypasses: 0 };
+  /** Fonctions APOC utilisées par getSubgraph disponibles ? Sondé une fois, au premier besoin */
+  protected apocAvailable?: Promise<boolean>;
 
-  constructor(uri: string, user: string, password: string) {
+  /** Motif de type des relations dans les MATCH : ":CONNECTED_TO", ou "" en mode types natifs */
+  protected readonly rel: string;
+
+  constructor(uri: string, user: string, password: string, protected readonly nativeTypes = false) {
+    this.rel = nativeTypes ? "" : ":CONNECTED_TO";
     this.driver = neo4j.driver(uri, neo4j.auth.basic(user, password), {
       connectionAcquisitionTimeout: 10000,  // 10 secondes max pour obtenir une connexion
       connectionTimeout: 10000,             // 10 secondes max pour établir la connexion TCP
@@ -38,36 +78,27 @@ export class Neo4jService implements GraphDatabaseService {
   }
 
   // Créer une session avec une database spécifique
-  protected getSession(database?: string): Session {
+  protected getSession(database?: string, accessMode: SessionMode = neo4j.session.WRITE): Session {
     return this.driver.session({ 
-      database: database || this.defaultDatabase 
+      database: database || this.defaultDatabase,
+      defaultAccessMode: accessMode,
     });
   }
 
   // Accès aux stats et contrôle du cache
   getCacheStats() {
-    const keys = this.graphCache.keys();
-    const nodeCache = this.graphCache.getStats();
-    return {
-      hits: this.cacheStats.hits,
-      misses: this.cacheStats.misses,
-      bypasses: this.cacheStats.bypasses,
-      cachedGraphs: keys.length,
-      keys,
-      nodeCache,
-    };
+    return this.graphCache.stats();
   }
 
   clearCache(graphId?: string, database?: string) {
     if (graphId) {
-      const key = `graph:${database || this.defaultDatabase}:${graphId}`;
-      this.graphCache.del(key);
-      return { cleared: [key] };
+      return { cleared: [this.graphCache.delete(database || this.defaultDatabase, graphId)] };
     }
-    const keys = this.graphCache.keys();
-    this.graphCache.flushAll();
-    this.cacheStats = { hits: 0, misses: 0, bypasses: 0 };
-    return { cleared: keys };
+    return { cleared: this.graphCache.clear() };
+  }
+
+  isGraphCached(graphId: string, database?: string): boolean {
+    return this.graphCache.has(database || this.defaultDatabase, graphId);
   }
 
   async initialize(): Promise<void> {
@@ -86,12 +117,19 @@ export class Neo4jService implements GraphDatabaseService {
         FOR (n:GraphNode) ON (n.graph_id, n.node_id)
       `);
 
+      await session.run(`
+        CREATE INDEX version_graph_id IF NOT EXISTS
+        FOR (v:GraphVersion) ON (v.graph_id, v.version)
+      `);
+
       console.log("Neo4j constraints and indexes created");
     } catch (err: any) {
       console.log("Constraints may already exist:", err.message);
     } finally {
       await session.close();
     }
+
+    await this.ensureSearchIndex();
   }
 
   async createGraph(
@@ -102,8 +140,8 @@ export class Neo4jService implements GraphDatabaseService {
     nodes: GraphNode[],
     edges: GraphEdge[],
     database?: string,
+    createdAt: string = new Date().toISOString(),
   ): Promise<Graph> {
-    const createdAt = new Date().toISOString();
     const session = this.getSession(database);
 
     try {
@@ -117,7 +155,8 @@ export class Neo4jService implements GraphDatabaseService {
           graph_type: $graphType,
           node_count: $nodeCount,
           edge_count: $edgeCount,
-          created_at: $createdAt
+          created_at: $createdAt,
+          tags: []
         })
         `,
         {
@@ -131,50 +170,8 @@ export class Neo4jService implements GraphDatabaseService {
         }
       );
 
-      // Créer les nœuds par batch UNWIND (500 par batch)
-      const BATCH_SIZE = 500;
-      for (let i = 0; i < nodes.length; i += BATCH_SIZE) {
-        const batch = nodes.slice(i, i + BATCH_SIZE).map(n => ({
-          node_id: n.id,
-          label: n.label,
-          node_type: n.node_type,
-          properties: JSON.stringify(n.properties),
-        }));
-        await session.run(
-          `UNWIND $batch AS node
-           CREATE (n:GraphNode {
-             graph_id: $graphId,
-             node_id: node.node_id,
-             label: node.label,
-             node_type: node.node_type,
-             properties: node.properties
-           })`,
-          { graphId, batch }
-        );
-      }
-
-      // Créer les arêtes par batch UNWIND (500 par batch)
-      for (let i = 0; i < edges.length; i += BATCH_SIZE) {
-        const batch = edges.slice(i, i + BATCH_SIZE).map(e => ({
-          source: e.source,
-          target: e.target,
-          label: e.label || "",
-          edge_type: e.edge_type,
-          properties: JSON.stringify(e.properties),
-        }));
-        await session.run(
-          `UNWIND $batch AS edge
-           MATCH (source:GraphNode {graph_id: $graphId, node_id: edge.source})
-           MATCH (target:GraphNode {graph_id: $graphId, node_id: edge.target})
-           CREATE (source)-[:CONNECTED_TO {
-             graph_id: $graphId,
-             label: edge.label,
-             edge_type: edge.edge_type,
-             properties: edge.properties
-           }]->(target)`,
-          { graphId, batch }
-        );
-      }
+      await this.createNodeBatches(session, graphId, nodes);
+      await this.createEdgeBatches(session, graphId, edges);
 
       return {
         id: graphId,
@@ -184,26 +181,61 @@ export class Neo4jService implements GraphDatabaseService {
         node_count: nodes.length,
         edge_count: edges.length,
         created_at: createdAt,
+        tags: [],
+        folder: null,
       };
     } finally {
       await session.close();
     }
   }
 
-  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
-    const cacheKey = `graph:${database || this.defaultDatabase}:${graphId}`;
+  async getGraphMetadata(graphId: string, database?: string): Promise<Graph | null> {
+    const session = this.getSession(database);
 
-    // Cache lookup (sauf si bypass demandé)
-    if (!bypassCache) {
-      const cached = this.graphCache.get<GraphData>(cacheKey);
-      if (cached) {
-        this.cacheStats.hits++;
-        return cached;
-      }
-      this.cacheStats.misses++;
-    } else {
-      this.cacheStats.bypasses++;
+    try {
+      const result = await session.run(
+        `MATCH (g:Graph {id: $graphId})
+         RETURN ${GRAPH_FIELDS}`,
+        { graphId }
+      );
+      return result.records.length === 0 ? null : this.toGraph(result.records[0]);
+    } finally {
+      await session.close();
     }
+  }
+
+  async updateGraphMetadata(graphId: string, update: GraphMetadataUpdate, database?: string): Promise<Graph | null> {
+    const session = this.getSession(database);
+
+    try {
+      // folder null → propriété supprimée (racine)
+      const result = await session.run(
+        `MATCH (g:Graph {id: $graphId})
+         SET g.title = coalesce($title, g.title),
+             g.description = coalesce($description, g.description),
+             g.graph_type = coalesce($graphType, g.graph_type)
+             ${update.tags !== undefined ? ", g.tags = $tags" : ""}
+             ${update.folder !== undefined ? ", g.folder = $folder" : ""}
+         RETURN ${GRAPH_FIELDS}`,
+        {
+          graphId,
+          title: update.title ?? null,
+          description: update.description ?? null,
+          graphType: update.graph_type ?? null,
+          tags: update.tags ?? null,
+          folder: update.folder ?? null,
+        }
+      );
+      return result.records.length === 0 ? null : this.toGraph(result.records[0]);
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
+    // Cache lookup (sauf si bypass demandé)
+    const cached = await this.graphCache.lookup(database || this.defaultDatabase, graphId, bypassCache);
+    if (cached) return cached;
 
     // Deux sessions pour requêtes parallèles
     const sessionNodes = this.getSession(database);
@@ -218,7 +250,7 @@ export class Neo4jService implements GraphDatabaseService {
           { graphId }
         ),
         sessionEdges.run(
-          `MATCH (source:GraphNode {graph_id: $graphId})-[r:CONNECTED_TO]->(target:GraphNode {graph_id: $graphId})
+          `MATCH (source:GraphNode {graph_id: $graphId})-[r${this.rel}]->(target:GraphNode {graph_id: $graphId})
            RETURN id(r) as id, source.node_id as source, target.node_id as target,
                   r.label as label, r.edge_type as edge_type, r.properties as properties`,
           { graphId }
@@ -245,7 +277,7 @@ export class Neo4jService implements GraphDatabaseService {
 
       // Mise en cache du résultat
       if (!bypassCache) {
-        this.graphCache.set(cacheKey, result);
+        this.graphCache.set(database || this.defaultDatabase, graphId, result);
       }
 
       return result;
@@ -254,6 +286,94 @@ export class Neo4jService implements GraphDatabaseService {
     }
   }
 
+  async getGraphNodesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphNode[]> {
+    const session = this.getSession(database);
+    try {
+      const result = await session.run(
+        `MATCH (n:GraphNode {graph_id: $graphId})
+         RETURN n.node_id as id, n.label as label, n.node_type as node_type, n.properties as properties
+         ORDER BY n.node_id SKIP $offset LIMIT $limit`,
+        { graphId, offset: neo4j.int(offset), limit: neo4j.int(limit) }
+      );
+      return result.records.map((record) => ({
+        id: record.get("id"),
+        label: record.get("label"),
+        node_type: record.get("node_type"),
+        properties: JSON.parse(record.get("properties") || "{}"),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGraphEdgesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphEdge[]> {
+    const session = this.getSession(database);
+    try {
+      const result = await session.run(
+        `MATCH (source:GraphNode {graph_id: $graphId})-[r${this.rel}]->(target:GraphNode {graph_id: $graphId})
+         RETURN id(r) as id, source.node_id as source, target.node_id as target,
+                r.label as label, r.edge_type as edge_type, r.properties as properties
+         ORDER BY id(r) SKIP $offset LIMIT $limit`,
+        { graphId, offset: neo4j.int(offset), limit: neo4j.int(limit) }
+      );
+      return result.records.map((record) => ({
+        id: record.get("id").toString(),
+        source: record.get("source"),
+        target: record.get("target"),
+        label: record.get("label") || undefined,
+        edge_type: record.get("edge_type"),
+        properties: JSON.parse(record.get("properties") || "{}"),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGraphNodesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphNode[]> {
+    const session = this.getSession(database);
+    try {
+      const result = await session.run(
+        `MATCH (n:GraphNode {graph_id: $graphId})
+         WHERE $afterId IS NULL OR n.node_id > $afterId
+         RETURN n.node_id as id, n.label as label, n.node_type as node_type, n.properties as properties
+         ORDER BY n.node_id LIMIT $limit`,
+        { graphId, afterId: afterId ?? null, limit: neo4j.int(limit) }
+      );
+      return result.records.map((record) => ({
+        id: record.get("id"),
+        label: record.get("label"),
+        node_type: record.get("node_type"),
+        properties: JSON.parse(record.get("properties") || "{}"),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGraphEdgesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphEdge[]> {
+    const session = this.getSession(database);
+    try {
+      const result = await session.run(
+        `MATCH (source:GraphNode {graph_id: $graphId})-[r${this.rel}]->(target:GraphNode {graph_id: $graphId})
+         WHERE id(r) > $afterId
+         RETURN id(r) as id, source.node_id as source, target.node_id as target,
+                r.label as label, r.edge_type as edge_type, r.properties as properties
+         ORDER BY id(r) LIMIT $limit`,
+        { graphId, afterId: neo4j.int(afterId ?? -1), limit: neo4j.int(limit) }
+      );
+      return result.records.map((record) => ({
+        id: record.get("id").toString(),
+        source: record.get("source"),
+        target: record.get("target"),
+        label: record.get("label") || undefined,
+        edge_type: record.get("edge_type"),
+        properties: JSON.parse(record.get("properties") || "{}"),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
   // Obtenir un noeud de départ (le premier noeud d'un graphe)
   async getStartingNode(graphId: string, database?: string): Promise<GraphNode | null> {
     const session = this.getSession(database);
@@ -293,7 +413,7 @@ export class Neo4jService implements GraphDatabaseService {
       // Utiliser UNION pour capturer relations sortantes ET entrantes
       const result = await session.run(
         `
-        MATCH path = (n:GraphNode {graph_id: $graphId, node_id: $nodeId})-[r:CONNECTED_TO*1..${depth}]->(neighbor:GraphNode {graph_id: $graphId})
+        MATCH path = (n:GraphNode {graph_id: $graphId, node_id: $nodeId})-[r${this.rel}*1..${depth}]->(neighbor:GraphNode {graph_id: $graphId})
         WITH nodes(path) as pathNodes, relationships(path) as pathRels
         UNWIND pathNodes as node
         WITH collect(DISTINCT {
@@ -315,7 +435,7 @@ export class Neo4jService implements GraphDatabaseService {
         
         UNION
         
-        MATCH path = (n:GraphNode {graph_id: $graphId, node_id: $nodeId})<-[r:CONNECTED_TO*1..${depth}]-(neighbor:GraphNode {graph_id: $graphId})
+        MATCH path = (n:GraphNode {graph_id: $graphId, node_id: $nodeId})<-[r${this.rel}*1..${depth}]-(neighbor:GraphNode {graph_id: $graphId})
         WITH nodes(path) as pathNodes, relationships(path) as pathRels
         UNWIND pathNodes as node
         WITH collect(DISTINCT {
@@ -372,6 +492,126 @@ export class Neo4jService implements GraphDatabaseService {
     }
   }
 
+  /**
+   * Recherche Lucene sur l'index plein texte graph_node_search (node_id, label, properties).
+   * Chaque terme correspond exactement ou en préfixe — `(srv OR srv*)` — termes en ET.
+   * properties est indexé en bloc (chaîne JSON) : toutes les valeurs sont cherchables.
+   */
+  async searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]> {
+    const terms = NodeSearch.terms(query).map((t) => t.toLowerCase().replace(/[-/]/g, "\\$&"));
+    if (terms.length === 0) return [];
+    await this.ensureSearchIndex(database);
+
+    const session = this.getSession(database);
+    try {
+      const result = await session.run(
+        `CALL db.index.fulltext.queryNodes("graph_node_search", $lucene) YIELD node, score
+         WHERE $graphId IS NULL OR node.graph_id = $graphId
+         RETURN node.graph_id as graph_id, node.node_id as id, node.label as label,
+                node.node_type as node_type, node.properties as properties, score
+         ORDER BY score DESC
+         LIMIT $limit`,
+        {
+          lucene: terms.map((t) => `(${t} OR ${t}*)`).join(" AND "),
+          graphId: graphId ?? null,
+          limit: neo4j.int(limit),
+        }
+      );
+      return result.records.map((record) => ({
+        graph_id: record.get("graph_id"),
+        node: {
+          id: record.get("id"),
+          label: record.get("label"),
+          node_type: record.get("node_type"),
+          properties: JSON.parse(record.get("properties") || "{}"),
+        },
+        score: Math.round(record.get("score") * 1000) / 1000,
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Sous-graphe induit : le filtre nœuds est appliqué à n, puis aux deux extrémités
+   * des arêtes (s, t) — seules les arêtes internes à la sélection sont retournées.
+   * properties est une chaîne JSON : avec APOC, les prédicats sont traduits en Cypher sur
+   * apoc.convert.fromJsonMap ; sans APOC (Memgraph, Neo4j nu), seuls les types sont filtrés
+   * en Cypher et les prédicats évalués ici par SubgraphFilterParser.matches.
+   */
+  async getSubgraph(graphId: string, filter: SubgraphFilter, database?: string): Promise<GraphData> {
+    const params: Record<string, any> = { graphId, nodeTypes: filter.node_types ?? null, edgeTypes: filter.edge_types ?? null };
+    const inCypher = (filter.where || filter.edge_where) ? await this.hasApoc() : true;
+
+    let nodeQuery =
+      `MATCH (n:GraphNode {graph_id: $graphId})
+           WHERE $nodeTypes IS NULL OR n.node_type IN $nodeTypes`;
+    let edgeQuery =
+      `MATCH (s:GraphNode {graph_id: $graphId})-[r${this.rel}]->(t:GraphNode {graph_id: $graphId})
+           WHERE ($nodeTypes IS NULL OR (s.node_type IN $nodeTypes AND t.node_type IN $nodeTypes))
+             AND ($edgeTypes IS NULL OR r.edge_type IN $edgeTypes)`;
+    if (inCypher && filter.where) {
+      const nodeWhere = (alias: string) => this.apocPredicates(alias, filter.where, "w", params).join(" AND ");
+      nodeQuery += `
+           WITH n, apoc.convert.fromJsonMap(n.properties) AS np
+           WHERE ${nodeWhere("np")}`;
+      edgeQuery += `
+           WITH s, r, t, apoc.convert.fromJsonMap(s.properties) AS sp, apoc.convert.fromJsonMap(t.properties) AS tp
+           WHERE ${nodeWhere("sp")} AND ${nodeWhere("tp")}`;
+    }
+    if (inCypher && filter.edge_where) {
+      edgeQuery += `
+           WITH s, r, t, apoc.convert.fromJsonMap(r.properties) AS rp
+           WHERE ${this.apocPredicates("rp", filter.edge_where, "ew", params).join(" AND ")}`;
+    }
+
+    const sessionNodes = this.getSession(database);
+    const sessionEdges = this.getSession(database);
+    try {
+      const [nodesResult, edgesResult] = await Promise.all([
+        sessionNodes.run(
+          `${nodeQuery}
+           RETURN n.node_id as id, n.label as label, n.node_type as node_type, n.properties as properties`,
+          params
+        ),
+        sessionEdges.run(
+          `${edgeQuery}
+           RETURN id(r) as id, s.node_id as source, t.node_id as target,
+                  r.label as label, r.edge_type as edge_type, r.properties as properties`,
+          params
+        ),
+      ]);
+
+      const nodes: GraphNode[] = nodesResult.records
+        .map((record) => ({
+          id: record.get("id"),
+          label: record.get("label"),
+          node_type: record.get("node_type"),
+          properties: JSON.parse(record.get("properties") || "{}"),
+        }))
+        .filter((n) => inCypher || (filter.where ?? []).every((p) => SubgraphFilterParser.matches(n.properties, p)));
+      const selected = new Set(nodes.map((n) => n.id));
+
+      const edges: GraphEdge[] = edgesResult.records
+        .map((record) => ({
+          id: record.get("id").toString(),
+          source: record.get("source"),
+          target: record.get("target"),
+          label: record.get("label") || undefined,
+          edge_type: record.get("edge_type"),
+          properties: JSON.parse(record.get("properties") || "{}"),
+        }))
+        .filter((e) =>
+          selected.has(e.source) && selected.has(e.target) &&
+          (inCypher || (filter.edge_where ?? []).every((p) => SubgraphFilterParser.matches(e.properties, p))),
+        );
+
+      return { nodes, edges };
+    } finally {
+      await Promise.all([sessionNodes.close(), sessionEdges.close()]);
+    }
+  }
+
   /**
    * Analyse d'impact côté serveur — propagation BFS sortante via Cypher.
    * Neo4j/Memgraph : traversée native index-free adjacency O(k^d),
@@ -384,7 +624,7 @@ export class Neo4jService implements GraphDatabaseService {
     try {
       const result = await session.run(
         `MATCH path = (source:GraphNode {graph_id: $graphId, node_id: $nodeId})
-               -[:CONNECTED_TO*1..${maxDepth}]->
+               -[${this.rel}*1..${maxDepth}]->
                (n:GraphNode {graph_id: $graphId})
          RETURN n.node_id AS nodeId, min(length(path)) AS level`,
         { graphId, nodeId }
@@ -407,30 +647,86 @@ export class Neo4jService implements GraphDatabaseService {
     }
   }
 
-  async listGraphs(database?: string): Promise<GraphSummary[]> {
+  async listGraphs(
+    database?: string,
+    filter: GraphListFilter = {},
+    page: GraphListPage = DEFAULT_GRAPH_LIST_PAGE,
+  ): Promise<GraphSummary[]> {
     const session = this.getSession(database);
 
     try {
-      const result = await session.run(`
-        MATCH (g:Graph)
-        RETURN g.id as id, g.title as title, g.description as description,
-               g.graph_type as graph_type, g.node_count as node_count, g.edge_count as edge_count
-        ORDER BY g.created_at DESC
-      `);
+      const { where, params } = this.graphListWhere(filter);
+      // page.sort est validé (GRAPH_LIST_SORTS) : interpolable comme nom de propriété
+      const key = `g.${page.sort}`;
+      const dir = page.order === "asc" ? "ASC" : "DESC";
+      if (page.after) {
+        // Cypher trie null après toute valeur en ASC
+        where.push(GraphListQuery.afterCondition(key, "g.id", page, "$afterValue", "$afterId", false));
+        Object.assign(params, { afterValue: page.after.value, afterId: page.after.id });
+      }
+      if (page.limit !== undefined) params.limit = neo4j.int(page.limit);
 
-      return result.records.map((record) => ({
-        id: record.get("id"),
-        title: record.get("title"),
-        description: record.get("description"),
-        graph_type: record.get("graph_type"),
-        node_count: this.toNum(record.get("node_count")),
-        edge_count: this.toNum(record.get("edge_count")),
-      }));
+      const result = await session.run(
+        `MATCH (g:Graph)
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         RETURN ${GRAPH_FIELDS}
+         ORDER BY ${key} ${dir}, g.id ${dir}
+         ${page.limit !== undefined ? "LIMIT $limit" : ""}`,
+        params
+      );
+
+      return result.records.map((record) => this.toGraph(record));
     } finally {
       await session.close();
     }
   }
 
+  async countGraphs(database?: string, filter: GraphListFilter = {}): Promise<number> {
+    const session = this.getSession(database);
+
+    try {
+      const { where, params } = this.graphListWhere(filter);
+      const result = await session.run(
+        `MATCH (g:Graph)
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         RETURN count(g) AS total`,
+        params
+      );
+      return this.toNum(result.records[0].get("total"));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /** Conditions Cypher et paramètres d'un filtre de listGraphs (variable g) */
+  private graphListWhere(filter: GraphListFilter): { where: string[]; params: Record<string, unknown> } {
+    const where: string[] = [];
+    const params: Record<string, unknown> = {};
+    if (filter.tag !== undefined) {
+      where.push("$tag IN coalesce(g.tags, [])");
+      params.tag = filter.tag;
+    }
+    if (filter.folder === null) {
+      where.push("g.folder IS NULL");
+    } else if (filter.folder !== undefined) {
+      where.push("(g.folder = $folder OR g.folder STARTS WITH $folder + '/')");
+      params.folder = filter.folder;
+    }
+    if (filter.graph_type !== undefined) {
+      where.push("g.graph_type = $graphType");
+      params.graphType = filter.graph_type;
+    }
+    if (filter.min_nodes !== undefined) {
+      where.push("g.node_count >= $minNodes");
+      params.minNodes = filter.min_nodes;
+    }
+    if (filter.max_nodes !== undefined) {
+      where.push("g.node_count <= $maxNodes");
+      params.maxNodes = filter.max_nodes;
+    }
+    return { where, params };
+  }
+
   async getGraphStats(graphId: string, database?: string): Promise<GraphStats> {
     const session = this.getSession(database);
 
@@ -438,7 +734,7 @@ export class Neo4jService implements GraphDatabaseService {
       const result = await session.run(
         `
         MATCH (n:GraphNode {graph_id: $graphId})
-        OPTIONAL MATCH (n)-[r:CONNECTED_TO {graph_id: $graphId}]-()
+        OPTIONAL MATCH (n)-[r${this.rel} {graph_id: $graphId}]-()
         WITH count(DISTINCT n) as node_count, 
              count(DISTINCT r) as edge_count,
              collect(DISTINCT n.node_type) as types,
@@ -501,7 +797,7 @@ export class Neo4jService implements GraphDatabaseService {
         { graphId }
       );
 
-      // Supprimer le graphe principal
+      // Supprimer le graphe principal et ses versions
       await session.run(
         `
         MATCH (g:Graph {id: $graphId})
@@ -509,11 +805,645 @@ export class Neo4jService implements GraphDatabaseService {
         `,
         { graphId }
       );
+      await session.run(
+        `
+        MATCH (v:GraphVersion {graph_id: $graphId})
+        DELETE v
+        `,
+        { graphId }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  async replaceGraphData(graphId: string, nodes: GraphNode[], edges: GraphEdge[], database?: string): Promise<void> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+      // Une seule transaction : un échec en cours de route laisse le graphe intact
+      const tx = session.beginTransaction();
+      try {
+        await tx.run(
+          `MATCH (n:GraphNode {graph_id: $graphId})
+           DETACH DELETE n`,
+          { graphId }
+        );
+        await this.createNodeBatches(tx, graphId, nodes);
+        await this.createEdgeBatches(tx, graphId, edges);
+        await this.refreshCounts(tx, graphId);
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+      this.clearCache(graphId, database);
     } finally {
       await session.close();
     }
   }
 
+  // ===== Import en flux =====
+
+  async importNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<number> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+      // Transaction explicite : les sous-lots UNWIND du lot sont validés ensemble
+      const tx = session.beginTransaction();
+      try {
+        await this.createNodeBatches(tx, graphId, nodes);
+        await this.refreshCounts(tx, graphId);
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+      this.clearCache(graphId, database);
+      return nodes.length;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async importEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<number> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+      const tx = session.beginTransaction();
+      let written: number;
+      try {
+        written = (await this.createEdgeBatches(tx, graphId, edges, true)).length;
+        await this.refreshCounts(tx, graphId);
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+      this.clearCache(graphId, database);
+      return written;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // ===== CRUD Nœuds / Arêtes =====
+
+  async addNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<GraphNode[]> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+
+      // Pas de contrainte d'unicité sur (graph_id, node_id) : vérification explicite,
+      // y compris des ids répétés dans le lot lui-même
+      const seen = new Set<string>();
+      const duplicates: string[] = [];
+      for (const n of nodes) {
+        if (seen.has(n.id)) duplicates.push(n.id);
+        seen.add(n.id);
+      }
+      const dupResult = await session.run(
+        `UNWIND $ids AS nid
+         MATCH (n:GraphNode {graph_id: $graphId, node_id: nid})
+         RETURN n.node_id AS id`,
+        { graphId, ids: [...seen] }
+      );
+      duplicates.push(...dupResult.records.map((r) => r.get("id")));
+      if (duplicates.length > 0) {
+        throw new Error(`Node(s) already exist in graph '${graphId}': ${duplicates.join(", ")}`);
+      }
+
+      await this.createNodeBatches(session, graphId, nodes);
+      await this.refreshCounts(session, graphId);
+      this.clearCache(graphId, database);
+      return nodes;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async updateNode(graphId: string, nodeId: string, update: GraphNodeUpdate, database?: string): Promise<GraphNode | null> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+
+      // Mode types natifs : le label issu de l'ancien node_type est remplacé
+      let relabel = "";
+      if (this.nativeTypes && update.node_type !== undefined) {
+        const current = await session.run(
+          `MATCH (n:GraphNode {graph_id: $graphId, node_id: $nodeId}) RETURN n.node_type AS type`,
+          { graphId, nodeId }
+        );
+        if (current.records.length === 0) return null;
+        const previous = this.nodeLabelClause(current.records[0].get("type"));
+        const next = this.nodeLabelClause(update.node_type);
+        if (previous !== next) {
+          relabel = `${previous && `REMOVE n${previous}`} ${next && `SET n${next}`}`;
+        }
+      }
+
+      // coalesce : un champ absent (null) conserve la valeur actuelle
+      const result = await session.run(
+        `MATCH (n:GraphNode {graph_id: $graphId, node_id: $nodeId})
+         SET n.label = coalesce($label, n.label),
+             n.node_type = coalesce($nodeType, n.node_type),
+             n.properties = coalesce($properties, n.properties)
+         ${relabel}
+         RETURN n.node_id as id, n.label as label, n.node_type as node_type, n.properties as properties`,
+        {
+          graphId,
+          nodeId,
+          label: update.label ?? null,
+          nodeType: update.node_type ?? null,
+          properties: update.properties !== undefined ? JSON.stringify(update.properties) : null,
+        }
+      );
+      if (result.records.length === 0) return null;
+
+      this.clearCache(graphId, database);
+      const record = result.records[0];
+      return {
+        id: record.get("id"),
+        label: record.get("label"),
+        node_type: record.get("node_type"),
+        properties: JSON.parse(record.get("properties") || "{}"),
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  async deleteNode(graphId: string, nodeId: string, database?: string): Promise<boolean> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+
+      // DETACH DELETE supprime aussi les arêtes du nœud
+      const result = await session.run(
+        `MATCH (n:GraphNode {graph_id: $graphId, node_id: $nodeId})
+         DETACH DELETE n
+         RETURN count(*) AS deleted`,
+        { graphId, nodeId }
+      );
+      await this.refreshCounts(session, graphId);
+
+      this.clearCache(graphId, database);
+      return this.toNum(result.records[0]?.get("deleted")) > 0;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async addEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<GraphEdge[]> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+      const added = await this.createEdgeBatches(session, graphId, edges, true);
+      await this.refreshCounts(session, graphId);
+      this.clearCache(graphId, database);
+      return added;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async updateEdge(graphId: string, edgeId: string, update: GraphEdgeUpdate, database?: string): Promise<GraphEdge | null> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+
+      // Mode types natifs : le type d'une relation est immuable — changer d'edge_type
+      // recrée la relation (mêmes propriétés), qui reçoit donc un nouvel id
+      let retype = "";
+      if (this.nativeTypes && update.edge_type !== undefined) {
+        const current = await session.run(
+          `MATCH (:GraphNode {graph_id: $graphId})-[r]->(:GraphNode {graph_id: $graphId})
+           WHERE id(r) = toInteger($edgeId)
+           RETURN type(r) AS type`,
+          { graphId, edgeId }
+        );
+        if (current.records.length === 0) return null;
+        const next = this.relType(update.edge_type);
+        if (next !== `\`${current.records[0].get("type")}\``) {
+          retype = `CREATE (source)-[moved:${next}]->(target)
+         SET moved = properties(r)
+         DELETE r
+         WITH source, target, moved AS r`;
+        }
+      }
+
+      // L'id d'arête exposé par l'API est l'id interne de la relation (id(r))
+      const result = await session.run(
+        `MATCH (source:GraphNode {graph_id: $graphId})-[r${this.rel}]->(target:GraphNode {graph_id: $graphId})
+         WHERE id(r) = toInteger($edgeId)
+         ${retype}
+         SET r.label = coalesce($label, r.label),
+             r.edge_type = coalesce($edgeType, r.edge_type),
+             r.properties = coalesce($properties, r.properties)
+         RETURN id(r) as id, source.node_id as source, target.node_id as target,
+                r.label as label, r.edge_type as edge_type, r.properties as properties`,
+        {
+          graphId,
+          edgeId,
+          label: update.label ?? null,
+          edgeType: update.edge_type ?? null,
+          properties: update.properties !== undefined ? JSON.stringify(update.properties) : null,
+        }
+      );
+      if (result.records.length === 0) return null;
+
+      this.clearCache(graphId, database);
+      const record = result.records[0];
+      return {
+        id: record.get("id").toString(),
+        source: record.get("source"),
+        target: record.get("target"),
+        label: record.get("label") || undefined,
+        edge_type: record.get("edge_type"),
+        properties: JSON.parse(record.get("properties") || "{}"),
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  async deleteEdge(graphId: string, edgeId: string, database?: string): Promise<boolean> {
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+
+      const result = await session.run(
+        `MATCH (:GraphNode {graph_id: $graphId})-[r${this.rel}]->(:GraphNode {graph_id: $graphId})
+         WHERE id(r) = toInteger($edgeId)
+         DELETE r
+         RETURN count(*) AS deleted`,
+        { graphId, edgeId }
+      );
+      await this.refreshCounts(session, graphId);
+
+      this.clearCache(graphId, database);
+      return this.toNum(result.records[0]?.get("deleted")) > 0;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // ===== Versions =====
+  // Nœuds (:GraphVersion {graph_id, version, …, snapshot}) — snapshot = GraphData sérialisé en JSON
+
+  async saveGraphVersion(
+    graphId: string,
+    change: string,
+    data: GraphData,
+    keep: number,
+    database?: string,
+  ): Promise<GraphVersion> {
+    const createdAt = new Date().toISOString();
+    const session = this.getSession(database);
+
+    try {
+      await this.assertGraph(session, graphId);
+      // Verrou d'écriture sur le :Graph (SET/REMOVE) pris avant de lire max(version) :
+      // deux sauvegardes concurrentes du même graphe sont sérialisées, pas de numéro en double
+      const tx = session.beginTransaction();
+      let version: number;
+      try {
+        const result = await tx.run(
+          `MATCH (g:Graph {id: $graphId})
+           SET g._lock = true
+           REMOVE g._lock
+           WITH g
+           OPTIONAL MATCH (prev:GraphVersion {graph_id: $graphId})
+           WITH coalesce(max(prev.version), 0) + 1 AS next
+           CREATE (v:GraphVersion {
+             graph_id: $graphId,
+             version: next,
+             created_at: $createdAt,
+             change: $change,
+             node_count: $nodeCount,
+             edge_count: $edgeCount,
+             snapshot: $snapshot
+           })
+           RETURN v.version AS version`,
+          {
+            graphId,
+            createdAt,
+            change,
+            nodeCount: neo4j.int(data.nodes.length),
+            edgeCount: neo4j.int(data.edges.length),
+            snapshot: JSON.stringify(data),
+          }
+        );
+        version = this.toNum(result.records[0].get("version"));
+
+        await tx.run(
+          `MATCH (v:GraphVersion {graph_id: $graphId})
+           WHERE v.version <= $oldest
+           DELETE v`,
+          { graphId, oldest: neo4j.int(version - keep) }
+        );
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+
+      return {
+        graph_id: graphId,
+        version,
+        created_at: createdAt,
+        change,
+        node_count: data.nodes.length,
+        edge_count: data.edges.length,
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  async listGraphVersions(graphId: string, database?: string): Promise<GraphVersion[]> {
+    const session = this.getSession(database);
+
+    try {
+      const result = await session.run(
+        `MATCH (v:GraphVersion {graph_id: $graphId})
+         RETURN v.version AS version, v.created_at AS created_at, v.change AS change,
+                v.node_count AS node_count, v.edge_count AS edge_count
+         ORDER BY v.version DESC`,
+        { graphId }
+      );
+      return result.records.map((r) => ({
+        graph_id: graphId,
+        version: this.toNum(r.get("version")),
+        created_at: r.get("created_at"),
+        change: r.get("change"),
+        node_count: this.toNum(r.get("node_count")),
+        edge_count: this.toNum(r.get("edge_count")),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGraphVersion(graphId: string, version: number, database?: string): Promise<GraphVersionData | null> {
+    const session = this.getSession(database);
+
+    try {
+      const result = await session.run(
+        `MATCH (v:GraphVersion {graph_id: $graphId, version: $version})
+         RETURN v.created_at AS created_at, v.change AS change,
+                v.node_count AS node_count, v.edge_count AS edge_count, v.snapshot AS snapshot`,
+        { graphId, version: neo4j.int(version) }
+      );
+      if (result.records.length === 0) return null;
+
+      const r = result.records[0];
+      return {
+        graph_id: graphId,
+        version,
+        created_at: r.get("created_at"),
+        change: r.get("change"),
+        node_count: this.toNum(r.get("node_count")),
+        edge_count: this.toNum(r.get("edge_count")),
+        data: JSON.parse(r.get("snapshot")),
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  // ===== Helpers =====
+
+  /**
+   * Conditions Cypher des prédicats sur `map` (properties décodé par apoc.convert.fromJsonMap),
+   * même sémantique que SubgraphFilterParser.matches : le type de la valeur (apoc.meta.cypher.type)
+   * choisit la comparaison, et une valeur absente, nulle, objet ou liste ne correspond à rien.
+   * La clé et la valeur sont paramétrées.
+   */
+  protected apocPredicates(map: string, predicates: PropertyPredicate[] | undefined, prefix: string, params: Record<string, any>): string[] {
+    params.numeric = NUMERIC.source;
+    return (predicates ?? []).map((p, i) => {
+      const name = `${prefix}${i}`;
+      params[`${name}k`] = p.property;
+      params[name] = p.value;
+      const value = `${map}[$${name}k]`;
+      const type = `apoc.meta.cypher.type(${value})`;
+      const op = p.op === "!=" ? "<>" : p.op;
+
+      if (p.op === "contains") {
+        params[name] = String(p.value);
+        return `(${type} IN ['INTEGER', 'FLOAT', 'STRING', 'BOOLEAN'] AND toString(${value}) CONTAINS $${name})`;
+      }
+      if (typeof p.value === "number") {
+        return `((${type} IN ['INTEGER', 'FLOAT'] OR (${type} = 'STRING' AND ${value} =~ $numeric)) AND toFloat(${value}) ${op} $${name})`;
+      }
+      if (typeof p.value === "boolean") {
+        return `(${type} = 'BOOLEAN' AND ${value} ${op} $${name})`;
+      }
+      return `(${type} IN ['INTEGER', 'FLOAT', 'STRING'] AND toString(${value}) ${op} $${name})`;
+    });
+  }
+
+  /**
+   * APOC installé avec les fonctions dont getSubgraph a besoin ? Une fonction inconnue est une
+   * ClientError (mise en cache : false) ; une autre erreur (serveur injoignable) n'est pas retenue.
+   */
+  protected hasApoc(): Promise<boolean> {
+    this.apocAvailable ??= (async () => {
+      const session = this.getSession(undefined, neo4j.session.READ);
+      try {
+        await session.run(
+          `RETURN apoc.version() AS version, apoc.meta.cypher.type(1) AS type, apoc.convert.fromJsonMap('{}') AS map`,
+        );
+        return true;
+      } catch (err: any) {
+        if (String(err.code ?? "").includes("ClientError")) return false;
+        this.apocAvailable = undefined;
+        throw err;
+      } finally {
+        await session.close();
+      }
+    })();
+    return this.apocAvailable;
+  }
+
+  /**
+   * Index plein texte (Lucene) sur les nœuds. initialize() le crée dans la base par défaut ;
+   * les autres databases sont indexées à leur première recherche.
+   */
+  protected async ensureSearchIndex(database?: string): Promise<void> {
+    const name = database || this.defaultDatabase;
+    if (this.searchIndexed.has(name)) return;
+    const session = this.getSession(database);
+    try {
+      await session.run(`
+        CREATE FULLTEXT INDEX graph_node_search IF NOT EXISTS
+        FOR (n:GraphNode) ON EACH [n.node_id, n.label, n.properties]
+      `);
+      this.searchIndexed.add(name);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /** Créer les nœuds par batch UNWIND (500 par batch), un groupe par label natif */
+  protected async createNodeBatches(session: Session | Transaction, graphId: string, nodes: GraphNode[]): Promise<void> {
+    const BATCH_SIZE = 500;
+    for (const [label, group] of this.groupBy(nodes, (n) => this.nodeLabelClause(n.node_type))) {
+      for (let i = 0; i < group.length; i += BATCH_SIZE) {
+        const batch = group.slice(i, i + BATCH_SIZE).map(n => ({
+          node_id: n.id,
+          label: n.label,
+          node_type: n.node_type,
+          properties: JSON.stringify(n.properties),
+        }));
+        await session.run(
+          `UNWIND $batch AS node
+           CREATE (n:GraphNode${label} {
+             graph_id: $graphId,
+             node_id: node.node_id,
+             label: node.label,
+             node_type: node.node_type,
+             properties: node.properties
+           })`,
+          { graphId, batch }
+        );
+      }
+    }
+  }
+
+  /**
+   * Créer les arêtes par batch UNWIND (500 par batch), un groupe par type de relation.
+   * Les arêtes dont une extrémité n'existe pas sont ignorées (MATCH sans résultat).
+   * Avec `returnCreated`, retourne les arêtes créées avec leur id(r).
+   */
+  protected async createEdgeBatches(
+    session: Session | Transaction,
+    graphId: string,
+    edges: GraphEdge[],
+    returnCreated = false,
+  ): Promise<GraphEdge[]> {
+    const BATCH_SIZE = 500;
+    const created: GraphEdge[] = [];
+    for (const [relType, group] of this.groupBy(edges, (e) => this.relType(e.edge_type))) {
+      for (let i = 0; i < group.length; i += BATCH_SIZE) {
+        const batch = group.slice(i, i + BATCH_SIZE).map(e => ({
+          source: e.source,
+          target: e.target,
+          label: e.label || "",
+          edge_type: e.edge_type,
+          properties: JSON.stringify(e.properties),
+        }));
+        const result = await session.run(
+          `UNWIND $batch AS edge
+           MATCH (source:GraphNode {graph_id: $graphId, node_id: edge.source})
+           MATCH (target:GraphNode {graph_id: $graphId, node_id: edge.target})
+           CREATE (source)-[r:${relType} {
+             graph_id: $graphId,
+             label: edge.label,
+             edge_type: edge.edge_type,
+             properties: edge.properties
+           }]->(target)
+           ${returnCreated ? "RETURN id(r) as id, edge.source as source, edge.target as target, edge.label as label, edge.edge_type as edge_type, edge.properties as properties" : ""}`,
+          { graphId, batch }
+        );
+        if (returnCreated) {
+          for (const record of result.records) {
+            created.push({
+              id: record.get("id").toString(),
+              source: record.get("source"),
+              target: record.get("target"),
+              label: record.get("label") || undefined,
+              edge_type: record.get("edge_type"),
+              properties: JSON.parse(record.get("properties") || "{}"),
+            });
+          }
+        }
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Label natif d'un node_type (mode nativeTypes) : caractères hors lettres/chiffres/_ remplacés
+   * par `_`, préfixe `_` devant un chiffre, suffixe `_` pour les labels internes. Entre backticks.
+   * Retourne "" hors mode natif ou pour un type vide.
+   */
+  protected nodeLabelClause(nodeType: string | undefined): string {
+    if (!this.nativeTypes || !nodeType) return "";
+    let label = nodeType.replace(/[^\p{L}\p{N}_]/gu, "_");
+    if (/^\p{N}/u.test(label)) label = `_${label}`;
+    if (RESERVED_LABELS.has(label)) label = `${label}_`;
+    return `:\`${label}\``;
+  }
+
+  /**
+   * Type de relation d'un edge_type : CONNECTED_TO hors mode natif, sinon l'edge_type
+   * en majuscules (`depends on` → DEPENDS_ON), même nettoyage que nodeLabelClause.
+   */
+  protected relType(edgeType: string | undefined): string {
+    if (!this.nativeTypes || !edgeType) return "CONNECTED_TO";
+    let type = edgeType.replace(/[^\p{L}\p{N}_]/gu, "_").toUpperCase();
+    if (/^\p{N}/u.test(type)) type = `_${type}`;
+    return `\`${type}\``;
+  }
+
+  /** Regroupe en conservant l'ordre d'apparition des clés */
+  protected groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const k = key(item);
+      const group = groups.get(k);
+      if (group) group.push(item);
+      else groups.set(k, [item]);
+    }
+    return groups;
+  }
+
+  /** Graph depuis un enregistrement RETURN ${GRAPH_FIELDS} */
+  protected toGraph(r: Neo4jRecord): Graph {
+    return {
+      id: r.get("id"),
+      title: r.get("title"),
+      description: r.get("description"),
+      graph_type: r.get("graph_type"),
+      node_count: this.toNum(r.get("node_count")),
+      edge_count: this.toNum(r.get("edge_count")),
+      created_at: String(r.get("created_at")),
+      tags: r.get("tags"),
+      folder: r.get("folder"),
+    };
+  }
+
+  protected async assertGraph(session: Session, graphId: string): Promise<void> {
+    const result = await session.run(`MATCH (g:Graph {id: $graphId}) RETURN g.id AS id`, { graphId });
+    if (result.records.length === 0) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+  }
+
+  /** Recalcule node_count / edge_count du Graph après une écriture incrémentale */
+  protected async refreshCounts(session: Session | Transaction, graphId: string): Promise<void> {
+    await session.run(
+      `MATCH (g:Graph {id: $graphId})
+       OPTIONAL MATCH (n:GraphNode {graph_id: $graphId})
+       WITH g, count(n) AS nodeCount
+       OPTIONAL MATCH (:GraphNode {graph_id: $graphId})-[r${this.rel}]->(:GraphNode {graph_id: $graphId})
+       WITH g, nodeCount, count(r) AS edgeCount
+       SET g.node_count = nodeCount, g.edge_count = edgeCount`,
+      { graphId }
+    );
+  }
+
   async createExampleGraph(): Promise<Graph> {
     console.log("Creating example graph...");
 
@@ -823,6 +1753,7 @@ export class Neo4jService implements GraphDatabaseService {
 
     try {
       await session.run(`DROP DATABASE \`${databaseName}\` IF EXISTS`);
+      this.graphCache.clearDatabase(databaseName);
       console.log(`Database ${databaseName} deleted successfully`);
     } catch (err: any) {
       console.error(`Failed to delete database ${databaseName}:`, err.message);
@@ -862,17 +1793,47 @@ export class Neo4jService implements GraphDatabaseService {
 
   // ===== Raw Query Execution =====
 
-  async executeRawQuery(
-    query: string,
-    database?: string,
-  ): Promise<{ rows: Record<string, any>[]; elapsed_ms: number; rowCount: number; engine: string }> {
-    const session = this.getSession(database);
+  /**
+   * Lecture seule : session en mode d'accès READ, le serveur refuse toute écriture
+   * (Neo.ClientError.Statement.AccessMode). Délai : timeout de transaction appliqué par le
+   * serveur, doublé d'un délai client (+1 s) qui abandonne la session si le moteur l'ignore.
+   * Annulation (options.signal) : la session est fermée, le driver envoie RESET et le
+   * serveur interrompt la requête.
+   * Les enregistrements au-delà de maxRows sont comptés (totalRows) sans être conservés.
+   */
+  async executeRawQuery(query: string, options: RawQueryOptions, database?: string): Promise<RawQueryResult> {
+    const session = this.getSession(database, options.readOnly ? neo4j.session.READ : neo4j.session.WRITE);
+    const timeoutError = new Error(`Query timed out after ${options.timeoutMs} ms`);
+    let timer: NodeJS.Timeout | undefined;
+    let abandoned = false;
+    const abandon = (reject: (reason: Error) => void, reason: Error) => {
+      abandoned = true;
+      reject(reason);
+    };
+    let onAbort: (() => void) | undefined;
     try {
+      options.signal?.throwIfAborted();
       const t0 = Date.now();
-      const result = await session.run(query);
+      const records: Neo4jRecord[] = [];
+      let totalRows = 0;
+      const completed = new Promise<void>((resolve, reject) => {
+        session.run(query, options.params, { timeout: options.timeoutMs }).subscribe({
+          onNext: (record) => {
+            if (totalRows++ < options.maxRows) records.push(record);
+          },
+          onCompleted: () => resolve(),
+          onError: reject,
+        });
+      });
+      const interrupted = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => abandon(reject, timeoutError), options.timeoutMs + 1000);
+        onAbort = () => abandon(reject, options.signal!.reason);
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+      });
+      await Promise.race([completed, interrupted]);
       const elapsed_ms = Date.now() - t0;
 
-      const rows = result.records.map((record) => {
+      const rows = records.map((record) => {
         const obj: Record<string, any> = {};
         record.keys.forEach((key) => {
           const val = record.get(key);
@@ -889,12 +1850,66 @@ export class Neo4jService implements GraphDatabaseService {
         return obj;
       });
 
-      return { rows, elapsed_ms, rowCount: rows.length, engine: this.engineName };
+      return {
+        rows,
+        elapsed_ms,
+        rowCount: rows.length,
+        engine: this.engineName,
+        truncated: totalRows > rows.length,
+        totalRows,
+        readOnly: options.readOnly,
+      };
+    } catch (err: any) {
+      if (/TransactionTimedOut/.test(err.code ?? "")) throw timeoutError;
+      if (err.code === "Neo.ClientError.Statement.AccessMode") throw new Error(`Read-only query: ${err.message}`);
+      throw err;
     } finally {
-      await session.close();
+      clearTimeout(timer);
+      if (onAbort) options.signal?.removeEventListener("abort", onAbort);
+      // Requête abandonnée (délai client, annulation) : la fermeture interrompt la requête
+      // côté serveur, sans bloquer la réponse
+      if (abandoned) session.close().catch(() => {});
+      else await session.close();
     }
   }
 
+  // ===== Sonde =====
+
+  async probe(): Promise<EngineStatus> {
+    const session = this.getSession(undefined, neo4j.session.READ);
+    const t0 = Date.now();
+    try {
+      const result = await session.run("RETURN 1");
+      const server = result.summary.server as { agent?: string; version?: string };
+      return {
+        engine: this.engineName,
+        reachable: true,
+        latency_ms: Date.now() - t0,
+        // agent en Bolt 5 (driver v5), version en Bolt 4 (driver v4, Memgraph)
+        version: server.agent ?? server.version ?? null,
+        pool: this.poolStats(),
+      };
+    } catch (err: any) {
+      return { engine: this.engineName, reachable: false, latency_ms: null, version: null, pool: this.poolStats(), error: err.message };
+    } finally {
+      await session.close().catch(() => {});
+    }
+  }
+
+  /**
+   * État du pool lu dans les champs internes du driver (aucune API publique, même forme en v4 et v5).
+   * Pool vide tant que le driver n'a ouvert aucune connexion.
+   */
+  private poolStats(): EngineStatus["pool"] {
+    const pool = (this.driver as any)._connectionProvider?._connectionPool;
+    if (!pool?._pools) return { open: 0, idle: 0, pending: 0, max: null };
+    const sum = (values: unknown[]) => values.reduce((total: number, v) => total + (Number(v) || 0), 0);
+    const idle = sum(Object.values(pool._pools).map((p: any) => p.length));
+    const active = sum(Object.values(pool._activeResourceCounts ?? {}));
+    const pending = sum(Object.values(pool._acquireRequests ?? {}).map((r: any) => r.length));
+    return { open: active + idle, idle, pending, max: pool._maxSize ?? null };
+  }
+
   async close(): Promise<void> {
     await this.driver.close();
   }
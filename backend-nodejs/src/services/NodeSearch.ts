@@ -0,0 +1,66 @@
+import { GraphNode } from "../models/graph.js";
+
+/** Propriétés indexées par la recherche, en plus de node_id et label */
+export const SEARCH_PROPERTIES = ["nom", "nDeCI", "categorie"] as const;
+
+export const SEARCH_LIMIT_DEFAULT = 20;
+export const SEARCH_LIMIT_MAX = 100;
+
+/** Candidats lus au maximum avant classement, pour les moteurs sans index plein texte */
+export const SEARCH_CANDIDATES_MAX = 5000;
+
+/**
+ * NodeSearch — helpers partagés par les implémentations de searchNodes.
+ *
+ * Les moteurs avec index plein texte (FTS5, Lucene, ArangoSearch, Full-Text MSSQL)
+ * classent par pertinence native. Sans index, le repli classe par paliers :
+ *   égalité (id 100, label 90, propriété 80)
+ *   préfixe (label 60, id 50, propriété 40)
+ *   sous-chaîne (label 30, id 20, propriété 10)
+ * Comparaisons insensibles à la casse et aux accents. Score 0 = pas de correspondance.
+ */
+export class NodeSearch {
+  /** Termes de la requête (espaces), sans les caractères de syntaxe des moteurs plein texte */
+  static terms(query: string): string[] {
+    return query
+      .split(/\s+/)
+      .map((t) => t.replace(/["*()^~:\\[\]{}!+&|?]/g, ""))
+      .filter((t) => t.length > 0);
+  }
+
+  static score(node: GraphNode, query: string): number {
+    const q = this.fold(query.trim());
+    if (!q) return 0;
+    const id = this.fold(node.id);
+    const label = this.fold(node.label ?? "");
+    const props = SEARCH_PROPERTIES
+      .map((key) => node.properties?.[key])
+      .filter((v) => v !== undefined && v !== null && typeof v !== "object")
+      .map((v) => this.fold(String(v)));
+
+    if (id === q) return 100;
+    if (label === q) return 90;
+    if (props.some((p) => p === q)) return 80;
+    if (label.startsWith(q)) return 60;
+    if (id.startsWith(q)) return 50;
+    if (props.some((p) => p.startsWith(q))) return 40;
+    if (label.includes(q)) return 30;
+    if (id.includes(q)) return 20;
+    if (props.some((p) => p.includes(q))) return 10;
+    return 0;
+  }
+
+  /** Classement de repli : meilleurs scores d'abord, puis ordre d'entrée */
+  static rank<T extends { node: GraphNode }>(candidates: T[], query: string, limit: number): Array<T & { score: number }> {
+    return candidates
+      .map((c) => ({ ...c, score: this.score(c.node, query) }))
+      .filter((c) => c.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /** Minuscules sans accents ("Données" → "donnees") */
+  static fold(value: string): string {
+    return value.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase();
+  }
+}
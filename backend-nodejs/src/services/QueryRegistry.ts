@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+import { RunningQuery } from "../models/graph.js";
+
+/** Message de l'erreur levée par une exécution annulée (→ 409) */
+export const QUERY_CANCELLED = "Query cancelled";
+
+/** Identifiant choisi par le client (en-tête X-Query-Id), pour annuler avant la réponse */
+const QUERY_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Longueur maximale du texte de requête affiché dans la liste */
+const DESCRIPTION_MAX = 500;
+
+type RunningEntry = Omit<RunningQuery, "id" | "started_at" | "elapsed_ms" | "cancelled">;
+
+/**
+ * QueryRegistry — exécutions en cours (requêtes brutes, algorithmes, benchmarks).
+ *
+ * run() enregistre l'exécution et fournit un AbortSignal ; cancel() le déclenche.
+ * Chaque moteur traduit l'annulation avec le mécanisme de son driver (fermeture de
+ * session Neo4j, kill de la requête ArangoDB, cancel de la requête MSSQL) ; les
+ * traitements en JavaScript vérifient le signal entre deux étapes.
+ * L'entrée disparaît quand l'exécution se termine, annulée ou non.
+ */
+export class QueryRegistry {
+  private running = new Map<string, { query: RunningQuery; controller: AbortController }>();
+
+  async run<T>(entry: RunningEntry, work: (signal: AbortSignal) => Promise<T>, requestedId?: string): Promise<T> {
+    const id = requestedId && QUERY_ID.test(requestedId) && !this.running.has(requestedId)
+      ? requestedId
+      : randomUUID();
+    const controller = new AbortController();
+    const description = entry.description.length > DESCRIPTION_MAX
+      ? `${entry.description.slice(0, DESCRIPTION_MAX)}…`
+      : entry.description;
+    this.running.set(id, {
+      query: { id, ...entry, description, started_at: new Date().toISOString(), elapsed_ms: 0, cancelled: false },
+      controller,
+    });
+    try {
+      return await work(controller.signal);
+    } finally {
+      this.running.delete(id);
+    }
+  }
+
+  /** Exécutions en cours, de la plus ancienne à la plus récente */
+  list(): RunningQuery[] {
+    const now = Date.now();
+    return [...this.running.values()]
+      .map(({ query }) => ({ ...query, elapsed_ms: now - Date.parse(query.started_at) }))
+      .sort((a, b) => a.started_at.localeCompare(b.started_at));
+  }
+
+  /** Demande l'annulation. Retourne false si l'exécution n'existe pas (ou est terminée). */
+  cancel(id: string): boolean {
+    const entry = this.running.get(id);
+    if (!entry) return false;
+    entry.query.cancelled = true;
+    entry.controller.abort(new Error(QUERY_CANCELLED));
+    return true;
+  }
+}
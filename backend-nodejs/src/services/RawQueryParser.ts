@@ -0,0 +1,63 @@
+import { RawQueryOptions } from "../models/graph.js";
+
+/** Délai maximal d'une requête brute (ms), plafond des valeurs demandées */
+export const RAW_QUERY_TIMEOUT_MS = parseInt(process.env.RAW_QUERY_TIMEOUT_MS || "30000", 10);
+
+/** Lignes retournées au maximum par une requête brute, plafond des valeurs demandées */
+export const RAW_QUERY_MAX_ROWS = parseInt(process.env.RAW_QUERY_MAX_ROWS || "5000", 10);
+
+/** Nom de paramètre lié accepté (préfixe @ toléré pour les collections AQL : "@coll" → @@coll) */
+const PARAM_NAME = /^@?[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * RawQueryParser — validation du body de POST /api/query.
+ *
+ *   { query, params?, readOnly?, timeoutMs?, maxRows? }
+ *
+ * readOnly vaut true par défaut. timeoutMs et maxRows peuvent seulement abaisser
+ * RAW_QUERY_TIMEOUT_MS / RAW_QUERY_MAX_ROWS. Erreurs : "Invalid raw query: ..." (→ 400).
+ */
+export class RawQueryParser {
+  static parse(body: any): { query: string; options: RawQueryOptions } {
+    if (!body || typeof body !== "object") {
+      throw new Error("Invalid raw query: expected a JSON object");
+    }
+    const { query, params, readOnly } = body;
+    if (typeof query !== "string" || query.trim().length === 0) {
+      throw new Error("Invalid raw query: missing 'query' in request body");
+    }
+    if (readOnly !== undefined && typeof readOnly !== "boolean") {
+      throw new Error("Invalid raw query: 'readOnly' must be a boolean");
+    }
+    return {
+      query: query.trim(),
+      options: {
+        params: this.parseParams(params),
+        timeoutMs: this.parseLimit(body.timeoutMs, "timeoutMs", RAW_QUERY_TIMEOUT_MS),
+        maxRows: this.parseLimit(body.maxRows, "maxRows", RAW_QUERY_MAX_ROWS),
+        readOnly: readOnly ?? true,
+      },
+    };
+  }
+
+  private static parseParams(value: unknown): Record<string, any> {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new Error("Invalid raw query: 'params' must be an object");
+    }
+    for (const name of Object.keys(value)) {
+      if (!PARAM_NAME.test(name)) {
+        throw new Error(`Invalid raw query: bad parameter name '${name}'`);
+      }
+    }
+    return value as Record<string, any>;
+  }
+
+  private static parseLimit(value: unknown, field: string, max: number): number {
+    if (value === undefined || value === null) return max;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid raw query: '${field}' must be a positive integer`);
+    }
+    return Math.min(value, max);
+  }
+}
@@ -0,0 +1,52 @@
+import Database from "better-sqlite3";
+
+/** Message envoyé par SqliteService au processus enfant (un seul par processus) */
+export interface SqliteQueryJob {
+  file: string;
+  query: string;
+  params: Record<string, any>;
+  readOnly: boolean;
+  maxRows: number;
+}
+
+export type SqliteQueryReply =
+  | { rows: Record<string, any>[]; truncated: boolean }
+  | { error: string };
+
+/**
+ * SqliteQueryRunner — point d'entrée du processus enfant qui exécute une requête brute SQLite.
+ *
+ * better-sqlite3 est synchrone et n'expose pas sqlite3_interrupt : seule la fin du
+ * processus arrête une étape longue (agrégat, CTE récursive sans fin). SqliteService
+ * lance un processus par requête et le tue (SIGKILL) sur délai ou annulation.
+ * Lecture seule : connexion ouverte en readonly, et Statement.readonly vérifié à la préparation.
+ */
+function run({ file, query, params, readOnly, maxRows }: SqliteQueryJob): SqliteQueryReply {
+  const db = new Database(file, { readonly: readOnly, fileMustExist: true });
+  try {
+    const stmt = db.prepare(query);
+    if (readOnly && !stmt.readonly) {
+      return { error: "Read-only query: statement would modify the database" };
+    }
+    const args = Object.keys(params).length > 0 ? [params] : [];
+    // Statements sans résultat (INSERT/UPDATE/DDL) : run() au lieu de iterate()
+    if (!stmt.reader) {
+      stmt.run(...args);
+      return { rows: [], truncated: false };
+    }
+    const rows: Record<string, any>[] = [];
+    for (const row of stmt.iterate(...args) as IterableIterator<Record<string, any>>) {
+      if (rows.length === maxRows) return { rows, truncated: true };
+      rows.push(row);
+    }
+    return { rows, truncated: false };
+  } catch (err) {
+    return { error: (err as Error).message };
+  } finally {
+    db.close();
+  }
+}
+
+process.once("message", (job: SqliteQueryJob) => {
+  process.send!(run(job), () => process.exit(0));
+});
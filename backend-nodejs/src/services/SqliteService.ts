@@ -0,0 +1,1187 @@
+import Database from "better-sqlite3";
+import { fork } from "child_process";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  GraphNode,
+  GraphEdge,
+  GraphNodeUpdate,
+  GraphEdgeUpdate,
+  GraphListFilter,
+  GraphListPage,
+  GraphMetadataUpdate,
+  EngineStatus,
+  Graph,
+  GraphData,
+  GraphStats,
+  GraphSummary,
+  GraphVersion,
+  GraphVersionData,
+  ImpactResult,
+  PropertyPredicate,
+  RawQueryOptions,
+  RawQueryResult,
+  SearchHit,
+  SubgraphFilter,
+} from "../models/graph.js";
+import { GraphDatabaseService } from "./GraphDatabaseService.js";
+import { EngineGraphCache } from "./GraphCache.js";
+import { DEFAULT_GRAPH_LIST_PAGE, GraphListQuery } from "./GraphListQuery.js";
+import { NodeSearch, SEARCH_PROPERTIES } from "./NodeSearch.js";
+import type { SqliteQueryJob, SqliteQueryReply } from "./SqliteQueryRunner.js";
+
+/** Entrée du processus des requêtes brutes — .ts sous tsx (dev, tests), .js une fois compilé */
+const RUNNER = fileURLToPath(new URL(`./SqliteQueryRunner${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+
+/**
+ * SqliteService — moteur SQLite embarqué (better-sqlite3), miroir de MssqlService.
+ *
+ * Modèle de données (identique à MSSQL) :
+ *   graphs          — métadonnées du graphe
+ *   graph_nodes     — nœuds avec node_id + graph_id
+ *   graph_edges     — arêtes avec source_id/target_id
+ *   graph_versions  — snapshots JSON numérotés par graphe
+ *   graph_nodes_fts — index FTS5 (node_id, label, SEARCH_PROPERTIES), tenu à jour par triggers
+ *
+ * Chaque "database" est un fichier `<dataDir>/<name>.sqlite`.
+ * Traversée via CTE récursive (WITH RECURSIVE), comme SQL Server.
+ * better-sqlite3 est synchrone : les méthodes restent async pour respecter l'interface.
+ */
+export class SqliteService implements GraphDatabaseService {
+  readonly engineName = "sqlite";
+
+  private connections = new Map<string, Database.Database>();
+
+  // Cache partagé des payloads getGraph (GRAPH_CACHE_*), clés graph:<engine>:<database>:<id>
+  private graphCache = new EngineGraphCache(() => this.engineName);
+
+  constructor(
+    private dataDir: string,
+    private defaultDatabase: string = "graph_db",
+  ) {}
+
+  // ===== Connexion =====
+
+  /** Nom de fichier sûr (pas de traversée de répertoire) */
+  private safeName(database?: string): string {
+    return (database || this.defaultDatabase).replace(/[^a-zA-Z0-9_-]/g, "");
+  }
+
+  private filePath(database?: string): string {
+    return path.join(this.dataDir, `${this.safeName(database)}.sqlite`);
+  }
+
+  /**
+   * Connexion paresseuse par database. Seule la base par défaut (ou `create`)
+   * peut créer un nouveau fichier — une database inconnue lève une erreur.
+   */
+  private getDb(database?: string, create = false): Database.Database {
+    const name = this.safeName(database);
+    if (!this.connections.has(name)) {
+      const mustExist = !create && name !== this.safeName(this.defaultDatabase);
+      if (mustExist && !fs.existsSync(this.filePath(name))) {
+        throw new Error(`Database '${name}' does not exist`);
+      }
+      const db = new Database(this.filePath(name));
+      db.pragma("journal_mode = WAL");
+      db.pragma("foreign_keys = ON");
+      this.ensureTables(db);
+      this.connections.set(name, db);
+    }
+    return this.connections.get(name)!;
+  }
+
+  // ===== Lifecycle =====
+
+  async initialize(): Promise<void> {
+    console.log("Initializing SQLite database...");
+    fs.mkdirSync(this.dataDir, { recursive: true });
+    this.getDb();
+    console.log(`SQLite initialization complete ✓ (${this.filePath()})`);
+  }
+
+  // ===== Raw Query Execution =====
+
+  /**
+   * Exécutée dans un processus enfant (SqliteQueryRunner) : better-sqlite3 est synchrone et
+   * n'expose pas sqlite3_interrupt, seul SIGKILL arrête une étape longue. Le délai et
+   * l'annulation (options.signal) tuent le processus ; la boucle d'événements reste libre.
+   * Lecture seule : connexion readonly et Statement.readonly, dans le processus enfant.
+   */
+  async executeRawQuery(query: string, options: RawQueryOptions, database?: string): Promise<RawQueryResult> {
+    this.getDb(database); // database inconnue → erreur ; tables créées avant l'ouverture en readonly
+    options.signal?.throwIfAborted();
+    const t0 = Date.now();
+    const job: SqliteQueryJob = {
+      file: this.filePath(database),
+      query,
+      params: options.params,
+      readOnly: options.readOnly,
+      maxRows: options.maxRows,
+    };
+    const reply = await new Promise<SqliteQueryReply>((resolve, reject) => {
+      // serialization "advanced" : BLOB (Buffer) et bigint passent tels quels
+      const child = fork(RUNNER, [], { serialization: "advanced", stdio: ["ignore", "inherit", "inherit", "ipc"] });
+      let failure: Error | undefined;
+      const stop = (reason: Error) => {
+        failure ??= reason;
+        child.kill("SIGKILL");
+      };
+      const timer = setTimeout(() => stop(new Error(`Query timed out after ${options.timeoutMs} ms`)), options.timeoutMs);
+      const onAbort = () => stop(options.signal!.reason);
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      let result: SqliteQueryReply | undefined;
+      child.once("message", (message: SqliteQueryReply) => { result = message; });
+      child.once("error", (err) => stop(err));
+      child.once("exit", (code) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+        if (failure) reject(failure);
+        else if (result) resolve(result);
+        else reject(new Error(`SQLite query process exited with code ${code}`));
+      });
+      child.send(job);
+    });
+    if ("error" in reply) throw new Error(reply.error);
+
+    const elapsed_ms = Date.now() - t0;
+    const { rows, truncated } = reply;
+    return { rows, elapsed_ms, rowCount: rows.length, engine: this.engineName, truncated, readOnly: options.readOnly };
+  }
+
+  /** Pas de pool : une connexion synchrone ouverte par database, toujours libre entre deux appels */
+  async probe(): Promise<EngineStatus> {
+    const pool = { open: this.connections.size, idle: this.connections.size, pending: 0, max: null };
+    const t0 = Date.now();
+    try {
+      const { version } = this.getDb().prepare("SELECT sqlite_version() AS version").get() as { version: string };
+      return { engine: this.engineName, reachable: true, latency_ms: Date.now() - t0, version: `SQLite ${version}`, pool };
+    } catch (err: any) {
+      return { engine: this.engineName, reachable: false, latency_ms: null, version: null, pool, error: err.message };
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const db of this.connections.values()) {
+      db.close();
+    }
+    this.connections.clear();
+  }
+
+  // ===== Cache =====
+
+  getCacheStats() {
+    return this.graphCache.stats();
+  }
+
+  clearCache(graphId?: string, database?: string) {
+    if (graphId) {
+      return { cleared: [this.graphCache.delete(database || this.defaultDatabase, graphId)] };
+    }
+    return { cleared: this.graphCache.clear() };
+  }
+
+  isGraphCached(graphId: string, database?: string): boolean {
+    return this.graphCache.has(database || this.defaultDatabase, graphId);
+  }
+
+  // ===== CRUD Graphes =====
+
+  async createGraph(
+    graphId: string,
+    title: string,
+    description: string,
+    graphType: string,
+    nodes: GraphNode[],
+    edges: GraphEdge[],
+    database?: string,
+    createdAt: string = new Date().toISOString(),
+  ): Promise<Graph> {
+    const db = this.getDb(database);
+
+    const insertGraph = db.prepare(`
+      INSERT INTO graphs (id, title, description, graph_type, node_count, edge_count, created_at)
+      VALUES (@id, @title, @description, @graphType, @nodeCount, @edgeCount, @createdAt)
+    `);
+    const insertNode = db.prepare(`
+      INSERT INTO graph_nodes (graph_id, node_id, label, node_type, properties)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const insertEdge = db.prepare(`
+      INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    // Une seule transaction : SQLite n'a pas la limite de 2100 paramètres de SQL Server,
+    // les statements préparés sont simplement réexécutés ligne par ligne.
+    db.transaction(() => {
+      insertGraph.run({
+        id: graphId,
+        title,
+        description,
+        graphType,
+        nodeCount: nodes.length,
+        edgeCount: edges.length,
+        createdAt,
+      });
+      for (const n of nodes) {
+        insertNode.run(graphId, n.id, n.label, n.node_type, JSON.stringify(n.properties));
+      }
+      for (const e of edges) {
+        insertEdge.run(graphId, e.source, e.target, e.label ?? "", e.edge_type, JSON.stringify(e.properties));
+      }
+    })();
+
+    // Invalider le cache
+    this.graphCache.delete(database || this.defaultDatabase, graphId);
+
+    return {
+      id: graphId,
+      title,
+      description,
+      graph_type: graphType,
+      node_count: nodes.length,
+      edge_count: edges.length,
+      created_at: createdAt,
+      tags: [],
+      folder: null,
+    };
+  }
+
+  async getGraphMetadata(graphId: string, database?: string): Promise<Graph | null> {
+    const db = this.getDb(database);
+    const row = db.prepare(`
+      SELECT id, title, description, graph_type, node_count, edge_count, created_at, tags, folder
+      FROM graphs
+      WHERE id = ?
+    `).get(graphId);
+    return row ? this.toGraph(row) : null;
+  }
+
+  async updateGraphMetadata(graphId: string, update: GraphMetadataUpdate, database?: string): Promise<Graph | null> {
+    const db = this.getDb(database);
+    // COALESCE : un champ absent (NULL) conserve la valeur actuelle ; folder seulement s'il est fourni (null = racine)
+    const row = db.prepare(`
+      UPDATE graphs
+      SET title       = COALESCE(@title, title),
+          description = COALESCE(@description, description),
+          graph_type  = COALESCE(@graphType, graph_type),
+          tags        = COALESCE(@tags, tags),
+          folder      = CASE WHEN @setFolder THEN @folder ELSE folder END
+      WHERE id = @graphId
+      RETURNING id, title, description, graph_type, node_count, edge_count, created_at, tags, folder
+    `).get({
+      graphId,
+      title: update.title ?? null,
+      description: update.description ?? null,
+      graphType: update.graph_type ?? null,
+      tags: update.tags !== undefined ? JSON.stringify(update.tags) : null,
+      setFolder: update.folder !== undefined ? 1 : 0,
+      folder: update.folder ?? null,
+    });
+    return row ? this.toGraph(row) : null;
+  }
+
+  async getGraph(graphId: string, database?: string, bypassCache = false): Promise<GraphData> {
+    const cached = await this.graphCache.lookup(database || this.defaultDatabase, graphId, bypassCache);
+    if (cached) return cached;
+
+    const db = this.getDb(database);
+
+    const nodeRows = db
+      .prepare(`SELECT node_id, label, node_type, properties FROM graph_nodes WHERE graph_id = ?`)
+      .all(graphId) as any[];
+    const edgeRows = db
+      .prepare(`SELECT id, source_id, target_id, label, edge_type, properties FROM graph_edges WHERE graph_id = ?`)
+      .all(graphId) as any[];
+
+    const nodes: GraphNode[] = nodeRows.map((r) => ({
+      id: r.node_id,
+      label: r.label,
+      node_type: r.node_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+
+    const edges: GraphEdge[] = edgeRows.map((r) => ({
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+
+    const result: GraphData = { nodes, edges };
+    if (!bypassCache) this.graphCache.set(database || this.defaultDatabase, graphId, result);
+    return result;
+  }
+
+  async getGraphNodesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphNode[]> {
+    const rows = this.getDb(database)
+      .prepare(`
+        SELECT node_id, label, node_type, properties FROM graph_nodes
+        WHERE graph_id = ? ORDER BY node_id LIMIT ? OFFSET ?
+      `)
+      .all(graphId, limit, offset) as any[];
+    return rows.map((r) => ({
+      id: r.node_id,
+      label: r.label,
+      node_type: r.node_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async getGraphEdgesPage(graphId: string, offset: number, limit: number, database?: string): Promise<GraphEdge[]> {
+    const rows = this.getDb(database)
+      .prepare(`
+        SELECT id, source_id, target_id, label, edge_type, properties FROM graph_edges
+        WHERE graph_id = ? ORDER BY id LIMIT ? OFFSET ?
+      `)
+      .all(graphId, limit, offset) as any[];
+    return rows.map((r) => ({
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async getGraphNodesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphNode[]> {
+    const rows = this.getDb(database)
+      .prepare(`
+        SELECT node_id, label, node_type, properties FROM graph_nodes
+        WHERE graph_id = @graphId ${afterId === undefined ? "" : "AND node_id > @afterId"}
+        ORDER BY node_id LIMIT @limit
+      `)
+      .all({ graphId, afterId, limit }) as any[];
+    return rows.map((r) => ({
+      id: r.node_id,
+      label: r.label,
+      node_type: r.node_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async getGraphEdgesAfter(graphId: string, afterId: string | undefined, limit: number, database?: string): Promise<GraphEdge[]> {
+    const rows = this.getDb(database)
+      .prepare(`
+        SELECT id, source_id, target_id, label, edge_type, properties FROM graph_edges
+        WHERE graph_id = ? AND id > ? ORDER BY id LIMIT ?
+      `)
+      .all(graphId, afterId === undefined ? 0 : Number(afterId), limit) as any[];
+    return rows.map((r) => ({
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    }));
+  }
+
+  async listGraphs(
+    database?: string,
+    filter: GraphListFilter = {},
+    page: GraphListPage = DEFAULT_GRAPH_LIST_PAGE,
+  ): Promise<GraphSummary[]> {
+    const db = this.getDb(database);
+    const { where, params } = this.graphListWhere(filter);
+    // page.sort est validé (GRAPH_LIST_SORTS) : interpolable comme nom de colonne
+    const dir = page.order === "asc" ? "ASC" : "DESC";
+    if (page.after) {
+      where.push(GraphListQuery.afterCondition(page.sort, "id", page, "@afterValue", "@afterId", true));
+      Object.assign(params, { afterValue: page.after.value, afterId: page.after.id });
+    }
+
+    const rows = db.prepare(`
+      SELECT id, title, description, graph_type, node_count, edge_count, created_at, tags, folder
+      FROM graphs
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY ${page.sort} ${dir}, id ${dir}
+      ${page.limit !== undefined ? `LIMIT ${page.limit}` : ""}
+    `).all(params) as any[];
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      description: r.description,
+      graph_type: r.graph_type,
+      node_count: r.node_count,
+      edge_count: r.edge_count,
+      created_at: r.created_at,
+      tags: JSON.parse(r.tags || "[]"),
+      folder: r.folder ?? null,
+    }));
+  }
+
+  async countGraphs(database?: string, filter: GraphListFilter = {}): Promise<number> {
+    const { where, params } = this.graphListWhere(filter);
+    const row = this.getDb(database).prepare(`
+      SELECT COUNT(*) AS total FROM graphs
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    `).get(params) as any;
+    return row.total;
+  }
+
+  /** Conditions SQL et paramètres nommés d'un filtre de listGraphs */
+  private graphListWhere(filter: GraphListFilter): { where: string[]; params: Record<string, unknown> } {
+    const where: string[] = [];
+    const params: Record<string, unknown> = {};
+    if (filter.tag !== undefined) {
+      where.push("EXISTS (SELECT 1 FROM json_each(tags) WHERE value = @tag)");
+      params.tag = filter.tag;
+    }
+    if (filter.folder === null) {
+      where.push("folder IS NULL");
+    } else if (filter.folder !== undefined) {
+      // substr plutôt que LIKE : LIKE ignore la casse et interprète % et _
+      where.push("(folder = @folder OR substr(folder, 1, length(@prefix)) = @prefix)");
+      Object.assign(params, { folder: filter.folder, prefix: `${filter.folder}/` });
+    }
+    if (filter.graph_type !== undefined) {
+      where.push("graph_type = @graphType");
+      params.graphType = filter.graph_type;
+    }
+    if (filter.min_nodes !== undefined) {
+      where.push("node_count >= @minNodes");
+      params.minNodes = filter.min_nodes;
+    }
+    if (filter.max_nodes !== undefined) {
+      where.push("node_count <= @maxNodes");
+      params.maxNodes = filter.max_nodes;
+    }
+    return { where, params };
+  }
+
+  async getGraphStats(graphId: string, database?: string): Promise<GraphStats> {
+    const db = this.getDb(database);
+
+    const counts = db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM graph_nodes WHERE graph_id = @graphId) AS node_count,
+        (SELECT COUNT(*) FROM graph_edges WHERE graph_id = @graphId) AS edge_count
+    `).get({ graphId }) as any;
+    const types = db.prepare(`
+      SELECT node_type, COUNT(*) AS cnt
+      FROM graph_nodes
+      WHERE graph_id = ?
+      GROUP BY node_type
+    `).all(graphId) as any[];
+
+    const nodeCount = counts?.node_count ?? 0;
+    const edgeCount = counts?.edge_count ?? 0;
+    const nodeTypes: Record<string, number> = {};
+    types.forEach((r) => { nodeTypes[r.node_type] = r.cnt; });
+
+    return {
+      node_count: nodeCount,
+      edge_count: edgeCount,
+      node_types: nodeTypes,
+      average_degree: nodeCount > 0 ? edgeCount / nodeCount : 0,
+    };
+  }
+
+  async deleteGraph(graphId: string, database?: string): Promise<void> {
+    const db = this.getDb(database);
+    // ON DELETE CASCADE supprime graph_nodes, graph_edges et graph_versions (PRAGMA foreign_keys = ON)
+    db.prepare(`DELETE FROM graphs WHERE id = ?`).run(graphId);
+    this.graphCache.delete(database || this.defaultDatabase, graphId);
+  }
+
+  async replaceGraphData(graphId: string, nodes: GraphNode[], edges: GraphEdge[], database?: string): Promise<void> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    const insertNode = db.prepare(`
+      INSERT INTO graph_nodes (graph_id, node_id, label, node_type, properties)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const insertEdge = db.prepare(`
+      INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      db.prepare(`DELETE FROM graph_edges WHERE graph_id = ?`).run(graphId);
+      db.prepare(`DELETE FROM graph_nodes WHERE graph_id = ?`).run(graphId);
+      for (const n of nodes) {
+        insertNode.run(graphId, n.id, n.label, n.node_type, JSON.stringify(n.properties));
+      }
+      for (const e of edges) {
+        insertEdge.run(graphId, e.source, e.target, e.label ?? "", e.edge_type, JSON.stringify(e.properties));
+      }
+      this.refreshCounts(db, graphId);
+    })();
+
+    this.clearCache(graphId, database);
+  }
+
+  // ===== Import en flux =====
+  // Prepared statements dans une transaction : addNodes / addEdges sont déjà l'écriture en masse
+
+  async importNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<number> {
+    return (await this.addNodes(graphId, nodes, database)).length;
+  }
+
+  async importEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<number> {
+    return (await this.addEdges(graphId, edges, database)).length;
+  }
+
+  // ===== CRUD Nœuds / Arêtes =====
+
+  async addNodes(graphId: string, nodes: GraphNode[], database?: string): Promise<GraphNode[]> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    // Ids déjà présents, ou répétés dans le lot lui-même (la contrainte UNIQUE lèverait une erreur 500)
+    const exists = db.prepare(`SELECT 1 FROM graph_nodes WHERE graph_id = ? AND node_id = ?`);
+    const seen = new Set<string>();
+    const duplicates: string[] = [];
+    for (const n of nodes) {
+      if (seen.has(n.id) || exists.get(graphId, n.id)) duplicates.push(n.id);
+      seen.add(n.id);
+    }
+    if (duplicates.length > 0) {
+      throw new Error(`Node(s) already exist in graph '${graphId}': ${duplicates.join(", ")}`);
+    }
+
+    const insertNode = db.prepare(`
+      INSERT INTO graph_nodes (graph_id, node_id, label, node_type, properties)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    db.transaction(() => {
+      for (const n of nodes) {
+        insertNode.run(graphId, n.id, n.label, n.node_type, JSON.stringify(n.properties));
+      }
+      this.refreshCounts(db, graphId);
+    })();
+
+    this.clearCache(graphId, database);
+    return nodes;
+  }
+
+  async updateNode(graphId: string, nodeId: string, update: GraphNodeUpdate, database?: string): Promise<GraphNode | null> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    // COALESCE : un champ absent (NULL) conserve la valeur actuelle
+    const r = db.prepare(`
+      UPDATE graph_nodes
+      SET label      = COALESCE(@label, label),
+          node_type  = COALESCE(@nodeType, node_type),
+          properties = COALESCE(@properties, properties)
+      WHERE graph_id = @graphId AND node_id = @nodeId
+      RETURNING node_id, label, node_type, properties
+    `).get({
+      graphId,
+      nodeId,
+      label: update.label ?? null,
+      nodeType: update.node_type ?? null,
+      properties: update.properties !== undefined ? JSON.stringify(update.properties) : null,
+    }) as any;
+    if (!r) return null;
+
+    this.clearCache(graphId, database);
+    return { id: r.node_id, label: r.label, node_type: r.node_type, properties: JSON.parse(r.properties || "{}") };
+  }
+
+  async deleteNode(graphId: string, nodeId: string, database?: string): Promise<boolean> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    const deleted = db.transaction(() => {
+      db.prepare(`DELETE FROM graph_edges WHERE graph_id = @graphId AND (source_id = @nodeId OR target_id = @nodeId)`)
+        .run({ graphId, nodeId });
+      const res = db.prepare(`DELETE FROM graph_nodes WHERE graph_id = ? AND node_id = ?`).run(graphId, nodeId);
+      this.refreshCounts(db, graphId);
+      return res.changes > 0;
+    })();
+
+    this.clearCache(graphId, database);
+    return deleted;
+  }
+
+  async addEdges(graphId: string, edges: GraphEdge[], database?: string): Promise<GraphEdge[]> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    // INSERT ... SELECT ... WHERE EXISTS : ignore les arêtes dont une extrémité n'existe pas
+    const insertEdge = db.prepare(`
+      INSERT INTO graph_edges (graph_id, source_id, target_id, label, edge_type, properties)
+      SELECT @graphId, @source, @target, @label, @edgeType, @properties
+      WHERE EXISTS (SELECT 1 FROM graph_nodes WHERE graph_id = @graphId AND node_id = @source)
+        AND EXISTS (SELECT 1 FROM graph_nodes WHERE graph_id = @graphId AND node_id = @target)
+    `);
+
+    const added = db.transaction(() => {
+      const created: GraphEdge[] = [];
+      for (const e of edges) {
+        const res = insertEdge.run({
+          graphId,
+          source: e.source,
+          target: e.target,
+          label: e.label ?? "",
+          edgeType: e.edge_type,
+          properties: JSON.stringify(e.properties),
+        });
+        if (res.changes > 0) {
+          created.push({ ...e, id: String(res.lastInsertRowid), label: e.label || undefined });
+        }
+      }
+      this.refreshCounts(db, graphId);
+      return created;
+    })();
+
+    this.clearCache(graphId, database);
+    return added;
+  }
+
+  async updateEdge(graphId: string, edgeId: string, update: GraphEdgeUpdate, database?: string): Promise<GraphEdge | null> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    const r = db.prepare(`
+      UPDATE graph_edges
+      SET label      = COALESCE(@label, label),
+          edge_type  = COALESCE(@edgeType, edge_type),
+          properties = COALESCE(@properties, properties)
+      WHERE graph_id = @graphId AND id = @edgeId
+      RETURNING id, source_id, target_id, label, edge_type, properties
+    `).get({
+      graphId,
+      edgeId: Number(edgeId),
+      label: update.label ?? null,
+      edgeType: update.edge_type ?? null,
+      properties: update.properties !== undefined ? JSON.stringify(update.properties) : null,
+    }) as any;
+    if (!r) return null;
+
+    this.clearCache(graphId, database);
+    return {
+      id: String(r.id),
+      source: r.source_id,
+      target: r.target_id,
+      label: r.label || undefined,
+      edge_type: r.edge_type,
+      properties: JSON.parse(r.properties || "{}"),
+    };
+  }
+
+  async deleteEdge(graphId: string, edgeId: string, database?: string): Promise<boolean> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    const deleted = db.transaction(() => {
+      const res = db.prepare(`DELETE FROM graph_edges WHERE graph_id = ? AND id = ?`).run(graphId, Number(edgeId));
+      this.refreshCounts(db, graphId);
+      return res.changes > 0;
+    })();
+
+    this.clearCache(graphId, database);
+    return deleted;
+  }
+
+  async getStartingNode(graphId: string, database?: string): Promise<GraphNode | null> {
+    const db = this.getDb(database);
+    const r = db.prepare(`
+      SELECT node_id, label, node_type, properties
+      FROM graph_nodes
+      WHERE graph_id = ?
+      LIMIT 1
+    `).get(graphId) as any;
+    if (!r) return null;
+    return { id: r.node_id, label: r.label, node_type: r.node_type, properties: JSON.parse(r.properties || "{}") };
+  }
+
+  /**
+   * Traversée de voisins via CTE récursive SQLite (mêmes requêtes que MSSQL).
+   * UNION (et non UNION ALL) élimine les doublons (node_id, lvl) à chaque niveau.
+   */
+  async getNodeNeighbors(graphId: string, nodeId: string, depth = 1, database?: string): Promise<GraphData> {
+    const maxDepth = Math.min(depth, 15);
+    const db = this.getDb(database);
+
+    const rows = db.prepare(`
+      WITH RECURSIVE
+      -- Traversée sortante
+      Traverse(node_id, lvl) AS (
+        SELECT node_id, 0
+        FROM graph_nodes
+        WHERE graph_id = @graphId AND node_id = @nodeId
+
+        UNION
+
+        SELECT n.node_id, t.lvl + 1
+        FROM Traverse t
+        JOIN graph_edges e  ON e.graph_id = @graphId AND e.source_id = t.node_id
+        JOIN graph_nodes n  ON n.graph_id = @graphId AND n.node_id   = e.target_id
+        WHERE t.lvl < @maxDepth
+      ),
+      -- Traversée entrante
+      TraverseIn(node_id, lvl) AS (
+        SELECT node_id, 0
+        FROM graph_nodes
+        WHERE graph_id = @graphId AND node_id = @nodeId
+
+        UNION
+
+        SELECT n.node_id, t.lvl + 1
+        FROM TraverseIn t
+        JOIN graph_edges e  ON e.graph_id = @graphId AND e.target_id = t.node_id
+        JOIN graph_nodes n  ON n.graph_id = @graphId AND n.node_id   = e.source_id
+        WHERE t.lvl < @maxDepth
+      ),
+      AllNodeIds AS (
+        SELECT node_id FROM Traverse
+        UNION
+        SELECT node_id FROM TraverseIn
+      )
+      -- Nœuds
+      SELECT 'node' AS kind,
+             n.node_id AS node_id, n.label, n.node_type, n.properties,
+             NULL AS edge_id, NULL AS source_id, NULL AS target_id,
+             NULL AS edge_label, NULL AS edge_type, NULL AS edge_props
+      FROM graph_nodes n
+      WHERE n.graph_id = @graphId AND n.node_id IN (SELECT node_id FROM AllNodeIds)
+
+      UNION ALL
+
+      -- Arêtes entre les nœuds trouvés
+      SELECT 'edge' AS kind,
+             NULL, NULL, NULL, NULL,
+             CAST(e.id AS TEXT), e.source_id, e.target_id,
+             e.label, e.edge_type, e.properties
+      FROM graph_edges e
+      WHERE e.graph_id = @graphId
+        AND e.source_id IN (SELECT node_id FROM AllNodeIds)
+        AND e.target_id IN (SELECT node_id FROM AllNodeIds)
+    `).all({ graphId, nodeId, maxDepth }) as any[];
+
+    const nodeMap = new Map<string, GraphNode>();
+    const edgeMap = new Map<string, GraphEdge>();
+
+    for (const r of rows) {
+      if (r.kind === "node") {
+        nodeMap.set(r.node_id, {
+          id: r.node_id,
+          label: r.label,
+          node_type: r.node_type,
+          properties: JSON.parse(r.properties || "{}"),
+        });
+      } else {
+        const key = r.edge_id;
+        edgeMap.set(key, {
+          id: key,
+          source: r.source_id,
+          target: r.target_id,
+          label: r.edge_label || undefined,
+          edge_type: r.edge_type,
+          properties: JSON.parse(r.edge_props || "{}"),
+        });
+      }
+    }
+
+    return { nodes: Array.from(nodeMap.values()), edges: Array.from(edgeMap.values()) };
+  }
+
+  /**
+   * Recherche FTS5 : chaque terme en préfixe ("srv"*), termes en ET,
+   * classement bm25 pondéré node_id > label > propriétés.
+   */
+  async searchNodes(query: string, graphId: string | undefined, limit: number, database?: string): Promise<SearchHit[]> {
+    const terms = NodeSearch.terms(query);
+    if (terms.length === 0) return [];
+    const db = this.getDb(database);
+    const rows = db.prepare(`
+      SELECT n.graph_id, n.node_id, n.label, n.node_type, n.properties,
+             bm25(graph_nodes_fts, 10.0, 5.0, 2.0) AS rank
+      FROM graph_nodes_fts
+      JOIN graph_nodes n ON n.id = graph_nodes_fts.rowid
+      WHERE graph_nodes_fts MATCH @match${graphId ? " AND n.graph_id = @graphId" : ""}
+      ORDER BY rank
+      LIMIT @limit
+    `).all({ match: terms.map((t) => `"${t}"*`).join(" "), graphId, limit }) as any[];
+
+    return rows.map((r) => ({
+      graph_id: r.graph_id,
+      node: {
+        id: r.node_id,
+        label: r.label,
+        node_type: r.node_type,
+        properties: JSON.parse(r.properties || "{}"),
+      },
+      // bm25() est négatif (plus petit = plus pertinent)
+      score: Math.round(-r.rank * 1000) / 1000,
+    }));
+  }
+
+  /**
+   * Sous-graphe induit : les nœuds filtrés sont sélectionnés par une CTE,
+   * réutilisée pour ne garder que les arêtes dont les deux extrémités en font partie.
+   */
+  async getSubgraph(graphId: string, filter: SubgraphFilter, database?: string): Promise<GraphData> {
+    const db = this.getDb(database);
+    const params: Record<string, any> = { graphId };
+    const nodeWhere = this.subgraphConditions("", filter.node_types, "node_type", filter.where, "w", params);
+    const edgeWhere = this.subgraphConditions("e.", filter.edge_types, "edge_type", filter.edge_where, "ew", params);
+
+    const nodeRows = db.prepare(`
+      SELECT node_id, label, node_type, properties FROM graph_nodes
+      WHERE graph_id = @graphId${nodeWhere}
+    `).all(params) as any[];
+    const edgeRows = db.prepare(`
+      WITH sel AS (SELECT node_id FROM graph_nodes WHERE graph_id = @graphId${nodeWhere})
+      SELECT e.id, e.source_id, e.target_id, e.label, e.edge_type, e.properties
+      FROM graph_edges e
+      WHERE e.graph_id = @graphId
+        AND e.source_id IN (SELECT node_id FROM sel)
+        AND e.target_id IN (SELECT node_id FROM sel)${edgeWhere}
+    `).all(params) as any[];
+
+    return {
+      nodes: nodeRows.map((r) => ({
+        id: r.node_id,
+        label: r.label,
+        node_type: r.node_type,
+        properties: JSON.parse(r.properties || "{}"),
+      })),
+      edges: edgeRows.map((r) => ({
+        id: String(r.id),
+        source: r.source_id,
+        target: r.target_id,
+        label: r.label || undefined,
+        edge_type: r.edge_type,
+        properties: JSON.parse(r.properties || "{}"),
+      })),
+    };
+  }
+
+  /**
+   * Analyse d'impact côté serveur — propagation BFS sortante via CTE récursive.
+   * Même plan que MSSQL (JOIN par niveau), mais sans aller-retour réseau.
+   */
+  async computeImpact(graphId: string, nodeId: string, depth: number, database?: string): Promise<ImpactResult> {
+    const t0 = Date.now();
+    const maxDepth = Math.min(depth, 15);
+    const db = this.getDb(database);
+
+    const rows = db.prepare(`
+      -- BFS sortant uniquement (propagation de panne vers l'aval)
+      WITH RECURSIVE Impact(node_id, lvl) AS (
+        SELECT node_id, 0
+        FROM graph_nodes
+        WHERE graph_id = @graphId AND node_id = @nodeId
+
+        UNION
+
+        SELECT n.node_id, i.lvl + 1
+        FROM Impact i
+        JOIN graph_edges e ON e.graph_id = @graphId AND e.source_id = i.node_id
+        JOIN graph_nodes n ON n.graph_id = @graphId AND n.node_id   = e.target_id
+        WHERE i.lvl < @maxDepth
+      )
+      SELECT node_id AS nodeId, MIN(lvl) AS level
+      FROM Impact
+      WHERE node_id <> @nodeId
+      GROUP BY node_id
+    `).all({ graphId, nodeId, maxDepth }) as any[];
+
+    return {
+      sourceNodeId: nodeId,
+      impactedNodes: rows.map((r) => ({ nodeId: r.nodeId, level: r.level })),
+      depth: maxDepth,
+      elapsed_ms: Date.now() - t0,
+      engine: this.engineName,
+    };
+  }
+
+  // ===== Versions =====
+
+  async saveGraphVersion(
+    graphId: string,
+    change: string,
+    data: GraphData,
+    keep: number,
+    database?: string,
+  ): Promise<GraphVersion> {
+    const db = this.getDb(database);
+    this.assertGraph(db, graphId);
+
+    const version: GraphVersion = {
+      graph_id: graphId,
+      version: 0,
+      created_at: new Date().toISOString(),
+      change,
+      node_count: data.nodes.length,
+      edge_count: data.edges.length,
+    };
+
+    db.transaction(() => {
+      const row = db.prepare(`SELECT MAX(version) AS v FROM graph_versions WHERE graph_id = ?`).get(graphId) as any;
+      version.version = (row?.v ?? 0) + 1;
+      db.prepare(`
+        INSERT INTO graph_versions (graph_id, version, created_at, change, node_count, edge_count, snapshot)
+        VALUES (@graph_id, @version, @created_at, @change, @node_count, @edge_count, @snapshot)
+      `).run({ ...version, snapshot: JSON.stringify(data) });
+      db.prepare(`DELETE FROM graph_versions WHERE graph_id = ? AND version <= ?`).run(graphId, version.version - keep);
+    })();
+
+    return version;
+  }
+
+  async listGraphVersions(graphId: string, database?: string): Promise<GraphVersion[]> {
+    const db = this.getDb(database);
+    return db.prepare(`
+      SELECT graph_id, version, created_at, change, node_count, edge_count
+      FROM graph_versions
+      WHERE graph_id = ?
+      ORDER BY version DESC
+    `).all(graphId) as GraphVersion[];
+  }
+
+  async getGraphVersion(graphId: string, version: number, database?: string): Promise<GraphVersionData | null> {
+    const db = this.getDb(database);
+    const row = db.prepare(`
+      SELECT graph_id, version, created_at, change, node_count, edge_count, snapshot
+      FROM graph_versions
+      WHERE graph_id = ? AND version = ?
+    `).get(graphId, version) as any;
+    if (!row) return null;
+
+    const { snapshot, ...summary } = row;
+    return { ...summary, data: JSON.parse(snapshot) };
+  }
+
+  // ===== Gestion des bases de données =====
+
+  async listDatabases(): Promise<Array<{ name: string; default: boolean; status: string }>> {
+    const names = fs.readdirSync(this.dataDir)
+      .filter((f) => f.endsWith(".sqlite"))
+      .map((f) => f.slice(0, -".sqlite".length))
+      .sort();
+    return names.map((name) => ({
+      name,
+      default: name === this.defaultDatabase,
+      status: "online",
+    }));
+  }
+
+  async createDatabase(databaseName: string): Promise<void> {
+    // Ouvrir le fichier le crée et initialise les tables
+    this.getDb(databaseName, true);
+  }
+
+  async deleteDatabase(databaseName: string): Promise<void> {
+    if (databaseName === this.defaultDatabase) {
+      throw new Error(`Cannot delete protected database '${databaseName}'`);
+    }
+    const name = this.safeName(databaseName);
+    // Fermer la connexion existante
+    if (this.connections.has(name)) {
+      this.connections.get(name)!.close();
+      this.connections.delete(name);
+    }
+    const file = this.filePath(name);
+    for (const f of [file, `${file}-wal`, `${file}-shm`]) {
+      fs.rmSync(f, { force: true });
+    }
+    this.graphCache.clearDatabase(databaseName);
+  }
+
+  async getDatabaseStats(databaseName: string): Promise<{ nodeCount: number; relationshipCount: number; graphCount: number }> {
+    const db = this.getDb(databaseName);
+    const r = db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM graph_nodes)  AS nodeCount,
+        (SELECT COUNT(*) FROM graph_edges)  AS relationshipCount,
+        (SELECT COUNT(*) FROM graphs)       AS graphCount
+    `).get() as any;
+    return { nodeCount: r?.nodeCount ?? 0, relationshipCount: r?.relationshipCount ?? 0, graphCount: r?.graphCount ?? 0 };
+  }
+
+  // ===== Helpers =====
+
+  private assertGraph(db: Database.Database, graphId: string): void {
+    if (!db.prepare(`SELECT 1 FROM graphs WHERE id = ?`).get(graphId)) {
+      throw new Error(`Graph '${graphId}' not found`);
+    }
+  }
+
+  /**
+   * Conditions SQL (préfixées par AND) d'un SubgraphFilter : type IN (...) + prédicats
+   * json_extract sur la colonne properties. Les valeurs sont ajoutées à `params`.
+   */
+  private subgraphConditions(
+    alias: string,
+    types: string[] | undefined,
+    typeColumn: string,
+    predicates: PropertyPredicate[] | undefined,
+    prefix: string,
+    params: Record<string, any>,
+  ): string {
+    const conditions: string[] = [];
+    if (types) {
+      const names = types.map((t, i) => {
+        params[`${prefix}t${i}`] = t;
+        return `@${prefix}t${i}`;
+      });
+      conditions.push(`${alias}${typeColumn} IN (${names.join(", ")})`);
+    }
+    (predicates ?? []).forEach((p, i) => {
+      const name = `@${prefix}${i}`;
+      const value = `json_extract(${alias}properties, '$.${p.property}')`;
+      const type = `json_type(${alias}properties, '$.${p.property}')`;
+      const op = p.op === "!=" ? "<>" : p.op;
+      if (p.op === "contains") {
+        params[name.slice(1)] = String(p.value);
+        conditions.push(`${type} IN ('text', 'integer', 'real', 'true', 'false') AND instr(CAST(${value} AS TEXT), ${name}) > 0`);
+      } else if (typeof p.value === "number") {
+        params[name.slice(1)] = p.value;
+        conditions.push(
+          `(${type} IN ('integer', 'real') OR (${type} = 'text' AND trim(${value}) <> '' AND trim(${value}) NOT GLOB '*[^0-9.eE+-]*'))` +
+          ` AND CAST(${value} AS REAL) ${op} ${name}`,
+        );
+      } else if (typeof p.value === "boolean") {
+        params[name.slice(1)] = String(p.value);
+        conditions.push(`${type} IN ('true', 'false') AND ${type} ${op} ${name}`);
+      } else {
+        params[name.slice(1)] = p.value;
+        conditions.push(`${type} IN ('text', 'integer', 'real') AND CAST(${value} AS TEXT) ${op} ${name}`);
+      }
+    });
+    return conditions.map((c) => `\n        AND ${c}`).join("");
+  }
+
+  /** Recalcule node_count / edge_count du graphe après une écriture incrémentale */
+  private refreshCounts(db: Database.Database, graphId: string): void {
+    db.prepare(`
+      UPDATE graphs
+      SET node_count = (SELECT COUNT(*) FROM graph_nodes WHERE graph_id = @graphId),
+          edge_count = (SELECT COUNT(*) FROM graph_edges WHERE graph_id = @graphId)
+      WHERE id = @graphId
+    `).run({ graphId });
+  }
+
+  /** Crée les tables si elles n'existent pas (schéma identique à MSSQL) */
+  private ensureTables(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS graphs (
+        id           TEXT NOT NULL PRIMARY KEY,
+        title        TEXT,
+        description  TEXT,
+        graph_type   TEXT,
+        node_count   INTEGER DEFAULT 0,
+        edge_count   INTEGER DEFAULT 0,
+        created_at   TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        tags         TEXT,
+        folder       TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS graph_nodes (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        graph_id    TEXT NOT NULL,
+        node_id     TEXT NOT NULL,
+        label       TEXT,
+        node_type   TEXT,
+        properties  TEXT DEFAULT '{}',
+        CONSTRAINT UQ_graph_nodes UNIQUE (graph_id, node_id),
+        CONSTRAINT FK_graph_nodes_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS IX_graph_nodes_graph_id ON graph_nodes (graph_id);
+
+      CREATE TABLE IF NOT EXISTS graph_edges (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        graph_id    TEXT NOT NULL,
+        source_id   TEXT NOT NULL,
+        target_id   TEXT NOT NULL,
+        label       TEXT,
+        edge_type   TEXT,
+        properties  TEXT DEFAULT '{}',
+        CONSTRAINT FK_graph_edges_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS IX_graph_edges_graph_id ON graph_edges (graph_id);
+      CREATE INDEX IF NOT EXISTS IX_graph_edges_source   ON graph_edges (graph_id, source_id);
+      CREATE INDEX IF NOT EXISTS IX_graph_edges_target   ON graph_edges (graph_id, target_id);
+
+      CREATE TABLE IF NOT EXISTS graph_versions (
+        graph_id    TEXT NOT NULL,
+        version     INTEGER NOT NULL,
+        created_at  TEXT NOT NULL,
+        change      TEXT,
+        node_count  INTEGER DEFAULT 0,
+        edge_count  INTEGER DEFAULT 0,
+        snapshot    TEXT NOT NULL,
+        CONSTRAINT PK_graph_versions PRIMARY KEY (graph_id, version),
+        CONSTRAINT FK_graph_versions_graph FOREIGN KEY (graph_id) REFERENCES graphs(id) ON DELETE CASCADE
+      );
+    `);
+    // Fichiers créés avant l'ajout des colonnes
+    const columns = new Set((db.prepare("PRAGMA table_info(graphs)").all() as any[]).map((c) => c.name));
+    if (!columns.has("tags")) db.exec("ALTER TABLE graphs ADD COLUMN tags TEXT");
+    if (!columns.has("folder")) db.exec("ALTER TABLE graphs ADD COLUMN folder TEXT");
+    db.exec("CREATE INDEX IF NOT EXISTS IX_graphs_folder ON graphs (folder)");
+    this.ensureSearchIndex(db);
+  }
+
+  /** Graph depuis une ligne de graphs (tags JSON, NULL pour les graphes antérieurs) */
+  private toGraph(r: any): Graph {
+    return {
+      id: r.id,
+      title: r.title,
+      description: r.description,
+      graph_type: r.graph_type,
+      node_count: r.node_count,
+      edge_count: r.edge_count,
+      created_at: r.created_at,
+      tags: JSON.parse(r.tags || "[]"),
+      folder: r.folder ?? null,
+    };
+  }
+
+  /**
+   * Index plein texte FTS5 externe (contentless) : rowid = graph_nodes.id.
+   * Triggers INSERT/UPDATE/DELETE (y compris les suppressions en cascade) ;
+   * les nœuds existants sont indexés à la création de la table.
+   */
+  private ensureSearchIndex(db: Database.Database): void {
+    const exists = db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'graph_nodes_fts'",
+    ).get();
+    const props = (row: string) => SEARCH_PROPERTIES
+      .map((key) => `COALESCE(json_extract(${row}.properties, '$.${key}'), '')`)
+      .join(" || ' ' || ");
+
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS graph_nodes_fts USING fts5(
+        node_id, label, props,
+        content = '',
+        tokenize = "unicode61 remove_diacritics 2 tokenchars '-_.'"
+      );
+
+      CREATE TRIGGER IF NOT EXISTS graph_nodes_fts_ai AFTER INSERT ON graph_nodes BEGIN
+        INSERT INTO graph_nodes_fts (rowid, node_id, label, props)
+        VALUES (new.id, new.node_id, new.label, ${props("new")});
+      END;
+      CREATE TRIGGER IF NOT EXISTS graph_nodes_fts_ad AFTER DELETE ON graph_nodes BEGIN
+        INSERT INTO graph_nodes_fts (graph_nodes_fts, rowid, node_id, label, props)
+        VALUES ('delete', old.id, old.node_id, old.label, ${props("old")});
+      END;
+      CREATE TRIGGER IF NOT EXISTS graph_nodes_fts_au AFTER UPDATE ON graph_nodes BEGIN
+        INSERT INTO graph_nodes_fts (graph_nodes_fts, rowid, node_id, label, props)
+        VALUES ('delete', old.id, old.node_id, old.label, ${props("old")});
+        INSERT INTO graph_nodes_fts (rowid, node_id, label, props)
+        VALUES (new.id, new.node_id, new.label, ${props("new")});
+      END;
+    `);
+
+    if (!exists) {
+      db.exec(`
+        INSERT INTO graph_nodes_fts (rowid, node_id, label, props)
+        SELECT id, node_id, label, ${props("graph_nodes")} FROM graph_nodes
+      `);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { PropertyOperator, PropertyPredicate, SubgraphFilter } from "../models/graph.js";
+
+/**
+ * Clés de propriétés acceptées : insérées telles quelles dans les chemins JSON
+ * (`$.cle` en SQL, `"cle":` en Cypher) — les valeurs, elles, sont toujours paramétrées.
+ */
+const PROPERTY_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Chaîne interprétable comme nombre (prédicats numériques) */
+export const NUMERIC = /^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+const OPERATORS: PropertyOperator[] = ["=", "!=", ">", ">=", "<", "<=", "contains"];
+
+/** `properties.statutDuCI = 'En production'`, `cout > 1000`, `nom contains "SRV"` */
+const PREDICATE = /^\s*(?:properties\.)?([A-Za-z_][A-Za-z0-9_]*)\s*(!=|<>|>=|<=|=|>|<|contains\b)\s*(.+?)\s*$/i;
+
+/**
+ * SubgraphFilterParser — validation du body de POST /graphs/:id/subgraph.
+ *
+ * Les prédicats sont fournis en texte (`"properties.cout > 1000"`) ou en objet
+ * ({ property, op, value }). Chaque moteur traduit ensuite le SubgraphFilter dans
+ * son langage (Cypher, AQL, SQL). Erreurs : "Invalid subgraph filter: ..." (→ 400).
+ */
+export class SubgraphFilterParser {
+  static parse(body: any): SubgraphFilter {
+    if (!body || typeof body !== "object") {
+      throw new Error("Invalid subgraph filter: expected a JSON object");
+    }
+    return {
+      node_types: this.parseStringList(body.node_types, "node_types"),
+      edge_types: this.parseStringList(body.edge_types, "edge_types"),
+      where: this.parsePredicates(body.where, "where"),
+      edge_where: this.parsePredicates(body.edge_where, "edge_where"),
+    };
+  }
+
+  static parsePredicate(expression: string): PropertyPredicate {
+    const match = PREDICATE.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid subgraph filter: cannot parse predicate "${expression}"`);
+    }
+    const [, property, rawOp, literal] = match;
+    const op = (rawOp === "<>" ? "!=" : rawOp.toLowerCase()) as PropertyOperator;
+    return this.checked({ property, op, value: this.parseLiteral(literal, expression) });
+  }
+
+  /**
+   * Évaluation en JavaScript (moteur mémoire), même sémantique que les traductions natives :
+   *   - valeur numérique : comparaison numérique avec les nombres et chaînes numériques
+   *   - booléen          : = / != avec true / false
+   *   - chaîne           : comparaison de chaînes (les nombres sont convertis en texte)
+   *   - contains         : sous-chaîne
+   * Une propriété absente ne correspond à aucun prédicat.
+   */
+  static matches(properties: Record<string, any> | undefined, predicate: PropertyPredicate): boolean {
+    const actual = properties?.[predicate.property];
+    if (actual === undefined || actual === null || typeof actual === "object") return false;
+    const { op, value } = predicate;
+
+    if (op === "contains") return String(actual).includes(String(value));
+    if (typeof value === "number") {
+      if (typeof actual === "boolean" || (typeof actual === "string" && !NUMERIC.test(actual))) return false;
+      return this.compare(Number(actual), op, value);
+    }
+    if (typeof value === "boolean") {
+      return typeof actual === "boolean" && this.compare(String(actual), op, String(value));
+    }
+    return typeof actual !== "boolean" && this.compare(String(actual), op, value);
+  }
+
+  private static checked(predicate: PropertyPredicate): PropertyPredicate {
+    if (typeof predicate.value === "boolean" && predicate.op !== "=" && predicate.op !== "!=") {
+      throw new Error(`Invalid subgraph filter: booleans only support = and != (${predicate.property})`);
+    }
+    return predicate;
+  }
+
+  private static compare<T extends number | string>(actual: T, op: PropertyOperator, expected: T): boolean {
+    switch (op) {
+      case "=": return actual === expected;
+      case "!=": return actual !== expected;
+      case ">": return actual > expected;
+      case ">=": return actual >= expected;
+      case "<": return actual < expected;
+      case "<=": return actual <= expected;
+      default: return false;
+    }
+  }
+
+  private static parseLiteral(literal: string, expression: string): string | number | boolean {
+    const quoted = /^'(.*)'$|^"(.*)"$/s.exec(literal);
+    if (quoted) return (quoted[1] ?? quoted[2]).replace(/''/g, "'");
+    if (/^(true|false)$/i.test(literal)) return literal.toLowerCase() === "true";
+    const n = Number(literal);
+    if (literal !== "" && !Number.isNaN(n)) return n;
+    throw new Error(`Invalid subgraph filter: unsupported value in "${expression}" (quote strings)`);
+  }
+
+  private static parseStringList(value: unknown, field: string): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    const list = Array.isArray(value) ? value : [value];
+    if (!list.every((v) => typeof v === "string")) {
+      throw new Error(`Invalid subgraph filter: '${field}' must be a string or an array of strings`);
+    }
+    return list.length > 0 ? list : undefined;
+  }
+
+  private static parsePredicates(value: unknown, field: string): PropertyPredicate[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    const list = Array.isArray(value) ? value : [value];
+    const predicates = list.map((p): PropertyPredicate => {
+      if (typeof p === "string") return this.parsePredicate(p);
+      if (
+        p && typeof p === "object" &&
+        typeof p.property === "string" && PROPERTY_KEY.test(p.property.replace(/^properties\./, "")) &&
+        OPERATORS.includes(p.op) &&
+        ["string", "number", "boolean"].includes(typeof p.value)
+      ) {
+        return this.checked({ property: p.property.replace(/^properties\./, ""), op: p.op, value: p.value });
+      }
+      throw new Error(`Invalid subgraph filter: bad predicate in '${field}': ${JSON.stringify(p)}`);
+    });
+    return predicates.length > 0 ? predicates : undefined;
+  }
+}
@@ -0,0 +1,157 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+
+/** Types d'attributs écrits en GraphML et en GEXF (noms identiques dans les deux formats) */
+export type XmlAttributeType = "boolean" | "long" | "double" | "string";
+
+/** Attribut typé déclaré pour une clé de properties */
+export interface XmlPropertyAttribute {
+  /** Identifiant dans le fichier (n0, e3…) */
+  id: string;
+  /** Nom affiché par Gephi / yEd */
+  name: string;
+  /** Clé d'origine dans properties */
+  key: string;
+  type: XmlAttributeType;
+}
+
+/** Préfixe des propriétés dont le nom entre en conflit avec un champ du nœud ou de l'arête */
+const PROPERTY_PREFIX = "properties.";
+
+/** Valeur par défaut de node_type / edge_type quand le fichier n'en fournit pas */
+export const DEFAULT_XML_TYPE = "default";
+
+/** Échappement pour le texte et les valeurs d'attributs */
+export function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Caractères de contrôle interdits en XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+/**
+ * Attributs des properties d'un ensemble de nœuds ou d'arêtes, dans l'ordre de première apparition.
+ * Type : boolean, long ou double si toutes les valeurs présentes le sont, string sinon
+ * (objets et tableaux écrits en JSON). Une clé égale à un nom réservé devient "properties.<clé>".
+ */
+export function propertyAttributes(
+  items: Array<{ properties?: Record<string, any> }>,
+  reserved: string[],
+  idPrefix: string,
+): XmlPropertyAttribute[] {
+  const types = new Map<string, XmlAttributeType>();
+  for (const item of items) {
+    for (const [key, value] of Object.entries(item.properties ?? {})) {
+      if (value === null || value === undefined) continue;
+      types.set(key, mergeType(types.get(key), valueType(value)));
+    }
+  }
+  return [...types].map(([key, type], i) => ({
+    id: `${idPrefix}${i}`,
+    name: reserved.includes(key) || key.startsWith(PROPERTY_PREFIX) ? `${PROPERTY_PREFIX}${key}` : key,
+    key,
+    type,
+  }));
+}
+
+function valueType(value: unknown): XmlAttributeType {
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "number" && Number.isFinite(value)) return Number.isInteger(value) ? "long" : "double";
+  return "string";
+}
+
+function mergeType(current: XmlAttributeType | undefined, next: XmlAttributeType): XmlAttributeType {
+  if (!current || current === next) return next;
+  if ((current === "long" && next === "double") || (current === "double" && next === "long")) return "double";
+  return "string";
+}
+
+/** Valeur écrite dans le fichier pour un attribut du type donné */
+export function formatValue(value: unknown, type: XmlAttributeType): string {
+  if (type !== "string") return String(value);
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Valeur d'un attribut lu (types GraphML et GEXF). Une valeur numérique ou booléenne
+ * invalide est conservée telle quelle plutôt que perdue.
+ */
+export function parseValue(raw: string, type: string | undefined): unknown {
+  switch (type) {
+    case "boolean": {
+      const lower = raw.trim().toLowerCase();
+      if (lower === "true" || lower === "1") return true;
+      if (lower === "false" || lower === "0") return false;
+      return raw;
+    }
+    case "int":
+    case "integer":
+    case "long":
+    case "float":
+    case "double": {
+      const value = Number(raw.trim());
+      return raw.trim() !== "" && Number.isFinite(value) ? value : raw;
+    }
+    default:
+      return raw;
+  }
+}
+
+/** Clé de properties d'un nom d'attribut lu ("properties.label" → "label") */
+export function propertyKey(name: string): string {
+  return name.startsWith(PROPERTY_PREFIX) ? name.slice(PROPERTY_PREFIX.length) : name;
+}
+
+/** Éléments répétables : toujours lus comme tableaux */
+const ARRAY_ELEMENTS = new Set(["key", "graph", "node", "edge", "data", "attributes", "attribute", "attvalue", "NodeLabel", "EdgeLabel"]);
+
+/**
+ * Parse un document XML (préfixes d'espaces de noms retirés : y:ShapeNode → ShapeNode,
+ * viz:position → position). Attributs et textes restent des chaînes.
+ * Erreurs : "Invalid <format>: line L, column C: ..." (→ 400).
+ */
+export function parseXml(content: string, format: string): any {
+  const valid = XMLValidator.validate(content);
+  if (valid !== true) {
+    throw new Error(`Invalid ${format}: line ${valid.err.line}, column ${valid.err.col}: ${valid.err.msg}`);
+  }
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    ignoreDeclaration: true,
+    isArray: (name, _jpath, _isLeaf, isAttribute) => !isAttribute && ARRAY_ELEMENTS.has(name),
+  }).parse(content);
+}
+
+/** Texte d'un élément lu par parseXml (chaîne, ou objet avec attributs) */
+export function textOf(element: unknown): string {
+  if (element === undefined || element === null) return "";
+  if (typeof element === "object") return String((element as any)["#text"] ?? "");
+  return String(element);
+}
+
+/** Vérifie l'unicité des nœuds et les extrémités des arêtes d'un fichier lu */
+export function checkReferences(
+  format: string,
+  nodes: Array<{ id: string }>,
+  edges: Array<{ id?: string; source: string; target: string }>,
+): void {
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) throw new Error(`Invalid ${format}: duplicate node id '${node.id}'`);
+    ids.add(node.id);
+  }
+  for (const edge of edges) {
+    const missing = [edge.source, edge.target].find((id) => !ids.has(id));
+    if (missing !== undefined) {
+      throw new Error(`Invalid ${format}: edge ${edge.id ? `'${edge.id}' ` : ""}references unknown node '${missing}'`);
+    }
+  }
+  if (nodes.length === 0) throw new Error(`Invalid ${format}: no nodes found`);
+}
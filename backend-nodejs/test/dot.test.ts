@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphExportDocument } from "../src/models/graph.js";
+import { DotParser } from "../src/services/DotParser.js";
+import { DotSerializer } from "../src/services/DotSerializer.js";
+
+describe("DotParser", () => {
+  it("reads Terraform graph output", () => {
+    const { nodes, edges } = DotParser.parse(`digraph {
+	compound = "true"
+	subgraph "root" {
+		"[root] aws_instance.web (expand)" [label = "aws_instance.web", shape = "box"]
+		"[root] provider[\\"registry.terraform.io/hashicorp/aws\\"]" [label = "provider", shape = "diamond"]
+		"[root] aws_instance.web (expand)" -> "[root] provider[\\"registry.terraform.io/hashicorp/aws\\"]"
+	}
+}`);
+    assert.deepEqual(nodes.map((n) => [n.id, n.label, n.node_type]), [
+      ["[root] aws_instance.web (expand)", "aws_instance.web", "box"],
+      ['[root] provider["registry.terraform.io/hashicorp/aws"]', "provider", "diamond"],
+    ]);
+    assert.equal(edges.length, 1);
+  });
+
+  it("applies defaults, clusters, subgraph endpoints and strict merging", () => {
+    const doc = DotParser.parse(`/* c */ strict digraph G { label="Infra"; comment="desc"
+  # préprocesseur
+  node [shape=box, color=red]; edge [weight=2]
+  a [label="A\\nligne\\l", pos="10,20!", class=svc, n=3, f=1.5, b=true, q="3"]
+  subgraph cluster_net { label="Réseau"; node [shape=ellipse]; b; c -> d [label=<<b>x</b>>] }
+  a -> {b c} -> e:p:n
+  a -> b [color=blue]
+}`);
+    assert.deepEqual([doc.title, doc.description], ["Infra", "desc"]);
+    assert.deepEqual(doc.positions, { a: { x: 10, y: 20 } });
+    assert.deepEqual(doc.nodes.map((n) => [n.id, n.label, n.node_type, n.properties]), [
+      ["a", "A\nligne", "svc", { shape: "box", color: "red", n: 3, f: 1.5, b: true, q: "3" }],
+      ["b", "b", "ellipse", { color: "red", group: "Réseau" }],
+      ["c", "c", "ellipse", { color: "red", group: "Réseau" }],
+      ["d", "d", "ellipse", { color: "red", group: "Réseau" }],
+      ["e", "e", "box", { color: "red" }],
+    ]);
+    assert.deepEqual(doc.edges.map((e) => [e.source, e.target, e.label, e.properties]), [
+      ["c", "d", "<b>x</b>", { weight: 2 }],
+      ["a", "b", undefined, { weight: 2, color: "blue" }],
+      ["a", "c", undefined, { weight: 2 }],
+      ["b", "e", undefined, { weight: 2 }],
+      ["c", "e", undefined, { weight: 2 }],
+    ]);
+  });
+
+  it("takes node_type from the configured attribute", () => {
+    const { nodes } = DotParser.parse("digraph { a [shape=box, class=k] }", ["shape"]);
+    assert.deepEqual([nodes[0].node_type, nodes[0].properties], ["box", { class: "k" }]);
+  });
+
+  it("reports errors with line and column", () => {
+    assert.throws(() => DotParser.parse("digraph {\n  a -> }"), /^Error: Invalid dot: line 2, column 8: expected a node id, found '}'$/);
+    assert.throws(() => DotParser.parse("graph { a -> b }"), /'->' in an undirected graph/);
+    assert.throws(() => DotParser.parse('digraph { a "b'), /line 1, column 13: unterminated string/);
+    assert.throws(() => DotParser.parse("flowchart TD"), /expected 'graph' or 'digraph'/);
+    assert.throws(() => DotParser.parse("digraph { }"), /^Error: Invalid dot: no nodes found$/);
+  });
+});
+
+describe("DotSerializer", () => {
+  const doc: GraphExportDocument = {
+    graph: { id: "g", title: 'T "q" \\', description: "C:\\temp\\", graph_type: "x" },
+    data: {
+      nodes: [
+        { id: "trail\\", label: 'A "x"\nb\\c \\N', node_type: "process", properties: { group: "G\\1", path: "C:\\dir\\", quote: '\\"', cost: 3, ok: false, big: 1e21, label: "clash" } },
+        { id: "node", label: "kw", node_type: "start", properties: {} },
+        { id: 'c "d"', label: "c", node_type: "end", properties: { group: "G\\1" } },
+      ],
+      edges: [
+        { id: "e\\1", source: "trail\\", target: "node", label: "l\\", edge_type: "next", properties: { w: 1.5, sep: "\\" } },
+        { source: "node", target: 'c "d"', edge_type: "rel", properties: {} },
+      ],
+    },
+    positions: { "trail\\": { x: 1.5, y: -2 } },
+  };
+
+  it("round-trips ids, labels, properties and groups with quotes and backslashes", () => {
+    const parsed = DotParser.parse(DotSerializer.serialize(doc));
+    assert.deepEqual([parsed.title, parsed.description], [doc.graph.title, doc.graph.description]);
+    const byId = new Map(parsed.nodes.map((n) => [n.id, n]));
+    for (const node of doc.data.nodes) {
+      const read = byId.get(node.id);
+      assert.ok(read, `node ${node.id}`);
+      assert.deepEqual([read.label, read.node_type], [node.label, node.node_type]);
+    }
+    assert.deepEqual(byId.get("trail\\")!.properties, {
+      group: "G\\1", path: "C:\\dir\\", quote: '\\"', cost: 3, ok: false, big: "1e+21", label: "clash",
+    });
+    assert.deepEqual(
+      parsed.edges.map((e) => [e.id, e.source, e.target, e.label, e.edge_type, e.properties]),
+      [
+        ["e\\1", "trail\\", "node", "l\\", "next", { w: 1.5, sep: "\\" }],
+        [undefined, "node", 'c "d"', undefined, "rel", {}],
+      ],
+    );
+    assert.deepEqual(parsed.positions, doc.positions);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphBinaryCodec } from "../src/services/GraphBinaryCodec.js";
+
+/** Lecture séquentielle du format : en-tête, table des chaînes, puis entiers varint */
+const reader = (buf: Buffer) => {
+  let pos = 4;
+  const varint = () => {
+    let value = 0;
+    let factor = 1;
+    for (;;) {
+      const b = buf[pos++];
+      value += (b & 0x7f) * factor;
+      if (b < 0x80) return value;
+      factor *= 128;
+    }
+  };
+  const strings = Array.from({ length: varint() }, () => {
+    const length = varint();
+    pos += length;
+    return buf.toString("utf8", pos - length, pos);
+  });
+  return { strings, varint, done: () => pos === buf.length };
+};
+
+describe("GraphBinaryCodec.encode", () => {
+  it("writes the header and counts of an empty graph", () => {
+    const buf = GraphBinaryCodec.encode({ nodes: [], edges: [] });
+    assert.equal(buf.subarray(0, 4).toString("ascii"), "GRC1");
+    const r = reader(buf);
+    assert.deepEqual([r.strings, r.varint(), r.varint(), r.done()], [[], 0, 0, true]);
+  });
+
+  it("interns repeated strings once, UTF-8 encoded", () => {
+    const props = { nom: "Île-de-France", contact: { tel: ["1"] } };
+    const buf = GraphBinaryCodec.encode({
+      nodes: [
+        { id: "é", label: "Nœud", node_type: "t", properties: props },
+        { id: "🚀", label: "Nœud", node_type: "t", properties: props },
+      ],
+      edges: [],
+    });
+    const { strings } = reader(buf);
+    assert.deepEqual(strings, ["é", "🚀", "Nœud", "t", JSON.stringify(props)]);
+  });
+
+  it("codes endpoints as node indexes or strings and absent labels as 0", () => {
+    const buf = GraphBinaryCodec.encode({
+      nodes: [
+        { id: "a", label: "A", node_type: "t", properties: {} },
+        { id: "b", label: "B", node_type: "t", properties: {} },
+      ],
+      edges: [
+        { id: "1", source: "a", target: "b", edge_type: "next", properties: {} },
+        { id: "2", source: "b", target: "absent", label: "lien", edge_type: "next", properties: {} },
+      ],
+    });
+    const r = reader(buf);
+    const [nodeCount, edgeCount] = [r.varint(), r.varint()];
+    for (let i = 0; i < nodeCount * 4; i++) r.varint();
+    const column = () => Array.from({ length: edgeCount }, () => r.varint());
+    const [sources, targets, , labels] = [column(), column(), column(), column()];
+
+    assert.deepEqual(sources, [0, 1]);
+    assert.equal(r.strings[targets[1] - nodeCount], "absent");
+    assert.equal(labels[0], 0);
+    assert.equal(r.strings[labels[1] - 1], "lien");
+  });
+
+  it("writes indexes above 127 on several bytes and grows its buffer", () => {
+    const nodes = Array.from({ length: 20_000 }, (_, i) => ({ id: `n${i}`, label: `N${i}`, node_type: "t", properties: {} }));
+    const buf = GraphBinaryCodec.encode({ nodes, edges: [] });
+    const r = reader(buf);
+    assert.equal(r.strings.length, 40_002);
+    assert.deepEqual([r.varint(), r.varint()], [20_000, 0]);
+    const ids = Array.from({ length: 20_000 }, () => r.varint());
+    assert.equal(r.strings[ids[19_999]], "n19999");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { GraphData } from "../src/models/graph.js";
+import { DiskGraphCache, EngineGraphCache, MemoryGraphCache } from "../src/services/GraphCache.js";
+
+/** Graphe d'un nœud dont le JSON sérialisé fait exactement `bytes` octets */
+const sized = (bytes: number): GraphData => {
+  const empty = JSON.stringify({ nodes: [{ id: "", label: "", node_type: "t", properties: {} }], edges: [] }).length;
+  return { nodes: [{ id: "", label: "x".repeat(bytes - empty), node_type: "t", properties: {} }], edges: [] };
+};
+
+/** Les suppressions de fichiers du cache disque ne sont pas attendues par delete() */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("MemoryGraphCache", () => {
+  it("counts the serialized size and returns copies", async () => {
+    const cache = new MemoryGraphCache(60, 1000);
+    await cache.set("a", sized(100));
+    assert.equal(cache.bytes(), 100);
+
+    const first = (await cache.get("a"))!;
+    first.nodes[0].label = "modifié";
+    assert.deepEqual(await cache.get("a"), sized(100));
+  });
+
+  it("evicts the least recently used entries to stay under maxBytes", async () => {
+    const cache = new MemoryGraphCache(60, 300);
+    await cache.set("a", sized(100));
+    await cache.set("b", sized(100));
+    await cache.set("c", sized(100));
+    await cache.get("a");
+    await cache.set("d", sized(150));
+
+    assert.deepEqual(cache.keys(), ["a", "d"]);
+    assert.deepEqual([cache.stats().bytes, cache.stats().evictions], [250, 2]);
+  });
+
+  it("replaces an entry in place and skips values larger than the cap", async () => {
+    const cache = new MemoryGraphCache(60, 300);
+    await cache.set("a", sized(100));
+    await cache.set("a", sized(200));
+    assert.deepEqual([cache.keys(), cache.bytes()], [["a"], 200]);
+
+    await cache.set("a", sized(301));
+    assert.deepEqual([cache.keys(), await cache.get("a"), cache.stats().evictions], [[], undefined, 0]);
+  });
+
+  it("drops expired entries", async () => {
+    const cache = new MemoryGraphCache(0, 1000);
+    await cache.set("a", sized(100));
+    assert.deepEqual([cache.has("a"), await cache.get("a"), cache.bytes()], [false, undefined, 0]);
+  });
+});
+
+describe("DiskGraphCache", () => {
+  const withDir = async (run: (dir: string) => Promise<void>) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "graph-cache-"));
+    try {
+      await run(dir);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+
+  it("rebuilds its index from the files, oldest first, within the cap", () =>
+    withDir(async (dir) => {
+      const cache = new DiskGraphCache(dir, 60, 1000);
+      await cache.set("graph:sqlite:main:a", sized(100));
+      await cache.set("graph:sqlite:main:b", sized(100));
+      const old = new Date(Date.now() - 10_000);
+      await fs.utimes(path.join(dir, `${encodeURIComponent("graph:sqlite:main:a")}.json`), old, old);
+
+      const reopened = new DiskGraphCache(dir, 60, 1000);
+      assert.deepEqual(reopened.keys(), ["graph:sqlite:main:a", "graph:sqlite:main:b"]);
+      assert.deepEqual(await reopened.get("graph:sqlite:main:b"), sized(100));
+
+      const smaller = new DiskGraphCache(dir, 60, 150);
+      assert.deepEqual([smaller.keys(), smaller.stats().evictions], [["graph:sqlite:main:b"], 1]);
+      await settle();
+      assert.deepEqual(await fs.readdir(dir), [`${encodeURIComponent("graph:sqlite:main:b")}.json`]);
+    }));
+
+  it("never lets a late write bring back a deleted entry", () =>
+    withDir(async (dir) => {
+      const cache = new DiskGraphCache(dir, 60, 1000);
+      const write = cache.set("k", sized(100));
+      cache.delete("k");
+      await write;
+      await settle();
+      assert.deepEqual([cache.keys(), await fs.readdir(dir)], [[], []]);
+    }));
+});
+
+describe("EngineGraphCache", () => {
+  it("keeps each engine's keys and counters apart on the shared cache", async () => {
+    const shared = new MemoryGraphCache(60, 10_000);
+    const sqlite = new EngineGraphCache(() => "sqlite", shared);
+    const memory = new EngineGraphCache(() => "memory", shared);
+    await sqlite.set("main", "g", sized(100));
+    await sqlite.set("other", "g", sized(100));
+    await memory.set("main", "g", sized(100));
+
+    assert.ok(await sqlite.lookup("main", "g", false));
+    assert.equal(await sqlite.lookup("main", "g", true), undefined);
+    assert.equal(await memory.lookup("main", "missing", false), undefined);
+    assert.deepEqual([sqlite.stats().hits, sqlite.stats().bypasses, sqlite.stats().misses], [1, 1, 0]);
+    assert.equal(memory.stats().misses, 1);
+
+    assert.deepEqual(sqlite.clearDatabase("other"), ["graph:sqlite:other:g"]);
+    assert.deepEqual(sqlite.clear(), ["graph:sqlite:main:g"]);
+    assert.deepEqual(shared.keys(), ["graph:memory:main:g"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphEdge, GraphNode } from "../src/models/graph.js";
+import { GraphDiffService } from "../src/services/GraphDiffService.js";
+
+const node = (id: string, properties: Record<string, any> = {}, label = id.toUpperCase()): GraphNode =>
+  ({ id, label, node_type: "t", properties });
+const edge = (id: string, source: string, target: string, edge_type = "next"): GraphEdge =>
+  ({ id, source, target, edge_type, properties: {} });
+
+describe("GraphDiffService.compare", () => {
+  it("sorts nodes into added, removed, changed and unchanged", () => {
+    const diff = GraphDiffService.compare(
+      { nodes: [node("a"), node("b", { cout: 1 }), node("c")], edges: [] },
+      { nodes: [node("a"), node("b", { cout: 2 }, "Bis"), node("d")], edges: [] },
+    );
+    assert.deepEqual(diff.nodes.added.map((n) => n.id), ["d"]);
+    assert.deepEqual(diff.nodes.removed.map((n) => n.id), ["c"]);
+    assert.deepEqual(diff.nodes.changed.map((c) => [c.id, c.fields]), [["b", ["label", "properties"]]]);
+    assert.equal(diff.summary.nodes_unchanged, 1);
+  });
+
+  it("ignores the order of property keys, nested ones included", () => {
+    const diff = GraphDiffService.compare(
+      { nodes: [node("a", { x: 1, y: { p: [1, { q: 2, r: 3 }], s: null } })], edges: [] },
+      { nodes: [node("a", { y: { s: null, p: [1, { r: 3, q: 2 }] }, x: 1 })], edges: [] },
+    );
+    assert.deepEqual(diff.nodes.changed, []);
+    assert.equal(diff.summary.nodes_unchanged, 1);
+  });
+
+  it("matches edges by source, target and type regardless of their ids", () => {
+    const diff = GraphDiffService.compare(
+      { nodes: [], edges: [edge("1", "a", "b"), edge("2", "b", "c")] },
+      { nodes: [], edges: [edge("17", "a", "b"), edge("18", "b", "c", "other")] },
+    );
+    assert.deepEqual(diff.edges.added.map((e) => e.id), ["18"]);
+    assert.deepEqual(diff.edges.removed.map((e) => e.id), ["2"]);
+  });
+
+  it("counts parallel edges as a multiset", () => {
+    const base = { nodes: [], edges: [edge("1", "a", "b"), edge("2", "a", "b"), edge("3", "b", "a")] };
+
+    const fewer = GraphDiffService.compare(base, { nodes: [], edges: [edge("9", "a", "b"), edge("10", "b", "a")] });
+    assert.deepEqual([fewer.summary.edges_added, fewer.summary.edges_removed], [0, 1]);
+    assert.deepEqual(fewer.edges.removed.map((e) => [e.source, e.target]), [["a", "b"]]);
+
+    const more = GraphDiffService.compare(base, {
+      nodes: [],
+      edges: [edge("7", "a", "b"), edge("8", "a", "b"), edge("9", "a", "b"), edge("10", "b", "a"), edge("11", "b", "a")],
+    });
+    assert.deepEqual(more.edges.added.map((e) => e.id), ["9", "11"]);
+    assert.deepEqual(more.edges.removed, []);
+  });
+
+  it("reports nothing between identical graphs", () => {
+    const data = { nodes: [node("a"), node("b")], edges: [edge("1", "a", "b"), edge("2", "a", "b")] };
+    assert.deepEqual(GraphDiffService.compare(data, data).summary, {
+      nodes_added: 0, nodes_removed: 0, nodes_changed: 0, nodes_unchanged: 2, edges_added: 0, edges_removed: 0,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphImportService } from "../src/services/GraphImportService.js";
+import { MemoryService } from "../src/services/MemoryService.js";
+
+async function* lines(...values: unknown[]): AsyncGenerator<string> {
+  for (const value of values) yield JSON.stringify(value);
+}
+
+const GRAPH = { type: "graph", graph: { id: "g", title: "G" } };
+const NODES = { type: "nodes", nodes: [{ id: "a", label: "A", node_type: "t" }, { id: "b", label: "B", node_type: "t" }] };
+
+const engine = async () => {
+  const service = new MemoryService();
+  await service.initialize();
+  return service;
+};
+
+describe("GraphImportService", () => {
+  it("forgets a finished import once its TTL is over", async () => {
+    const service = await engine();
+    const imports = new GraphImportService(0, 3600);
+    const entry = imports.begin("memory", undefined);
+    await imports.run(entry, service, lines(GRAPH, NODES));
+
+    assert.equal(entry.status, "done");
+    assert.equal(imports.get(entry.id), undefined);
+    assert.throws(() => imports.begin("memory", undefined, entry.id), /Import '.*' not found/);
+  });
+
+  it("keeps a failed import until it is resumed, then lets it finish", async () => {
+    const service = await engine();
+    const imports = new GraphImportService(0, 3600);
+    const entry = imports.begin("memory", undefined);
+    await assert.rejects(imports.run(entry, service, lines(GRAPH, NODES, { type: "nodes", nodes: "x" })));
+
+    assert.equal(imports.get(entry.id)?.status, "failed");
+    const resumed = imports.begin("memory", undefined, entry.id);
+    assert.equal(imports.get(entry.id)?.status, "running");
+    await imports.run(resumed, service, lines(GRAPH, NODES, { type: "nodes", nodes: [{ id: "c", label: "C", node_type: "t" }] }));
+    assert.equal((await service.getGraph("g")).nodes.length, 3);
+    assert.equal(imports.get(entry.id), undefined);
+  });
+
+  it("drops failed imports after their own TTL, never running ones", async () => {
+    const service = await engine();
+    const imports = new GraphImportService(3600, 0);
+    const failed = imports.begin("memory", undefined);
+    await assert.rejects(imports.run(failed, service, lines(GRAPH, { type: "nodes", nodes: "x" })));
+    const running = imports.begin("memory", undefined);
+
+    assert.equal(imports.get(failed.id), undefined);
+    assert.equal(imports.get(running.id)?.status, "running");
+  });
+});
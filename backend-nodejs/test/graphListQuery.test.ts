@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { GraphListPage, GraphSummary } from "../src/models/graph.js";
+import { GraphListQuery } from "../src/services/GraphListQuery.js";
+
+const graph = (id: string, title: string | null, node_count = 0, created_at = "2024-01-01T00:00:00.000Z"): GraphSummary =>
+  ({ id, title: title as string, description: "", graph_type: "flow", node_count, edge_count: 0, created_at, tags: [], folder: null });
+
+const GRAPHS = [
+  graph("g1", "Beta", 3, "2024-01-03T00:00:00.000Z"),
+  graph("g2", null, 1, "2024-01-01T00:00:00.000Z"),
+  graph("g3", "Alpha", 3, "2024-01-02T00:00:00.000Z"),
+  graph("g4", null, 2, "2024-01-05T00:00:00.000Z"),
+  graph("g5", "Alpha", 5, "2024-01-04T00:00:00.000Z"),
+];
+
+/** Parcourt toutes les pages en repassant chaque curseur par parse(), comme GET /graphs */
+const pages = (query: Record<string, string>, read: (page: GraphListPage) => GraphSummary[]): string[][] => {
+  const result: string[][] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const { page } = GraphListQuery.parse({ ...query, limit: "2", ...(cursor ? { cursor } : {}) });
+    const graphs = read(page);
+    if (graphs.length === 0) return result;
+    result.push(graphs.map((g) => g.id));
+    cursor = GraphListQuery.cursor(graphs[graphs.length - 1], page);
+  }
+};
+
+describe("GraphListQuery.parse", () => {
+  it("defaults to the newest first, ascending titles and no limit", () => {
+    assert.deepEqual(GraphListQuery.parse({}).page, { sort: "created_at", order: "desc" });
+    assert.deepEqual(GraphListQuery.parse({ sort: "title" }).page, { sort: "title", order: "asc" });
+    assert.deepEqual(GraphListQuery.parse({ limit: "9999" }).page.limit, 500);
+  });
+
+  it("reads the type and size filters", () => {
+    const { filter } = GraphListQuery.parse({ graph_type: " flow ", min_nodes: "2", max_nodes: "" });
+    assert.deepEqual([filter.graph_type, filter.min_nodes, filter.max_nodes], ["flow", 2, undefined]);
+  });
+
+  it("rejects bad parameters and cursors", () => {
+    assert.throws(() => GraphListQuery.parse({ sort: "size" }), /^Error: Invalid list query: sort must be/);
+    assert.throws(() => GraphListQuery.parse({ order: "up" }), /order must be asc or desc/);
+    assert.throws(() => GraphListQuery.parse({ limit: "0" }), /limit must be an integer >= 1/);
+    assert.throws(() => GraphListQuery.parse({ min_nodes: "-1" }), /min_nodes must be an integer >= 0/);
+    assert.throws(() => GraphListQuery.parse({ cursor: "%%%" }), /malformed cursor/);
+  });
+});
+
+describe("GraphListQuery.cursor", () => {
+  it("decodes back to the sorted value and id of the graph", () => {
+    const page: GraphListPage = { sort: "node_count", order: "desc" };
+    const cursor = GraphListQuery.cursor(GRAPHS[0], page);
+    assert.deepEqual(GraphListQuery.parse({ sort: "node_count", cursor }).page.after, { value: 3, id: "g1" });
+  });
+
+  it("encodes a missing title as null, accepted for the title sort only", () => {
+    const cursor = GraphListQuery.cursor(GRAPHS[1], { sort: "title", order: "asc" });
+    assert.deepEqual(JSON.parse(Buffer.from(cursor, "base64url").toString()).value, null);
+    assert.deepEqual(GraphListQuery.parse({ sort: "title", cursor }).page.after, { value: null, id: "g2" });
+
+    const nullCount = Buffer.from(JSON.stringify({ sort: "node_count", order: "desc", value: null, id: "g2" })).toString("base64url");
+    assert.throws(() => GraphListQuery.parse({ sort: "node_count", cursor: nullCount }), /malformed cursor/);
+  });
+
+  it("refuses a cursor issued for another sort order", () => {
+    const cursor = GraphListQuery.cursor(GRAPHS[0], { sort: "title", order: "asc" });
+    assert.throws(() => GraphListQuery.parse({ sort: "title", order: "desc", cursor }), /another sort order/);
+  });
+});
+
+describe("GraphListQuery.apply", () => {
+  const read = (page: GraphListPage) => GraphListQuery.apply(GRAPHS, {}, page);
+
+  it("pages by created_at and node_count with the id as tie-breaker", () => {
+    assert.deepEqual(pages({}, read), [["g4", "g5"], ["g1", "g3"], ["g2"]]);
+    assert.deepEqual(pages({ sort: "node_count", order: "asc" }, read), [["g2", "g4"], ["g1", "g3"], ["g5"]]);
+  });
+
+  it("sorts null titles first in ascending order and pages across them", () => {
+    assert.deepEqual(pages({ sort: "title" }, read), [["g2", "g4"], ["g3", "g5"], ["g1"]]);
+    assert.deepEqual(pages({ sort: "title", order: "desc" }, read), [["g1", "g5"], ["g3", "g4"], ["g2"]]);
+  });
+
+  it("filters before paging", () => {
+    const filtered = (page: GraphListPage) => GraphListQuery.apply(GRAPHS, { min_nodes: 3 }, page);
+    assert.deepEqual(pages({ sort: "node_count" }, filtered), [["g5", "g3"], ["g1"]]);
+  });
+});
+
+describe("GraphListQuery.afterCondition", () => {
+  // Même parcours, évalué par SQLite (NULL trié en premier en ASC, comme SQL Server)
+  const db = new Database(":memory:");
+  db.exec("CREATE TABLE graphs (id TEXT PRIMARY KEY, title TEXT)");
+  const insert = db.prepare("INSERT INTO graphs (id, title) VALUES (?, ?)");
+  for (const g of GRAPHS) insert.run(g.id, g.title);
+
+  const sqlRead = (page: GraphListPage) => {
+    const dir = page.order === "asc" ? "ASC" : "DESC";
+    const where = page.after ? `WHERE ${GraphListQuery.afterCondition("title", "id", page, "@value", "@id", true)}` : "";
+    return db.prepare(`SELECT id, title FROM graphs ${where} ORDER BY title ${dir}, id ${dir} LIMIT ${page.limit}`)
+      .all(page.after ? { value: page.after.value, id: page.after.id } : {}) as GraphSummary[];
+  };
+
+  it("matches the in-memory order on a nullable column", () => {
+    for (const order of ["asc", "desc"]) {
+      assert.deepEqual(pages({ sort: "title", order }, sqlRead), pages({ sort: "title", order }, (p) => GraphListQuery.apply(GRAPHS, {}, p)));
+    }
+  });
+
+  it("keeps nulls after the values for engines sorting them last", () => {
+    assert.equal(
+      GraphListQuery.afterCondition("g.title", "g.id", { sort: "title", order: "asc", after: { value: "A", id: "x" } }, "$v", "$i", false),
+      "(g.title > $v OR (g.title = $v AND g.id > $i) OR g.title IS NULL)",
+    );
+    assert.equal(
+      GraphListQuery.afterCondition("g.title", "g.id", { sort: "title", order: "desc", after: { value: null, id: "x" } }, "$v", "$i", false),
+      "((g.title IS NULL AND g.id < $i) OR g.title IS NOT NULL)",
+    );
+  });
+});
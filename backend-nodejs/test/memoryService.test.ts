@@ -0,0 +1,145 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { GraphEdge, GraphNode } from "../src/models/graph.js";
+import { MemoryService } from "../src/services/MemoryService.js";
+
+const node = (id: string, node_type = "t"): GraphNode => ({ id, label: id.toUpperCase(), node_type, properties: {} });
+const edge = (source: string, target: string): GraphEdge => ({ source, target, edge_type: "next", properties: {} });
+
+// a → b → c → d, e isolé
+const NODES = ["a", "b", "c", "d", "e"].map((id) => node(id));
+const EDGES = [edge("a", "b"), edge("b", "c"), edge("c", "d")];
+
+describe("MemoryService", () => {
+  let service: MemoryService;
+
+  beforeEach(async () => {
+    service = new MemoryService();
+    await service.initialize();
+    service.clearCache();
+  });
+
+  it("creates and reads a graph with counts and edge ids", async () => {
+    const graph = await service.createGraph("g", "Titre", "desc", "flow", NODES, EDGES, undefined, "2024-01-01T00:00:00.000Z");
+    assert.deepEqual(
+      [graph.id, graph.title, graph.node_count, graph.edge_count, graph.created_at],
+      ["g", "Titre", 5, 3, "2024-01-01T00:00:00.000Z"],
+    );
+    await assert.rejects(service.createGraph("g", "", "", "", [], []), /already exists/);
+
+    const data = await service.getGraph("g");
+    assert.deepEqual(data.nodes, NODES);
+    assert.deepEqual(data.edges.map((e) => [e.id, e.source, e.target]), [["1", "a", "b"], ["2", "b", "c"], ["3", "c", "d"]]);
+    assert.equal((await service.getGraphMetadata("missing")), null);
+  });
+
+  it("returns copies the caller cannot use to mutate the store", async () => {
+    await service.createGraph("g", "T", "", "flow", [{ ...node("a"), properties: { cout: 1 } }], []);
+    const first = await service.getGraph("g", undefined, true);
+    first.nodes[0].properties.cout = 2;
+    first.nodes.push(node("z"));
+    const again = await service.getGraph("g", undefined, true);
+    assert.deepEqual(again.nodes, [{ ...node("a"), properties: { cout: 1 } }]);
+  });
+
+  it("lists, sorts and pages graphs", async () => {
+    await service.createGraph("g1", "Beta", "", "flow", [node("a")], [], undefined, "2024-01-01T00:00:00.000Z");
+    await service.createGraph("g2", "alpha", "", "network", [node("a"), node("b")], [], undefined, "2024-02-01T00:00:00.000Z");
+    await service.createGraph("g3", "Gamma", "", "flow", [], [], undefined, "2024-03-01T00:00:00.000Z");
+
+    assert.deepEqual((await service.listGraphs()).map((g) => g.id), ["g3", "g2", "g1"]);
+    assert.deepEqual((await service.listGraphs(undefined, { graph_type: "flow" })).map((g) => g.id), ["g3", "g1"]);
+    const bySize = await service.listGraphs(undefined, {}, { sort: "node_count", order: "desc", limit: 2 });
+    assert.deepEqual(bySize.map((g) => [g.id, g.node_count]), [["g2", 2], ["g1", 1]]);
+    const next = await service.listGraphs(undefined, {}, { sort: "node_count", order: "desc", limit: 2, after: { value: 1, id: "g1" } });
+    assert.deepEqual(next.map((g) => g.id), ["g3"]);
+    assert.equal(await service.countGraphs(undefined, { min_nodes: 1 }), 2);
+  });
+
+  it("walks neighbors in both directions up to the depth", async () => {
+    await service.createGraph("g", "T", "", "flow", NODES, EDGES);
+    const ids = async (nodeId: string, depth: number) =>
+      (await service.getNodeNeighbors("g", nodeId, depth)).nodes.map((n) => n.id);
+
+    assert.deepEqual(await ids("b", 1), ["a", "b", "c"]);
+    assert.deepEqual(await ids("b", 2), ["a", "b", "c", "d"]);
+    assert.deepEqual((await service.getNodeNeighbors("g", "b", 1)).edges.map((e) => e.id), ["1", "2"]);
+    assert.deepEqual(await ids("e", 3), ["e"]);
+    assert.deepEqual(await service.getNodeNeighbors("g", "missing", 1), { nodes: [], edges: [] });
+  });
+
+  it("computes the impact along outgoing edges with levels", async () => {
+    await service.createGraph("g", "T", "", "flow", NODES, [...EDGES, edge("a", "c")]);
+    const impact = await service.computeImpact("g", "a", 5);
+    assert.deepEqual(impact.impactedNodes, [
+      { nodeId: "b", level: 1 },
+      { nodeId: "c", level: 1 },
+      { nodeId: "d", level: 2 },
+    ]);
+    assert.deepEqual((await service.computeImpact("g", "a", 1)).impactedNodes.map((n) => n.nodeId), ["b", "c"]);
+    assert.deepEqual((await service.computeImpact("g", "d", 3)).impactedNodes, []);
+    assert.equal((await service.computeImpact("g", "a", 99)).depth, 15);
+  });
+
+  it("keeps named databases apart", async () => {
+    await service.createDatabase("other");
+    await service.createGraph("g", "T", "", "flow", NODES, EDGES);
+    await service.createGraph("g", "Autre", "", "flow", [node("x")], [], "other");
+
+    assert.deepEqual((await service.listDatabases()).map((d) => [d.name, d.default]), [["memory", true], ["other", false]]);
+    assert.deepEqual(await service.getDatabaseStats("other"), { nodeCount: 1, relationshipCount: 0, graphCount: 1 });
+    assert.deepEqual((await service.getGraph("g", "other")).nodes.map((n) => n.id), ["x"]);
+    assert.equal((await service.getGraph("g")).nodes.length, 5);
+
+    await assert.rejects(service.deleteDatabase("memory"), /protected/);
+    await service.deleteDatabase("other");
+    await assert.rejects(service.getGraph("g", "other"), /Database 'other' does not exist/);
+  });
+
+  it("counts cache hits, misses and bypasses and drops entries on write", async () => {
+    await service.createGraph("g", "T", "", "flow", NODES, EDGES);
+    await service.getGraph("g");
+    await service.getGraph("g");
+    await service.getGraph("g", undefined, true);
+    assert.equal(service.isGraphCached("g"), true);
+
+    const stats = service.getCacheStats();
+    assert.deepEqual([stats.hits, stats.misses, stats.bypasses, stats.cachedGraphs], [1, 1, 1, 1]);
+    assert.deepEqual(stats.keys, ["graph:memory:memory:g"]);
+    assert.ok(stats.bytes > 0);
+
+    await service.addNodes("g", [node("f")]);
+    assert.equal(service.isGraphCached("g"), false);
+    assert.equal((await service.getGraph("g")).nodes.length, 6);
+    assert.deepEqual(service.clearCache().cleared, ["graph:memory:memory:g"]);
+    assert.equal(service.getCacheStats().hits, 0);
+  });
+
+  it("rejects ids repeated within one addNodes batch", async () => {
+    await service.createGraph("g", "G", "", "x", [node("a")], []);
+    await assert.rejects(service.addNodes("g", [node("b"), node("c"), node("b")]), /already exist.*: b$/);
+    await assert.rejects(service.addNodes("g", [node("a")]), /already exist.*: a$/);
+    assert.equal((await service.getGraph("g")).nodes.length, 1);
+  });
+
+  it("serializes concurrent snapshot writes and keeps the last state", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-snapshot-"));
+    const snapshotPath = path.join(dir, "snapshot.json");
+    try {
+      const persisted = new MemoryService("memory", snapshotPath);
+      await persisted.initialize();
+      await persisted.createGraph("g", "G", "", "x", [], []);
+      await Promise.all(Array.from({ length: 20 }, (_, i) => persisted.addNodes("g", [node(`n${i}`)])));
+
+      const reloaded = new MemoryService("memory", snapshotPath);
+      await reloaded.initialize();
+      assert.equal((await reloaded.getGraph("g")).nodes.length, 20);
+      assert.deepEqual(await fs.readdir(dir), ["snapshot.json"]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
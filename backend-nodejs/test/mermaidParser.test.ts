@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MermaidParser } from "../src/services/MermaidParser.js";
+
+const edgeList = (code: string) =>
+  MermaidParser.parse(code).edges.map((e) => `${e.source}-${e.edge_type}->${e.target}${e.label ? `[${e.label}]` : ""}`);
+
+describe("MermaidParser", () => {
+  it("reads chains, & fan-out and inline shapes", () => {
+    assert.deepEqual(edgeList("flowchart LR\n  A & B --> C --> D"), ["A-next->C", "B-next->C", "C-next->D"]);
+
+    const { nodes } = MermaidParser.parse("graph TD\n  A[Start] --> B{Check}\n  B --> C[(DB)]");
+    assert.deepEqual(
+      nodes.map((n) => [n.id, n.label, n.node_type]),
+      [["A", "Start", "process"], ["B", "Check", "decision"], ["C", "DB", "database"]],
+    );
+  });
+
+  it("reads every link text syntax and stroke", () => {
+    assert.deepEqual(
+      edgeList("graph TD\n  A -->|x| B\n  B -- y --> C\n  C -. z .-> D\n  D == w ==> E\n  E --- F\n  F ~~~ G"),
+      ["A-next->B[x]", "B-next->C[y]", "C-optional->D[z]", "D-strong->E[w]", "E-relation->F", "F-invisible->G"],
+    );
+  });
+
+  it("accepts hyphenated ids, quoted text and entity codes", () => {
+    const { nodes } = MermaidParser.parse('graph TD\n  api-gw["Gateway #91;v2#93;"] --> auth-svc');
+    assert.deepEqual(nodes.map((n) => [n.id, n.label]), [["api-gw", "Gateway [v2]"], ["auth-svc", "auth-svc"]]);
+  });
+
+  it("maps subgraphs to group and classes to style", () => {
+    const { nodes } = MermaidParser.parse([
+      "flowchart TD",
+      "  subgraph front [Front]",
+      "    A --> B:::hot",
+      "  end",
+      "  C",
+      "  class A,C svc",
+      "  classDef svc fill:#f9f",
+    ].join("\n"));
+    assert.deepEqual(
+      nodes.map((n) => [n.id, n.properties]),
+      [["A", { group: "front", style: "svc" }], ["B", { group: "front", style: "hot" }], ["C", { style: "svc" }]],
+    );
+  });
+
+  it("reports errors with line and column", () => {
+    assert.throws(() => MermaidParser.parse("graph TD\n  A --> "), /^Error: Invalid mermaid: line 2, column 9: expected a node id/);
+    assert.throws(() => MermaidParser.parse("graph TD\n  A[Start --> B"), /line 2, column 4: unclosed '\['/);
+    assert.throws(() => MermaidParser.parse("graph TD\n  subgraph s\n  A"), /subgraph 's' is not closed by 'end'/);
+    assert.throws(() => MermaidParser.parse("sequenceDiagram\n  A->>B: hi"), /not supported/);
+    assert.throws(() => MermaidParser.parse("graph TD\n%% vide"), /^Error: Invalid mermaid: no nodes found$/);
+  });
+});
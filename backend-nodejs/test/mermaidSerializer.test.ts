@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphData } from "../src/models/graph.js";
+import { MermaidParser } from "../src/services/MermaidParser.js";
+import { MermaidSerializer } from "../src/services/MermaidSerializer.js";
+
+describe("MermaidSerializer", () => {
+  const data: GraphData = {
+    nodes: [
+      { id: "start1", label: 'Début [ok] | "q" #1; a-->b', node_type: "start", properties: {} },
+      { id: "api-gw", label: "Gateway\nv2", node_type: "condition", properties: {} },
+      { id: "end", label: "/Fin", node_type: "end", properties: {} },
+      { id: "db x", label: "DB", node_type: "database", properties: {} },
+    ],
+    edges: [
+      { source: "start1", target: "api-gw", label: "go|now", edge_type: "next", properties: {} },
+      { source: "api-gw", target: "end", edge_type: "strong", properties: {} },
+      { source: "api-gw", target: "db x", edge_type: "optional", properties: {} },
+      { source: "end", target: "db x", edge_type: "invisible", properties: {} },
+    ],
+  };
+
+  it("round-trips labels, types and edges through MermaidParser", () => {
+    const parsed = MermaidParser.parse(MermaidSerializer.serialize(data, "Titre"));
+    assert.deepEqual(
+      parsed.nodes.map((n) => [n.label, n.node_type]),
+      data.nodes.map((n) => [n.label, n.node_type]),
+    );
+    assert.deepEqual(
+      parsed.edges.map((e) => [e.edge_type, e.label]),
+      data.edges.map((e) => [e.edge_type, e.label]),
+    );
+  });
+
+  it("keeps valid ids and derives the others", () => {
+    const ids = MermaidParser.parse(MermaidSerializer.serialize(data)).nodes.map((n) => n.id);
+    assert.deepEqual(ids, ["start1", "api-gw", "end_", "db_x"]);
+  });
+
+  it("is stable when exported again", () => {
+    const once = MermaidSerializer.serialize(data);
+    const twice = MermaidSerializer.serialize(MermaidParser.parse(once));
+    assert.equal(twice, once);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AppliedMigration } from "../src/models/graph.js";
+import { Migration, MigrationRunner, MigrationStore } from "../src/services/MigrationRunner.js";
+
+/** Store en mémoire : journal des appels de up(), applied() lent pour rendre les courses visibles */
+const store = (done: number[] = []) => {
+  const log: string[] = [];
+  const records: AppliedMigration[] = done.map((version) => ({ version, name: `m${version}`, applied_at: "", duration_ms: 0 }));
+  const target: MigrationStore<string[]> = {
+    async applied() {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return [...records];
+    },
+    async apply(migration, startedAt) {
+      await migration.up(log);
+      const record = { version: migration.version, name: migration.name, applied_at: new Date(startedAt).toISOString(), duration_ms: 0 };
+      records.push(record);
+      return record;
+    },
+  };
+  return { target, log, records };
+};
+
+const migration = (version: number, fail = false): Migration<string[]> => ({
+  version,
+  name: `m${version}`,
+  async up(log) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    if (fail) throw new Error("boom");
+    log.push(`m${version}`);
+  },
+});
+
+describe("MigrationRunner", () => {
+  it("refuses versions that do not strictly increase", () => {
+    assert.throws(() => new MigrationRunner("sqlite", [migration(1), migration(3), migration(3)]), /strictly increasing versions \(3 after 3\)/);
+    assert.throws(() => new MigrationRunner("sqlite", [migration(2), migration(1)]), /\(1 after 2\)/);
+    assert.equal(new MigrationRunner("sqlite", []).latest, 0);
+  });
+
+  it("applies the missing migrations in order and reports them", async () => {
+    const runner = new MigrationRunner("mssql", [migration(1), migration(2), migration(4)]);
+    const { target, log } = store([1]);
+    const report = await runner.run("graph_db", target);
+
+    assert.deepEqual(log, ["m2", "m4"]);
+    assert.deepEqual(
+      [report.engine, report.database, report.from, report.version, report.applied.map((m) => m.version)],
+      ["mssql", "graph_db", 1, 4, [2, 4]],
+    );
+    assert.deepEqual((await runner.run("graph_db", target)).applied, []);
+  });
+
+  it("serializes runs on one database so the second finds nothing to do", async () => {
+    const runner = new MigrationRunner("arangodb", [migration(1), migration(2)]);
+    const { target, log } = store();
+    const reports = await Promise.all([runner.run("db", target), runner.run("db", target), runner.run("db", target)]);
+
+    assert.deepEqual(log, ["m1", "m2"]);
+    assert.deepEqual(reports.map((r) => r.applied.length), [2, 0, 0]);
+  });
+
+  it("runs different databases independently", async () => {
+    const runner = new MigrationRunner("arangodb", [migration(1)]);
+    const [a, b] = [store(), store()];
+    await Promise.all([runner.run("a", a.target), runner.run("b", b.target)]);
+    assert.deepEqual([a.log, b.log], [["m1"], ["m1"]]);
+  });
+
+  it("stops at the first failure and lets the next run retry", async () => {
+    let fail = true;
+    const flaky: Migration<string[]> = { ...migration(2), up: (log) => (fail ? migration(2, true) : migration(2)).up(log) };
+    const runner = new MigrationRunner("mssql", [migration(1), flaky, migration(3)]);
+    const { target, log } = store();
+
+    await assert.rejects(runner.run("db", target), /^Error: Migration 2 \(m2\) failed on mssql database 'db': boom$/);
+    assert.deepEqual(log, ["m1"]);
+
+    fail = false;
+    assert.deepEqual((await runner.run("db", target)).applied.map((m) => m.version), [2, 3]);
+  });
+
+  it("refuses a database migrated by a newer server", async () => {
+    const runner = new MigrationRunner("mssql", [migration(1), migration(2)]);
+    const { target, log } = store([1, 2, 3]);
+    await assert.rejects(runner.run("db", target), /schema version 3, newer than this server \(2\)/);
+    assert.deepEqual(log, []);
+  });
+});
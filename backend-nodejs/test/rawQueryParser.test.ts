@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RAW_QUERY_MAX_ROWS, RAW_QUERY_TIMEOUT_MS, RawQueryParser } from "../src/services/RawQueryParser.js";
+
+describe("RawQueryParser", () => {
+  it("defaults to read-only with the configured caps", () => {
+    assert.deepEqual(RawQueryParser.parse({ query: "  MATCH (n) RETURN n  " }), {
+      query: "MATCH (n) RETURN n",
+      options: { params: {}, timeoutMs: RAW_QUERY_TIMEOUT_MS, maxRows: RAW_QUERY_MAX_ROWS, readOnly: true },
+    });
+  });
+
+  it("only lowers the caps", () => {
+    const { options } = RawQueryParser.parse({ query: "q", timeoutMs: 10, maxRows: RAW_QUERY_MAX_ROWS + 1, readOnly: false });
+    assert.deepEqual([options.timeoutMs, options.maxRows, options.readOnly], [10, RAW_QUERY_MAX_ROWS, false]);
+  });
+
+  it("accepts bind parameters and AQL collection parameters", () => {
+    const { options } = RawQueryParser.parse({ query: "q", params: { id: "a", "@coll": "graph_nodes" } });
+    assert.deepEqual(options.params, { id: "a", "@coll": "graph_nodes" });
+  });
+
+  it("rejects malformed bodies", () => {
+    assert.throws(() => RawQueryParser.parse({}), /missing 'query'/);
+    assert.throws(() => RawQueryParser.parse({ query: "q", readOnly: "no" }), /'readOnly' must be a boolean/);
+    assert.throws(() => RawQueryParser.parse({ query: "q", params: [1] }), /'params' must be an object/);
+    assert.throws(() => RawQueryParser.parse({ query: "q", params: { "a-b": 1 } }), /bad parameter name 'a-b'/);
+    assert.throws(() => RawQueryParser.parse({ query: "q", maxRows: 0 }), /'maxRows' must be a positive integer/);
+  });
+});
@@ -0,0 +1,75 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { RawQueryOptions } from "../src/models/graph.js";
+import { SqliteService } from "../src/services/SqliteService.js";
+
+const ENDLESS = "WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c) SELECT count(*) FROM c";
+
+describe("SqliteService.executeRawQuery", () => {
+  let dir: string;
+  let service: SqliteService;
+  const options = (extra: Partial<RawQueryOptions> = {}): RawQueryOptions =>
+    ({ params: {}, timeoutMs: 10_000, maxRows: 100, readOnly: true, ...extra });
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-query-"));
+    service = new SqliteService(dir);
+    await service.initialize();
+  });
+
+  after(async () => {
+    await service.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("binds parameters and caps the rows", async () => {
+    const result = await service.executeRawQuery(
+      "WITH RECURSIVE c(x) AS (SELECT @start UNION ALL SELECT x + 1 FROM c LIMIT 10) SELECT x FROM c",
+      options({ params: { start: 5 }, maxRows: 3 }),
+    );
+    assert.deepEqual([result.rows, result.truncated], [[{ x: 5 }, { x: 6 }, { x: 7 }], true]);
+  });
+
+  it("refuses writes in read-only mode", async () => {
+    await assert.rejects(service.executeRawQuery("DELETE FROM graphs", options()), /^Error: Read-only query/);
+  });
+
+  it("stops a query stuck in a single step on timeout", async () => {
+    const t0 = Date.now();
+    await assert.rejects(service.executeRawQuery(ENDLESS, options({ timeoutMs: 1500 })), /timed out after 1500 ms/);
+    assert.ok(Date.now() - t0 < 5000);
+  });
+
+  it("stops a running query when the signal aborts", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("Query cancelled")), 1500);
+    await assert.rejects(service.executeRawQuery(ENDLESS, options({ signal: controller.signal })), /Query cancelled/);
+  });
+});
+
+describe("SqliteService.addNodes", () => {
+  let dir: string;
+  let service: SqliteService;
+  const node = (id: string) => ({ id, label: id, node_type: "t", properties: {} });
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-nodes-"));
+    service = new SqliteService(dir);
+    await service.initialize();
+    await service.createGraph("g", "G", "", "flow", [node("a")], []);
+  });
+
+  after(async () => {
+    await service.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("rejects ids already present or repeated in the batch before writing", async () => {
+    await assert.rejects(service.addNodes("g", [node("b"), node("c"), node("b")]), /already exist.*: b$/);
+    await assert.rejects(service.addNodes("g", [node("d"), node("a")]), /already exist.*: a$/);
+    assert.deepEqual((await service.getGraph("g")).nodes.map((n) => n.id), ["a"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SubgraphFilterParser } from "../src/services/SubgraphFilterParser.js";
+
+describe("SubgraphFilterParser", () => {
+  it("parses text and object predicates", () => {
+    const filter = SubgraphFilterParser.parse({
+      node_types: "server",
+      where: ["properties.cout > 1000", "statut <> 'En production'", 'nom contains "SRV"', "actif = true"],
+      edge_where: { property: "properties.poids", op: "<=", value: 2 },
+    });
+    assert.deepEqual(filter, {
+      node_types: ["server"],
+      edge_types: undefined,
+      where: [
+        { property: "cout", op: ">", value: 1000 },
+        { property: "statut", op: "!=", value: "En production" },
+        { property: "nom", op: "contains", value: "SRV" },
+        { property: "actif", op: "=", value: true },
+      ],
+      edge_where: [{ property: "poids", op: "<=", value: 2 }],
+    });
+  });
+
+  it("rejects malformed filters", () => {
+    assert.throws(() => SubgraphFilterParser.parse(null), /expected a JSON object/);
+    assert.throws(() => SubgraphFilterParser.parse({ node_types: [1] }), /'node_types' must be a string/);
+    assert.throws(() => SubgraphFilterParser.parse({ where: "cout >" }), /cannot parse predicate/);
+    assert.throws(() => SubgraphFilterParser.parse({ where: "nom = SRV" }), /quote strings/);
+    assert.throws(() => SubgraphFilterParser.parse({ where: "actif > true" }), /booleans only support = and !=/);
+    assert.throws(
+      () => SubgraphFilterParser.parse({ where: { property: "a.b", op: "=", value: 1 } }),
+      /bad predicate in 'where'/,
+    );
+  });
+
+  it("evaluates predicates with typed comparisons", () => {
+    const match = (properties: Record<string, any>, expression: string) =>
+      SubgraphFilterParser.matches(properties, SubgraphFilterParser.parsePredicate(expression));
+
+    assert.equal(match({ cout: 1500 }, "cout > 1000"), true);
+    assert.equal(match({ cout: "1500" }, "cout > 1000"), true);
+    assert.equal(match({ cout: "n/a" }, "cout > 1000"), false);
+    assert.equal(match({ actif: true }, "actif = true"), true);
+    assert.equal(match({ actif: "true" }, "actif = true"), false);
+    assert.equal(match({ nom: "SRV-01" }, "nom contains 'SRV'"), true);
+    assert.equal(match({ nom: "O'Brien" }, "nom = 'O''Brien'"), true);
+    assert.equal(match({ cout: { total: 1500 } }, "cout > 1000"), false);
+    assert.equal(match({}, "cout != 3"), false);
+  });
+});
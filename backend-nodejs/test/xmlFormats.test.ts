@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphExportDocument } from "../src/models/graph.js";
+import { GexfCodec } from "../src/services/GexfCodec.js";
+import { GraphMLCodec } from "../src/services/GraphMLCodec.js";
+
+const doc: GraphExportDocument = {
+  graph: { id: "g1", title: "Réseau <prod>", description: "Liens & serveurs", graph_type: "network" },
+  data: {
+    nodes: [
+      { id: "srv-1", label: 'Serveur "A"', node_type: "server", properties: { cpu: 8, load: 0.75, active: true, tags: ["a", "b"], label: "clash" } },
+      { id: "srv-2", label: "Serveur B", node_type: "server", properties: { cpu: 4 } },
+      { id: "db", label: "Base", node_type: "database", properties: {} },
+    ],
+    edges: [
+      { id: "e1", source: "srv-1", target: "db", label: "sql", edge_type: "uses", properties: { weight: 3 } },
+      { id: "e2", source: "srv-2", target: "db", edge_type: "uses", properties: {} },
+    ],
+  },
+  positions: { "srv-1": { x: 10, y: -20.5 }, db: { x: 0, y: 0 } },
+};
+
+for (const [name, codec] of [["GraphMLCodec", GraphMLCodec], ["GexfCodec", GexfCodec]] as const) {
+  describe(name, () => {
+    it("round-trips nodes, typed properties, edges and positions", () => {
+      const parsed = codec.decode(codec.encode(doc));
+      assert.deepEqual(
+        parsed.nodes.map((n) => [n.id, n.label, n.node_type, n.properties]),
+        [
+          ["srv-1", 'Serveur "A"', "server", { cpu: 8, load: 0.75, active: true, tags: '["a","b"]', label: "clash" }],
+          ["srv-2", "Serveur B", "server", { cpu: 4 }],
+          ["db", "Base", "database", {}],
+        ],
+      );
+      assert.deepEqual(
+        parsed.edges.map((e) => [e.source, e.target, e.label, e.edge_type, e.properties]),
+        [
+          ["srv-1", "db", "sql", "uses", { weight: 3 }],
+          ["srv-2", "db", undefined, "uses", {}],
+        ],
+      );
+      assert.deepEqual(parsed.positions, doc.positions);
+    });
+
+    it("rejects malformed XML with line and column", () => {
+      const broken = codec.encode(doc).replace("</graph>", "</grap>");
+      assert.throws(() => codec.decode(broken), /^Error: Invalid (graphml|gexf): line \d+, column \d+: /);
+    });
+  });
+}
+
+describe("GraphMLCodec", () => {
+  it("keeps title, description and graph_type", () => {
+    const parsed = GraphMLCodec.decode(GraphMLCodec.encode(doc));
+    assert.deepEqual([parsed.title, parsed.description, parsed.graph_type], ["Réseau <prod>", "Liens & serveurs", "network"]);
+  });
+
+  it("flattens yEd group nodes into a group property", () => {
+    const parsed = GraphMLCodec.decode(`<?xml version="1.0"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <graph id="G" edgedefault="directed">
+    <node id="zone"><graph id="zone:"><node id="a"/><node id="b"/></graph></node>
+    <node id="c"/>
+    <edge source="a" target="c"/>
+  </graph>
+</graphml>`);
+    assert.deepEqual(
+      parsed.nodes.map((n) => [n.id, n.properties.group]),
+      [["zone", undefined], ["a", "zone"], ["b", "zone"], ["c", undefined]],
+    );
+  });
+
+  it("rejects duplicate node ids and dangling edges", () => {
+    const graph = (body: string) =>
+      `<graphml xmlns="http://graphml.graphdrawing.org/xmlns"><graph id="G">${body}</graph></graphml>`;
+    assert.throws(() => GraphMLCodec.decode(graph(`<node id="a"/><node id="a"/>`)), /duplicate node id 'a'/);
+    assert.throws(() => GraphMLCodec.decode(graph(`<node id="a"/><edge source="a" target="z"/>`)), /unknown node 'z'/);
+  });
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { GraphList } from './components/GraphList';
 import { GraphViewer } from './components/GraphViewer';
 import SigmaGraphViewer from './components/SigmaGraphViewer';
@@ -14,9 +14,11 @@ import LoadBenchmarkPanel from './components/LoadBenchmarkPanel';
 import { OptimPanel } from './components/OptimPanel';
 import ExportPanel from './components/ExportPanel';
 import GraphFormModal from './components/GraphFormModal';
-import { graphApi, databaseApi, engineApi, cmdbApi, Database } from './services/api';
+import GraphDiffBar from './components/GraphDiffBar';
+import { graphApi, databaseApi, engineApi, cmdbApi, Database, GraphExportFormat, GraphStreamProgress } from './services/api';
+import { nodePositionCache } from './services/nodePositionCache';
 import { transformGraphData } from './services/graphTransform';
-import { GraphSummary, ForceGraphData, GraphData } from './types/graph';
+import { GraphSummary, ForceGraphData, GraphData, GraphDiff, GraphListQuery, GraphMetadataUpdate } from './types/graph';
 import { useTheme } from './hooks/useTheme';
 import { useWebSocket, WsMessage } from './hooks/useWebSocket';
 import './App.css';
@@ -24,8 +26,23 @@ import './App.css';
 type ViewerType = 'force-graph' | '3d' | 'sigma' | 'g6' | 'd3' | 'cytoscape' | 'vis-network' | 'impact' | 'query' | 'algorithms' | 'benchmark';
 type LoadMode = 'sql' | 'cache' | 'json';
 
+/** Au-delà de ce nombre de nœuds, le graphe est chargé en NDJSON et affiché au fil des pages */
+const STREAM_THRESHOLD = 10000;
+/** Intervalle minimal entre deux rendus intermédiaires pendant un chargement NDJSON */
+const STREAM_RENDER_INTERVAL_MS = 300;
+/** Graphes chargés par page dans la liste (défilement infini) */
+const GRAPH_PAGE_SIZE = 50;
+
 function App() {
   const [graphs, setGraphs] = useState<GraphSummary[]>([]);
+  const [graphQuery, setGraphQuery] = useState<GraphListQuery>({ sort: 'created_at', order: 'desc' });
+  // Lu par loadGraphs, aussi appelée depuis le handler WebSocket (closure du premier rendu)
+  const graphQueryRef = useRef(graphQuery);
+  const [graphTotal, setGraphTotal] = useState(0);
+  const [graphCursor, setGraphCursor] = useState<string | null>(null);
+  const [loadingMoreGraphs, setLoadingMoreGraphs] = useState(false);
+  // Numéro de la liste affichée : ignore les pages demandées pour un tri / filtre / moteur abandonné
+  const graphListSeqRef = useRef(0);
   const [selectedGraphId, setSelectedGraphId] = useState<string | null>(null);
   const [graphData, setGraphData] = useState<ForceGraphData | null>(null);
   const [rawGraphData, setRawGraphData] = useState<GraphData | null>(null);
@@ -43,13 +60,16 @@ function App() {
   const [loadMode, setLoadMode] = useState<LoadMode>('cache');
   const [lastLoadTime, setLastLoadTime] = useState<number | null>(null);
   const [lastLoadSource, setLastLoadSource] = useState<string>('');
+  const [graphDiff, setGraphDiff] = useState<GraphDiff | null>(null);
+  // Numéro du dernier chargement : ignore les pages d'un flux devenu obsolète (changement de graphe)
+  const loadSeqRef = useRef(0);
 
   // ── Theme toggle ──
   const { theme, toggleTheme } = useTheme();
 
-  // ── WebSocket — rafraîchir la liste quand un graphe est créé/supprimé ──
+  // ── WebSocket — rafraîchir la liste quand un graphe est créé/supprimé/modifié ──
   const handleWsMessage = useCallback((msg: WsMessage) => {
-    if (msg.type === 'graph:created' || msg.type === 'graph:deleted') {
+    if (msg.type === 'graph:created' || msg.type === 'graph:deleted' || msg.type === 'graph:updated') {
       // Recharger la liste si le message concerne la même engine/database
       loadGraphs();
     }
@@ -70,6 +90,11 @@ function App() {
     }
   }, [selectedEngine]);
 
+  // Le diff affiché dans Sigma ne vaut que pour le graphe sélectionné
+  useEffect(() => {
+    setGraphDiff(null);
+  }, [selectedGraphId, selectedDatabase]);
+
   // Recharger les graphes quand la database change
   useEffect(() => {
     if (selectedDatabase) {
@@ -110,16 +135,27 @@ function App() {
     }
   };
 
-  const loadGraphs = async () => {
+  // Première page de la liste ; selectFirst = false pour un simple changement de tri / filtre
+  const loadGraphs = async (query: GraphListQuery = graphQueryRef.current, selectFirst = true) => {
+    const listSeq = ++graphListSeqRef.current;
     try {
       setLoading(true);
       setError(null);
-      const data = await graphApi.listGraphs(selectedDatabase, selectedEngine as any);
+      const page = await graphApi.listGraphsPage(
+        { ...query, limit: GRAPH_PAGE_SIZE },
+        selectedDatabase,
+        selectedEngine as any,
+      );
+      if (graphListSeqRef.current !== listSeq) return;
+      const data = page.graphs;
       // Dédoublonner par id (les doublons peuvent exister côté DB)
       const seen = new Set<string>();
       const uniqueData = data.filter(g => { if (seen.has(g.id)) return false; seen.add(g.id); return true; });
       setGraphs(uniqueData);
-      
+      setGraphTotal(page.total);
+      setGraphCursor(page.nextCursor);
+      if (!selectFirst) return;
+
       // Sélectionner automatiquement le premier graphe (example)
       if (data.length > 0) {
         const exampleGraph = data.find(g => g.id === 'example') || data[0];
@@ -130,14 +166,49 @@ function App() {
         setRawGraphData(null);
       }
     } catch (err) {
+      if (graphListSeqRef.current !== listSeq) return;
       console.error('Failed to load graphs:', err);
       setError('Failed to connect to backend. Make sure the server is running on http://127.0.0.1:8080');
     } finally {
-      setLoading(false);
+      if (graphListSeqRef.current === listSeq) setLoading(false);
+    }
+  };
+
+  // Page suivante, ajoutée à la liste (défilement infini de GraphList)
+  const loadMoreGraphs = async () => {
+    if (!graphCursor || loadingMoreGraphs) return;
+    // Le curseur n'est valable que pour la liste affichée : une réponse arrivée après un
+    // changement de tri ou de filtre est ignorée, sinon son curseur remplacerait le bon
+    const listSeq = graphListSeqRef.current;
+    setLoadingMoreGraphs(true);
+    try {
+      const page = await graphApi.listGraphsPage(
+        { ...graphQuery, limit: GRAPH_PAGE_SIZE, cursor: graphCursor },
+        selectedDatabase,
+        selectedEngine as any,
+      );
+      if (graphListSeqRef.current !== listSeq) return;
+      setGraphs(prev => {
+        const seen = new Set(prev.map(g => g.id));
+        return [...prev, ...page.graphs.filter(g => !seen.has(g.id))];
+      });
+      setGraphTotal(page.total);
+      setGraphCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more graphs:', err);
+    } finally {
+      setLoadingMoreGraphs(false);
     }
   };
 
+  const handleGraphQueryChange = (query: GraphListQuery) => {
+    graphQueryRef.current = query;
+    setGraphQuery(query);
+    loadGraphs(query, false);
+  };
+
   const handleSelectGraph = async (id: string) => {
+    const loadSeq = ++loadSeqRef.current;
     try {
       setSelectedGraphId(id);
       setGraphLoading(true);
@@ -161,9 +232,28 @@ function App() {
       // Mode SQL : forcer nocache pour requêter la BDD à chaque fois
       // Mode Cache : utiliser le cache backend (comportement par défaut)
       const nocache = loadMode === 'sql';
+      // Gros graphe : rendu progressif à mesure que les pages NDJSON arrivent
+      const streaming = (selectedGraph?.node_count ?? 0) > STREAM_THRESHOLD;
+      let lastRender = 0;
+      const onProgress = ({ data, totalNodes, totalEdges }: GraphStreamProgress) => {
+        if (loadSeqRef.current !== loadSeq) return;
+        const now = performance.now();
+        if (now - lastRender < STREAM_RENDER_INTERVAL_MS) return;
+        lastRender = now;
+        const partial = { nodes: [...data.nodes], edges: [...data.edges] };
+        setRawGraphData(partial);
+        setGraphData(transformGraphData(partial.nodes, partial.edges));
+        setLastLoadSource(`Streaming ${partial.nodes.length}/${totalNodes} nœuds, ${partial.edges.length}/${totalEdges} arêtes`);
+        setGraphLoading(false);
+      };
       const t0 = performance.now();
-      const result = await graphApi.getGraph(id, selectedDatabase, { nocache, engine: selectedEngine as any });
+      const result = await graphApi.getGraph(id, selectedDatabase, {
+        nocache,
+        engine: selectedEngine as any,
+        onProgress: streaming ? onProgress : undefined,
+      });
       const elapsed = Math.round(performance.now() - t0);
+      if (loadSeqRef.current !== loadSeq) return;
 
       // Envoyer le résultat au panneau d'optimisations
       (window as any).__optimSetLastLoad?.(result);
@@ -172,18 +262,21 @@ function App() {
       setGraphData(transformedData);
 
       setLastLoadTime(elapsed);
-      if (loadMode === 'sql') {
+      if (streaming) {
+        setLastLoadSource(`Streaming NDJSON (${result.data.nodes.length} nœuds, ${result.data.edges.length} arêtes)`);
+      } else if (loadMode === 'sql') {
         setLastLoadSource(`SQL direct (${result.responseTimeHeader || elapsed + 'ms'} serveur, nocache)`);
       } else {
         setLastLoadSource(`Cache ${result.cacheStatus} (${result.responseTimeHeader || elapsed + 'ms'} serveur)`);
       }
     } catch (err) {
       console.error('Failed to load graph:', err);
+      if (loadSeqRef.current !== loadSeq) return;
       setError('Failed to load graph data');
       setGraphData(null);
       setRawGraphData(null);
     } finally {
-      setGraphLoading(false);
+      if (loadSeqRef.current === loadSeq) setGraphLoading(false);
     }
   };
 
@@ -203,6 +296,33 @@ function App() {
     }
   };
 
+  const handleUpdateGraphMetadata = async (id: string, update: GraphMetadataUpdate) => {
+    try {
+      const graph = await graphApi.updateGraphMetadata(id, update, selectedDatabase, selectedEngine as any);
+      setGraphs(prev => prev.map(g => (g.id === id ? { ...g, ...graph } : g)));
+    } catch (err: any) {
+      console.error('Failed to update graph metadata:', err);
+      setError(err?.response?.data?.error || 'Échec de la mise à jour du graphe');
+    }
+  };
+
+  // Export GraphML / GEXF / Mermaid avec les positions mémorisées par le viewer (nodePositionCache, ignorées en Mermaid)
+  const handleExportGraph = async (id: string, format: GraphExportFormat) => {
+    try {
+      const positions = nodePositionCache.getGraphPositions(id);
+      const { blob, filename } = await graphApi.exportGraph(id, format, positions, selectedDatabase, selectedEngine as any);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = filename;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Failed to export graph:', err);
+      setError(err?.response?.data?.error || "Échec de l'export du graphe");
+    }
+  };
+
   const handleDeduplicateGraphs = async () => {
     // Garder le premier occurrence de chaque titre, supprimer les suivantes
     const seen = new Map<string, string>(); // title → first id kept
@@ -407,7 +527,7 @@ function App() {
       {error && (
         <div className="error-banner">
           <span> {error}</span>
-          <button onClick={loadGraphs}>Retry</button>
+          <button onClick={() => loadGraphs()}>Retry</button>
         </div>
       )}
 
@@ -419,6 +539,14 @@ function App() {
           loading={loading}
           onCreateGraph={() => setShowCreateModal(true)}
           onDeleteGraph={handleDeleteGraph}
+          onUpdateGraphMetadata={handleUpdateGraphMetadata}
+          onExportGraph={handleExportGraph}
+          query={graphQuery}
+          onQueryChange={handleGraphQueryChange}
+          total={graphTotal}
+          hasMore={graphCursor !== null}
+          loadingMore={loadingMoreGraphs}
+          onLoadMore={loadMoreGraphs}
             onDeduplicateGraphs={graphs.some((g, i) => graphs.findIndex(x => x.title.trim().toLowerCase() === g.title.trim().toLowerCase()) !== i) ? handleDeduplicateGraphs : undefined}
         />
         {viewerType === 'force-graph' ? (
@@ -449,7 +577,23 @@ function App() {
                 <p>Chargement du graphe...</p>
               </div>
             ) : (
-              <SigmaGraphViewer data={rawGraphData} graphId={selectedGraphId || undefined} />
+              <>
+                <GraphDiffBar
+                  graphId={selectedGraphId || undefined}
+                  graphs={graphs}
+                  database={selectedDatabase || undefined}
+                  engine={selectedEngine || undefined}
+                  diff={graphDiff}
+                  onDiffChange={setGraphDiff}
+                />
+                <SigmaGraphViewer
+                  data={rawGraphData}
+                  graphId={selectedGraphId || undefined}
+                  diff={graphDiff}
+                  database={selectedDatabase || undefined}
+                  engine={selectedEngine || undefined}
+                />
+              </>
             )}
           </div>
         ) : viewerType === 'd3' ? (
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GraphEdge, GraphNode } from '../types/graph';
+import { CsvGraphPreview, CsvMapping, CsvTable, buildCsvGraph, guessMapping, parseCsv } from '../services/csvImport';
+import './CsvImportFields.css';
+
+interface CsvImportFieldsProps {
+  // Nœuds / arêtes prêts à créer, ou null tant que le contrôle bloque
+  onChange: (data: { nodes: GraphNode[]; edges: GraphEdge[] } | null) => void;
+}
+
+// Arêtes orphelines affichées au plus dans l'aperçu
+const MAX_DANGLING_SHOWN = 20;
+
+const NODE_FIELDS: Array<{ field: keyof CsvMapping; label: string; required?: boolean }> = [
+  { field: 'id', label: 'id', required: true },
+  { field: 'label', label: 'label' },
+  { field: 'node_type', label: 'node_type' },
+];
+
+const EDGE_FIELDS: Array<{ field: keyof CsvMapping; label: string; required?: boolean }> = [
+  { field: 'source', label: 'source', required: true },
+  { field: 'target', label: 'target', required: true },
+  { field: 'edge_type', label: 'edge_type' },
+];
+
+/** Onglet CSV de GraphFormModal : fichiers nœuds / arêtes, mapping des colonnes et aperçu de contrôle. */
+const CsvImportFields: React.FC<CsvImportFieldsProps> = ({ onChange }) => {
+  const [nodesTable, setNodesTable] = useState<(CsvTable & { name: string }) | null>(null);
+  const [edgesTable, setEdgesTable] = useState<(CsvTable & { name: string }) | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessMapping(null, null));
+  const [ignoreDangling, setIgnoreDangling] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const readFile = (kind: 'nodes' | 'edges') => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    const setTable = kind === 'nodes' ? setNodesTable : setEdgesTable;
+    if (!selected) {
+      setTable(null);
+      return;
+    }
+    try {
+      const table = { ...parseCsv(await selected.text()), name: selected.name };
+      setTable(table);
+      setFileError(null);
+      // Nouveau fichier : mapping re-deviné pour ses colonnes
+      const guess = kind === 'nodes' ? guessMapping(table, null) : guessMapping(null, table);
+      setMapping((m) => (kind === 'nodes'
+        ? { ...m, id: guess.id, label: guess.label, node_type: guess.node_type }
+        : { ...m, source: guess.source, target: guess.target, edge_type: guess.edge_type }));
+    } catch (err: any) {
+      setTable(null);
+      setFileError(`${selected.name} : ${err.message}`);
+    }
+  };
+
+  const preview = useMemo((): CsvGraphPreview | { failure: string } | null => {
+    if (!nodesTable) return null;
+    try {
+      return buildCsvGraph(nodesTable, edgesTable, mapping);
+    } catch (err: any) {
+      return { failure: err.message };
+    }
+  }, [nodesTable, edgesTable, mapping]);
+
+  useEffect(() => {
+    if (!preview || 'failure' in preview || preview.errors.length > 0 || preview.nodes.length === 0) {
+      onChange(null);
+    } else if (preview.dangling.length > 0 && !ignoreDangling) {
+      onChange(null);
+    } else {
+      onChange({ nodes: preview.nodes, edges: preview.edges });
+    }
+  }, [preview, ignoreDangling, onChange]);
+
+  const mappingSelect = (table: CsvTable | null, field: keyof CsvMapping, label: string, required?: boolean) => (
+    <label key={field}>
+      {label}{required ? ' *' : ''}
+      <select
+        value={mapping[field]}
+        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+        disabled={!table}
+      >
+        {!required && <option value="">(aucune)</option>}
+        {table?.headers.map((h) => <option key={h} value={h}>{h}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="csv-import">
+      {fileError && <div className="form-error">{fileError}</div>}
+
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="csv-nodes">Nœuds (CSV) *</label>
+          <input id="csv-nodes" type="file" accept=".csv,.tsv,.txt" onChange={readFile('nodes')} />
+          {nodesTable && <div className="file-info">{nodesTable.name} — {nodesTable.rows.length} lignes</div>}
+        </div>
+        <div className="form-group">
+          <label htmlFor="csv-edges">Arêtes (CSV)</label>
+          <input id="csv-edges" type="file" accept=".csv,.tsv,.txt" onChange={readFile('edges')} />
+          {edgesTable && <div className="file-info">{edgesTable.name} — {edgesTable.rows.length} lignes</div>}
+        </div>
+      </div>
+
+      {nodesTable && (
+        <div className="csv-mapping">
+          <div className="csv-mapping-group">
+            {NODE_FIELDS.map((f) => mappingSelect(nodesTable, f.field, f.label, f.required))}
+          </div>
+          {edgesTable && (
+            <div className="csv-mapping-group">
+              {EDGE_FIELDS.map((f) => mappingSelect(edgesTable, f.field, f.label, f.required))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {preview && 'failure' in preview && <div className="form-error">{preview.failure}</div>}
+      {preview && !('failure' in preview) && (
+        <div className="csv-preview">
+          <div>
+            <strong>{preview.nodes.length.toLocaleString()}</strong> nœuds,{' '}
+            <strong>{preview.edges.length.toLocaleString()}</strong> arêtes
+          </div>
+          {preview.nodeColumns.length + preview.edgeColumns.length > 0 && (
+            <div className="csv-columns">
+              Propriétés :{' '}
+              {[...preview.nodeColumns, ...preview.edgeColumns].map((c, i) => (
+                <span key={i} className="csv-column" title={c.type}>{c.name} <em>{c.type}</em></span>
+              ))}
+            </div>
+          )}
+          {preview.errors.length > 0 && (
+            <ul className="csv-errors">
+              {preview.errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+          {preview.dangling.length > 0 && (
+            <>
+              <div className="csv-dangling-title">
+                {preview.dangling.length} arête(s) vers des nœuds inexistants :
+              </div>
+              <ul className="csv-errors">
+                {preview.dangling.slice(0, MAX_DANGLING_SHOWN).map((d) => (
+                  <li key={d.line}>
+                    ligne {d.line} : {d.source} → {d.target} (absent : {d.missing.join(', ')})
+                  </li>
+                ))}
+                {preview.dangling.length > MAX_DANGLING_SHOWN && (
+                  <li>… {preview.dangling.length - MAX_DANGLING_SHOWN} autre(s)</li>
+                )}
+              </ul>
+              <label className="csv-ignore">
+                <input type="checkbox" checked={ignoreDangling} onChange={(e) => setIgnoreDangling(e.target.checked)} />
+                Créer sans ces arêtes
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImportFields;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { graphApi, EngineType } from '../services/api';
+import { GraphDiff, GraphSummary, GraphVersion } from '../types/graph';
+import './GraphDiffBar.css';
+
+interface GraphDiffBarProps {
+  graphId?: string;
+  graphs: GraphSummary[];
+  database?: string;
+  engine?: string;
+  diff: GraphDiff | null;
+  onDiffChange: (diff: GraphDiff | null) => void;
+}
+
+/** Barre de comparaison : graphe courant vs une de ses versions ou un autre graphe. */
+const GraphDiffBar: React.FC<GraphDiffBarProps> = ({ graphId, graphs, database, engine, diff, onDiffChange }) => {
+  const [versions, setVersions] = useState<GraphVersion[]>([]);
+  const [against, setAgainst] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAgainst('');
+    setError(null);
+    setVersions([]);
+    if (!graphId) return;
+    graphApi.listVersions(graphId, database, engine as EngineType)
+      .then(setVersions)
+      .catch(() => setVersions([]));
+  }, [graphId, database, engine]);
+
+  const handleCompare = async () => {
+    if (!graphId || !against) return;
+    setLoading(true);
+    setError(null);
+    try {
+      onDiffChange(await graphApi.diffGraph(graphId, against, database, engine as EngineType));
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err.message || 'Diff failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!graphId) return null;
+
+  return (
+    <div className="graph-diff-bar">
+      <i className="bi bi-intersect"></i>
+      <select value={against} onChange={(e) => setAgainst(e.target.value)} disabled={loading}>
+        <option value="">Comparer avec…</option>
+        {versions.length > 0 && (
+          <optgroup label="Versions">
+            {versions.map((v) => (
+              <option key={v.version} value={String(v.version)}>
+                v{v.version} — {v.change} ({new Date(v.created_at).toLocaleString()})
+              </option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="Graphes">
+          {graphs.filter((g) => g.id !== graphId).map((g) => (
+            <option key={g.id} value={g.id}>{g.title}</option>
+          ))}
+        </optgroup>
+      </select>
+      <button className="graph-diff-btn" onClick={handleCompare} disabled={!against || loading}>
+        {loading ? '⏳' : 'Diff'}
+      </button>
+      {diff && (
+        <button className="graph-diff-btn" onClick={() => onDiffChange(null)} title="Quitter le mode diff">
+          ✕
+        </button>
+      )}
+      {error && <span className="graph-diff-error">{error}</span>}
+    </div>
+  );
+};
+
+export default GraphDiffBar;
@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
-import { graphApi, EngineType } from '../services/api';
+import { graphApi, EngineType, GraphExchangeFormat } from '../services/api';
+import { nodePositionCache } from '../services/nodePositionCache';
+import { GraphEdge, GraphNode } from '../types/graph';
+import CsvImportFields from './CsvImportFields';
 import './GraphFormModal.css';
 
 interface GraphFormModalProps {
@@ -21,6 +24,23 @@ const SAMPLE_MERMAID = `graph TD
     E --> I[Main DB]
     H --> I`;
 
+// Extensions acceptées pour l'import de fichier → format envoyé à POST /graphs
+const FILE_FORMATS: Record<string, GraphExchangeFormat> = {
+  graphml: 'graphml',
+  xml: 'graphml',
+  gexf: 'gexf',
+  dot: 'dot',
+  gv: 'dot',
+};
+
+type GraphSource = 'mermaid' | 'file' | 'csv';
+
+const SOURCES: Array<{ value: GraphSource; label: string }> = [
+  { value: 'mermaid', label: 'Mermaid' },
+  { value: 'file', label: 'Fichier GraphML / GEXF / DOT' },
+  { value: 'csv', label: 'CSV nœuds / arêtes' },
+];
+
 const GRAPH_TYPES = [
   'flowchart',
   'dependency',
@@ -42,38 +62,85 @@ const GraphFormModal: React.FC<GraphFormModalProps> = ({
   const [description, setDescription] = useState('');
   const [graphType, setGraphType] = useState('flowchart');
   const [mermaidCode, setMermaidCode] = useState('');
+  const [source, setSource] = useState<GraphSource>('mermaid');
+  const [file, setFile] = useState<{ name: string; format: GraphExchangeFormat; content: string } | null>(null);
+  const [typeAttribute, setTypeAttribute] = useState('');
+  const [csvData, setCsvData] = useState<{ nodes: GraphNode[]; edges: GraphEdge[] } | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!title.trim()) {
-      setError('Le titre est requis');
-      return;
-    }
-    if (!mermaidCode.trim()) {
-      setError('Le code Mermaid est requis');
-      return;
+    if (source === 'file') {
+      if (!file) {
+        setError('Choisir un fichier GraphML, GEXF ou DOT');
+        return;
+      }
+    } else {
+      if (!title.trim()) {
+        setError('Le titre est requis');
+        return;
+      }
+      if (source === 'mermaid' && !mermaidCode.trim()) {
+        setError('Le code Mermaid est requis');
+        return;
+      }
+      if (source === 'csv' && !csvData) {
+        setError('Choisir le fichier des nœuds et corriger les erreurs signalées');
+        return;
+      }
     }
 
     setSubmitting(true);
     setError(null);
     try {
-      await graphApi.createGraph(
-        {
-          title: title.trim(),
-          description: description.trim() || title.trim(),
-          graph_type: graphType,
-          mermaid_code: mermaidCode.trim(),
-        },
-        database,
-        engine as EngineType,
-      );
+      if (source === 'file' && file) {
+        // Titre, description et type vides → valeurs du fichier
+        const created = await graphApi.createGraph(
+          {
+            title: title.trim(),
+            description: description.trim(),
+            graph_type: graphType,
+            format: file.format,
+            content: file.content,
+            type_attribute: file.format === 'dot' && typeAttribute.trim() ? typeAttribute.trim() : undefined,
+          },
+          database,
+          engine as EngineType,
+        );
+        if (created.positions) nodePositionCache.setGraphPositions(created.id, created.positions);
+      } else if (source === 'csv' && csvData) {
+        await graphApi.createGraph(
+          {
+            title: title.trim(),
+            description: description.trim() || title.trim(),
+            graph_type: graphType,
+            nodes: csvData.nodes,
+            edges: csvData.edges,
+          },
+          database,
+          engine as EngineType,
+        );
+      } else {
+        await graphApi.createGraph(
+          {
+            title: title.trim(),
+            description: description.trim() || title.trim(),
+            graph_type: graphType,
+            mermaid_code: mermaidCode.trim(),
+          },
+          database,
+          engine as EngineType,
+        );
+      }
       // Reset form
       setTitle('');
       setDescription('');
       setGraphType('flowchart');
       setMermaidCode('');
+      setSource('mermaid');
+      setFile(null);
+      setCsvData(null);
       onCreated();
       onClose();
     } catch (err: any) {
@@ -83,6 +150,26 @@ const GraphFormModal: React.FC<GraphFormModalProps> = ({
     }
   };
 
+  const changeSource = (next: GraphSource) => {
+    setSource(next);
+    setError(null);
+    // Fichier : type du fichier par défaut
+    setGraphType(next === 'file' ? '' : 'flowchart');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    const format = FILE_FORMATS[selected.name.split('.').pop()?.toLowerCase() ?? ''];
+    if (!format) {
+      setError('Format non reconnu (.graphml, .gexf, .dot, .gv)');
+      setFile(null);
+      return;
+    }
+    setError(null);
+    setFile({ name: selected.name, format, content: await selected.text() });
+  };
+
   const loadTemplate = () => {
     setMermaidCode(SAMPLE_MERMAID);
     if (!title) setTitle('Sample Architecture');
@@ -104,14 +191,14 @@ const GraphFormModal: React.FC<GraphFormModalProps> = ({
 
           <div className="form-row">
             <div className="form-group">
-              <label htmlFor="graph-title">Titre *</label>
+              <label htmlFor="graph-title">Titre{source !== 'file' ? ' *' : ''}</label>
               <input
                 id="graph-title"
                 type="text"
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
-                placeholder="Mon graphe"
-                required
+                placeholder={source === 'file' ? 'Titre du fichier' : 'Mon graphe'}
+                required={source !== 'file'}
                 autoFocus
               />
             </div>
@@ -122,6 +209,7 @@ const GraphFormModal: React.FC<GraphFormModalProps> = ({
                 value={graphType}
                 onChange={(e) => setGraphType(e.target.value)}
               >
+                {source === 'file' && <option value="">(du fichier)</option>}
                 {GRAPH_TYPES.map((t) => (
                   <option key={t} value={t}>{t}</option>
                 ))}
@@ -140,23 +228,62 @@ const GraphFormModal: React.FC<GraphFormModalProps> = ({
             />
           </div>
 
-          <div className="form-group">
-            <div className="label-row">
-              <label htmlFor="graph-mermaid">Code Mermaid *</label>
-              <button type="button" className="template-btn" onClick={loadTemplate}>
-                Charger template
+          <div className="source-toggle">
+            {SOURCES.map((s) => (
+              <button
+                key={s.value}
+                type="button"
+                className={source === s.value ? 'active' : ''}
+                onClick={() => changeSource(s.value)}
+              >
+                {s.label}
               </button>
-            </div>
-            <textarea
-              id="graph-mermaid"
-              value={mermaidCode}
-              onChange={(e) => setMermaidCode(e.target.value)}
-              placeholder="graph TD&#10;    A[Node A] --> B[Node B]&#10;    B --> C[Node C]"
-              rows={12}
-              required
-            />
+            ))}
           </div>
 
+          {source === 'csv' ? (
+            <CsvImportFields onChange={setCsvData} />
+          ) : source === 'mermaid' ? (
+            <div className="form-group">
+              <div className="label-row">
+                <label htmlFor="graph-mermaid">Code Mermaid *</label>
+                <button type="button" className="template-btn" onClick={loadTemplate}>
+                  Charger template
+                </button>
+              </div>
+              <textarea
+                id="graph-mermaid"
+                value={mermaidCode}
+                onChange={(e) => setMermaidCode(e.target.value)}
+                placeholder="graph TD&#10;    A[Node A] --> B[Node B]&#10;    B --> C[Node C]"
+                rows={12}
+                required
+              />
+            </div>
+          ) : (
+            <div className="form-group">
+              <label htmlFor="graph-file">Fichier * (yEd, Gephi, Cytoscape, Graphviz)</label>
+              <input id="graph-file" type="file" accept=".graphml,.gexf,.xml,.dot,.gv" onChange={handleFile} />
+              {file && (
+                <div className="file-info">
+                  {file.name} — {file.format.toUpperCase()}, {(file.content.length / 1024).toFixed(1)} Ko
+                </div>
+              )}
+              {file?.format === 'dot' && (
+                <>
+                  <label htmlFor="graph-type-attribute">Type des nœuds lu dans l'attribut</label>
+                  <input
+                    id="graph-type-attribute"
+                    type="text"
+                    value={typeAttribute}
+                    onChange={(e) => setTypeAttribute(e.target.value)}
+                    placeholder="class, shape"
+                  />
+                </>
+              )}
+            </div>
+          )}
+
           <div className="form-actions">
             <button type="button" className="btn-cancel" onClick={onClose} disabled={submitting}>
               Annuler
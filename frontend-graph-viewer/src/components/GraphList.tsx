@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import { GraphSummary } from '../types/graph';
+import React, { useMemo, useState } from 'react';
+import { GraphListQuery, GraphMetadataUpdate, GraphSummary } from '../types/graph';
+import { GraphExportFormat } from '../services/api';
 import './GraphList.css';
 
 interface GraphListProps {
@@ -10,8 +11,41 @@ interface GraphListProps {
   onCreateGraph?: () => void;
   onDeleteGraph?: (id: string, title: string) => void;
   onDeduplicateGraphs?: () => void;
+  onUpdateGraphMetadata?: (id: string, update: GraphMetadataUpdate) => Promise<void>;
+  onExportGraph?: (id: string, format: GraphExportFormat) => void;
+  // Tri et filtre par tag appliqués par le serveur
+  query: GraphListQuery;
+  onQueryChange: (query: GraphListQuery) => void;
+  total: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
 }
 
+// Clé du groupe des graphes sans dossier
+const ROOT_FOLDER = '';
+
+// Options du tri ("champ:ordre")
+const SORT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'created_at:desc', label: 'Plus récents' },
+  { value: 'created_at:asc', label: 'Plus anciens' },
+  { value: 'title:asc', label: 'Titre A → Z' },
+  { value: 'title:desc', label: 'Titre Z → A' },
+  { value: 'node_count:desc', label: 'Plus de nœuds' },
+  { value: 'node_count:asc', label: 'Moins de nœuds' },
+];
+
+// Formats d'export proposés par ⤓
+const EXPORT_FORMATS: Array<{ value: GraphExportFormat; label: string; title: string }> = [
+  { value: 'graphml', label: 'GraphML', title: 'yEd, Cytoscape, Gephi' },
+  { value: 'gexf', label: 'GEXF', title: 'Gephi' },
+  { value: 'mermaid', label: 'Mermaid', title: 'Flowchart pour docs et wikis' },
+  { value: 'dot', label: 'DOT', title: 'Graphviz (dot, neato)' },
+];
+
+// Distance au bas de la liste (px) à partir de laquelle la page suivante est demandée
+const LOAD_MORE_THRESHOLD_PX = 200;
+
 export const GraphList: React.FC<GraphListProps> = ({
   graphs,
   selectedGraphId,
@@ -20,8 +54,81 @@ export const GraphList: React.FC<GraphListProps> = ({
   onCreateGraph,
   onDeleteGraph,
   onDeduplicateGraphs,
+  onUpdateGraphMetadata,
+  onExportGraph,
+  query,
+  onQueryChange,
+  total,
+  hasMore,
+  loadingMore,
+  onLoadMore,
 }) => {
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const tagFilter = query.tag ?? '';
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; folder: string; tags: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  // Tags des graphes chargés (+ tag filtré, absent des pages suivantes)
+  const allTags = useMemo(
+    () => [...new Set([...graphs.flatMap((g) => g.tags ?? []), ...(tagFilter ? [tagFilter] : [])])]
+      .sort((a, b) => a.localeCompare(b)),
+    [graphs, tagFilter],
+  );
+
+  // Groupes par dossier (racine en tête), dans l'ordre du tri à l'intérieur d'un groupe
+  const groups = useMemo(() => {
+    const byFolder = new Map<string, GraphSummary[]>();
+    for (const graph of graphs) {
+      const folder = graph.folder ?? ROOT_FOLDER;
+      if (!byFolder.has(folder)) byFolder.set(folder, []);
+      byFolder.get(folder)!.push(graph);
+    }
+    return [...byFolder.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [graphs]);
+
+  const setTagFilter = (tag: string) => onQueryChange({ ...query, tag: tag || undefined });
+
+  const handleSortChange = (value: string) => {
+    const [sort, order] = value.split(':') as [GraphListQuery['sort'], GraphListQuery['order']];
+    onQueryChange({ ...query, sort, order });
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (hasMore && !loadingMore && el.scrollHeight - el.scrollTop - el.clientHeight < LOAD_MORE_THRESHOLD_PX) {
+      onLoadMore();
+    }
+  };
+
+  const toggleFolder = (folder: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(folder)) next.delete(folder);
+      else next.add(folder);
+      return next;
+    });
+  };
+
+  const startEdit = (e: React.MouseEvent, graph: GraphSummary) => {
+    e.stopPropagation();
+    setEditing({ id: graph.id, folder: graph.folder ?? '', tags: (graph.tags ?? []).join(', ') });
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !onUpdateGraphMetadata) return;
+    setSaving(true);
+    try {
+      await onUpdateGraphMetadata(editing.id, {
+        folder: editing.folder.trim() || null,
+        tags: editing.tags.split(',').map((t) => t.trim()).filter(Boolean),
+      });
+      setEditing(null);
+    } finally {
+      setSaving(false);
+    }
+  };
 
   const handleDelete = (e: React.MouseEvent, graph: GraphSummary) => {
     e.stopPropagation();
@@ -47,7 +154,7 @@ export const GraphList: React.FC<GraphListProps> = ({
     );
   }
 
-  if (graphs.length === 0) {
+  if (graphs.length === 0 && !tagFilter) {
     return (
       <div className="graph-list">
         <div className="graph-list-header">
@@ -62,7 +169,7 @@ export const GraphList: React.FC<GraphListProps> = ({
   }
 
   return (
-    <div className="graph-list">
+    <div className="graph-list" onScroll={handleScroll}>
       <div className="graph-list-header">
         <h2>Available Graphs</h2>
         {onDeduplicateGraphs && (
@@ -78,39 +185,141 @@ export const GraphList: React.FC<GraphListProps> = ({
           <button className="btn-add-graph" onClick={onCreateGraph} title="Nouveau graphe">+</button>
         )}
       </div>
+      <div className="graph-list-controls">
+        <select
+          value={`${query.sort}:${query.order}`}
+          onChange={(e) => handleSortChange(e.target.value)}
+          title="Trier les graphes"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {allTags.length > 0 && (
+          <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} title="Filtrer par tag">
+            <option value="">Tous les tags</option>
+            {allTags.map((tag) => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+        )}
+        {tagFilter && (
+          <button className="btn-clear-tag" onClick={() => setTagFilter('')} title="Retirer le filtre">✕</button>
+        )}
+      </div>
       <div className="graph-items">
-        {graphs.map((graph) => (
-          <div
-            key={graph.id}
-            className={`graph-item ${selectedGraphId === graph.id ? 'selected' : ''}`}
-            onClick={() => onSelectGraph(graph.id)}
-          >
-            <h3>{graph.title}</h3>
-            <p className="description">{graph.description}</p>
-            <div className="stats">
-              <span className="stat">
-                <strong>Nodes:</strong> {graph.node_count.toLocaleString()}
-              </span>
-              <span className="stat">
-                <strong>Edges:</strong> {graph.edge_count.toLocaleString()}
-              </span>
-            </div>
-            <div className="type">
-              <span className="badge">{graph.graph_type}</span>
-            </div>
-            {onDeleteGraph && (
-              <button
-                className="btn-delete-graph"
-                onClick={(e) => handleDelete(e, graph)}
-                title={deletingId === graph.id ? 'Cliquer encore pour confirmer' : 'Supprimer'}
-                style={deletingId === graph.id ? { opacity: 1, background: 'rgba(244,67,54,0.2)', color: '#f44336' } : undefined}
-              >
-                {deletingId === graph.id ? '✓' : '✕'}
-              </button>
+        {graphs.length === 0 && <div className="no-graphs">Aucun graphe avec le tag « {tagFilter} »</div>}
+        {groups.map(([folder, folderGraphs]) => (
+          <div key={folder || '/'} className="graph-folder">
+            {/* En-tête masqué si tout est à la racine : liste identique à l'affichage sans dossiers */}
+            {(folder !== ROOT_FOLDER || groups.length > 1) && (
+              <div className="graph-folder-header" onClick={() => toggleFolder(folder)}>
+                <span className="folder-caret">{collapsed.has(folder) ? '▸' : '▾'}</span>
+                <span className="folder-name">{folder || 'Sans dossier'}</span>
+                <span className="folder-count">{folderGraphs.length}</span>
+              </div>
             )}
+            {!collapsed.has(folder) && folderGraphs.map((graph) => (
+              <div
+                key={graph.id}
+                className={`graph-item ${selectedGraphId === graph.id ? 'selected' : ''}`}
+                onClick={() => onSelectGraph(graph.id)}
+              >
+                <h3>{graph.title}</h3>
+                <p className="description">{graph.description}</p>
+                <div className="stats">
+                  <span className="stat">
+                    <strong>Nodes:</strong> {graph.node_count.toLocaleString()}
+                  </span>
+                  <span className="stat">
+                    <strong>Edges:</strong> {graph.edge_count.toLocaleString()}
+                  </span>
+                </div>
+                <div className="type">
+                  <span className="badge">{graph.graph_type}</span>
+                  {(graph.tags ?? []).map((tag) => (
+                    <span
+                      key={tag}
+                      className={`tag ${tagFilter === tag ? 'active' : ''}`}
+                      onClick={(e) => { e.stopPropagation(); setTagFilter(tagFilter === tag ? '' : tag); }}
+                      title="Filtrer par ce tag"
+                    >
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+                {editing?.id === graph.id && (
+                  <div className="graph-metadata-form" onClick={(e) => e.stopPropagation()}>
+                    <label>
+                      Dossier
+                      <input
+                        value={editing.folder}
+                        onChange={(e) => setEditing({ ...editing, folder: e.target.value })}
+                        placeholder="infra/reseau"
+                      />
+                    </label>
+                    <label>
+                      Tags
+                      <input
+                        value={editing.tags}
+                        onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                        placeholder="prod, réseau"
+                      />
+                    </label>
+                    <div className="graph-metadata-actions">
+                      <button onClick={() => setEditing(null)} disabled={saving}>Annuler</button>
+                      <button className="primary" onClick={saveEdit} disabled={saving}>
+                        {saving ? '…' : 'Enregistrer'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {onUpdateGraphMetadata && editing?.id !== graph.id && (
+                  <button className="btn-edit-graph" onClick={(e) => startEdit(e, graph)} title="Dossier et tags">
+                    ✎
+                  </button>
+                )}
+                {onExportGraph && editing?.id !== graph.id && (
+                  <button
+                    className="btn-export-graph"
+                    onClick={(e) => { e.stopPropagation(); setExportingId(exportingId === graph.id ? null : graph.id); }}
+                    title="Exporter (GraphML / GEXF / Mermaid)"
+                  >
+                    ⤓
+                  </button>
+                )}
+                {onExportGraph && exportingId === graph.id && (
+                  <div className="graph-export-menu" onClick={(e) => e.stopPropagation()}>
+                    {EXPORT_FORMATS.map((f) => (
+                      <button key={f.value} onClick={() => { setExportingId(null); onExportGraph(graph.id, f.value); }} title={f.title}>
+                        {f.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {onDeleteGraph && (
+                  <button
+                    className="btn-delete-graph"
+                    onClick={(e) => handleDelete(e, graph)}
+                    title={deletingId === graph.id ? 'Cliquer encore pour confirmer' : 'Supprimer'}
+                    style={deletingId === graph.id ? { opacity: 1, background: 'rgba(244,67,54,0.2)', color: '#f44336' } : undefined}
+                  >
+                    {deletingId === graph.id ? '✓' : '✕'}
+                  </button>
+                )}
+              </div>
+            ))}
           </div>
         ))}
       </div>
+      {graphs.length > 0 && (
+        <div className="graph-list-footer">
+          {loadingMore ? 'Chargement…' : `${graphs.length.toLocaleString()} / ${total.toLocaleString()} graphes`}
+          {hasMore && !loadingMore && (
+            <button className="btn-load-more" onClick={onLoadMore}>Afficher plus</button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from 'react';
-import { graphApi, BenchmarkResult } from '../services/api';
+import { graphApi, BenchmarkResult, EngineType } from '../services/api';
 import { GraphData } from '../types/graph';
 import './LoadBenchmarkPanel.css';
 
@@ -10,12 +10,44 @@ interface Props {
   rawGraphData: GraphData | null;
 }
 
+/** Mesure d'un format de transport (moyenne sur les itérations) */
+interface TransportResult {
+  label: string;
+  color: string;
+  bytes: number | null;
+  decodeMs: number;
+  totalMs: number;
+}
+
+/** Rechargements conditionnels (If-None-Match) d'un graphe déjà en cache client */
+interface RevalidationResult {
+  times: number[];
+  avg: number;
+  min: number;
+  max: number;
+  /** Itérations réellement servies par un 304 */
+  notModified: number;
+}
+
+/** Formats comparés : même requête (cache serveur), seul l'encodage de la réponse change */
+const TRANSPORT_FORMATS: Array<{
+  label: string;
+  color: string;
+  options: { nocompress?: boolean; format?: 'json' | 'binary'; revalidate?: boolean };
+}> = [
+  { label: '📄 JSON', color: '#e67e22', options: { nocompress: true, revalidate: false } },
+  { label: '🗜️ JSON gzip', color: '#9b59b6', options: { revalidate: false } },
+  { label: '🔢 Binaire colonnaire', color: '#1abc9c', options: { format: 'binary', revalidate: false } },
+];
+
 const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGraphData }) => {
   const [result, setResult] = useState<BenchmarkResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [iterations, setIterations] = useState(3);
   const [clientJsonTime, setClientJsonTime] = useState<number | null>(null);
+  const [transport, setTransport] = useState<TransportResult[] | null>(null);
+  const [revalidation, setRevalidation] = useState<RevalidationResult | null>(null);
 
   const runBenchmark = useCallback(async () => {
     if (!graphId) return;
@@ -38,6 +70,39 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
         const avg = times.reduce((a, b) => a + b, 0) / times.length;
         setClientJsonTime(Math.round(avg * 100) / 100);
       }
+
+      // 3. Revalidation : le premier chargement remplit le cache client (ETag), les suivants reçoivent 304
+      await graphApi.getGraph(graphId, database, { engine: engine as EngineType });
+      const revalidations = [];
+      for (let i = 0; i < iterations; i++) {
+        revalidations.push(await graphApi.getGraph(graphId, database, { engine: engine as EngineType }));
+      }
+      const revalidationTimes = revalidations.map((l) => l.timeMs);
+      setRevalidation({
+        times: revalidationTimes,
+        avg: Math.round(revalidationTimes.reduce((a, b) => a + b, 0) / revalidationTimes.length * 100) / 100,
+        min: Math.min(...revalidationTimes),
+        max: Math.max(...revalidationTimes),
+        notModified: revalidations.filter((l) => l.notModified).length,
+      });
+
+      // 4. Formats de transport : taille transférée, décodage client, temps total
+      const avg = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) / values.length * 100) / 100;
+      const measures: TransportResult[] = [];
+      for (const f of TRANSPORT_FORMATS) {
+        const loads = [];
+        for (let i = 0; i < iterations; i++) {
+          loads.push(await graphApi.getGraph(graphId, database, { ...f.options, engine: engine as EngineType }));
+        }
+        measures.push({
+          label: f.label,
+          color: f.color,
+          bytes: loads[0].contentLength ?? loads[0].rawContentLength,
+          decodeMs: avg(loads.map((l) => l.decodeMs ?? 0)),
+          totalMs: avg(loads.map((l) => l.timeMs)),
+        });
+      }
+      setTransport(measures);
     } catch (err: any) {
       setError(err?.response?.data?.error || err.message || 'Erreur benchmark');
     } finally {
@@ -51,6 +116,13 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
     return `${(ms / 1000).toFixed(2)} s`;
   };
 
+  const formatBytes = (bytes: number | null) => {
+    if (bytes === null) return '—';
+    if (bytes < 1024) return `${bytes} o`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  };
+
   const barWidth = (ms: number, maxMs: number) => {
     if (maxMs <= 0) return '2%';
     return `${Math.max(2, (ms / maxMs) * 100)}%`;
@@ -73,7 +145,7 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
         <p className="benchmark-description">
           Compare le temps de chargement d'un graphe selon trois méthodes :
           <strong> requête SQL directe</strong> (bypass cache, interrogation BD à chaque appel),
-          <strong> cache serveur</strong> (NodeCache en mémoire, TTL 5 min),
+          <strong> cache serveur</strong> (GraphCache partagé, TTL configurable),
           et <strong> JSON mémoire</strong> (désérialisation JSON.parse uniquement, sans réseau).
         </p>
       </div>
@@ -111,7 +183,7 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
           <div className="benchmark-chart">
             <h3>Temps moyen par méthode ({result.iterations} itérations)</h3>
             {(() => {
-              const maxMs = Math.max(result.sql.avg, result.cache.avg, result.json.avg, clientJsonTime || 0);
+              const maxMs = Math.max(result.sql.avg, result.cache.avg, result.json.avg, clientJsonTime || 0, revalidation?.avg || 0);
               const methods = [
                 { label: '🗄️ SQL direct', avg: result.sql.avg, min: result.sql.min, max: result.sql.max, color: '#e74c3c' },
                 { label: '💾 Cache serveur', avg: result.cache.avg, min: result.cache.min, max: result.cache.max, color: '#f39c12' },
@@ -120,6 +192,9 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
               if (clientJsonTime !== null) {
                 methods.push({ label: '🌐 JSON client', avg: clientJsonTime, min: clientJsonTime, max: clientJsonTime, color: '#3498db' });
               }
+              if (revalidation) {
+                methods.push({ label: '🔁 Revalidation 304', avg: revalidation.avg, min: revalidation.min, max: revalidation.max, color: '#16a085' });
+              }
               return methods.map((m, i) => (
                 <div key={i} className="benchmark-bar-row">
                   <div className="benchmark-bar-label">{m.label}</div>
@@ -182,6 +257,7 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
                   <th>Cache serveur</th>
                   <th>JSON serveur</th>
                   {clientJsonTime !== null && <th>JSON client</th>}
+                  {revalidation && <th>Revalidation 304</th>}
                 </tr>
               </thead>
               <tbody>
@@ -192,6 +268,7 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
                     <td className="time-cache">{formatMs(result.cache.times[i])}</td>
                     <td className="time-json">{formatMs(result.json.times[i])}</td>
                     {clientJsonTime !== null && <td className="time-client">—</td>}
+                    {revalidation && <td className="time-revalidation">{formatMs(revalidation.times[i])}</td>}
                   </tr>
                 ))}
                 <tr className="row-avg">
@@ -200,11 +277,58 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
                   <td className="time-cache">{formatMs(result.cache.avg)}</td>
                   <td className="time-json">{formatMs(result.json.avg)}</td>
                   {clientJsonTime !== null && <td className="time-client">{formatMs(clientJsonTime)}</td>}
+                  {revalidation && <td className="time-revalidation">{formatMs(revalidation.avg)}</td>}
                 </tr>
               </tbody>
             </table>
           </div>
 
+          {/* Transport formats */}
+          {transport && (
+            <div className="benchmark-chart">
+              <h3>Format de transport (cache serveur, {result.iterations} itérations)</h3>
+              {(() => {
+                const maxMs = Math.max(...transport.map((t) => t.totalMs));
+                return transport.map((t, i) => (
+                  <div key={i} className="benchmark-bar-row">
+                    <div className="benchmark-bar-label">{t.label}</div>
+                    <div className="benchmark-bar-container">
+                      <div
+                        className="benchmark-bar"
+                        style={{ width: barWidth(t.totalMs, maxMs), backgroundColor: t.color }}
+                      >
+                        <span className="benchmark-bar-value">{formatMs(t.totalMs)}</span>
+                      </div>
+                    </div>
+                    <div className="benchmark-bar-range">
+                      {formatBytes(t.bytes)} — décodage {formatMs(t.decodeMs)}
+                    </div>
+                  </div>
+                ));
+              })()}
+              <table className="benchmark-table">
+                <thead>
+                  <tr>
+                    <th>Format</th>
+                    <th>Taille transférée</th>
+                    <th>Décodage client</th>
+                    <th>Chargement total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transport.map((t, i) => (
+                    <tr key={i}>
+                      <td>{t.label}</td>
+                      <td>{formatBytes(t.bytes)}</td>
+                      <td>{formatMs(t.decodeMs)}</td>
+                      <td>{formatMs(t.totalMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Explanation */}
           <div className="benchmark-explanation">
             <h3>📊 Analyse des résultats</h3>
@@ -217,7 +341,7 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
                 sérialisation de la réponse HTTP complète, puis transfert réseau.
               </p>
               <p>
-                <strong>Cache serveur</strong> (NodeCache) élimine la requête SQL : les données
+                <strong>Cache serveur</strong> (GraphCache) élimine la requête SQL : les données
                 sont directement récupérées depuis la mémoire du processus Node.js.
                 Il reste la sérialisation JSON + le transfert HTTP.
               </p>
@@ -226,6 +350,21 @@ const LoadBenchmarkPanel: React.FC<Props> = ({ graphId, database, engine, rawGra
                 opération <code>JSON.parse</code> sur une chaîne déjà en mémoire — aucun réseau,
                 aucune base de données, aucune compilation de requête.
               </p>
+              <p>
+                <strong>Revalidation 304</strong> : le client renvoie l'<code>ETag</code> (hash du contenu)
+                reçu au chargement précédent dans <code>If-None-Match</code>. Si le graphe n'a pas changé,
+                le serveur répond <code>304 Not Modified</code> sans corps et le client réutilise sa copie :
+                il reste la lecture du graphe (cache serveur), le hash et le décodage local, sans transfert.
+                {revalidation && revalidation.notModified < revalidation.times.length && (
+                  <> ({revalidation.notModified}/{revalidation.times.length} réponses en 304 — le graphe a changé pendant la mesure.)</>
+                )}
+              </p>
+              <p>
+                <strong>Binaire colonnaire</strong> (<code>Accept: application/vnd.graph.columnar</code>) :
+                les chaînes sont internées (ids, types, propriétés répétées) et les arêtes sont des
+                paires d'index de nœuds encodées en varint. Plus compact que le JSON brut, sans le coût
+                CPU du gzip côté serveur ; le décodage client évite un <code>JSON.parse</code> global.
+              </p>
               <p className="conclusion">
                 <strong>Conclusion :</strong> Pour un affichage interactif, pré-charger le graphe en JSON
                 et le conserver en mémoire client est la stratégie optimale (pas de latence réseau).
@@ -65,13 +65,15 @@ export const OptimPanel: React.FC<OptimPanelProps> = ({ currentGraphId, currentD
     setBenchError(null);
     try {
       // 1) Warm up: charger avec cache actif (2ème appel = HIT garanti)
-      await graphApi.getGraph(currentGraphId, currentDatabase, { nocache: true }); // MISS, remplit le cache
-      const withOptim = await graphApi.getGraph(currentGraphId, currentDatabase, {}); // HIT + gzip
+      // revalidate: false — mesurer des chargements complets, pas des 304
+      await graphApi.getGraph(currentGraphId, currentDatabase, { nocache: true, revalidate: false }); // MISS, remplit le cache
+      const withOptim = await graphApi.getGraph(currentGraphId, currentDatabase, { revalidate: false }); // HIT + gzip
 
       // 2) Sans cache + sans gzip (raw)
       const withoutOptim = await graphApi.getGraph(currentGraphId, currentDatabase, {
         nocache: true,
         nocompress: true,
+        revalidate: false,
       });
 
       const fmt = (r: GraphLoadResult): BenchRow => ({
@@ -174,6 +176,13 @@ export const OptimPanel: React.FC<OptimPanelProps> = ({ currentGraphId, currentD
             {cacheStats ? (
               <div className="optim-kv-grid">
                 <span>Graphes en cache</span><span>{cacheStats.cachedGraphs}</span>
+                <span>Taille (moteur)</span><span>{(cacheStats.bytes / 1024).toFixed(1)} Ko</span>
+                <span>Cache partagé ({cacheStats.cache.backend})</span>
+                <span>
+                  {(cacheStats.cache.bytes / 1024 / 1024).toFixed(1)} / {(cacheStats.cache.maxBytes / 1024 / 1024).toFixed(0)} Mo
+                  · TTL {cacheStats.cache.ttlSeconds} s
+                </span>
+                <span>Évictions (LRU)</span><span>{cacheStats.cache.evictions}</span>
                 <span>Hits / Misses</span><span>{cacheStats.hits} / {cacheStats.misses}</span>
                 <span>Contournements</span><span>{cacheStats.bypasses}</span>
                 <span>Taux de hit</span>
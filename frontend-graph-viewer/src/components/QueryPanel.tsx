@@ -14,6 +14,8 @@ interface QueryExample {
   description: string;
   query: string;
   engine: 'neo4j' | 'memgraph' | 'mssql' | 'all';
+  /** Requête potentiellement longue (plusieurs minutes) : bouton Stop pendant l'exécution */
+  cancellable?: boolean;
 }
 
 // ===== Exemples de requêtes prédéfinies =====
@@ -141,6 +143,15 @@ WITH length(path) AS depth, count(path) AS totalPaths, count(DISTINCT n) AS uniq
 RETURN depth, totalPaths, uniqueNodes, totalPaths - uniqueNodes AS redundantPaths
 ORDER BY depth`,
     engine: 'neo4j',
+    cancellable: true,
+  },
+  {
+    label: ' Labels et types natifs',
+    description: 'Labels par node_type et types de relation par edge_type (NEO4J_NATIVE_TYPES=true)',
+    query: `MATCH (n:GraphNode)-[r]->(:GraphNode)
+RETURN labels(n) AS labels, type(r) AS relType, count(*) AS count
+ORDER BY count DESC LIMIT 20`,
+    engine: 'neo4j',
   },
 ];
 
@@ -394,6 +405,7 @@ FROM AllPaths WHERE node_id <> @startNode
 GROUP BY lvl ORDER BY lvl
 OPTION (MAXRECURSION 200)`,
     engine: 'mssql',
+    cancellable: true,
   },
   {
     label: ' BFS optimisé',
@@ -436,6 +448,12 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
   const [results, setResults] = useState<RawQueryResult[]>([]);
   const [running, setRunning] = useState(false);
   const [runBoth, setRunBoth] = useState(false);
+  const [readOnly, setReadOnly] = useState(true);
+  const [paramsText, setParamsText] = useState('');
+  const [cancellable, setCancellable] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  /** Identifiants (X-Query-Id) des requêtes en cours, pour le bouton Stop */
+  const runningIds = useRef<string[]>([]);
   const [graphList, setGraphList] = useState<GraphSummary[]>([]);
   const [activeGraphId, setActiveGraphId] = useState<string | undefined>(graphId);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -477,6 +495,15 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
     setResults([]);
 
     try {
+      // Paramètres liés : objet JSON ({"gid": "..."} → $gid en Cypher, @gid en SQL)
+      const params = paramsText.trim() ? JSON.parse(paramsText) : undefined;
+      const options = { params, readOnly };
+      runningIds.current = [];
+      const track = () => {
+        const queryId = crypto.randomUUID();
+        runningIds.current.push(queryId);
+        return { ...options, queryId };
+      };
       if (runBoth) {
         // Run on both engines in parallel for comparison
         const engines: EngineType[] = [];
@@ -492,7 +519,7 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
           const t0 = performance.now();
           // Memgraph doesn't support length(path) — auto-substitute on the fly
           const q = eng === 'memgraph' ? adaptForMemgraph(query) : query;
-          const r = await graphApi.executeQuery(q, database, eng);
+          const r = await graphApi.executeQuery(q, database, eng, track());
           r.totalMs = Math.round(performance.now() - t0);
           return r;
         });
@@ -501,7 +528,7 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
       } else {
         const t0 = performance.now();
         const q = currentEngine === 'memgraph' ? adaptForMemgraph(query) : query;
-        const result = await graphApi.executeQuery(q, database, currentEngine);
+        const result = await graphApi.executeQuery(q, database, currentEngine, track());
         result.totalMs = Math.round(performance.now() - t0);
         setResults([result]);
       }
@@ -514,9 +541,17 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
         error: err.message || 'Execution failed',
       }]);
     } finally {
+      runningIds.current = [];
       setRunning(false);
+      setStopping(false);
     }
-  }, [query, database, currentEngine, runBoth, isCypher, adaptForMemgraph]);
+  }, [query, paramsText, readOnly, database, currentEngine, runBoth, isCypher, adaptForMemgraph]);
+
+  /** Annule côté serveur les requêtes en cours (DELETE /api/queries/:id) — elles répondent 409 */
+  const stopQuery = useCallback(async () => {
+    setStopping(true);
+    await Promise.all(runningIds.current.map((id) => graphApi.cancelQuery(id).catch(() => undefined)));
+  }, []);
 
   const loadExample = useCallback((example: QueryExample) => {
     let q = example.query;
@@ -537,6 +572,7 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
       q = adaptForMemgraph(q);
     }
     setQuery(q);
+    setCancellable(!!example.cancellable);
   }, [activeGraphId, currentEngine, adaptForMemgraph]);
 
   /** Replace all graph IDs in the current query with the new one */
@@ -635,7 +671,22 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
           spellCheck={false}
           rows={4}
         />
+        <input
+          className="query-params"
+          value={paramsText}
+          onChange={(e) => setParamsText(e.target.value)}
+          placeholder={isCypher ? 'Paramètres JSON (optionnel) : {"gid": "mon-graphe"} → $gid' : 'Paramètres JSON (optionnel) : {"gid": "mon-graphe"} → @gid'}
+          spellCheck={false}
+        />
         <div className="query-actions">
+          <label className="run-both-toggle" title="Lecture seule : toute écriture est refusée par le moteur">
+            <input
+              type="checkbox"
+              checked={readOnly}
+              onChange={(e) => setReadOnly(e.target.checked)}
+            />
+            Lecture seule
+          </label>
           {isCypher && (
             <label className="run-both-toggle" title="Exécuter sur Neo4j ET Memgraph pour comparer les temps">
               <input
@@ -653,6 +704,11 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
           >
             {running ? '⏳ Exécution...' : '▶ Exécuter'}
           </button>
+          {running && cancellable && (
+            <button className="stop-btn" onClick={stopQuery} disabled={stopping}>
+              {stopping ? '⏳ Arrêt...' : '⏹ Stop'}
+            </button>
+          )}
           {query && (
             <button className="clear-btn" onClick={() => { setQuery(''); setResults([]); }}>
               ✕ Effacer
@@ -674,6 +730,12 @@ export default function QueryPanel({ graphId, database, engine }: QueryPanelProp
                     : `✅ ${result.rowCount} ligne${result.rowCount !== 1 ? 's' : ''} — DB: ${result.elapsed_ms} ms | Total: ${result.totalMs ?? '?'} ms`}
                 </span>
               </div>
+              {result.truncated && (
+                <div className="result-truncated">
+                  ⚠️ Résultat limité à {result.rowCount} lignes par le serveur
+                  {result.totalRows !== undefined && ` (${result.totalRows} au total)`}
+                </div>
+              )}
 
               {result.error ? (
                 <div className="result-error-message">{result.error}</div>
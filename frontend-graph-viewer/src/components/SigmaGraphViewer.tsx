@@ -7,12 +7,18 @@ import forceAtlas2 from 'graphology-layout-forceatlas2';
 import FpsCounter from './FpsCounter';
 import './SigmaGraphViewer.css';
 import 'bootstrap-icons/font/bootstrap-icons.css';
-import type { GraphData, GraphNode } from '../types/graph';
+import type { GraphData, GraphDiff, GraphNode } from '../types/graph';
 import { nodePositionCache } from '../services/nodePositionCache';
+import { buildDiffView, DIFF_COLORS } from '../services/graphTransform';
+import { graphApi, EngineType } from '../services/api';
 
 interface SigmaGraphViewerProps {
   data: GraphData | null;
   graphId?: string;
+  /** Diff à afficher : ajouts en vert, suppressions en rouge, modifications en orange */
+  diff?: GraphDiff | null;
+  database?: string;
+  engine?: string;
 }
 
 const NODE_COLORS: Record<string, string> = {
@@ -633,7 +639,25 @@ interface BenchmarkResult {
   rawLayoutMs: number;
 }
 
-const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) => {
+const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data: graphData, graphId, diff, database, engine }) => {
+  // En mode diff, le graphe affiché inclut les nœuds/arêtes supprimés
+  const diffView = useMemo(
+    () => (graphData && diff ? buildDiffView(graphData, diff) : null),
+    [graphData, diff]
+  );
+  const data = diffView ? diffView.data : graphData;
+  const diffViewRef = useRef(diffView);
+  diffViewRef.current = diffView;
+  // Couleur imposée par le diff (null hors mode diff)
+  const diffNodeColor = (nodeId: string): string | null => {
+    const status = diffViewRef.current?.nodeStatus.get(nodeId);
+    return status ? DIFF_COLORS[status] : null;
+  };
+  const diffEdgeColor = (source: string, target: string): string | null => {
+    const status = diffViewRef.current?.edgeStatus.get(`${source}->${target}`);
+    return status && status !== 'unchanged' ? DIFF_COLORS[status] : null;
+  };
+
   const containerRef = useRef<HTMLDivElement>(null);
   const sigmaRef = useRef<Sigma | null>(null);
   const graphRef = useRef<Graph | null>(null);
@@ -658,6 +682,8 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
   // Node list for progressive mode
   const MAX_NODE_LIST = 100;
   const [nodeListFilter, setNodeListFilter] = useState('');
+  // Résultats de GET /graphs/:id/search (index plein texte du moteur) pour le filtre courant
+  const [serverHits, setServerHits] = useState<{ query: string; ids: string[] } | null>(null);
   const [exploredNodes, setExploredNodes] = useState<Set<string>>(new Set());
 
   // Build a sampled node list (max 100 for large graphs, used when no filter)
@@ -676,8 +702,29 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
     return sampled.sort((a, b) => a.id.localeCompare(b.id));
   }, [data]);
 
+  // Recherche serveur (nom, nDeCI, categorie inclus) après 300 ms sans frappe
+  useEffect(() => {
+    const q = nodeListFilter.trim();
+    if (!graphId || q.length < 2) {
+      setServerHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      graphApi.searchGraph(graphId, q, 100, database, engine as EngineType)
+        .then((res) => { if (!cancelled) setServerHits({ query: nodeListFilter, ids: res.hits.map(h => h.node.id) }); })
+        .catch(() => { if (!cancelled) setServerHits(null); });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [graphId, database, engine, nodeListFilter]);
+
   const filteredNodeList = useMemo(() => {
     if (!data || data.nodes.length === 0) return [];
+    // Résultats classés par le serveur, limités aux nœuds chargés
+    if (nodeListFilter && serverHits?.query === nodeListFilter) {
+      const byId = new Map(data.nodes.map(n => [n.id, n]));
+      return serverHits.ids.map(id => byId.get(id)).filter((n): n is GraphNode => n !== undefined);
+    }
     // When filter is active, search ALL nodes (not just the sample)
     if (nodeListFilter) {
       const q = nodeListFilter.toLowerCase();
@@ -691,7 +738,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
     }
     // No filter → show the 100-node sample
     return nodeListSample;
-  }, [data, nodeListSample, nodeListFilter]);
+  }, [data, nodeListSample, nodeListFilter, serverHits]);
 
   useEffect(() => { progressiveModeRef.current = progressiveMode; }, [progressiveMode]);
   useEffect(() => { currentDepthRef.current = currentDepth; }, [currentDepth]);
@@ -807,7 +854,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
       const nodeData = nodeIndex.get(nId);
       if (!nodeData) continue;
       const nodeType = nodeData.node_type || 'default';
-      const color = NODE_COLORS[nodeType] || generateColorFromString(nodeType);
+      const color = diffNodeColor(nId) ?? (NODE_COLORS[nodeType] || generateColorFromString(nodeType));
       const existing = typeMap.get(nodeType);
       if (existing) existing.count++;
       else typeMap.set(nodeType, { color, count: 1 });
@@ -838,7 +885,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
           try {
             graph.addEdge(edge.source, edge.target, {
               size: p.edgeSize,
-              color: edgeColorStr,
+              color: diffEdgeColor(edge.source, edge.target) ?? edgeColorStr,
               type: p.showArrows ? 'arrow' : 'line',
             });
           } catch (e) { /* skip duplicate */ }
@@ -938,7 +985,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
       const nodeData = nodeIndex.get(nId);
       if (!nodeData) continue;
       const nodeType = nodeData.node_type || 'default';
-      const color = NODE_COLORS[nodeType] || generateColorFromString(nodeType);
+      const color = diffNodeColor(nId) ?? (NODE_COLORS[nodeType] || generateColorFromString(nodeType));
       const existing = typeMap.get(nodeType);
       if (existing) existing.count++;
       else typeMap.set(nodeType, { color, count: 1 });
@@ -968,7 +1015,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
           try {
             graph.addEdge(edge.source, edge.target, {
               size: p.edgeSize,
-              color: edgeColorStr,
+              color: diffEdgeColor(edge.source, edge.target) ?? edgeColorStr,
               type: p.showArrows ? 'arrow' : 'line',
             });
           } catch (e) { /* skip duplicate */ }
@@ -1209,7 +1256,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
 
       data.nodes.forEach((node) => {
         const nodeType = node.node_type || 'default';
-        const color = NODE_COLORS[nodeType] || generateColorFromString(nodeType);
+        const color = diffNodeColor(node.id) ?? (NODE_COLORS[nodeType] || generateColorFromString(nodeType));
         const existing = typeMap.get(nodeType);
         if (existing) existing.count++;
         else typeMap.set(nodeType, { color, count: 1 });
@@ -1235,7 +1282,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
         try {
           graph.addEdge(edge.source, edge.target, {
             size: p.edgeSize,
-            color: edgeColorStr,
+            color: diffEdgeColor(edge.source, edge.target) ?? edgeColorStr,
             type: p.showArrows ? 'arrow' : 'line',
           });
         } catch (error) {
@@ -1357,14 +1404,14 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
       graph.forEachNode((node) => {
         const attributes = graph.getNodeAttributes(node);
         const nodeType = attributes.nodeType || 'default';
-        const originalColor = NODE_COLORS[nodeType] || NODE_COLORS.default;
+        const originalColor = diffNodeColor(node) ?? (NODE_COLORS[nodeType] || NODE_COLORS.default);
         graph.setNodeAttribute(node, 'color', originalColor);
         graph.setNodeAttribute(node, 'size', rp.nodeSize);
         graph.setNodeAttribute(node, 'highlighted', false);
       });
 
-      graph.forEachEdge((edge) => {
-        graph.setEdgeAttribute(edge, 'color', edgeColorStr);
+      graph.forEachEdge((edge, _attrs, source, target) => {
+        graph.setEdgeAttribute(edge, 'color', diffEdgeColor(source, target) ?? edgeColorStr);
         graph.setEdgeAttribute(edge, 'size', rp.edgeSize);
       });
 
@@ -1428,9 +1475,9 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
         graph.setNodeAttribute(n, 'image', undefined);
       }
     });
-    graph.forEachEdge((e) => {
+    graph.forEachEdge((e, _attrs, source, target) => {
       graph.setEdgeAttribute(e, 'size', edgeSize);
-      graph.setEdgeAttribute(e, 'color', edgeColorStr);
+      graph.setEdgeAttribute(e, 'color', diffEdgeColor(source, target) ?? edgeColorStr);
       graph.setEdgeAttribute(e, 'type', showArrows ? 'arrow' : 'line');
     });
 
@@ -1686,7 +1733,7 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
             <i className="bi bi-search"></i>
             <input
               type="text"
-              placeholder="Filtrer par id, label ou type..."
+              placeholder="Rechercher (id, label, nom, nDeCI, catégorie)..."
               value={nodeListFilter}
               onChange={(e) => setNodeListFilter(e.target.value)}
             />
@@ -1728,6 +1775,19 @@ const SigmaGraphViewer: React.FC<SigmaGraphViewerProps> = ({ data, graphId }) =>
         </div>
       )}
 
+      {diff && (
+        <div className="sigma-diff-legend">
+          <strong>
+            <i className="bi bi-intersect"></i> Diff vs{' '}
+            {diff.against.version !== undefined ? `v${diff.against.version}` : diff.against.graph_id}
+          </strong>
+          <p><span className="legend-color" style={{ backgroundColor: DIFF_COLORS.added }} /> Ajoutés : {diff.summary.nodes_added} nœuds, {diff.summary.edges_added} arêtes</p>
+          <p><span className="legend-color" style={{ backgroundColor: DIFF_COLORS.removed }} /> Supprimés : {diff.summary.nodes_removed} nœuds, {diff.summary.edges_removed} arêtes</p>
+          <p><span className="legend-color" style={{ backgroundColor: DIFF_COLORS.changed }} /> Modifiés : {diff.summary.nodes_changed} nœuds</p>
+          <p><span className="legend-color" style={{ backgroundColor: DIFF_COLORS.unchanged }} /> Inchangés : {diff.summary.nodes_unchanged} nœuds</p>
+        </div>
+      )}
+
       {progressiveMode && data && (
         <div className="sigma-progressive-info">
           <strong><i className="bi bi-diagram-3"></i> Mode par niveaux</strong>
@@ -1,11 +1,22 @@
 import { useEffect, useRef, useCallback } from 'react';
 
 export interface WsMessage {
-  type: 'graph:created' | 'graph:deleted' | 'graph:updated';
+  type: 'graph:created' | 'graph:deleted' | 'graph:updated' | 'graph:copy';
   graphId?: string;
   engine?: string;
   database?: string;
   title?: string;
+  /** graph:updated — nature de la modification (nodes:added, node:updated, edge:deleted…) */
+  change?: string;
+  count?: number;
+  version?: number;
+  /** graph:copy — progression d'une copie inter-moteurs */
+  phase?: 'nodes' | 'edges' | 'done' | 'error';
+  copied?: number;
+  total?: number;
+  sourceEngine?: string;
+  targetEngine?: string;
+  error?: string;
 }
 
 /**
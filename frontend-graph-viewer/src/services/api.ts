@@ -1,5 +1,6 @@
 import axios from 'axios';
-import { GraphData, GraphSummary, GraphStats } from '../types/graph';
+import { decodeGraphBinary, GRAPH_BINARY_MIME } from './graphBinary';
+import { GraphCopyResponse, GraphData, GraphDiff, GraphEdge, GraphListQuery, GraphMetadataUpdate, GraphNode, GraphSummary, GraphStats, GraphVersion, GraphVersionData, SearchResponse } from '../types/graph';
 
 const API_BASE_URL = 'http://172.23.0.162:8080/api';
 
@@ -10,7 +11,7 @@ const api = axios.create({
   },
 });
 
-export type EngineType = 'neo4j' | 'memgraph' | 'arangodb' | 'mssql';
+export type EngineType = 'neo4j' | 'memgraph' | 'arangodb' | 'mssql' | 'sqlite' | 'memory';
 
 export interface Database {
   name: string;
@@ -33,6 +34,18 @@ export interface GraphLoadResult {
   rawContentLength: number | null; // taille brute (avant gzip) en octets
   parallelQueries: boolean;
   engine: string;                  // moteur utilisé (neo4j ou arangodb)
+  format?: 'json' | 'binary';
+  decodeMs?: number;               // JSON.parse ou décodage binaire, côté client
+  etag?: string;                   // hash du contenu (GET /graphs/:id)
+  notModified?: boolean;           // 304 : données reprises du cache client
+}
+
+/** Progression d'un chargement NDJSON (GET /graphs/:id?stream=ndjson) */
+export interface GraphStreamProgress {
+  /** Nœuds et arêtes reçus jusqu'ici */
+  data: GraphData;
+  totalNodes: number;
+  totalEdges: number;
 }
 
 export interface CacheStats {
@@ -41,6 +54,17 @@ export interface CacheStats {
   bypasses: number;
   cachedGraphs: number;
   keys: string[];
+  /** Octets réels des graphes de ce moteur dans le cache partagé */
+  bytes: number;
+  /** Totaux du cache partagé (tous moteurs) */
+  cache: {
+    backend: 'memory' | 'disk';
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+    ttlSeconds: number;
+    evictions: number;
+  };
 }
 
 /** Résultat d'une analyse d'impact côté serveur. */
@@ -58,11 +82,41 @@ export interface RawQueryResult {
   elapsed_ms: number;
   rowCount: number;
   engine: string;
+  /** Résultat coupé au plafond de lignes du serveur (maxRows) */
+  truncated?: boolean;
+  /** Nombre total de lignes, quand le moteur le connaît */
+  totalRows?: number;
+  readOnly?: boolean;
   error?: string;
   /** Temps total round-trip (réseau + DB + sérialisation), mesuré côté client. */
   totalMs?: number;
 }
 
+/** Options de POST /api/query — le serveur plafonne timeoutMs et maxRows. */
+export interface RawQueryOptions {
+  /** Paramètres liés ($nom en Cypher, @nom en SQL / AQL) */
+  params?: Record<string, unknown>;
+  /** Lecture seule (true par défaut côté serveur) */
+  readOnly?: boolean;
+  timeoutMs?: number;
+  maxRows?: number;
+  /** Identifiant choisi par le client (X-Query-Id), pour graphApi.cancelQuery pendant l'exécution */
+  queryId?: string;
+}
+
+/** Exécution en cours côté serveur (GET /api/queries/running). */
+export interface RunningQuery {
+  id: string;
+  kind: 'query' | 'algorithm' | 'benchmark';
+  engine: string;
+  database?: string;
+  description: string;
+  caller: string;
+  started_at: string;
+  elapsed_ms: number;
+  cancelled: boolean;
+}
+
 /** Résultat du benchmark SQL vs Cache vs JSON. */
 export interface BenchmarkTimings {
   times: number[];
@@ -138,6 +192,14 @@ export interface EngineInfo {
   default: string;
 }
 
+/** Fichiers d'échange (Gephi, yEd, Graphviz) de GET /graphs/:id/export et POST /graphs { format, content } */
+export type GraphExchangeFormat = 'graphml' | 'gexf' | 'dot';
+
+/** Formats de GET /graphs/:id/export (Mermaid : flowchart à coller dans une doc) */
+export type GraphExportFormat = GraphExchangeFormat | 'mermaid';
+
+export type NodePositions = Record<string, { x: number; y: number }>;
+
 export interface CreateGraphRequest {
   title: string;
   description: string;
@@ -145,6 +207,101 @@ export interface CreateGraphRequest {
   mermaid_code?: string;
   nodes?: Array<{ id: string; label: string; node_type: string; properties?: Record<string, any> }>;
   edges?: Array<{ source: string; target: string; label?: string; edge_type: string; properties?: Record<string, any> }>;
+  tags?: string[];
+  folder?: string | null;
+  // Fichier d'échange : title / description / graph_type vides → valeurs du fichier
+  format?: 'mermaid' | GraphExchangeFormat;
+  content?: string;
+  // DOT : attribut(s) donnant node_type / edge_type ("shape", "class,shape") ; défaut serveur class puis shape
+  type_attribute?: string;
+}
+
+/** Graphe créé ; positions = coordonnées lues dans un fichier GraphML / GEXF / DOT */
+export type CreatedGraph = GraphSummary & { positions?: NodePositions };
+
+/** Page de GET /graphs?limit=&cursor= (en-têtes X-Total-Count / X-Next-Cursor) */
+export interface GraphListPage {
+  graphs: GraphSummary[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/** Réponses brutes de GET /graphs/:id par représentation, revalidées par If-None-Match */
+const GRAPH_RESPONSE_CACHE_SIZE = 8;
+const graphResponseCache = new Map<string, { etag: string; body: ArrayBuffer | string; rawLength?: string }>();
+
+/**
+ * Chargement NDJSON : le serveur lit le graphe par pages et envoie une ligne JSON par page
+ * (graph → nodes… → edges… → end). `onProgress` est appelé après chaque page reçue.
+ * Utilise fetch (axios ne donne pas accès au flux de la réponse dans le navigateur).
+ */
+async function streamGraph(
+  id: string,
+  params: Record<string, string>,
+  onProgress: (progress: GraphStreamProgress) => void,
+): Promise<GraphLoadResult> {
+  const query = new URLSearchParams({ ...params, stream: 'ndjson' });
+  const t0 = performance.now();
+  const response = await fetch(`${API_BASE_URL}/graphs/${id}?${query}`, {
+    headers: { Accept: 'application/x-ndjson' },
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP ${response.status}`);
+  }
+
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  let totalNodes = 0;
+  let totalEdges = 0;
+  let rawBytes = 0;
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const chunk = JSON.parse(line);
+    switch (chunk.type) {
+      case 'graph':
+        totalNodes = chunk.graph.node_count;
+        totalEdges = chunk.graph.edge_count;
+        return;
+      case 'nodes':
+        nodes.push(...chunk.nodes);
+        break;
+      case 'edges':
+        edges.push(...chunk.edges);
+        break;
+      case 'error':
+        throw new Error(chunk.error);
+      default:
+        return;
+    }
+    onProgress({ data: { nodes, edges }, totalNodes, totalEdges });
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    rawBytes += value.byteLength;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+
+  return {
+    data: { nodes, edges },
+    timeMs: Math.round(performance.now() - t0),
+    cacheStatus: (response.headers.get('X-Cache') as GraphLoadResult['cacheStatus']) ?? 'unknown',
+    responseTimeHeader: null,
+    contentLength: null,
+    rawContentLength: rawBytes,
+    parallelQueries: false,
+    engine: response.headers.get('X-Engine') || 'unknown',
+  };
 }
 
 export const graphApi = {
@@ -153,14 +310,33 @@ export const graphApi = {
     request: CreateGraphRequest,
     database?: string,
     engine?: EngineType,
-  ): Promise<GraphSummary> => {
+  ): Promise<CreatedGraph> => {
     const params: Record<string, string> = {};
     if (database) params.database = database;
     if (engine) params.engine = engine;
-    const response = await api.post<GraphSummary>('/graphs', request, { params });
+    const response = await api.post<CreatedGraph>('/graphs', request, { params });
     return response.data;
   },
 
+  // Exporter un graphe en GraphML / GEXF / Mermaid (positions du cache local si fournies)
+  exportGraph: async (
+    id: string,
+    format: GraphExportFormat,
+    positions?: NodePositions,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<{ blob: Blob; filename: string }> => {
+    const params: Record<string, string> = { format };
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = positions && Object.keys(positions).length > 0
+      ? await api.post<Blob>(`/graphs/${id}/export`, { positions }, { params, responseType: 'blob' })
+      : await api.get<Blob>(`/graphs/${id}/export`, { params, responseType: 'blob' });
+    const disposition = String(response.headers['content-disposition'] ?? '');
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${id}.${format}`;
+    return { blob: response.data, filename };
+  },
+
   // Supprimer un graphe
   deleteGraph: async (id: string, database?: string, engine?: EngineType): Promise<void> => {
     const params: Record<string, string> = {};
@@ -169,6 +345,20 @@ export const graphApi = {
     await api.delete(`/graphs/${id}`, { params });
   },
 
+  // Modifier les métadonnées d'un graphe (titre, description, type, tags, dossier)
+  updateGraphMetadata: async (
+    id: string,
+    update: GraphMetadataUpdate,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<GraphSummary> => {
+    const params: Record<string, string> = {};
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.patch<GraphSummary>(`/graphs/${id}`, update, { params });
+    return response.data;
+  },
+
   // Lister tous les graphes
   listGraphs: async (database?: string, engine?: EngineType): Promise<GraphSummary[]> => {
     const params: Record<string, string> = {};
@@ -178,11 +368,44 @@ export const graphApi = {
     return response.data;
   },
 
+  // Lister une page de graphes triés (cursor : nextCursor de la page précédente)
+  listGraphsPage: async (
+    query: GraphListQuery & { limit: number; cursor?: string | null },
+    database?: string,
+    engine?: EngineType,
+  ): Promise<GraphListPage> => {
+    const params: Record<string, string> = {
+      sort: query.sort,
+      order: query.order,
+      limit: String(query.limit),
+    };
+    if (query.tag) params.tag = query.tag;
+    if (query.cursor) params.cursor = query.cursor;
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.get<GraphSummary[]>('/graphs', { params });
+    return {
+      graphs: response.data,
+      total: Number(response.headers['x-total-count'] ?? response.data.length),
+      nextCursor: response.headers['x-next-cursor'] ?? null,
+    };
+  },
+
   // Obtenir un graphe (avec mesures de performance)
   getGraph: async (
     id: string,
     database?: string,
-    options?: { nocache?: boolean; nocompress?: boolean; engine?: EngineType }
+    options?: {
+      nocache?: boolean;
+      nocompress?: boolean;
+      engine?: EngineType;
+      /** Encodage négocié (Accept) : JSON par défaut, ou binaire colonnaire */
+      format?: 'json' | 'binary';
+      /** Chargement progressif en NDJSON (gros graphes) : appelé à chaque page reçue */
+      onProgress?: (progress: GraphStreamProgress) => void;
+      /** Envoyer If-None-Match si le graphe est déjà en cache client (défaut : true) */
+      revalidate?: boolean;
+    }
   ): Promise<GraphLoadResult> => {
     const params: Record<string, string> = {};
     if (database) params.database = database;
@@ -190,21 +413,57 @@ export const graphApi = {
     if (options?.nocompress) params.nocompress = 'true';
     if (options?.engine) params.engine = options.engine;
 
+    if (options?.onProgress) {
+      return streamGraph(id, params, options.onProgress);
+    }
+
+    const binary = options?.format === 'binary';
+    const cacheKey = [binary ? 'binary' : 'json', options?.engine ?? '', database ?? '', id].join('|');
+    const cached = options?.revalidate === false ? undefined : graphResponseCache.get(cacheKey);
+    const headers: Record<string, string> = { Accept: binary ? GRAPH_BINARY_MIME : 'application/json' };
+    if (cached) headers['If-None-Match'] = cached.etag;
+
     const t0 = performance.now();
-    const response = await api.get<GraphData>(`/graphs/${id}`, { params });
+    // Réponse brute, décodée ci-dessous pour mesurer le temps de décodage
+    const response = await api.get<ArrayBuffer | string>(`/graphs/${id}`, {
+      params,
+      headers,
+      responseType: binary ? 'arraybuffer' : 'text',
+      transformResponse: (raw) => raw,
+      validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && !!cached),
+    });
+    const notModified = response.status === 304;
+    const body = notModified ? cached!.body : response.data;
+    const etag: string | undefined = response.headers['etag'] ?? cached?.etag;
+    const rawLengthStr: string | undefined = notModified
+      ? cached!.rawLength
+      : response.headers['x-content-length-raw'] || response.headers['X-Content-Length-Raw'];
+    graphResponseCache.delete(cacheKey);
+    if (etag) {
+      graphResponseCache.set(cacheKey, { etag, body, rawLength: rawLengthStr });
+      if (graphResponseCache.size > GRAPH_RESPONSE_CACHE_SIZE) {
+        graphResponseCache.delete(graphResponseCache.keys().next().value!);
+      }
+    }
+
+    const t1 = performance.now();
+    const data: GraphData = binary
+      ? decodeGraphBinary(body as ArrayBuffer)
+      : JSON.parse(body as string);
+    const decodeMs = Math.round((performance.now() - t1) * 100) / 100;
     const timeMs = Math.round(performance.now() - t0);
 
     const cacheHeader = response.headers['x-cache'] || response.headers['X-Cache'];
     const responseTimeHeader = response.headers['x-response-time'] || response.headers['X-Response-Time'] || null;
-    const contentLengthStr = response.headers['content-length'];
+    // 304 sans corps : rien de transféré, taille brute de la réponse mise en cache
+    const contentLengthStr = notModified ? undefined : response.headers['content-length'];
     const contentLength = contentLengthStr ? parseInt(contentLengthStr, 10) : null;
-    const rawLengthStr = response.headers['x-content-length-raw'] || response.headers['X-Content-Length-Raw'];
     const rawContentLength = rawLengthStr ? parseInt(rawLengthStr, 10) : null;
     const parallelQueries = (response.headers['x-parallel-queries'] || response.headers['X-Parallel-Queries']) === 'true';
     const engineHeader = response.headers['x-engine'] || response.headers['X-Engine'] || 'unknown';
 
     return {
-      data: response.data,
+      data,
       timeMs,
       cacheStatus: (cacheHeader as GraphLoadResult['cacheStatus']) ?? 'unknown',
       responseTimeHeader,
@@ -212,6 +471,10 @@ export const graphApi = {
       rawContentLength,
       parallelQueries,
       engine: engineHeader,
+      format: binary ? 'binary' : 'json',
+      decodeMs,
+      etag,
+      notModified,
     };
   },
 
@@ -267,17 +530,20 @@ export const graphApi = {
     return response.data;
   },
 
-  // Exécuter une requête brute (SQL pour MSSQL, Cypher pour Neo4j/Memgraph)
+  // Exécuter une requête brute (SQL pour MSSQL/SQLite, Cypher pour Neo4j/Memgraph, AQL pour ArangoDB)
   executeQuery: async (
     query: string,
     database?: string,
     engine?: EngineType,
+    options: RawQueryOptions = {},
   ): Promise<RawQueryResult> => {
     const params: Record<string, string> = {};
     if (database) params.database = database;
     if (engine) params.engine = engine;
+    const { queryId, ...body } = options;
+    const headers = queryId ? { 'X-Query-Id': queryId } : undefined;
     try {
-      const response = await api.post<RawQueryResult>('/query', { query }, { params });
+      const response = await api.post<RawQueryResult>('/query', { query, ...body }, { params, headers });
       return response.data;
     } catch (err: any) {
       const errData = err?.response?.data;
@@ -291,6 +557,17 @@ export const graphApi = {
     }
   },
 
+  // Requêtes, algorithmes et benchmarks en cours (tous moteurs)
+  listRunningQueries: async (): Promise<RunningQuery[]> => {
+    const response = await api.get<{ queries: RunningQuery[] }>('/queries/running');
+    return response.data.queries;
+  },
+
+  // Annuler une exécution en cours — la requête annulée répond 409 "Query cancelled"
+  cancelQuery: async (queryId: string): Promise<void> => {
+    await api.delete(`/queries/${encodeURIComponent(queryId)}`);
+  },
+
   // Benchmark SQL vs Cache vs JSON
   benchmarkGraph: async (
     graphId: string,
@@ -304,6 +581,102 @@ export const graphApi = {
     const response = await api.get<BenchmarkResult>(`/graphs/${graphId}/benchmark`, { params });
     return response.data;
   },
+
+  // Versions d'un graphe (la plus récente en premier)
+  listVersions: async (graphId: string, database?: string, engine?: EngineType): Promise<GraphVersion[]> => {
+    const params: Record<string, string> = {};
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.get<GraphVersion[]>(`/graphs/${graphId}/versions`, { params });
+    return response.data;
+  },
+
+  // Contenu complet d'une version
+  getVersion: async (
+    graphId: string,
+    version: number,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<GraphVersionData> => {
+    const params: Record<string, string> = {};
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.get<GraphVersionData>(`/graphs/${graphId}/versions/${version}`, { params });
+    return response.data;
+  },
+
+  // Restaurer une version (crée une nouvelle version "rollback:vN")
+  rollbackVersion: async (
+    graphId: string,
+    version: number,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<GraphVersion> => {
+    const params: Record<string, string> = {};
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.post<GraphVersion>(`/graphs/${graphId}/versions/${version}/rollback`, null, { params });
+    return response.data;
+  },
+
+  // Diff structurel avec un autre graphe (id) ou une version du même graphe ("3" / "v3")
+  diffGraph: async (
+    graphId: string,
+    against: string,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<GraphDiff> => {
+    const params: Record<string, string> = { against };
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.get<GraphDiff>(`/graphs/${graphId}/diff`, { params });
+    return response.data;
+  },
+
+  /** Copie un graphe vers un autre moteur / une autre database (progression via WS graph:copy) */
+  copyGraph: async (
+    graphId: string,
+    target: { targetEngine?: EngineType; targetDatabase?: string },
+    database?: string,
+    engine?: EngineType,
+  ): Promise<GraphCopyResponse> => {
+    const params: Record<string, string> = {};
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.post<GraphCopyResponse>(`/graphs/${graphId}/copy`, target, { params });
+    return response.data;
+  },
+
+  // Recherche de nœuds (node_id, label, nom, nDeCI, categorie) dans un graphe
+  searchGraph: async (
+    graphId: string,
+    q: string,
+    limit?: number,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<SearchResponse> => {
+    const params: Record<string, string> = { q };
+    if (limit) params.limit = String(limit);
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.get<SearchResponse>(`/graphs/${graphId}/search`, { params });
+    return response.data;
+  },
+
+  // Recherche de nœuds dans tous les graphes de la database
+  searchAll: async (
+    q: string,
+    limit?: number,
+    database?: string,
+    engine?: EngineType,
+  ): Promise<SearchResponse> => {
+    const params: Record<string, string> = { q };
+    if (limit) params.limit = String(limit);
+    if (database) params.database = database;
+    if (engine) params.engine = engine;
+    const response = await api.get<SearchResponse>('/search', { params });
+    return response.data;
+  },
 };
 
 export const cmdbApi = {
@@ -0,0 +1,266 @@
+import { GraphEdge, GraphNode } from '../types/graph';
+
+/** Fichier CSV lu : en-têtes et lignes (cellules brutes) */
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  // Ligne du fichier où commence chaque enregistrement (une cellule peut couvrir plusieurs lignes)
+  lines: number[];
+  delimiter: string;
+}
+
+/** Type déduit d'une colonne de propriétés */
+export type CsvColumnType = 'number' | 'boolean' | 'date' | 'string';
+
+/** Colonnes choisies pour les champs du graphe ('' = non mappé) */
+export interface CsvMapping {
+  id: string;
+  label: string;
+  node_type: string;
+  source: string;
+  target: string;
+  edge_type: string;
+}
+
+/** Arête dont une extrémité ne correspond à aucun nœud (line = ligne du fichier) */
+export interface DanglingEdge {
+  line: number;
+  source: string;
+  target: string;
+  missing: string[];
+}
+
+export interface CsvGraphPreview {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  nodeColumns: Array<{ name: string; type: CsvColumnType }>;
+  edgeColumns: Array<{ name: string; type: CsvColumnType }>;
+  dangling: DanglingEdge[];
+  // Erreurs bloquantes : id manquant ou en double, source / target vides
+  errors: string[];
+}
+
+/** node_type / edge_type quand la colonne n'est pas mappée ou la cellule vide */
+export const DEFAULT_CSV_TYPE = 'default';
+
+// Noms de colonnes reconnus pour le mapping initial (comparés en minuscules)
+const MAPPING_GUESSES: Record<keyof CsvMapping, string[]> = {
+  id: ['id', 'node_id', 'identifiant', 'key'],
+  label: ['label', 'name', 'nom', 'libelle', 'libellé', 'title'],
+  node_type: ['node_type', 'type', 'categorie', 'catégorie', 'category'],
+  source: ['source', 'from', 'src', 'origine', 'source_id'],
+  target: ['target', 'to', 'dst', 'destination', 'cible', 'target_id'],
+  edge_type: ['edge_type', 'type', 'relation', 'kind'],
+};
+
+// Erreurs listées au plus (les suivantes sont comptées)
+const MAX_ERRORS = 20;
+
+/**
+ * Parse un CSV (RFC 4180 : guillemets doublés, retours à la ligne entre guillemets).
+ * Séparateur détecté sur la première ligne parmi , ; et tabulation (exports Excel FR en ;).
+ */
+export function parseCsv(text: string): CsvTable {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const records: Array<{ cells: string[]; line: number }> = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (quoted) {
+      if (c === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && content[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      cell = '';
+      recordLine = ++line;
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) throw new Error('CSV invalide : guillemet non fermé');
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push({ cells: record, line: recordLine });
+  }
+
+  // Lignes vides ignorées (fin de fichier, séparations)
+  const nonEmpty = records.filter((r) => r.cells.some((v) => v.trim() !== ''));
+  if (nonEmpty.length === 0) throw new Error('CSV vide');
+  const [headers, ...rows] = nonEmpty;
+  return {
+    headers: headers.cells.map((h) => h.trim()),
+    rows: rows.map((r) => r.cells),
+    lines: rows.map((r) => r.line),
+    delimiter,
+  };
+}
+
+/** Mapping initial d'après les noms de colonnes */
+export function guessMapping(nodes: CsvTable | null, edges: CsvTable | null): CsvMapping {
+  const find = (table: CsvTable | null, field: keyof CsvMapping) =>
+    table?.headers.find((h) => MAPPING_GUESSES[field].includes(h.toLowerCase())) ?? '';
+  return {
+    id: find(nodes, 'id') || nodes?.headers[0] || '',
+    label: find(nodes, 'label'),
+    node_type: find(nodes, 'node_type'),
+    source: find(edges, 'source') || edges?.headers[0] || '',
+    target: find(edges, 'target') || edges?.headers[1] || '',
+    edge_type: find(edges, 'edge_type'),
+  };
+}
+
+const NUMBER = /^[-+]?(\d+(\.\d+)?|\.\d+)([eE][-+]?\d+)?$/;
+const COMMA_DECIMAL = /^[-+]?\d+,\d+$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const FR_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const BOOLEANS: Record<string, boolean> = { true: true, false: false, vrai: true, faux: false };
+
+/**
+ * Valeur typée d'une cellule, ou undefined si elle ne convient pas au type.
+ * Nombres : pas de zéro non significatif ("007", codes postaux restent des chaînes) ;
+ * virgule décimale admise hors CSV séparé par des virgules. Dates → ISO 8601 (jj/mm/aaaa accepté).
+ */
+function convert(raw: string, type: CsvColumnType, delimiter: string): unknown {
+  switch (type) {
+    case 'number': {
+      const text = delimiter !== ',' && COMMA_DECIMAL.test(raw) ? raw.replace(',', '.') : raw;
+      if (!NUMBER.test(text) || /^[-+]?0\d/.test(text)) return undefined;
+      return Number(text);
+    }
+    case 'boolean':
+      return BOOLEANS[raw.toLowerCase()];
+    case 'date': {
+      const fr = FR_DATE.exec(raw);
+      const iso = fr ? `${fr[3]}-${fr[2].padStart(2, '0')}-${fr[1].padStart(2, '0')}` : ISO_DATE.test(raw) ? raw : null;
+      if (!iso || Number.isNaN(Date.parse(iso.replace(' ', 'T')))) return undefined;
+      // Date seule gardée telle quelle ; date + heure normalisée en UTC
+      return iso.length === 10 ? iso : new Date(iso.replace(' ', 'T')).toISOString();
+    }
+    default:
+      return raw;
+  }
+}
+
+/** Type d'une colonne : le premier de number, boolean, date qui convient à toutes les cellules non vides */
+function columnType(table: CsvTable, index: number): CsvColumnType {
+  const values = table.rows.map((r) => (r[index] ?? '').trim()).filter((v) => v !== '');
+  if (values.length === 0) return 'string';
+  for (const type of ['number', 'boolean', 'date'] as const) {
+    if (values.every((v) => convert(v, type, table.delimiter) !== undefined)) return type;
+  }
+  return 'string';
+}
+
+/** Colonnes non mappées → properties typées */
+function propertyColumns(table: CsvTable, mapped: string[]) {
+  return table.headers
+    .map((name, index) => ({ name, index }))
+    .filter((c) => c.name !== '' && !mapped.includes(c.name))
+    .map((c) => ({ ...c, type: columnType(table, c.index) }));
+}
+
+function properties(row: string[], columns: Array<{ name: string; index: number; type: CsvColumnType }>, delimiter: string) {
+  const props: Record<string, any> = {};
+  for (const c of columns) {
+    const raw = (row[c.index] ?? '').trim();
+    if (raw !== '') props[c.name] = convert(raw, c.type, delimiter);
+  }
+  return props;
+}
+
+/**
+ * Nœuds et arêtes des deux fichiers selon le mapping, avec le contrôle avant création :
+ * ids manquants ou en double (bloquant) et arêtes dont une extrémité n'existe pas.
+ */
+export function buildCsvGraph(nodesTable: CsvTable, edgesTable: CsvTable | null, mapping: CsvMapping): CsvGraphPreview {
+  const errors: string[] = [];
+  const fail = (message: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(message);
+  };
+  const col = (table: CsvTable, name: string) => (name ? table.headers.indexOf(name) : -1);
+
+  const idCol = col(nodesTable, mapping.id);
+  if (idCol < 0) throw new Error('Choisir la colonne id du fichier des nœuds');
+  const labelCol = col(nodesTable, mapping.label);
+  const nodeTypeCol = col(nodesTable, mapping.node_type);
+  const nodeColumns = propertyColumns(nodesTable, [mapping.id, mapping.label, mapping.node_type]);
+
+  const nodes: GraphNode[] = [];
+  const ids = new Set<string>();
+  nodesTable.rows.forEach((row, i) => {
+    const id = (row[idCol] ?? '').trim();
+    if (!id) return fail(`Nœuds, ligne ${nodesTable.lines[i]} : id vide`);
+    if (ids.has(id)) return fail(`Nœuds, ligne ${nodesTable.lines[i]} : id '${id}' en double`);
+    ids.add(id);
+    nodes.push({
+      id,
+      label: (labelCol >= 0 && row[labelCol]?.trim()) || id,
+      node_type: (nodeTypeCol >= 0 && row[nodeTypeCol]?.trim()) || DEFAULT_CSV_TYPE,
+      properties: properties(row, nodeColumns, nodesTable.delimiter),
+    });
+  });
+
+  const edges: GraphEdge[] = [];
+  const dangling: DanglingEdge[] = [];
+  let edgeColumns: CsvGraphPreview['edgeColumns'] = [];
+  if (edgesTable) {
+    const sourceCol = col(edgesTable, mapping.source);
+    const targetCol = col(edgesTable, mapping.target);
+    if (sourceCol < 0 || targetCol < 0) throw new Error('Choisir les colonnes source et target du fichier des arêtes');
+    const edgeTypeCol = col(edgesTable, mapping.edge_type);
+    const columns = propertyColumns(edgesTable, [mapping.source, mapping.target, mapping.edge_type]);
+    edgeColumns = columns;
+
+    edgesTable.rows.forEach((row, i) => {
+      const source = (row[sourceCol] ?? '').trim();
+      const target = (row[targetCol] ?? '').trim();
+      if (!source || !target) return fail(`Arêtes, ligne ${edgesTable.lines[i]} : source ou target vide`);
+      const missing = [source, target].filter((id, k) => !ids.has(id) && (k === 0 || id !== source));
+      if (missing.length > 0) {
+        dangling.push({ line: edgesTable.lines[i], source, target, missing });
+        return;
+      }
+      edges.push({
+        source,
+        target,
+        edge_type: (edgeTypeCol >= 0 && row[edgeTypeCol]?.trim()) || DEFAULT_CSV_TYPE,
+        properties: properties(row, columns, edgesTable.delimiter),
+      });
+    });
+  }
+
+  const rejected = nodesTable.rows.length + (edgesTable?.rows.length ?? 0) - nodes.length - edges.length - dangling.length;
+  if (rejected > errors.length) errors.push(`… ${rejected - errors.length} autre(s) ligne(s) rejetée(s)`);
+
+  return {
+    nodes,
+    edges,
+    nodeColumns: nodeColumns.map(({ name, type }) => ({ name, type })),
+    edgeColumns: edgeColumns.map(({ name, type }) => ({ name, type })),
+    dangling,
+    errors,
+  };
+}
@@ -0,0 +1,88 @@
+import { GraphData, GraphEdge, GraphNode } from '../types/graph';
+
+/** Type MIME de l'encodage binaire colonnaire (GraphBinaryCodec côté backend) */
+export const GRAPH_BINARY_MIME = 'application/vnd.graph.columnar';
+
+/**
+ * Décode la réponse binaire de GET /graphs/:id (Accept: application/vnd.graph.columnar).
+ *
+ * Format : "GRC1", table des chaînes internées, nodeCount, edgeCount, puis les colonnes
+ * nœuds (id, label, node_type, properties) et arêtes (source, target, edge_type, label, id,
+ * properties), toutes en varint. Voir GraphBinaryCodec.ts pour le détail.
+ */
+export function decodeGraphBinary(buffer: ArrayBuffer): GraphData {
+  const bytes = new Uint8Array(buffer);
+  let pos = 0;
+
+  const varint = (): number => {
+    let value = 0;
+    let factor = 1;
+    for (;;) {
+      const b = bytes[pos++];
+      if (b === undefined) throw new Error('Truncated graph binary payload');
+      value += (b & 0x7f) * factor;
+      if (b < 0x80) return value;
+      factor *= 128;
+    }
+  };
+  const column = (count: number): number[] => {
+    const values = new Array<number>(count);
+    for (let i = 0; i < count; i++) values[i] = varint();
+    return values;
+  };
+
+  if (String.fromCharCode(...bytes.subarray(0, 4)) !== 'GRC1') {
+    throw new Error('Invalid graph binary payload');
+  }
+  pos = 4;
+
+  const decoder = new TextDecoder();
+  const strings = new Array<string>(varint());
+  for (let i = 0; i < strings.length; i++) {
+    const length = varint();
+    strings[i] = decoder.decode(bytes.subarray(pos, pos + length));
+    pos += length;
+  }
+  // Les propriétés sont internées : un seul JSON.parse par valeur distincte
+  const parsed = new Map<number, Record<string, any>>();
+  const properties = (index: number) => {
+    let value = parsed.get(index);
+    if (!value) {
+      value = JSON.parse(strings[index]) as Record<string, any>;
+      parsed.set(index, value);
+    }
+    return { ...value };
+  };
+
+  const nodeCount = varint();
+  const edgeCount = varint();
+  const [ids, labels, nodeTypes, nodeProps] = [column(nodeCount), column(nodeCount), column(nodeCount), column(nodeCount)];
+  const [sources, targets, edgeTypes, edgeLabels, edgeIds, edgeProps] = [
+    column(edgeCount), column(edgeCount), column(edgeCount), column(edgeCount), column(edgeCount), column(edgeCount),
+  ];
+
+  const nodes: GraphNode[] = new Array(nodeCount);
+  for (let i = 0; i < nodeCount; i++) {
+    nodes[i] = {
+      id: strings[ids[i]],
+      label: strings[labels[i]],
+      node_type: strings[nodeTypes[i]],
+      properties: properties(nodeProps[i]),
+    };
+  }
+
+  const endpoint = (v: number) => (v < nodeCount ? nodes[v].id : strings[v - nodeCount]);
+  const edges: GraphEdge[] = new Array(edgeCount);
+  for (let i = 0; i < edgeCount; i++) {
+    edges[i] = {
+      id: strings[edgeIds[i]],
+      source: endpoint(sources[i]),
+      target: endpoint(targets[i]),
+      label: edgeLabels[i] === 0 ? undefined : strings[edgeLabels[i] - 1],
+      edge_type: strings[edgeTypes[i]],
+      properties: properties(edgeProps[i]),
+    };
+  }
+
+  return { nodes, edges };
+}
@@ -1,4 +1,4 @@
-import { GraphNode, GraphEdge, ForceGraphData, ForceGraphNode, ForceGraphLink } from '../types/graph';
+import { GraphNode, GraphEdge, GraphData, GraphDiff, ForceGraphData, ForceGraphNode, ForceGraphLink } from '../types/graph';
 
 // Couleurs par type de nœud
 const NODE_COLORS: Record<string, string> = {
@@ -106,3 +106,48 @@ export function getEdgeColor(type: string): string {
 
 // Alias for compatibility
 export const getColorForType = getNodeColor;
+
+// ─── Diff de graphes ───
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#4CAF50',     // Vert
+  removed: '#F44336',   // Rouge
+  changed: '#FF9800',   // Orange
+  unchanged: '#9E9E9E', // Gris
+};
+
+export interface DiffView {
+  /** Graphe courant + nœuds/arêtes supprimés (pour les afficher en rouge) */
+  data: GraphData;
+  nodeStatus: Map<string, DiffStatus>;
+  /** Clé `source->target`, comme le dédoublonnage des arêtes des viewers */
+  edgeStatus: Map<string, DiffStatus>;
+}
+
+export function buildDiffView(current: GraphData, diff: GraphDiff): DiffView {
+  const nodeStatus = new Map<string, DiffStatus>();
+  const edgeStatus = new Map<string, DiffStatus>();
+
+  current.nodes.forEach((n) => nodeStatus.set(n.id, 'unchanged'));
+  diff.nodes.added.forEach((n) => nodeStatus.set(n.id, 'added'));
+  diff.nodes.changed.forEach((c) => nodeStatus.set(c.id, 'changed'));
+  diff.nodes.removed.forEach((n) => nodeStatus.set(n.id, 'removed'));
+
+  current.edges.forEach((e) => edgeStatus.set(`${e.source}->${e.target}`, 'unchanged'));
+  diff.edges.added.forEach((e) => edgeStatus.set(`${e.source}->${e.target}`, 'added'));
+  diff.edges.removed.forEach((e) => {
+    const key = `${e.source}->${e.target}`;
+    if (!edgeStatus.has(key)) edgeStatus.set(key, 'removed');
+  });
+
+  return {
+    data: {
+      nodes: [...current.nodes, ...diff.nodes.removed],
+      edges: [...current.edges, ...diff.edges.removed],
+    },
+    nodeStatus,
+    edgeStatus,
+  };
+}
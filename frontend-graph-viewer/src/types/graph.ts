@@ -26,6 +26,92 @@ export interface GraphSummary {
   graph_type: string;
   node_count: number;
   edge_count: number;
+  created_at: string;
+  tags: string[];
+  // Dossier "a/b/c", null = racine
+  folder: string | null;
+}
+
+export type GraphListSort = 'created_at' | 'node_count' | 'title';
+
+// Tri et filtre de GET /graphs (paramètres de requête)
+export interface GraphListQuery {
+  sort: GraphListSort;
+  order: 'asc' | 'desc';
+  tag?: string;
+}
+
+// Corps de PATCH /graphs/:id : champs absents conservés
+export interface GraphMetadataUpdate {
+  title?: string;
+  description?: string;
+  graph_type?: string;
+  tags?: string[];
+  folder?: string | null;
+}
+
+export interface GraphVersion {
+  graph_id: string;
+  version: number;
+  created_at: string;
+  change: string;
+  node_count: number;
+  edge_count: number;
+}
+
+export interface GraphVersionData extends GraphVersion {
+  data: GraphData;
+}
+
+export interface GraphNodeChange {
+  id: string;
+  fields: Array<'label' | 'node_type' | 'properties'>;
+  before: GraphNode;
+  after: GraphNode;
+}
+
+// Différence `against` → graphe courant (GET /graphs/:id/diff)
+export interface GraphDiff {
+  graph_id: string;
+  against: { graph_id: string; version?: number };
+  nodes: { added: GraphNode[]; removed: GraphNode[]; changed: GraphNodeChange[] };
+  edges: { added: GraphEdge[]; removed: GraphEdge[] };
+  summary: {
+    nodes_added: number;
+    nodes_removed: number;
+    nodes_changed: number;
+    nodes_unchanged: number;
+    edges_added: number;
+    edges_removed: number;
+  };
+}
+
+// Résultat de POST /graphs/:id/copy
+export interface GraphCopyResponse {
+  graphId: string;
+  sourceEngine: string;
+  sourceDatabase?: string;
+  targetEngine: string;
+  targetDatabase?: string;
+  graph: GraphSummary;
+  nodes: number;
+  edges: number;
+  skippedEdges: number;
+  elapsed_ms: number;
+}
+
+// Résultat de GET /graphs/:id/search et GET /search (score propre au moteur, pour l'ordre uniquement)
+export interface SearchHit {
+  graph_id: string;
+  node: GraphNode;
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  hits: SearchHit[];
+  elapsed_ms: number;
+  engine: string;
 }
 
 export interface GraphStats {
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCsvGraph, guessMapping, parseCsv } from '../src/services/csvImport';
+
+describe('parseCsv', () => {
+  it('reads quoted cells, doubled quotes and multi-line cells with their start line', () => {
+    const table = parseCsv('\uFEFFid,label\r\na,"Serveur ""A"""\r\nb,"deux\nlignes"\nc,C\n\n');
+    assert.equal(table.delimiter, ',');
+    assert.deepEqual(table.headers, ['id', 'label']);
+    assert.deepEqual(table.rows, [['a', 'Serveur "A"'], ['b', 'deux\nlignes'], ['c', 'C']]);
+    assert.deepEqual(table.lines, [2, 3, 5]);
+  });
+
+  it('detects ; and tab delimiters', () => {
+    assert.equal(parseCsv('id;nom\n1;a').delimiter, ';');
+    assert.equal(parseCsv('id\tnom\n1\ta').delimiter, '\t');
+  });
+
+  it('rejects empty files and unclosed quotes', () => {
+    assert.throws(() => parseCsv('\n\n'), /CSV vide/);
+    assert.throws(() => parseCsv('id\n"a'), /guillemet non fermé/);
+  });
+});
+
+describe('buildCsvGraph', () => {
+  const nodes = parseCsv([
+    'ID;Nom;Type;cout;actif;mise_en_service;code',
+    'srv1;Serveur 1;server;12,5;vrai;03/01/2024;007',
+    'srv2;Serveur 2;server;8;faux;2024-02-10;042',
+    'db;;database;;;;',
+  ].join('\n'));
+  const edges = parseCsv('from;to;kind;poids\nsrv1;db;uses;1\nsrv2;db;;2\nsrv2;ghost;uses;3');
+
+  it('guesses the mapping from header names', () => {
+    assert.deepEqual(guessMapping(nodes, edges), {
+      id: 'ID', label: 'Nom', node_type: 'Type', source: 'from', target: 'to', edge_type: 'kind',
+    });
+  });
+
+  it('types property columns and reports dangling edges', () => {
+    const graph = buildCsvGraph(nodes, edges, guessMapping(nodes, edges));
+    assert.deepEqual(graph.nodeColumns, [
+      { name: 'cout', type: 'number' },
+      { name: 'actif', type: 'boolean' },
+      { name: 'mise_en_service', type: 'date' },
+      { name: 'code', type: 'string' },
+    ]);
+    assert.deepEqual(graph.nodes, [
+      { id: 'srv1', label: 'Serveur 1', node_type: 'server', properties: { cout: 12.5, actif: true, mise_en_service: '2024-01-03', code: '007' } },
+      { id: 'srv2', label: 'Serveur 2', node_type: 'server', properties: { cout: 8, actif: false, mise_en_service: '2024-02-10', code: '042' } },
+      { id: 'db', label: 'db', node_type: 'database', properties: {} },
+    ]);
+    assert.deepEqual(graph.edges, [
+      { source: 'srv1', target: 'db', edge_type: 'uses', properties: { poids: 1 } },
+      { source: 'srv2', target: 'db', edge_type: 'default', properties: { poids: 2 } },
+    ]);
+    assert.deepEqual(graph.dangling, [{ line: 4, source: 'srv2', target: 'ghost', missing: ['ghost'] }]);
+    assert.deepEqual(graph.errors, []);
+  });
+
+  it('lists empty and duplicate ids as blocking errors', () => {
+    const table = parseCsv('id,label\na,A\n,B\na,C');
+    const graph = buildCsvGraph(table, null, guessMapping(table, null));
+    assert.deepEqual(graph.errors, ['Nœuds, ligne 3 : id vide', "Nœuds, ligne 4 : id 'a' en double"]);
+    assert.equal(graph.nodes.length, 1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphBinaryCodec } from '../../backend-nodejs/src/services/GraphBinaryCodec';
+import { decodeGraphBinary } from '../src/services/graphBinary';
+import { GraphData } from '../src/types/graph';
+
+// Le décodeur reçoit l'ArrayBuffer de fetch : copie exacte des octets encodés côté backend
+const arrayBuffer = (bytes: Uint8Array): ArrayBuffer => new Uint8Array(bytes).buffer;
+const roundTrip = (data: GraphData): GraphData => decodeGraphBinary(arrayBuffer(GraphBinaryCodec.encode(data)));
+
+describe('decodeGraphBinary(GraphBinaryCodec.encode(...))', () => {
+  it('round-trips an empty graph', () => {
+    assert.deepEqual(roundTrip({ nodes: [], edges: [] }), { nodes: [], edges: [] });
+  });
+
+  it('keeps unicode ids, labels and types', () => {
+    const data: GraphData = {
+      nodes: [
+        { id: 'serveur-é', label: 'Bâtiment « Nord »', node_type: 'bâtiment', properties: {} },
+        { id: '节点🚀', label: '日本語', node_type: 'ノード', properties: { nom: 'ünïcödé' } },
+      ],
+      edges: [{ id: '1', source: 'serveur-é', target: '节点🚀', label: 'relié à', edge_type: 'lien→', properties: {} }],
+    };
+    assert.deepEqual(roundTrip(data), data);
+  });
+
+  it('leaves the label undefined on edges without one', () => {
+    const data: GraphData = {
+      nodes: [
+        { id: 'a', label: 'A', node_type: 't', properties: {} },
+        { id: 'b', label: 'B', node_type: 't', properties: {} },
+      ],
+      edges: [
+        { id: '1', source: 'a', target: 'b', edge_type: 'next', properties: {} },
+        { id: '2', source: 'b', target: 'a', label: '', edge_type: 'next', properties: {} },
+      ],
+    };
+    const decoded = roundTrip(data);
+    assert.deepEqual(decoded.edges.map((e) => e.label), [undefined, undefined]);
+    assert.deepEqual(decoded.edges.map((e) => [e.id, e.source, e.target]), [['1', 'a', 'b'], ['2', 'b', 'a']]);
+  });
+
+  it('restores nested properties and gives each element its own copy', () => {
+    const properties = { cout: 1200.5, actif: true, vide: null, tags: ['a', 'b'], contact: { nom: 'X', tel: ['1', '2'] } };
+    const data: GraphData = {
+      nodes: [
+        { id: 'a', label: 'A', node_type: 't', properties },
+        { id: 'b', label: 'B', node_type: 't', properties },
+      ],
+      edges: [{ id: '1', source: 'a', target: 'b', label: 'poids', edge_type: 'next', properties: { poids: { valeur: 3 } } }],
+    };
+    const decoded = roundTrip(data);
+    assert.deepEqual(decoded, data);
+    decoded.nodes[0].properties.cout = 0;
+    assert.equal(decoded.nodes[1].properties.cout, 1200.5);
+  });
+
+  it('keeps endpoints missing from the nodes and large string tables', () => {
+    const nodes = Array.from({ length: 300 }, (_, i) => ({ id: `n${i}`, label: `N${i}`, node_type: 't', properties: {} }));
+    const data: GraphData = {
+      nodes,
+      edges: [
+        { id: '1', source: 'n299', target: 'absent', label: 'x', edge_type: 'next', properties: {} },
+        { id: '2', source: 'fantôme', target: 'n0', label: 'y', edge_type: 'next', properties: {} },
+      ],
+    };
+    assert.deepEqual(roundTrip(data), data);
+  });
+
+  it('rejects payloads with a wrong header or truncated', () => {
+    assert.throws(() => decodeGraphBinary(new TextEncoder().encode('JSON{}').buffer), /Invalid graph binary payload/);
+    const encoded = GraphBinaryCodec.encode({ nodes: [{ id: 'a', label: 'A', node_type: 't', properties: {} }], edges: [] });
+    assert.throws(() => decodeGraphBinary(arrayBuffer(encoded.subarray(0, encoded.length - 2))), /Truncated graph binary payload/);
+  });
+});